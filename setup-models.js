@@ -0,0 +1,138 @@
+const crypto = require("crypto")
+const fs = require("fs")
+const path = require("path")
+const ts = require("typescript")
+
+// The model list lives in the extension source, so compile that module
+// instead of keeping a copy here
+function loadModelConfig() {
+  const source = fs.readFileSync(
+    path.join(__dirname, "src", "config", "embedding-models.ts"),
+    "utf8"
+  )
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS }
+  })
+  const module = { exports: {} }
+  new Function("module", "exports", "require", outputText)(
+    module,
+    module.exports,
+    require
+  )
+  return module.exports
+}
+
+const { EMBEDDING_MODELS, EMBEDDING_MODEL_FILES: MODEL_FILES } =
+  loadModelConfig()
+const BUNDLED_MODELS = EMBEDDING_MODELS.map((model) => model.id)
+
+const args = process.argv.slice(2)
+const shouldDownload = args.includes("--download")
+const buildMode = args.find((arg) => !arg.startsWith("--")) || "prod"
+
+const MODELS_DIR = path.join(__dirname, "models")
+const BUILD_DIR = path.join(__dirname, "build", `chrome-mv3-${buildMode}`)
+const WASM_SOURCE_DIR = path.join(
+  __dirname,
+  "node_modules",
+  "@xenova",
+  "transformers",
+  "dist"
+)
+
+function sha256(filePath) {
+  return crypto
+    .createHash("sha256")
+    .update(fs.readFileSync(filePath))
+    .digest("hex")
+}
+
+async function downloadFile(modelId, file, destination) {
+  const url = `https://huggingface.co/${modelId}/resolve/main/${file}`
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`)
+  }
+
+  fs.mkdirSync(path.dirname(destination), { recursive: true })
+  fs.writeFileSync(destination, Buffer.from(await response.arrayBuffer()))
+}
+
+async function main() {
+  console.log(`📦 Setting up bundled embedding models for ${buildMode}...`)
+
+  const manifest = {}
+
+  for (const modelId of BUNDLED_MODELS) {
+    const files = {}
+
+    for (const file of MODEL_FILES) {
+      const filePath = path.join(MODELS_DIR, modelId, file)
+
+      if (!fs.existsSync(filePath) && shouldDownload) {
+        console.log(`⬇️  Downloading ${modelId}/${file}`)
+        await downloadFile(modelId, file, filePath)
+      }
+
+      if (!fs.existsSync(filePath)) {
+        console.warn(`⚠️  Missing ${modelId}/${file}, skipping model`)
+        break
+      }
+
+      files[file] = {
+        sha256: sha256(filePath),
+        size: fs.statSync(filePath).size
+      }
+    }
+
+    if (Object.keys(files).length === MODEL_FILES.length) {
+      manifest[modelId] = files
+    }
+  }
+
+  fs.mkdirSync(MODELS_DIR, { recursive: true })
+  fs.writeFileSync(
+    path.join(MODELS_DIR, "manifest.json"),
+    JSON.stringify(manifest, null, 2)
+  )
+  console.log(
+    `✅ Wrote checksums for ${Object.keys(manifest).length} models to models/manifest.json`
+  )
+
+  if (!fs.existsSync(BUILD_DIR)) {
+    console.log(`ℹ️  ${BUILD_DIR} does not exist yet, not copying models`)
+    return
+  }
+
+  const buildModelsDir = path.join(BUILD_DIR, "models")
+  fs.rmSync(buildModelsDir, { recursive: true, force: true })
+  for (const modelId of Object.keys(manifest)) {
+    for (const file of MODEL_FILES) {
+      const destination = path.join(buildModelsDir, modelId, file)
+      fs.mkdirSync(path.dirname(destination), { recursive: true })
+      fs.copyFileSync(path.join(MODELS_DIR, modelId, file), destination)
+    }
+  }
+  fs.copyFileSync(
+    path.join(MODELS_DIR, "manifest.json"),
+    path.join(buildModelsDir, "manifest.json")
+  )
+  console.log("✅ Copied models into the extension package")
+
+  const buildWasmDir = path.join(BUILD_DIR, "wasm")
+  fs.mkdirSync(buildWasmDir, { recursive: true })
+  for (const file of fs.readdirSync(WASM_SOURCE_DIR)) {
+    if (file.endsWith(".wasm")) {
+      fs.copyFileSync(
+        path.join(WASM_SOURCE_DIR, file),
+        path.join(buildWasmDir, file)
+      )
+    }
+  }
+  console.log("✅ Copied ONNX runtime WebAssembly files")
+}
+
+main().catch((error) => {
+  console.error("❌ Model setup failed:", error.message)
+  process.exit(1)
+})
@@ -1,15 +1,64 @@
-import { generateEmbedding } from "~services/ai-service"
+import { generateNoteEmbedding } from "~services/ai-service"
+import { backfillNoteChunks, syncNoteChunks } from "~services/chunk-service"
 import * as dbService from "~services/db-service"
 import {
   addNote,
   getActivePersona,
   getAllPersonas,
+  getNote,
   getPersona,
   setActivePersona,
   updateNote
 } from "~services/db-service"
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
+import {
+  cancelKeyRotation,
+  getKeyRotationJobState,
+  resumeKeyRotation,
+  retryKeyRotation,
+  startKeyRotation
+} from "~services/key-rotation-service"
 import { getGlobalAgent } from "~services/langchain-agent"
-import { encrypt } from "~util/crypto"
+import {
+  cancelReembedJob,
+  getReembedJobState,
+  resumeReembedJob,
+  startReembedJob
+} from "~services/reembed-service"
+import { createRpcRouter } from "~services/rpc-router"
+import {
+  grantSensitiveAccess,
+  hasSensitiveAccess,
+  isInPageSender,
+  revokeSensitiveAccess
+} from "~services/sensitive-access"
+import {
+  cancelStorageModeJob,
+  getStorageModeJobState,
+  resumeStorageModeJob,
+  retryStorageModeJob,
+  setStorageMode
+} from "~services/storage-mode-service"
+import { getVaultSettings, updateVaultSettings } from "~services/vault-settings"
+import {
+  rewriteLinksToRenamedNote,
+  syncNoteLinks
+} from "~services/wiki-link-service"
+import type { VaultStatus } from "~types/vault"
+import { extractAttachmentIds } from "~util/attachments"
+import {
+  changePassphrase,
+  disablePassphrase,
+  enablePassphrase,
+  encrypt,
+  isPassphraseEnabled,
+  isVaultUnlocked,
+  lockVault,
+  unlockVault
+} from "~util/crypto"
+import type { NoteColor } from "~util/note-colors"
+import { containsSensitiveContent } from "~util/sensitive-content"
+import { parseTipTapContent } from "~util/wiki-links"
 import { logger } from "~utils/logger"
 
 export {}
@@ -18,6 +67,20 @@ const sidePanelState = new Map<number, boolean>()
 
 let creatingOffscreen: Promise<void> | null = null
 
+const TRASH_PURGE_ALARM = "mindkeep_trash_purge"
+
+const ATTACHMENT_GC_ALARM = "mindkeep_attachment_gc"
+
+const REEMBED_ALARM = "mindkeep_reembed"
+
+const KEY_ROTATION_ALARM = "mindkeep_key_rotation"
+
+const STORAGE_MODE_ALARM = "mindkeep_storage_mode"
+
+const VECTOR_INDEX_ALARM = "mindkeep_vector_index"
+
+const CLIPBOARD_CLEAR_ALARM = "mindkeep_clipboard_clear"
+
 async function ensureOffscreenDocument() {
   const existingContexts = await chrome.runtime.getContexts({
     contextTypes: ["OFFSCREEN_DOCUMENT" as chrome.runtime.ContextType]
@@ -36,9 +99,9 @@ async function ensureOffscreenDocument() {
 
   creatingOffscreen = chrome.offscreen.createDocument({
     url: "offscreen/offscreen.html",
-    reasons: ["DOM_SCRAPING" as chrome.offscreen.Reason],
+    reasons: ["DOM_SCRAPING", "CLIPBOARD"] as chrome.offscreen.Reason[],
     justification:
-      "Provide shared IndexedDB access for database operations across extension contexts"
+      "Provide shared IndexedDB access for database operations across extension contexts, and clear copied secrets from the clipboard"
   })
 
   logger.log(" [Background] Creating offscreen document...")
@@ -49,11 +112,215 @@ async function ensureOffscreenDocument() {
   logger.log(" [Background] Offscreen document created successfully")
 }
 
+async function ensureTrashPurgeAlarm() {
+  const existingAlarm = await chrome.alarms.get(TRASH_PURGE_ALARM)
+
+  if (!existingAlarm) {
+    logger.log(" [Background] Scheduling trash purge alarm")
+    await chrome.alarms.create(TRASH_PURGE_ALARM, {
+      delayInMinutes: 1,
+      periodInMinutes: 60
+    })
+  }
+}
+
+async function ensureAttachmentGcAlarm() {
+  const existingAlarm = await chrome.alarms.get(ATTACHMENT_GC_ALARM)
+
+  if (!existingAlarm) {
+    logger.log(" [Background] Scheduling attachment cleanup alarm")
+    await chrome.alarms.create(ATTACHMENT_GC_ALARM, {
+      delayInMinutes: 5,
+      periodInMinutes: 24 * 60
+    })
+  }
+}
+
+async function ensureVectorIndexAlarm() {
+  const existingAlarm = await chrome.alarms.get(VECTOR_INDEX_ALARM)
+
+  if (!existingAlarm) {
+    logger.log(" [Background] Scheduling vector index refresh alarm")
+    await chrome.alarms.create(VECTOR_INDEX_ALARM, {
+      delayInMinutes: 1,
+      periodInMinutes: 30
+    })
+  }
+}
+
+async function ensureReembedAlarm() {
+  const job = await getReembedJobState()
+
+  if (job?.status !== "running") {
+    await chrome.alarms.clear(REEMBED_ALARM)
+    return
+  }
+
+  const existingAlarm = await chrome.alarms.get(REEMBED_ALARM)
+  if (!existingAlarm) {
+    logger.log(" [Background] Scheduling re-embedding watchdog alarm")
+    await chrome.alarms.create(REEMBED_ALARM, { periodInMinutes: 1 })
+  }
+}
+
+async function runReembedJob() {
+  await ensureReembedAlarm()
+  const job = await resumeReembedJob()
+  logger.log(` [Background] Re-embedding job is ${job?.status || "idle"}`)
+  await ensureReembedAlarm()
+}
+
+const MIN_IDLE_DETECTION_SECONDS = 15
+
+async function getVaultStatus(): Promise<VaultStatus> {
+  const [passphraseEnabled, unlocked, settings] = await Promise.all([
+    isPassphraseEnabled(),
+    isVaultUnlocked(),
+    getVaultSettings()
+  ])
+
+  return {
+    passphraseEnabled,
+    locked: !unlocked,
+    autoLockMinutes: settings.autoLockMinutes
+  }
+}
+
+async function applyVaultAutoLock() {
+  const { autoLockMinutes } = await getVaultSettings()
+  if (autoLockMinutes > 0) {
+    chrome.idle.setDetectionInterval(
+      Math.max(MIN_IDLE_DETECTION_SECONDS, autoLockMinutes * 60)
+    )
+  }
+}
+
+async function lockVaultAndForgetSession(reason: string) {
+  await lockVault()
+  await revokeSensitiveAccess()
+  await chrome.storage.session.remove(["ai_chat_messages", "ai_chat_metadata"])
+  logger.log(` [Background] Vault locked (${reason})`)
+}
+
+async function handleVaultRequest(
+  action: () => Promise<void>
+): Promise<{ success: boolean; status?: VaultStatus; error?: string }> {
+  try {
+    await action()
+    return { success: true, status: await getVaultStatus() }
+  } catch (error) {
+    logger.error(" [Background] Vault request failed:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+chrome.idle.onStateChanged.addListener(async (state) => {
+  if (state === "active") return
+
+  const { autoLockMinutes } = await getVaultSettings()
+  if (autoLockMinutes === 0 || !(await isPassphraseEnabled())) return
+
+  if (await isVaultUnlocked()) {
+    await lockVaultAndForgetSession(`system ${state}`)
+  }
+})
+
+async function ensureKeyRotationAlarm() {
+  const job = await getKeyRotationJobState()
+
+  if (job?.status !== "running") {
+    await chrome.alarms.clear(KEY_ROTATION_ALARM)
+    return
+  }
+
+  const existingAlarm = await chrome.alarms.get(KEY_ROTATION_ALARM)
+  if (!existingAlarm) {
+    logger.log(" [Background] Scheduling key rotation watchdog alarm")
+    await chrome.alarms.create(KEY_ROTATION_ALARM, { periodInMinutes: 1 })
+  }
+}
+
+async function runKeyRotationJob() {
+  await ensureKeyRotationAlarm()
+  const job = await resumeKeyRotation()
+  logger.log(` [Background] Key rotation job is ${job?.status || "idle"}`)
+  await ensureKeyRotationAlarm()
+}
+
+async function ensureStorageModeAlarm() {
+  const job = await getStorageModeJobState()
+
+  if (job?.status !== "running") {
+    await chrome.alarms.clear(STORAGE_MODE_ALARM)
+    return
+  }
+
+  const existingAlarm = await chrome.alarms.get(STORAGE_MODE_ALARM)
+  if (!existingAlarm) {
+    logger.log(" [Background] Scheduling storage mode watchdog alarm")
+    await chrome.alarms.create(STORAGE_MODE_ALARM, { periodInMinutes: 1 })
+  }
+}
+
+async function runStorageModeJob() {
+  await ensureStorageModeAlarm()
+  const job = await resumeStorageModeJob()
+  logger.log(` [Background] Storage mode job is ${job?.status || "idle"}`)
+  await ensureStorageModeAlarm()
+}
+
+// The side panel may be closed or unfocused by the time the clear is due,
+// so only the offscreen document can reliably write to the clipboard
+async function clearClipboardFromOffscreen() {
+  await ensureOffscreenDocument()
+  const response = await chrome.runtime.sendMessage({
+    type: "CLEAR_CLIPBOARD"
+  })
+  if (response?.success) {
+    logger.log(" [Background] Cleared copied value from the clipboard")
+  } else {
+    logger.warn(" [Background] Could not clear the clipboard")
+  }
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === TRASH_PURGE_ALARM) {
+    const purgedCount = await dbService.purgeExpiredTrash()
+    logger.log(` [Background] Trash purge removed ${purgedCount} notes`)
+  } else if (alarm.name === ATTACHMENT_GC_ALARM) {
+    const removedCount = await dbService.purgeOrphanedAttachments()
+    logger.log(
+      ` [Background] Attachment cleanup removed ${removedCount} orphans`
+    )
+  } else if (alarm.name === REEMBED_ALARM) {
+    await runReembedJob()
+  } else if (alarm.name === KEY_ROTATION_ALARM) {
+    await runKeyRotationJob()
+  } else if (alarm.name === STORAGE_MODE_ALARM) {
+    await runStorageModeJob()
+  } else if (alarm.name === VECTOR_INDEX_ALARM) {
+    await dbService.refreshVectorIndex()
+  } else if (alarm.name === CLIPBOARD_CLEAR_ALARM) {
+    await clearClipboardFromOffscreen()
+  }
+})
+
 chrome.runtime.onStartup.addListener(async () => {
   logger.log(
     " [Background] Extension startup - initializing offscreen document"
   )
   await ensureOffscreenDocument()
+  await ensureTrashPurgeAlarm()
+  await ensureAttachmentGcAlarm()
+  await ensureVectorIndexAlarm()
+  await applyVaultAutoLock()
+  backfillNoteChunks()
+  runReembedJob()
+  runKeyRotationJob()
+  runStorageModeJob()
 })
 
 chrome.action.onClicked.addListener(async (tab) => {
@@ -91,6 +358,14 @@ chrome.runtime.onInstalled.addListener(async () => {
   })
 
   await ensureOffscreenDocument()
+  await ensureTrashPurgeAlarm()
+  await ensureAttachmentGcAlarm()
+  await ensureVectorIndexAlarm()
+  await applyVaultAutoLock()
+  backfillNoteChunks()
+  runReembedJob()
+  runKeyRotationJob()
+  runStorageModeJob()
 })
 
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
@@ -132,130 +407,199 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   }
 })
 
+// Web pages only see sensitive notes after the passphrase is entered there
+const handleRpcMessage = createRpcRouter({
+  tag: "Background",
+  shouldHideSensitiveNotes: async (sender) =>
+    isInPageSender(sender) && !(await hasSensitiveAccess(sender.tab!.id!))
+})
+
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   logger.log(` [Background Listener] Received message type: ${message.type}`, {
     saveId: message.data?._debugSaveId || "N/A",
     timestamp: Date.now()
   })
   ;(async () => {
+    const rpcResult = await handleRpcMessage(message, sender)
+    if (rpcResult) return rpcResult
+
     try {
       switch (message.type) {
-        case "DB_SEARCH_BY_VECTOR": {
-          const { vector, limit } = message.payload
-          logger.log(` [Offscreen] Searching by vector (limit: ${limit})`)
-          const results = await dbService.searchNotesByVector(vector, limit)
-          logger.log(` [Offscreen] Found ${results.length} results`)
-          return { success: true, data: results }
+        case "START_REEMBED": {
+          const { modelId } = message.data
+          logger.log(` [Background] START_REEMBED request for ${modelId}`)
+          const job = await startReembedJob(modelId)
+          await ensureReembedAlarm()
+          return { success: true, job }
         }
 
-        case "DB_SEARCH_BY_TITLE": {
-          const { query } = message.payload
-          logger.log(` [Offscreen] Searching by title: "${query}"`)
-          const results = await dbService.searchNotesByTitle(query)
-          logger.log(` [Offscreen] Found ${results.length} results`)
-          return { success: true, data: results }
+        case "CANCEL_REEMBED": {
+          logger.log(" [Background] CANCEL_REEMBED request received")
+          const job = await cancelReembedJob()
+          await ensureReembedAlarm()
+          return { success: true, job }
         }
 
-        case "DB_GET_NOTE": {
-          const { id } = message.payload
-          logger.log(` [Offscreen] Getting note: ${id}`)
-          const note = await dbService.getNote(id)
-          return { success: true, data: note }
+        case "GET_REEMBED_STATUS": {
+          const job = await getReembedJobState()
+          return { success: true, job }
         }
 
-        case "DB_GET_ALL_NOTES": {
-          logger.log(" [Offscreen] Getting all notes")
-          const notes = await dbService.getAllNotes()
-          logger.log(` [Offscreen] Retrieved ${notes.length} notes`)
-          return { success: true, data: notes }
+        case "GET_VAULT_STATUS": {
+          const status = await getVaultStatus()
+          return { success: true, status }
         }
 
-        case "DB_ADD_NOTE": {
-          const { note } = message.payload
-          logger.log(` [Offscreen] Adding note: ${note.title}`)
-          const id = await dbService.addNote(note)
-          return { success: true, data: id }
+        case "UNLOCK_VAULT": {
+          logger.log(" [Background] UNLOCK_VAULT request received")
+          const result = await handleVaultRequest(() =>
+            unlockVault(message.data.passphrase)
+          )
+          if (result.success) {
+            backfillNoteChunks()
+            runReembedJob()
+            runKeyRotationJob()
+            runStorageModeJob()
+          }
+          return result
         }
 
-        case "DB_UPDATE_NOTE": {
-          const { note } = message.payload
-          logger.log(` [Offscreen] Updating note: ${note.id}`)
-          const { id, ...updates } = note
-          await dbService.updateNote(id, updates)
-          return { success: true }
+        case "GET_SENSITIVE_ACCESS": {
+          const [passphraseEnabled, granted] = await Promise.all([
+            isPassphraseEnabled(),
+            sender.tab?.id ? hasSensitiveAccess(sender.tab.id) : false
+          ])
+          return { success: true, passphraseEnabled, granted }
         }
 
-        case "DB_DELETE_NOTE": {
-          const { id } = message.payload
-          logger.log(` [Offscreen] Deleting note: ${id}`)
-          await dbService.deleteNote(id)
-          return { success: true }
+        case "UNLOCK_SENSITIVE_NOTES": {
+          if (!sender.tab?.id) {
+            throw new Error("Sensitive notes can only be unlocked from a tab")
+          }
+          logger.log(" [Background] UNLOCK_SENSITIVE_NOTES request received")
+          const expiresAt = await grantSensitiveAccess(
+            sender.tab.id,
+            message.data.passphrase
+          )
+          return { success: true, expiresAt }
         }
 
-        case "DB_GET_ALL_CATEGORIES": {
-          logger.log(" [Offscreen] Getting all categories")
-          const categories = await dbService.getAllCategories()
-          return { success: true, data: categories }
+        case "LOCK_VAULT": {
+          return await handleVaultRequest(() =>
+            lockVaultAndForgetSession("manual")
+          )
         }
 
-        case "DB_GET_PERSONA": {
-          const { id } = message.payload
-          logger.log(` [Offscreen] Getting persona: ${id}`)
-          const persona = await dbService.getPersona(id)
-          return { success: true, data: persona }
+        case "ENABLE_VAULT_PASSPHRASE": {
+          logger.log(" [Background] ENABLE_VAULT_PASSPHRASE request received")
+          return await handleVaultRequest(() =>
+            enablePassphrase(message.data.passphrase)
+          )
         }
 
-        case "DB_GET_ALL_PERSONAS": {
-          logger.log(" [Offscreen] Getting all personas")
-          const personas = await dbService.getAllPersonas()
-          return { success: true, data: personas }
+        case "CHANGE_VAULT_PASSPHRASE": {
+          logger.log(" [Background] CHANGE_VAULT_PASSPHRASE request received")
+          const { currentPassphrase, newPassphrase } = message.data
+          return await handleVaultRequest(() =>
+            changePassphrase(currentPassphrase, newPassphrase)
+          )
         }
 
-        case "DB_GET_ACTIVE_PERSONA": {
-          logger.log(" [Offscreen] Getting active persona")
-          const persona = await dbService.getActivePersona()
-          return { success: true, data: persona }
+        case "DISABLE_VAULT_PASSPHRASE": {
+          logger.log(" [Background] DISABLE_VAULT_PASSPHRASE request received")
+          return await handleVaultRequest(() =>
+            disablePassphrase(message.data.passphrase)
+          )
         }
 
-        case "DB_ADD_PERSONA": {
-          const { persona } = message.payload
-          logger.log(` [Offscreen] Adding persona: ${persona.name}`)
-          const id = await dbService.addPersona(persona)
-          return { success: true, data: id }
+        case "UPDATE_VAULT_SETTINGS": {
+          return await handleVaultRequest(async () => {
+            await updateVaultSettings(message.data)
+            await applyVaultAutoLock()
+          })
         }
 
-        case "DB_UPDATE_PERSONA": {
-          const { persona } = message.payload
-          logger.log(` [Offscreen] Updating persona: ${persona.id}`)
-          const { id, ...updates } = persona
-          await dbService.updatePersona(id, updates)
-          return { success: true }
+        case "START_KEY_ROTATION": {
+          logger.log(" [Background] START_KEY_ROTATION request received")
+          const job = await startKeyRotation()
+          await ensureKeyRotationAlarm()
+          return { success: true, job }
         }
 
-        case "DB_DELETE_PERSONA": {
-          const { id } = message.payload
-          logger.log(` [Offscreen] Deleting persona: ${id}`)
-          await dbService.deletePersona(id)
-          return { success: true }
+        case "RETRY_KEY_ROTATION": {
+          logger.log(" [Background] RETRY_KEY_ROTATION request received")
+          const job = await retryKeyRotation()
+          await ensureKeyRotationAlarm()
+          return { success: true, job }
         }
 
-        case "DB_SET_ACTIVE_PERSONA": {
-          const { id } = message.payload
-          logger.log(` [Offscreen] Setting active persona: ${id}`)
-          await dbService.setActivePersona(id)
+        case "CANCEL_KEY_ROTATION": {
+          logger.log(" [Background] CANCEL_KEY_ROTATION request received")
+          const job = await cancelKeyRotation()
+          await ensureKeyRotationAlarm()
+          return { success: true, job }
+        }
+
+        case "GET_KEY_ROTATION_STATUS": {
+          const job = await getKeyRotationJobState()
+          return { success: true, job }
+        }
+
+        case "SET_STORAGE_MODE": {
+          const { mode } = message.data
+          logger.log(` [Background] SET_STORAGE_MODE request for ${mode}`)
+          const job = await setStorageMode(mode)
+          await ensureStorageModeAlarm()
+          return { success: true, mode, job }
+        }
+
+        case "RETRY_STORAGE_MODE": {
+          logger.log(" [Background] RETRY_STORAGE_MODE request received")
+          const job = await retryStorageModeJob()
+          await ensureStorageModeAlarm()
+          return { success: true, mode: job.mode, job }
+        }
+
+        case "CANCEL_STORAGE_MODE": {
+          logger.log(" [Background] CANCEL_STORAGE_MODE request received")
+          const job = await cancelStorageModeJob()
+          await ensureStorageModeAlarm()
+          return {
+            success: true,
+            mode: (await getVaultSettings()).storageMode,
+            job
+          }
+        }
+
+        case "GET_STORAGE_MODE_STATUS": {
+          const [settings, job] = await Promise.all([
+            getVaultSettings(),
+            getStorageModeJobState()
+          ])
+          return { success: true, mode: settings.storageMode, job }
+        }
+
+        case "SCHEDULE_CLIPBOARD_CLEAR": {
+          const { delayMs } = message.data
+          // Replaces a pending clear, so the latest copy gets the full delay
+          await chrome.alarms.create(CLIPBOARD_CLEAR_ALARM, {
+            when: Date.now() + delayMs
+          })
           return { success: true }
         }
 
-        case "AI_GENERATE_EMBEDDING": {
-          const { text } = message.payload
-          logger.log(
-            ` [Offscreen] Generating embedding for text (${text.length} chars)`
-          )
-          const embedding = await generateEmbedding(text)
-          logger.log(
-            ` [Offscreen] Generated embedding (${embedding.length} dimensions)`
-          )
-          return { success: true, data: embedding }
+        case "BACKUP_RESTORED":
+        case "NOTES_IMPORTED":
+        case "MODEL_IMPORTED": {
+          logger.log(` [Background] ${message.type}, embedding new notes`)
+          const modelId = await getActiveEmbeddingModelId()
+          const job =
+            (await dbService.countNotesNeedingEmbedding(modelId)) > 0
+              ? await startReembedJob(modelId)
+              : await getReembedJobState()
+          await ensureReembedAlarm()
+          resumeReembedJob().then(() => backfillNoteChunks())
+          return { success: true, job }
         }
 
         case "SAVE_NOTE":
@@ -417,12 +761,18 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 })
 
 async function handleSaveNote(data: {
+  id?: string
   title: string
   category?: string
+  tags?: string[]
   content: string
   contentPlaintext: string
   sourceUrl?: string
   embedding?: number[]
+  sensitive?: boolean
+  color?: NoteColor
+  createdAt?: number
+  updatedAt?: number
 }): Promise<{ success: boolean; note?: any; error?: string }> {
   const startTime = performance.now()
   const saveId = `save-${Date.now()}-${Math.random().toString(36).substring(7)}`
@@ -433,10 +783,22 @@ async function handleSaveNote(data: {
       hasEmbedding: !!data.embedding
     })
 
-    const { title, category, content, contentPlaintext, sourceUrl, embedding } =
-      data
-
-    let embeddingVector: number[]
+    const {
+      id,
+      title,
+      category,
+      tags,
+      content,
+      contentPlaintext,
+      sourceUrl,
+      embedding,
+      sensitive,
+      color,
+      createdAt,
+      updatedAt
+    } = data
+
+    let embeddingVector: number[] | undefined
     if (embedding && embedding.length > 0) {
       logger.log(
         `[${saveId}] [BG Save] Using pre-generated embedding: ${embedding.length} dimensions`
@@ -445,10 +807,10 @@ async function handleSaveNote(data: {
     } else {
       const embeddingStartTime = performance.now()
       logger.log(" [BG Save] Generating embedding from plaintext content...")
-      embeddingVector = await generateEmbedding(contentPlaintext)
+      embeddingVector = await generateNoteEmbedding(contentPlaintext)
       const embeddingTime = performance.now() - embeddingStartTime
       logger.log(
-        ` [BG Save] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embeddingVector.length} dimensions)`
+        ` [BG Save] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embeddingVector?.length ?? 0} dimensions)`
       )
     }
 
@@ -459,12 +821,19 @@ async function handleSaveNote(data: {
     logger.log(` [BG Save] Content encryption: ${encryptTime.toFixed(2)}ms`)
 
     const noteObject = {
+      id,
       title,
       category: category || "general",
+      tags,
+      attachmentIds: extractAttachmentIds(parseTipTapContent(content)),
       content: encryptedContent,
       contentPlaintext: encryptedPlaintext,
       embedding: embeddingVector,
-      sourceUrl
+      sourceUrl,
+      sensitive: sensitive ?? containsSensitiveContent(contentPlaintext),
+      color,
+      createdAt,
+      updatedAt
     }
 
     const dbStartTime = performance.now()
@@ -472,6 +841,15 @@ async function handleSaveNote(data: {
     const dbTime = performance.now() - dbStartTime
     logger.log(`[${saveId}] [BG Save] Database storage: ${dbTime.toFixed(2)}ms`)
 
+    await syncNoteLinks(savedNote.id, content)
+    await syncNoteChunks(
+      savedNote.id,
+      title,
+      content,
+      contentPlaintext,
+      embeddingVector
+    )
+
     const totalTime = performance.now() - startTime
     logger.log(
       `[${saveId}] [BG Save] TOTAL background save time: ${totalTime.toFixed(2)}ms`
@@ -501,37 +879,61 @@ async function handleUpdateNote(data: {
   id: string
   title?: string
   category?: string
+  tags?: string[]
   content?: string
   contentPlaintext?: string
   embedding?: number[]
+  sensitive?: boolean
 }): Promise<{ success: boolean; note?: any; error?: string }> {
   const startTime = performance.now()
 
   try {
     logger.log(" [BG Update] Starting update pipeline for note:", data.id)
 
-    const { id, title, category, content, contentPlaintext, embedding } = data
+    const {
+      id,
+      title,
+      category,
+      tags,
+      content,
+      contentPlaintext,
+      embedding,
+      sensitive
+    } = data
     const updates: any = {}
 
     if (title !== undefined) updates.title = title
     if (category !== undefined) updates.category = category
+    if (tags !== undefined) updates.tags = tags
+    if (sensitive !== undefined) updates.sensitive = sensitive
 
     if (content !== undefined && contentPlaintext !== undefined) {
-      let embeddingVector: number[]
+      const storedNote = embedding?.length
+        ? null
+        : await getNote(id, { includeEmbedding: true })
+
+      let embeddingVector: number[] | undefined
       if (embedding && embedding.length > 0) {
         logger.log(
           ` [BG Update] Using pre-generated embedding: ${embedding.length} dimensions`
         )
         embeddingVector = embedding
+      } else if (
+        storedNote?.contentPlaintext === contentPlaintext &&
+        !!storedNote.embedding?.length &&
+        storedNote.embeddingModel === (await getActiveEmbeddingModelId())
+      ) {
+        logger.log(" [BG Update] Content unchanged, reusing stored embedding")
+        embeddingVector = storedNote.embedding
       } else {
         const embeddingStartTime = performance.now()
         logger.log(
           " [BG Update] Generating new embedding from plaintext content..."
         )
-        embeddingVector = await generateEmbedding(contentPlaintext)
+        embeddingVector = await generateNoteEmbedding(contentPlaintext)
         const embeddingTime = performance.now() - embeddingStartTime
         logger.log(
-          ` [BG Update] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embeddingVector.length} dimensions)`
+          ` [BG Update] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embeddingVector?.length ?? 0} dimensions)`
         )
       }
 
@@ -543,9 +945,15 @@ async function handleUpdateNote(data: {
 
       updates.content = encryptedContent
       updates.contentPlaintext = encryptedPlaintext
-      updates.embedding = embeddingVector
+      // The old vector no longer matches the content, so drop it for the
+      // re-embed job to replace
+      updates.embedding = embeddingVector ?? null
+      updates.attachmentIds = extractAttachmentIds(parseTipTapContent(content))
     }
 
+    const previousTitle =
+      title !== undefined ? (await getNote(id))?.title : undefined
+
     const dbStartTime = performance.now()
     const updatedNote = await updateNote(id, updates)
     const dbTime = performance.now() - dbStartTime
@@ -555,6 +963,39 @@ async function handleUpdateNote(data: {
       throw new Error("Note not found")
     }
 
+    if (content !== undefined) {
+      await syncNoteLinks(id, content)
+    }
+
+    if (previousTitle && previousTitle !== updatedNote.title) {
+      await rewriteLinksToRenamedNote(
+        id,
+        previousTitle,
+        updatedNote.title,
+        async (sourceId, content, contentPlaintext) => {
+          const result = await handleUpdateNote({
+            id: sourceId,
+            content,
+            contentPlaintext
+          })
+          if (!result.success) throw new Error(result.error)
+        }
+      )
+    }
+
+    if (
+      content !== undefined ||
+      (previousTitle && previousTitle !== updatedNote.title)
+    ) {
+      await syncNoteChunks(
+        id,
+        updatedNote.title,
+        updatedNote.content,
+        updatedNote.contentPlaintext,
+        updates.embedding
+      )
+    }
+
     const totalTime = performance.now() - startTime
     logger.log(
       ` [BG Update] TOTAL background update time: ${totalTime.toFixed(2)}ms`
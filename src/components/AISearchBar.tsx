@@ -11,6 +11,7 @@ import type { Note } from "~services/db-service"
 import type { AgentResponse } from "~services/langchain-agent"
 import { getGlobalAgent } from "~services/langchain-agent"
 import type { Persona } from "~types/persona"
+import { copyWithAutoClear } from "~util/clipboard"
 import {
   clearChatMessages,
   loadChatMessages,
@@ -41,6 +42,7 @@ interface Message {
   clarificationOptions?: AgentResponse["clarificationOptions"]
   pendingNoteData?: AgentResponse["pendingNoteData"]
   referenceNotes?: Note[]
+  suggestedActions?: AgentResponse["suggestedActions"]
 }
 
 interface AISearchBarProps {
@@ -135,6 +137,42 @@ function ReferenceNotesSection({
   )
 }
 
+function CopyActionsSection({
+  actions
+}: {
+  actions: NonNullable<AgentResponse["suggestedActions"]>
+}) {
+  const [copiedIndex, setCopiedIndex] = React.useState<number | null>(null)
+
+  const handleCopy = async (index: number, value: string) => {
+    try {
+      await copyWithAutoClear(value)
+      setCopiedIndex(index)
+      setTimeout(() => setCopiedIndex(null), 2000)
+    } catch (error) {
+      logger.error(" [AISearchBar] Failed to copy value:", error)
+    }
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-justify-start plasmo-pl-4">
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-2">
+        {actions.map((action, index) => (
+          <button
+            key={index}
+            onClick={() => handleCopy(index, action.data)}
+            className="plasmo-px-3 plasmo-py-1.5 plasmo-bg-slate-100 hover:plasmo-bg-slate-200 plasmo-rounded-full plasmo-text-xs plasmo-font-medium plasmo-text-slate-700 plasmo-transition-colors">
+            {copiedIndex === index ? "Copied!" : action.label}
+          </button>
+        ))}
+        <span className="plasmo-text-[10px] plasmo-text-slate-500">
+          Clipboard clears in 30s
+        </span>
+      </div>
+    </div>
+  )
+}
+
 export function AISearchBar({
   placeholder = "Ask me anything...",
   onSearch,
@@ -636,7 +674,10 @@ export function AISearchBar({
             timestamp: Date.now(),
             clarificationOptions: aiResponse.clarificationOptions,
             pendingNoteData: aiResponse.pendingNoteData,
-            referenceNotes: fullReferenceNotes
+            referenceNotes: fullReferenceNotes,
+            suggestedActions: aiResponse.suggestedActions?.filter(
+              (action) => action.type === "copy"
+            )
           }
 
           logger.log(
@@ -1186,11 +1227,11 @@ export function AISearchBar({
         )
 
         const embeddingStartTime = performance.now()
-        const { generateEmbedding } = await import("~services/ai-service")
-        const embedding = await generateEmbedding(noteContent)
+        const { generateNoteEmbedding } = await import("~services/ai-service")
+        const embedding = await generateNoteEmbedding(noteContent)
         const embeddingTime = performance.now() - embeddingStartTime
         logger.log(
-          ` [AI Chat] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embedding.length} dimensions)`
+          ` [AI Chat] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embedding?.length ?? 0} dimensions)`
         )
 
         let sourceUrl: string | undefined
@@ -1744,6 +1785,12 @@ export function AISearchBar({
                       </div>
                     )}
 
+                  {}
+                  {message.suggestedActions &&
+                    message.suggestedActions.length > 0 && (
+                      <CopyActionsSection actions={message.suggestedActions} />
+                    )}
+
                   {}
                   {message.referenceNotes &&
                     message.referenceNotes.length > 0 && (
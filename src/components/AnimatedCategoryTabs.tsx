@@ -1,6 +1,7 @@
 import { BentoGrid, type BentoItem } from "react-bento"
 
 import type { Note } from "~services/db-service"
+import { getRootCategory, isInCategoryPath } from "~util/category-path"
 
 import { NoteCard } from "./NoteCard"
 import { Tabs } from "./ui/tabs"
@@ -28,9 +29,11 @@ export function AnimatedCategoryTabs({
     if (category === "all") {
       return notes
     }
-    return notes.filter((note) => note.category === category)
+    return notes.filter((note) => isInCategoryPath(note.category, category))
   }
 
+  const rootCategories = Array.from(new Set(categories.map(getRootCategory)))
+
   const allNotesCount = notes.length
   const tabs = [
     {
@@ -48,7 +51,7 @@ export function AnimatedCategoryTabs({
         </div>
       )
     },
-    ...categories.map((category) => {
+    ...rootCategories.map((category) => {
       const categoryNotes = getNotesForCategory(category)
       return {
         title: category,
@@ -0,0 +1,130 @@
+import Image, { type ImageOptions } from "@tiptap/extension-image"
+import { mergeAttributes, Node } from "@tiptap/react"
+
+import { getAttachmentObjectUrl } from "~services/attachment-service"
+import {
+  ATTACHMENT_URL_PREFIX,
+  formatFileSize,
+  parseAttachmentUrl,
+  toAttachmentUrl
+} from "~util/attachments"
+
+export const ATTACHMENT_FILE_NODE = "attachmentFile"
+
+interface AttachmentImageOptions extends ImageOptions {
+  loadAttachments: boolean
+}
+
+export const AttachmentImage = Image.extend<AttachmentImageOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      loadAttachments: true
+    }
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      attachmentId: {
+        default: null,
+        parseHTML: (element) =>
+          element.getAttribute("data-attachment-id") ||
+          parseAttachmentUrl(element.getAttribute("src")),
+        renderHTML: (attributes) =>
+          attributes.attachmentId
+            ? { "data-attachment-id": attributes.attachmentId }
+            : {}
+      }
+    }
+  },
+
+  addNodeView() {
+    return ({ node, HTMLAttributes }) => {
+      const img = document.createElement("img")
+      const attributes = mergeAttributes(
+        this.options.HTMLAttributes,
+        HTMLAttributes
+      )
+
+      Object.entries(attributes).forEach(([key, value]) => {
+        if (value !== null && value !== undefined) {
+          img.setAttribute(key, String(value))
+        }
+      })
+
+      const attachmentId = node.attrs.attachmentId
+      if (attachmentId) {
+        img.removeAttribute("src")
+        if (this.options.loadAttachments) {
+          getAttachmentObjectUrl(attachmentId).then((url) => {
+            if (url) img.src = url
+          })
+        }
+      }
+
+      return { dom: img }
+    }
+  }
+})
+
+export const AttachmentFile = Node.create({
+  name: ATTACHMENT_FILE_NODE,
+
+  group: "inline",
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      attachmentId: { default: null },
+      name: { default: "attachment" },
+      mimeType: { default: "application/octet-stream" },
+      size: { default: 0 }
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: `a[href^="${ATTACHMENT_URL_PREFIX}"]`,
+        priority: 1000,
+        getAttrs: (element) => ({
+          attachmentId: parseAttachmentUrl(element.getAttribute("href")),
+          name:
+            element.getAttribute("data-name") ||
+            (element.textContent || "attachment").replace(/^📎\s*/, ""),
+          mimeType:
+            element.getAttribute("data-mime-type") ||
+            "application/octet-stream",
+          size: Number(element.getAttribute("data-size")) || 0
+        })
+      }
+    ]
+  },
+
+  renderHTML({ node }) {
+    return [
+      "a",
+      mergeAttributes({
+        href: toAttachmentUrl(node.attrs.attachmentId),
+        "data-attachment-file": node.attrs.attachmentId,
+        "data-name": node.attrs.name,
+        "data-mime-type": node.attrs.mimeType,
+        "data-size": String(node.attrs.size),
+        title: `${node.attrs.name} (${formatFileSize(node.attrs.size)})`,
+        class:
+          "plasmo-inline-flex plasmo-items-center plasmo-px-1.5 plasmo-rounded plasmo-bg-slate-100 plasmo-text-slate-700 plasmo-no-underline plasmo-cursor-pointer"
+      }),
+      `📎 ${node.attrs.name}`
+    ]
+  },
+
+  renderText({ node }) {
+    return `📎 ${node.attrs.name}`
+  }
+})
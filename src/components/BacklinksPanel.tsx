@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react"
+
+import { getBacklinks, type NoteBacklink } from "~services/db-service"
+import { logger } from "~utils/logger"
+
+interface BacklinksPanelProps {
+  noteId: string
+
+  noteTitle: string
+
+  onOpenNote: (noteId: string) => void
+}
+
+export function BacklinksPanel({
+  noteId,
+  noteTitle,
+  onOpenNote
+}: BacklinksPanelProps) {
+  const [backlinks, setBacklinks] = useState<NoteBacklink[]>([])
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  useEffect(() => {
+    let isMounted = true
+
+    getBacklinks(noteId)
+      .then((results) => {
+        if (isMounted) setBacklinks(results)
+      })
+      .catch((error) => {
+        logger.error(" [Backlinks] Error loading backlinks:", error)
+      })
+
+    return () => {
+      isMounted = false
+    }
+  }, [noteId, noteTitle])
+
+  if (backlinks.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="plasmo-border-t plasmo-border-slate-200 plasmo-px-3 plasmo-py-2">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="plasmo-flex plasmo-items-center plasmo-gap-1.5 plasmo-text-xs plasmo-font-medium plasmo-text-slate-500 hover:plasmo-text-slate-800">
+        <svg
+          className={`plasmo-w-3 plasmo-h-3 plasmo-transition-transform ${isExpanded ? "plasmo-rotate-90" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5l7 7-7 7"
+          />
+        </svg>
+        Backlinks ({backlinks.length})
+      </button>
+
+      {isExpanded && (
+        <ul className="plasmo-mt-1.5 plasmo-space-y-0.5">
+          {backlinks.map((backlink) => (
+            <li key={backlink.noteId}>
+              <button
+                onClick={() => onOpenNote(backlink.noteId)}
+                className="plasmo-w-full plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-text-left plasmo-text-sm plasmo-text-indigo-700 hover:plasmo-bg-indigo-50">
+                <span className="plasmo-truncate">{backlink.title}</span>
+                <span className="plasmo-ml-auto plasmo-text-xs plasmo-text-slate-400 plasmo-flex-shrink-0">
+                  {backlink.category}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useState } from "react"
+
+import {
+  BACKUP_FILE_EXTENSION,
+  createBackup,
+  getBackupFileName,
+  restoreBackup
+} from "~services/backup-service"
+import type { RestoreMode, RestoreReport } from "~types/backup"
+import { logger } from "~utils/logger"
+
+const inputClassName =
+  "plasmo-w-full plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white"
+
+const buttonClassName =
+  "plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50"
+
+function formatReport(report: RestoreReport): string {
+  const parts = [
+    `${report.notesCreated} notes added`,
+    `${report.notesUpdated} updated`
+  ]
+  if (report.skippedById > 0) {
+    parts.push(`${report.skippedById} already up to date`)
+  }
+  if (report.skippedByContent > 0) {
+    parts.push(`${report.skippedByContent} duplicates skipped`)
+  }
+  parts.push(
+    `${report.personasRestored} personas`,
+    `${report.attachmentsRestored} attachments`
+  )
+  return parts.join(", ")
+}
+
+export function BackupSettings() {
+  const [backupPassphrase, setBackupPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [restoreFile, setRestoreFile] = useState<File | null>(null)
+  const [restorePassphrase, setRestorePassphrase] = useState("")
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>("merge")
+  const [isWorking, setIsWorking] = useState(false)
+  const [report, setReport] = useState<RestoreReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleBackup = async () => {
+    if (backupPassphrase !== confirmPassphrase) {
+      setError("Passphrases do not match")
+      return
+    }
+
+    setIsWorking(true)
+    setError(null)
+    try {
+      const url = URL.createObjectURL(await createBackup(backupPassphrase))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = getBackupFileName()
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+      setBackupPassphrase("")
+      setConfirmPassphrase("")
+    } catch (error) {
+      logger.error(" [Backup] Failed to create backup:", error)
+      setError(error.message || "Failed to create backup")
+    }
+    setIsWorking(false)
+  }
+
+  const handleRestore = async () => {
+    if (
+      restoreMode === "replace" &&
+      !confirm(
+        "Replace all notes, personas and attachments on this device with the contents of the backup? Anything not in the backup will be deleted."
+      )
+    ) {
+      return
+    }
+
+    setIsWorking(true)
+    setError(null)
+    setReport(null)
+    try {
+      const result = await restoreBackup(
+        restoreFile!,
+        restorePassphrase,
+        restoreMode
+      )
+      setReport(result)
+      setRestorePassphrase("")
+      await chrome.runtime.sendMessage({ type: "BACKUP_RESTORED" })
+    } catch (error) {
+      logger.error(" [Backup] Failed to restore backup:", error)
+      setError(error.message || "Failed to restore backup")
+    }
+    setIsWorking(false)
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Backup
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          Download notes, personas and attachments as a single file encrypted
+          with its own passphrase.
+        </p>
+      </div>
+
+      <input
+        type="password"
+        value={backupPassphrase}
+        onChange={(e) => setBackupPassphrase(e.target.value)}
+        placeholder="Backup passphrase"
+        autoComplete="new-password"
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        value={confirmPassphrase}
+        onChange={(e) => setConfirmPassphrase(e.target.value)}
+        placeholder="Confirm backup passphrase"
+        autoComplete="new-password"
+        className={inputClassName}
+      />
+      <div>
+        <button
+          onClick={handleBackup}
+          disabled={isWorking || !backupPassphrase}
+          className={`${buttonClassName} plasmo-text-blue-600 hover:plasmo-bg-blue-50`}>
+          Download backup
+        </button>
+      </div>
+
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Restore
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          Merge keeps your current notes and skips ones you already have.
+          Replace deletes everything on this device first.
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept={BACKUP_FILE_EXTENSION}
+        onChange={(e) => setRestoreFile(e.target.files?.[0] || null)}
+        className="plasmo-text-xs plasmo-text-slate-600"
+      />
+      <input
+        type="password"
+        value={restorePassphrase}
+        onChange={(e) => setRestorePassphrase(e.target.value)}
+        placeholder="Backup passphrase"
+        autoComplete="off"
+        className={inputClassName}
+      />
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-2">
+        <select
+          value={restoreMode}
+          onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+          disabled={isWorking}
+          className="plasmo-flex-1 plasmo-min-w-0 plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white">
+          <option value="merge">Merge with current notes</option>
+          <option value="replace">Replace everything</option>
+        </select>
+        <button
+          onClick={handleRestore}
+          disabled={isWorking || !restoreFile || !restorePassphrase}
+          className={`${buttonClassName} ${
+            restoreMode === "replace"
+              ? "plasmo-text-red-600 hover:plasmo-bg-red-50"
+              : "plasmo-text-blue-600 hover:plasmo-bg-blue-50"
+          }`}>
+          {isWorking ? "Working..." : "Restore"}
+        </button>
+      </div>
+
+      {report && (
+        <span className="plasmo-text-xs plasmo-text-slate-600">
+          Restored: {formatReport(report)}
+          {report.failedNoteIds.length > 0 &&
+            `. ${report.failedNoteIds.length} notes could not be restored.`}
+        </span>
+      )}
+      {error && (
+        <span className="plasmo-text-xs plasmo-text-red-600">{error}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react"
+
+import {
+  addCategory,
+  deleteCategory,
+  getCategoryTree,
+  mergeCategory,
+  moveCategory,
+  renameCategory
+} from "~services/db-service"
+import type { CategoryTreeNode } from "~types/category"
+import { getParentCategoryPath } from "~util/category-path"
+import { logger } from "~utils/logger"
+
+interface CategoryTreeViewProps {
+  onBack: () => void
+
+  onSelectCategory: (path: string) => void
+
+  onCategoriesChange: () => void
+}
+
+export function CategoryTreeView({
+  onBack,
+  onSelectCategory,
+  onCategoriesChange
+}: CategoryTreeViewProps) {
+  const [tree, setTree] = useState<CategoryTreeNode[]>([])
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadTree = async () => {
+    setIsLoading(true)
+    try {
+      setTree(await getCategoryTree())
+    } catch (error) {
+      logger.error(" [Categories] Error loading category tree:", error)
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadTree()
+  }, [])
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+      await loadTree()
+      onCategoriesChange()
+    } catch (error) {
+      alert(error.message || "Category operation failed")
+    }
+  }
+
+  const toggleExpanded = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  const handleAdd = (parentPath: string | null) => {
+    const name = prompt(
+      parentPath ? `New subcategory of "${parentPath}":` : "New category:"
+    )
+    if (!name) return
+
+    runAction(async () => {
+      await addCategory(parentPath ? `${parentPath}/${name}` : name)
+      if (parentPath) {
+        setExpanded((prev) => new Set(prev).add(parentPath))
+      }
+    })
+  }
+
+  const handleRename = (node: CategoryTreeNode) => {
+    const name = prompt(`Rename "${node.path}" to:`, node.name)
+    if (!name || name === node.name) return
+
+    runAction(() => renameCategory(node.path, name))
+  }
+
+  const handleMove = (node: CategoryTreeNode) => {
+    const parentPath = prompt(
+      `Move "${node.path}" under which category? Leave empty for top level.`,
+      getParentCategoryPath(node.path) || ""
+    )
+    if (parentPath === null) return
+
+    runAction(() => moveCategory(node.path, parentPath.trim() || null))
+  }
+
+  const handleMerge = (node: CategoryTreeNode) => {
+    const targetPath = prompt(
+      `Merge "${node.path}" and all its notes into which category?`
+    )
+    if (!targetPath) return
+
+    if (
+      !confirm(
+        `Move all notes and subcategories of "${node.path}" into "${targetPath}"?`
+      )
+    ) {
+      return
+    }
+
+    runAction(() => mergeCategory(node.path, targetPath))
+  }
+
+  const handleDelete = (node: CategoryTreeNode) => {
+    const reassignTo = getParentCategoryPath(node.path) || "general"
+    if (
+      !confirm(
+        `Delete "${node.path}"? Its ${node.totalCount} notes will be moved to "${reassignTo}".`
+      )
+    ) {
+      return
+    }
+
+    runAction(() => deleteCategory(node.path, reassignTo))
+  }
+
+  const renderNode = (node: CategoryTreeNode, depth: number) => {
+    const isExpanded = expanded.has(node.path)
+    const hasChildren = node.children.length > 0
+
+    return (
+      <li key={node.path}>
+        <div
+          className="plasmo-group plasmo-flex plasmo-items-center plasmo-gap-1 plasmo-py-1.5 plasmo-pr-1 hover:plasmo-bg-slate-100 plasmo-rounded-lg"
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}>
+          <button
+            onClick={() => toggleExpanded(node.path)}
+            className={`plasmo-w-5 plasmo-h-5 plasmo-flex plasmo-items-center plasmo-justify-center plasmo-text-slate-400 hover:plasmo-text-slate-700 ${hasChildren ? "" : "plasmo-invisible"}`}>
+            <svg
+              className={`plasmo-w-3.5 plasmo-h-3.5 plasmo-transition-transform ${isExpanded ? "plasmo-rotate-90" : ""}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 5l7 7-7 7"
+              />
+            </svg>
+          </button>
+          <button
+            onClick={() => onSelectCategory(node.path)}
+            className="plasmo-flex-1 plasmo-min-w-0 plasmo-text-left plasmo-text-sm plasmo-text-slate-800 plasmo-truncate"
+            title={`Show notes in "${node.path}"`}>
+            {node.name}
+          </button>
+          <span className="plasmo-text-xs plasmo-text-slate-400 plasmo-tabular-nums">
+            {node.totalCount}
+          </span>
+          <div className="plasmo-hidden group-hover:plasmo-flex plasmo-items-center plasmo-gap-0.5 plasmo-ml-1">
+            <button
+              onClick={() => handleAdd(node.path)}
+              className="plasmo-px-1.5 plasmo-py-0.5 plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-900"
+              title="Add subcategory">
+              +
+            </button>
+            <button
+              onClick={() => handleRename(node)}
+              className="plasmo-px-1.5 plasmo-py-0.5 plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-900"
+              title="Rename">
+              Rename
+            </button>
+            <button
+              onClick={() => handleMove(node)}
+              className="plasmo-px-1.5 plasmo-py-0.5 plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-900"
+              title="Move">
+              Move
+            </button>
+            <button
+              onClick={() => handleMerge(node)}
+              className="plasmo-px-1.5 plasmo-py-0.5 plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-900"
+              title="Merge into another category">
+              Merge
+            </button>
+            <button
+              onClick={() => handleDelete(node)}
+              className="plasmo-px-1.5 plasmo-py-0.5 plasmo-text-xs plasmo-text-red-500 hover:plasmo-text-red-700"
+              title="Delete">
+              Delete
+            </button>
+          </div>
+        </div>
+        {hasChildren && isExpanded && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-h-full plasmo-p-4">
+      {}
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-3 plasmo-border-b plasmo-border-slate-200 plasmo-pb-3">
+        <button
+          onClick={onBack}
+          className="plasmo-p-1.5 plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded-lg plasmo-transition-colors plasmo-flex-shrink-0">
+          <svg
+            className="plasmo-w-5 plasmo-h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+        <h2 className="plasmo-flex-1 plasmo-text-lg plasmo-font-normal plasmo-text-slate-900">
+          Categories
+        </h2>
+        <button
+          onClick={() => handleAdd(null)}
+          className="plasmo-px-3 plasmo-py-1.5 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded-lg plasmo-transition-colors">
+          New category
+        </button>
+      </div>
+
+      {}
+      <div className="plasmo-flex-1 plasmo-overflow-y-auto plasmo-no-visible-scrollbar plasmo-pt-2">
+        {isLoading ? (
+          <div className="plasmo-flex plasmo-items-center plasmo-justify-center plasmo-py-12">
+            <div className="plasmo-w-8 plasmo-h-8 plasmo-border-4 plasmo-border-slate-200 plasmo-border-t-slate-800 plasmo-rounded-full plasmo-animate-spin" />
+          </div>
+        ) : tree.length === 0 ? (
+          <p className="plasmo-py-12 plasmo-text-center plasmo-text-sm plasmo-text-slate-500">
+            No categories yet
+          </p>
+        ) : (
+          <ul>{tree.map((node) => renderNode(node, 0))}</ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react"
+
+import { EMBEDDING_MODELS, getEmbeddingModel } from "~config/embedding-models"
+import { getEmbeddingSettings } from "~services/embedding-settings"
+import { onReembedJobStateChanged } from "~services/reembed-service"
+import type { ReembedJobState } from "~types/embedding"
+import { logger } from "~utils/logger"
+
+const STATUS_LABELS: Record<ReembedJobState["status"], string> = {
+  idle: "Idle",
+  running: "Re-indexing",
+  completed: "Up to date",
+  failed: "Failed",
+  cancelled: "Cancelled"
+}
+
+export function EmbeddingModelSettings() {
+  const [activeModelId, setActiveModelId] = useState("")
+  const [selectedModelId, setSelectedModelId] = useState("")
+  const [job, setJob] = useState<ReembedJobState | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    getEmbeddingSettings().then((settings) => {
+      setActiveModelId(settings.modelId)
+      setSelectedModelId(settings.modelId)
+    })
+
+    chrome.runtime
+      .sendMessage({ type: "GET_REEMBED_STATUS" })
+      .then((response) => setJob(response?.job || null))
+      .catch((error) =>
+        logger.error(" [Embedding Settings] Error loading job status:", error)
+      )
+
+    return onReembedJobStateChanged(setJob)
+  }, [])
+
+  const isRunning = job?.status === "running"
+
+  const handleApply = async () => {
+    const model = getEmbeddingModel(selectedModelId)
+    if (!model || selectedModelId === activeModelId) return
+
+    if (
+      !confirm(
+        `Switch to ${model.label}? All notes will be re-indexed in the background. Semantic search only covers re-indexed notes until this finishes.`
+      )
+    ) {
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "START_REEMBED",
+        data: { modelId: selectedModelId }
+      })
+      if (!response?.success) {
+        throw new Error(response?.error || "Failed to start re-indexing")
+      }
+      setActiveModelId(selectedModelId)
+      setJob(response.job)
+    } catch (error) {
+      alert(error.message || "Failed to switch embedding model")
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleResume = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "START_REEMBED",
+        data: { modelId: activeModelId }
+      })
+      setJob(response?.job || null)
+    } catch (error) {
+      alert(error.message || "Failed to resume re-indexing")
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleCancel = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "CANCEL_REEMBED"
+      })
+      setJob(response?.job || null)
+    } catch (error) {
+      alert(error.message || "Failed to cancel re-indexing")
+    }
+  }
+
+  const progress =
+    job && job.total > 0
+      ? Math.min(100, Math.round((job.processed / job.total) * 100))
+      : 0
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Embedding model
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          Used for semantic search and the assistant. Models run locally and are
+          downloaded on first use.
+        </p>
+      </div>
+
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-2">
+        <select
+          value={selectedModelId}
+          onChange={(e) => setSelectedModelId(e.target.value)}
+          disabled={isRunning || isSubmitting}
+          className="plasmo-flex-1 plasmo-min-w-0 plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white">
+          {EMBEDDING_MODELS.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.label} · {model.dimension}d
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleApply}
+          disabled={
+            isRunning || isSubmitting || selectedModelId === activeModelId
+          }
+          className="plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50">
+          Apply
+        </button>
+      </div>
+
+      {job && job.status !== "idle" && (
+        <div className="plasmo-flex plasmo-flex-col plasmo-gap-1.5 plasmo-text-xs plasmo-text-slate-600">
+          <div className="plasmo-flex plasmo-items-center plasmo-justify-between">
+            <span>
+              {STATUS_LABELS[job.status]} ·{" "}
+              {getEmbeddingModel(job.modelId)?.label || job.modelId}
+            </span>
+            <span>
+              {job.processed}/{job.total}
+            </span>
+          </div>
+          <div className="plasmo-h-1.5 plasmo-rounded-full plasmo-bg-slate-200 plasmo-overflow-hidden">
+            <div
+              className="plasmo-h-full plasmo-bg-blue-500 plasmo-transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          {job.failedNoteIds.length > 0 && (
+            <span className="plasmo-text-amber-700">
+              {job.failedNoteIds.length} notes could not be re-indexed
+            </span>
+          )}
+          {job.error && (
+            <span className="plasmo-text-red-600">{job.error}</span>
+          )}
+          <div className="plasmo-flex plasmo-gap-2">
+            {isRunning && (
+              <button
+                onClick={handleCancel}
+                className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-red-600 hover:plasmo-bg-red-50 plasmo-rounded plasmo-transition-colors">
+                Cancel
+              </button>
+            )}
+            {(job.status === "cancelled" || job.status === "failed") && (
+              <button
+                onClick={handleResume}
+                disabled={isSubmitting}
+                className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50">
+                Resume
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
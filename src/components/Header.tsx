@@ -9,6 +9,9 @@ interface HeaderProps {
   onPersonasClick?: () => void
   onCreateNote?: () => void
   onStartTour?: () => void
+  onTrashClick?: () => void
+  onCategoriesClick?: () => void
+  onSettingsClick?: () => void
   view?: string
   searchValue?: string
   onSearchChange?: (value: string) => void
@@ -20,6 +23,9 @@ export function Header({
   onPersonasClick,
   onCreateNote,
   onStartTour,
+  onTrashClick,
+  onCategoriesClick,
+  onSettingsClick,
   view,
   searchValue = "",
   onSearchChange,
@@ -161,6 +167,75 @@ export function Header({
             </div>
           )}
 
+          {}
+          {view === "list" && onCategoriesClick && !searchExpanded && (
+            <button
+              onClick={onCategoriesClick}
+              className="plasmo-p-2 plasmo-rounded-lg plasmo-text-slate-500 hover:plasmo-text-slate-900 hover:plasmo-bg-slate-100 plasmo-transition-colors plasmo-flex-shrink-0"
+              title="Categories">
+              <svg
+                className="plasmo-w-5 plasmo-h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z"
+                />
+              </svg>
+            </button>
+          )}
+
+          {}
+          {view === "list" && onTrashClick && !searchExpanded && (
+            <button
+              onClick={onTrashClick}
+              className="plasmo-p-2 plasmo-rounded-lg plasmo-text-slate-500 hover:plasmo-text-slate-900 hover:plasmo-bg-slate-100 plasmo-transition-colors plasmo-flex-shrink-0"
+              title="Trash">
+              <svg
+                className="plasmo-w-5 plasmo-h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          )}
+
+          {}
+          {view === "list" && onSettingsClick && !searchExpanded && (
+            <button
+              onClick={onSettingsClick}
+              className="plasmo-p-2 plasmo-rounded-lg plasmo-text-slate-500 hover:plasmo-text-slate-900 hover:plasmo-bg-slate-100 plasmo-transition-colors plasmo-flex-shrink-0"
+              title="Settings">
+              <svg
+                className="plasmo-w-5 plasmo-h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+              </svg>
+            </button>
+          )}
+
           {}
           {view === "list" && onStartTour && !searchExpanded && (
             <button
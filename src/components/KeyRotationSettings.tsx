@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react"
+
+import { onKeyRotationJobStateChanged } from "~services/key-rotation-service"
+import type { KeyRotationJobState } from "~types/vault"
+import { logger } from "~utils/logger"
+
+const STATUS_LABELS: Record<KeyRotationJobState["status"], string> = {
+  idle: "Idle",
+  running: "Re-encrypting",
+  completed: "Rotation complete",
+  failed: "Failed",
+  cancelled: "Cancelled"
+}
+
+export function KeyRotationSettings() {
+  const [job, setJob] = useState<KeyRotationJobState | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: "GET_KEY_ROTATION_STATUS" })
+      .then((response) => setJob(response?.job || null))
+      .catch((error) =>
+        logger.error(" [Key Rotation] Error loading job status:", error)
+      )
+
+    return onKeyRotationJobStateChanged(setJob)
+  }, [])
+
+  const isRunning = job?.status === "running"
+
+  const sendJobRequest = async (type: string, fallbackError: string) => {
+    setIsSubmitting(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ type })
+      if (!response?.success) {
+        throw new Error(response?.error || fallbackError)
+      }
+      setJob(response.job || null)
+    } catch (error) {
+      alert(error.message || fallbackError)
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleRotate = () => {
+    if (
+      !confirm(
+        "Generate a new encryption key and re-encrypt all notes, revisions, attachments and search data with it? The old key is deleted once everything has been re-encrypted."
+      )
+    ) {
+      return
+    }
+    sendJobRequest("START_KEY_ROTATION", "Failed to start key rotation")
+  }
+
+  const progress =
+    job && job.total > 0
+      ? Math.min(100, Math.round((job.processed / job.total) * 100))
+      : 0
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div className="plasmo-flex plasmo-items-start plasmo-justify-between plasmo-gap-2">
+        <div>
+          <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+            Encryption key
+          </h3>
+          <p className="plasmo-text-xs plasmo-text-slate-500">
+            Rotate the key if you think it may have been exposed. Notes stay
+            readable while they are re-encrypted.
+          </p>
+        </div>
+        <button
+          onClick={handleRotate}
+          disabled={isRunning || isSubmitting}
+          className="plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50 plasmo-flex-shrink-0">
+          Rotate key
+        </button>
+      </div>
+
+      {job && job.status !== "idle" && (
+        <div className="plasmo-flex plasmo-flex-col plasmo-gap-1.5 plasmo-text-xs plasmo-text-slate-600">
+          <div className="plasmo-flex plasmo-items-center plasmo-justify-between">
+            <span>
+              {STATUS_LABELS[job.status]} · key {job.keyId}
+            </span>
+            <span>
+              {job.processed}/{job.total}
+            </span>
+          </div>
+          <div className="plasmo-h-1.5 plasmo-rounded-full plasmo-bg-slate-200 plasmo-overflow-hidden">
+            <div
+              className="plasmo-h-full plasmo-bg-blue-500 plasmo-transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          {job.failedRecords.length > 0 && (
+            <span className="plasmo-text-amber-700">
+              {job.failedRecords.length} records could not be re-encrypted
+            </span>
+          )}
+          {job.status === "completed" && job.retiredKeyIds.length > 0 && (
+            <span>Deleted previous keys: {job.retiredKeyIds.join(", ")}</span>
+          )}
+          {job.error && (
+            <span className="plasmo-text-red-600">{job.error}</span>
+          )}
+          <div className="plasmo-flex plasmo-gap-2">
+            {isRunning && (
+              <button
+                onClick={() =>
+                  sendJobRequest(
+                    "CANCEL_KEY_ROTATION",
+                    "Failed to cancel key rotation"
+                  )
+                }
+                className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-red-600 hover:plasmo-bg-red-50 plasmo-rounded plasmo-transition-colors">
+                Cancel
+              </button>
+            )}
+            {(job.status === "cancelled" || job.status === "failed") && (
+              <button
+                onClick={() =>
+                  sendJobRequest(
+                    "RETRY_KEY_ROTATION",
+                    "Failed to resume key rotation"
+                  )
+                }
+                disabled={isSubmitting}
+                className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50">
+                Resume
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
 import { marked } from "marked"
-import { useEffect, useRef } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+
+import { maskSensitiveValues } from "~util/sensitive-content"
 
 import "./markdown.css"
 
@@ -18,23 +20,36 @@ export function MarkdownRenderer({
   className = ""
 }: MarkdownRendererProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const [showHidden, setShowHidden] = useState(false)
+
+  const maskedContent = useMemo(() => maskSensitiveValues(content), [content])
+  const hasHiddenValues = maskedContent !== content
 
   useEffect(() => {
     if (containerRef.current) {
-      const html = marked.parse(content) as string
+      const html = marked.parse(showHidden ? content : maskedContent) as string
       containerRef.current.innerHTML = html
     }
-  }, [content])
+  }, [content, maskedContent, showHidden])
 
   return (
-    <div
-      ref={containerRef}
-      className={`plasmo-markdown-content ${className}`}
-      style={{
-        fontSize: "0.875rem",
-        lineHeight: "1.5",
-        color: "#334155"
-      }}
-    />
+    <div>
+      <div
+        ref={containerRef}
+        className={`plasmo-markdown-content ${className}`}
+        style={{
+          fontSize: "0.875rem",
+          lineHeight: "1.5",
+          color: "#334155"
+        }}
+      />
+      {hasHiddenValues && (
+        <button
+          onClick={() => setShowHidden(!showHidden)}
+          className="plasmo-mt-1 plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-700 plasmo-transition-colors">
+          {showHidden ? "Hide sensitive values" : "Show hidden values"}
+        </button>
+      )}
+    </div>
   )
 }
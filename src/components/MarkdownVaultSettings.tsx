@@ -0,0 +1,73 @@
+import { useState } from "react"
+
+import {
+  exportNotesAsMarkdown,
+  getMarkdownExportFileName
+} from "~services/markdown-export-service"
+import { logger } from "~utils/logger"
+
+const buttonClassName =
+  "plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50"
+
+export function MarkdownVaultSettings() {
+  const [isExporting, setIsExporting] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    setStatus(null)
+    try {
+      const result = await exportNotesAsMarkdown()
+      const url = URL.createObjectURL(result.zip)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = getMarkdownExportFileName()
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+      setStatus(
+        `Exported ${result.noteCount} notes and ${result.attachmentCount} attachments` +
+          (result.missingAttachmentIds.length > 0
+            ? `. ${result.missingAttachmentIds.length} missing attachments were left as links.`
+            : "")
+      )
+    } catch (error) {
+      logger.error(" [Markdown Export] Export failed:", error)
+      setError(error.message || "Failed to export notes")
+    }
+    setIsExporting(false)
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Markdown
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          Download a ZIP of Markdown files with one folder per category. It
+          opens as an Obsidian vault and can be imported again from "Import from
+          other apps". Files are not encrypted.
+        </p>
+      </div>
+
+      <div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className={`${buttonClassName} plasmo-text-blue-600 hover:plasmo-bg-blue-50`}>
+          {isExporting ? "Exporting..." : "Export as Markdown"}
+        </button>
+      </div>
+
+      {status && (
+        <span className="plasmo-text-xs plasmo-text-slate-600">{status}</span>
+      )}
+      {error && (
+        <span className="plasmo-text-xs plasmo-text-red-600">{error}</span>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,5 @@
 import { Color } from "@tiptap/extension-color"
 import Highlight from "@tiptap/extension-highlight"
-import Image from "@tiptap/extension-image"
 import Link from "@tiptap/extension-link"
 import { Table } from "@tiptap/extension-table"
 import { TableCell } from "@tiptap/extension-table-cell"
@@ -12,8 +11,15 @@ import { EditorContent, useEditor } from "@tiptap/react"
 import StarterKit from "@tiptap/starter-kit"
 import React from "react"
 
+import { AttachmentFile, AttachmentImage } from "~components/AttachmentNodes"
+import { TaskItem, TaskList } from "~components/TaskListNodes"
 import { BlurFade } from "~components/ui/blur-fade"
+import { WikiLink } from "~components/WikiLink"
+import { getAttachmentThumbnailUrl } from "~services/attachment-service"
 import type { Note } from "~services/db-service"
+import { parseAttachmentUrl } from "~util/attachments"
+import { NOTE_COLORS, type NoteColorStyle } from "~util/note-colors"
+import { isSensitiveNote } from "~util/sensitive-content"
 import { logger } from "~utils/logger"
 
 import { LinkPreview } from "./ui/LinkPreview"
@@ -25,32 +31,43 @@ interface NoteCardProps {
 }
 
 const COLOR_PALETTE = [
-  { bg: "#E0F2FE", border: "#7DD3FC", text: "#0C4A6E" },
-  { bg: "#FCE7F3", border: "#F9A8D4", text: "#831843" },
-  { bg: "#FEF3C7", border: "#FCD34D", text: "#78350F" },
-  { bg: "#DCFCE7", border: "#86EFAC", text: "#14532D" },
-  { bg: "#E9D5FF", border: "#D8B4FE", text: "#581C87" },
-  { bg: "#FFEDD5", border: "#FDBA74", text: "#7C2D12" }
+  NOTE_COLORS.blue,
+  NOTE_COLORS.pink,
+  NOTE_COLORS.yellow,
+  NOTE_COLORS.green,
+  NOTE_COLORS.purple,
+  NOTE_COLORS.orange
 ]
 
-const getColorForNote = (noteId: string): (typeof COLOR_PALETTE)[0] => {
+const getColorForNote = (note: Note): NoteColorStyle => {
+  if (note.color && NOTE_COLORS[note.color]) {
+    return NOTE_COLORS[note.color]
+  }
+
   let hash = 0
-  for (let i = 0; i < noteId.length; i++) {
-    hash = (hash << 5) - hash + noteId.charCodeAt(i)
+  for (let i = 0; i < note.id.length; i++) {
+    hash = (hash << 5) - hash + note.id.charCodeAt(i)
     hash = hash & hash
   }
   const index = Math.abs(hash) % COLOR_PALETTE.length
   return COLOR_PALETTE[index]
 }
 
-const extractImagesFromTipTap = (content: string): string[] => {
+interface CardImage {
+  url?: string
+  attachmentId?: string
+}
+
+const extractImagesFromTipTap = (content: string): CardImage[] => {
   try {
     const json = JSON.parse(content)
-    const images: string[] = []
+    const images: CardImage[] = []
 
     const findImages = (node: any): void => {
       if (node.type === "image" && node.attrs?.src) {
-        images.push(node.attrs.src)
+        const attachmentId =
+          node.attrs.attachmentId || parseAttachmentUrl(node.attrs.src)
+        images.push(attachmentId ? { attachmentId } : { url: node.attrs.src })
       }
       if (node.content && Array.isArray(node.content)) {
         for (const child of node.content) {
@@ -66,6 +83,37 @@ const extractImagesFromTipTap = (content: string): string[] => {
   }
 }
 
+const AttachmentThumbnail = ({ attachmentId }: { attachmentId: string }) => {
+  const [url, setUrl] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    let thumbnailUrl: string | null = null
+    let isMounted = true
+
+    getAttachmentThumbnailUrl(attachmentId).then((result) => {
+      thumbnailUrl = result
+      if (isMounted) setUrl(result)
+    })
+
+    return () => {
+      isMounted = false
+      if (thumbnailUrl) URL.revokeObjectURL(thumbnailUrl)
+    }
+  }, [attachmentId])
+
+  if (!url) {
+    return <div className="plasmo-w-full plasmo-h-full plasmo-bg-slate-200" />
+  }
+
+  return (
+    <img
+      src={url}
+      alt=""
+      className="plasmo-w-full plasmo-h-full plasmo-object-cover"
+    />
+  )
+}
+
 const formatTimeAgo = (timestamp: number): string => {
   const now = Date.now()
   const diffMs = now - timestamp
@@ -126,12 +174,14 @@ const TipTapPreview = ({
           class: "plasmo-text-blue-600 plasmo-underline"
         }
       }),
-      Image.configure({
+      AttachmentImage.configure({
         inline: true,
+        loadAttachments: false,
         HTMLAttributes: {
           class: "plasmo-hidden"
         }
       }),
+      AttachmentFile,
       Table.configure({
         resizable: false,
         HTMLAttributes: {
@@ -141,7 +191,10 @@ const TipTapPreview = ({
       }),
       TableRow,
       TableHeader,
-      TableCell
+      TableCell,
+      WikiLink,
+      TaskList,
+      TaskItem
     ],
     content: parsedContent,
     editable: false,
@@ -233,7 +286,60 @@ const TipTapPreview = ({
   )
 }
 
+const SensitivePlaceholder = ({
+  textColor,
+  onReveal
+}: {
+  textColor: string
+  onReveal: (e: React.MouseEvent) => void
+}) => (
+  <div
+    className="plasmo-h-full plasmo-flex plasmo-flex-col plasmo-items-center plasmo-justify-center plasmo-gap-2 plasmo-text-xs"
+    style={{ color: textColor }}>
+    <svg
+      className="plasmo-w-5 plasmo-h-5 plasmo-opacity-70"
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+      />
+    </svg>
+    <span className="plasmo-opacity-80">Sensitive note · content hidden</span>
+    <button
+      onClick={onReveal}
+      className="plasmo-flex plasmo-items-center plasmo-gap-1 plasmo-px-2 plasmo-py-1 plasmo-rounded-full plasmo-bg-white/70 hover:plasmo-bg-white plasmo-transition-colors"
+      title="Reveal">
+      <svg
+        className="plasmo-w-3.5 plasmo-h-3.5"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+        />
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+        />
+      </svg>
+      Reveal
+    </button>
+  </div>
+)
+
 export function NoteCard({ note, onEdit, onDelete }: NoteCardProps) {
+  const [isRevealed, setIsRevealed] = React.useState(false)
+  const isHidden = !isRevealed && isSensitiveNote(note)
+
   const handleCardClick = () => {
     onEdit(note)
   }
@@ -243,14 +349,23 @@ export function NoteCard({ note, onEdit, onDelete }: NoteCardProps) {
     onDelete(note.id)
   }
 
-  const imageUrls = extractImagesFromTipTap(note.content)
+  const handleReveal = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setIsRevealed(true)
+  }
+
+  const images = isHidden ? [] : extractImagesFromTipTap(note.content)
   const timeAgo = formatTimeAgo(note.updatedAt)
   const truncatedTitle = truncateText(note.title, 80)
   const truncatedCategory = truncateText(note.category, 25)
-  const noteColor = getColorForNote(note.id)
+  const noteColor = getColorForNote(note)
+
+  const displayImages = images.slice(0, 4)
+  const remainingCount = images.length > 4 ? images.length - 4 : 0
 
-  const displayImages = imageUrls.slice(0, 4)
-  const remainingCount = imageUrls.length > 4 ? imageUrls.length - 4 : 0
+  const tags = note.tags || []
+  const displayTags = tags.slice(0, 2)
+  const remainingTagCount = tags.length - displayTags.length
 
   return (
     <BlurFade className="plasmo-h-full plasmo-w-full">
@@ -294,7 +409,14 @@ export function NoteCard({ note, onEdit, onDelete }: NoteCardProps) {
             borderTopRightRadius: "12px",
             backgroundColor: noteColor.bg
           }}>
-          <TipTapPreview content={note.content} textColor={noteColor.text} />
+          {isHidden ? (
+            <SensitivePlaceholder
+              textColor={noteColor.text}
+              onReveal={handleReveal}
+            />
+          ) : (
+            <TipTapPreview content={note.content} textColor={noteColor.text} />
+          )}
         </div>
 
         {}
@@ -310,8 +432,8 @@ export function NoteCard({ note, onEdit, onDelete }: NoteCardProps) {
                 +{remainingCount}
               </div>
             )}
-            {displayImages.map((imgUrl, index) => (
-              <LinkPreview url={imgUrl}>
+            {displayImages.map((image, index) => {
+              const thumbnail = (
                 <div
                   key={index}
                   className="plasmo-w-10 plasmo-h-10 plasmo-rounded-md plasmo-border-2 plasmo-border-white plasmo-overflow-hidden plasmo-bg-white"
@@ -319,15 +441,59 @@ export function NoteCard({ note, onEdit, onDelete }: NoteCardProps) {
                     marginLeft: index > 0 || remainingCount > 0 ? "-10px" : "0",
                     zIndex: displayImages.length - index
                   }}>
-                  <img
-                    src={imgUrl}
-                    alt=""
-                    className="plasmo-w-full plasmo-h-full plasmo-object-cover"
-                    loading="lazy"
-                  />
+                  {image.attachmentId ? (
+                    <AttachmentThumbnail attachmentId={image.attachmentId} />
+                  ) : (
+                    <img
+                      src={image.url}
+                      alt=""
+                      className="plasmo-w-full plasmo-h-full plasmo-object-cover"
+                      loading="lazy"
+                    />
+                  )}
                 </div>
-              </LinkPreview>
+              )
+
+              return image.attachmentId ? (
+                thumbnail
+              ) : (
+                <LinkPreview key={index} url={image.url}>
+                  {thumbnail}
+                </LinkPreview>
+              )
+            })}
+          </div>
+        )}
+
+        {}
+        {displayTags.length > 0 && (
+          <div className="plasmo-absolute plasmo-bottom-[72px] plasmo-left-2 plasmo-z-20 plasmo-flex plasmo-items-center plasmo-gap-1 plasmo-max-w-[60%]">
+            {displayTags.map((tag) => (
+              <span
+                key={tag}
+                className="plasmo-px-1.5 plasmo-py-0.5 plasmo-rounded plasmo-text-[10px] plasmo-font-medium plasmo-truncate"
+                style={{
+                  backgroundColor: "#ffffffb0",
+                  color: noteColor.text
+                }}
+                title={`#${tag}`}>
+                #{truncateText(tag, 25)}
+              </span>
             ))}
+            {remainingTagCount > 0 && (
+              <span
+                className="plasmo-px-1.5 plasmo-py-0.5 plasmo-rounded plasmo-text-[10px] plasmo-font-medium plasmo-flex-shrink-0"
+                style={{
+                  backgroundColor: "#ffffffb0",
+                  color: noteColor.text
+                }}
+                title={tags
+                  .slice(2)
+                  .map((t) => `#${t}`)
+                  .join(" ")}>
+                +{remainingTagCount}
+              </span>
+            )}
           </div>
         )}
 
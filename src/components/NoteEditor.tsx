@@ -1,12 +1,19 @@
 import { useEffect, useRef, useState } from "react"
 
+import { BacklinksPanel } from "~components/BacklinksPanel"
 import CategorySuggestions from "~components/CategorySuggestions"
+import { NoteHistoryPanel } from "~components/NoteHistoryPanel"
 import {
   RichTextEditor,
   type RichTextEditorRef
 } from "~components/RichTextEditor"
+import TagInput from "~components/TagInput"
+import type { WikiLinkTarget } from "~components/WikiLink"
 import { generateTitle, summarizeText } from "~services/ai-service"
+import type { NoteRevision } from "~services/db-service"
+import { normalizeCategoryPath } from "~util/category-path"
 import { markdownToTipTapHTML } from "~util/markdown-to-tiptap"
+import { containsSensitiveContent } from "~util/sensitive-content"
 import { logger } from "~utils/logger"
 
 interface NoteEditorProps {
@@ -14,13 +21,21 @@ interface NoteEditorProps {
   content: string
   category: string
   categories: string[]
+  tags: string[]
+  availableTags: string[]
   isEditing: boolean
   loading: boolean
   onTitleChange: (title: string) => void
   onCategoryChange: (category: string) => void
+  onTagsChange: (tags: string[]) => void
   onSave: (editorRef: RichTextEditorRef | null, finalCategory?: string) => void
   onCancel: () => void
   externalEditorRef?: React.MutableRefObject<RichTextEditorRef | null>
+  noteId?: string
+  onRestoreRevision?: (revision: NoteRevision) => Promise<void>
+  onOpenLinkedNote?: (target: WikiLinkTarget) => void
+  sensitive?: boolean
+  onSensitiveChange?: (sensitive: boolean) => void
 }
 
 export function NoteEditor({
@@ -28,13 +43,21 @@ export function NoteEditor({
   content,
   category,
   categories,
+  tags,
+  availableTags,
   isEditing,
   loading,
   onTitleChange,
   onCategoryChange,
+  onTagsChange,
   onSave,
   onCancel,
-  externalEditorRef
+  externalEditorRef,
+  noteId,
+  onRestoreRevision,
+  onOpenLinkedNote,
+  sensitive,
+  onSensitiveChange
 }: NoteEditorProps) {
   const [showNewCategory, setShowNewCategory] = useState(false)
   const [newCategoryName, setNewCategoryName] = useState("")
@@ -44,10 +67,15 @@ export function NoteEditor({
   const [currentContent, setCurrentContent] = useState(content)
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false)
   const [isToolbarVisible, setIsToolbarVisible] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
 
   const internalEditorRef = useRef<RichTextEditorRef>(null)
   const editorRef = externalEditorRef || internalEditorRef
 
+  const isSensitiveDetected =
+    sensitive === undefined && containsSensitiveContent(currentContent)
+  const isSensitive = sensitive ?? isSensitiveDetected
+
   useEffect(() => {
     if (content && editorRef.current) {
       editorRef.current.setContent(content)
@@ -125,10 +153,18 @@ export function NoteEditor({
     setIsSummarizing(false)
   }
 
+  const parseCategoryInput = (value: string): string | null => {
+    try {
+      return normalizeCategoryPath(value)
+    } catch (error) {
+      alert(error.message)
+      return null
+    }
+  }
+
   const handleAddCategory = () => {
-    const finalCategory = newCategoryName.trim().toLowerCase()
+    const finalCategory = parseCategoryInput(newCategoryName)
     if (!finalCategory) {
-      alert("Category name is required")
       return
     }
 
@@ -149,9 +185,8 @@ export function NoteEditor({
     let finalCategory = category
 
     if (showNewCategory) {
-      finalCategory = newCategoryName.trim().toLowerCase()
+      finalCategory = parseCategoryInput(newCategoryName)
       if (!finalCategory) {
-        alert("Category is required")
         return
       }
 
@@ -235,8 +270,38 @@ export function NoteEditor({
             </svg>
           )}
         </button>
+        {isEditing && noteId && onRestoreRevision && (
+          <button
+            onClick={() => setShowHistory(true)}
+            className="plasmo-p-2 plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded-lg plasmo-transition-all plasmo-flex-shrink-0"
+            title="Version history">
+            <svg
+              className="plasmo-w-5 plasmo-h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+          </button>
+        )}
       </div>
 
+      {}
+      {showHistory && noteId && onRestoreRevision && (
+        <NoteHistoryPanel
+          noteId={noteId}
+          currentTitle={title}
+          currentPlaintext={currentContent}
+          onRestore={onRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {}
       <div className="plasmo-flex plasmo-items-center plasmo-gap-3 plasmo-px-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
         {}
@@ -246,7 +311,7 @@ export function NoteEditor({
               type="text"
               value={newCategoryName}
               onChange={(e) => setNewCategoryName(e.target.value)}
-              placeholder="Enter category name"
+              placeholder="e.g. work/aws/iam"
               className="plasmo-w-40 plasmo-px-3 plasmo-py-2 plasmo-border plasmo-border-slate-200 plasmo-rounded-lg focus:plasmo-outline-none focus:plasmo-ring-2 plasmo-ring-blue-500 plasmo-text-sm plasmo-text-slate-900 placeholder:plasmo-text-slate-400"
               onKeyDown={(e) => {
                 if (e.key === "Enter") {
@@ -381,6 +446,30 @@ export function NoteEditor({
         </div>
       </div>
 
+      {}
+      <TagInput
+        tags={tags}
+        availableTags={availableTags}
+        onTagsChange={onTagsChange}
+        noteTitle={title}
+        noteContent={currentContent}
+      />
+
+      {}
+      {onSensitiveChange && (
+        <label className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-text-xs plasmo-text-slate-600 plasmo-cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isSensitive}
+            onChange={(e) => onSensitiveChange(e.target.checked)}
+          />
+          Sensitive - hide from the assistant and web pages
+          {isSensitiveDetected && (
+            <span className="plasmo-text-slate-400">(detected)</span>
+          )}
+        </label>
+      )}
+
       {}
       <div className="plasmo-flex-1 plasmo-overflow-hidden plasmo-relative">
         <RichTextEditor
@@ -394,9 +483,23 @@ export function NoteEditor({
           onSummarize={handleSummarizeContent}
           isSummarizing={isSummarizing}
           onToolbarVisibilityChange={setIsToolbarVisible}
+          enableWikiLinks
+          onWikiLinkClick={onOpenLinkedNote}
+          enableAttachments
         />
       </div>
 
+      {}
+      {noteId && onOpenLinkedNote && (
+        <BacklinksPanel
+          noteId={noteId}
+          noteTitle={title}
+          onOpenNote={(linkedNoteId) =>
+            onOpenLinkedNote({ noteId: linkedNoteId, title: "" })
+          }
+        />
+      )}
+
       {}
       <button
         onClick={handleSave}
@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useState } from "react"
+
+import {
+  getNoteRevisions,
+  pruneNoteRevisions,
+  type NoteRevision
+} from "~services/db-service"
+import {
+  getRevisionSettings,
+  updateRevisionSettings
+} from "~services/revision-settings"
+import type { RevisionRetentionMode } from "~types/revision"
+import { diffLines, summarizeDiff, toSideBySide } from "~util/text-diff"
+import { logger } from "~utils/logger"
+
+interface NoteHistoryPanelProps {
+  noteId: string
+
+  currentTitle: string
+
+  currentPlaintext: string
+
+  onRestore: (revision: NoteRevision) => Promise<void>
+
+  onClose: () => void
+}
+
+type DiffMode = "inline" | "side-by-side"
+
+const formatRevisionDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  })
+}
+
+const LINE_STYLES = {
+  equal: "plasmo-text-slate-700",
+  insert: "plasmo-bg-green-50 plasmo-text-green-800",
+  delete: "plasmo-bg-red-50 plasmo-text-red-800 plasmo-line-through"
+}
+
+const LINE_PREFIX = {
+  equal: " ",
+  insert: "+",
+  delete: "-"
+}
+
+export function NoteHistoryPanel({
+  noteId,
+  currentTitle,
+  currentPlaintext,
+  onRestore,
+  onClose
+}: NoteHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([])
+  const [selectedRevision, setSelectedRevision] = useState<NoteRevision | null>(
+    null
+  )
+  const [diffMode, setDiffMode] = useState<DiffMode>("inline")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [retentionMode, setRetentionMode] =
+    useState<RevisionRetentionMode>("count")
+  const [maxRevisions, setMaxRevisions] = useState(20)
+  const [maxAgeDays, setMaxAgeDays] = useState(30)
+
+  const loadRevisions = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getNoteRevisions(noteId)
+      setRevisions(result)
+      setSelectedRevision((previous) =>
+        previous ? result.find((r) => r.id === previous.id) || null : null
+      )
+    } catch (error) {
+      logger.error(" [History] Error loading revisions:", error)
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadRevisions()
+
+    getRevisionSettings().then((settings) => {
+      setRetentionMode(settings.retentionMode)
+      setMaxRevisions(settings.maxRevisions)
+      setMaxAgeDays(settings.maxAgeDays)
+    })
+  }, [noteId])
+
+  const diff = useMemo(() => {
+    if (!selectedRevision) return []
+    return diffLines(selectedRevision.contentPlaintext, currentPlaintext)
+  }, [selectedRevision, currentPlaintext])
+
+  const diffSummary = useMemo(() => summarizeDiff(diff), [diff])
+  const sideBySideRows = useMemo(() => toSideBySide(diff), [diff])
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return
+
+    if (
+      !confirm(
+        `Restore the version from ${formatRevisionDate(selectedRevision.noteUpdatedAt)}? The current version will be kept in history.`
+      )
+    ) {
+      return
+    }
+
+    setIsRestoring(true)
+    try {
+      await onRestore(selectedRevision)
+      await loadRevisions()
+      setSelectedRevision(null)
+    } catch (error) {
+      logger.error(" [History] Error restoring revision:", error)
+      alert(`Failed to restore revision: ${error.message || error}`)
+    }
+    setIsRestoring(false)
+  }
+
+  const handleSaveSettings = async () => {
+    try {
+      await updateRevisionSettings({ retentionMode, maxRevisions, maxAgeDays })
+      const pruned = await pruneNoteRevisions()
+      logger.log(` [History] Retention updated, pruned ${pruned} revisions`)
+      setShowSettings(false)
+      await loadRevisions()
+    } catch (error) {
+      alert(error.message || "Failed to save retention settings")
+    }
+  }
+
+  return (
+    <div className="plasmo-absolute plasmo-inset-0 plasmo-z-40 plasmo-bg-white plasmo-flex plasmo-flex-col">
+      {}
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-3 plasmo-border-b plasmo-border-slate-200 plasmo-pb-3">
+        <button
+          onClick={selectedRevision ? () => setSelectedRevision(null) : onClose}
+          className="plasmo-p-1.5 plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded-lg plasmo-transition-colors plasmo-flex-shrink-0">
+          <svg
+            className="plasmo-w-5 plasmo-h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+        <div className="plasmo-flex-1 plasmo-min-w-0">
+          <h2 className="plasmo-text-lg plasmo-font-normal plasmo-text-slate-900 plasmo-truncate">
+            {selectedRevision ? selectedRevision.title : "Version history"}
+          </h2>
+          {selectedRevision && (
+            <p className="plasmo-text-xs plasmo-text-slate-500">
+              {formatRevisionDate(selectedRevision.noteUpdatedAt)} ·{" "}
+              <span className="plasmo-text-green-700">
+                +{diffSummary.added}
+              </span>{" "}
+              <span className="plasmo-text-red-700">
+                -{diffSummary.removed}
+              </span>{" "}
+              vs. current
+            </p>
+          )}
+        </div>
+        {!selectedRevision && (
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="plasmo-p-2 plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded-lg plasmo-transition-colors plasmo-flex-shrink-0"
+            title="History retention settings">
+            <svg
+              className="plasmo-w-5 plasmo-h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+              />
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {}
+      {showSettings && !selectedRevision && (
+        <div className="plasmo-flex plasmo-flex-col plasmo-gap-2 plasmo-px-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200 plasmo-text-sm plasmo-text-slate-700">
+          <div className="plasmo-flex plasmo-items-center plasmo-gap-2">
+            <select
+              value={retentionMode}
+              onChange={(e) =>
+                setRetentionMode(e.target.value as RevisionRetentionMode)
+              }
+              className="plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white">
+              <option value="count">Keep last</option>
+              <option value="days">Keep for</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={retentionMode === "count" ? maxRevisions : maxAgeDays}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10) || 1
+                if (retentionMode === "count") {
+                  setMaxRevisions(value)
+                } else {
+                  setMaxAgeDays(value)
+                }
+              }}
+              className="plasmo-w-20 plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm"
+            />
+            <span>{retentionMode === "count" ? "versions" : "days"}</span>
+          </div>
+          <button
+            onClick={handleSaveSettings}
+            className="plasmo-self-start plasmo-px-3 plasmo-py-1.5 plasmo-text-xs plasmo-font-medium plasmo-text-white plasmo-bg-blue-600 hover:plasmo-bg-blue-700 plasmo-rounded-lg plasmo-transition-colors">
+            Save retention
+          </button>
+        </div>
+      )}
+
+      {}
+      <div className="plasmo-flex-1 plasmo-overflow-y-auto plasmo-no-visible-scrollbar">
+        {isLoading ? (
+          <div className="plasmo-flex plasmo-items-center plasmo-justify-center plasmo-py-12">
+            <div className="plasmo-w-8 plasmo-h-8 plasmo-border-4 plasmo-border-slate-200 plasmo-border-t-slate-800 plasmo-rounded-full plasmo-animate-spin" />
+          </div>
+        ) : !selectedRevision ? (
+          revisions.length === 0 ? (
+            <p className="plasmo-py-12 plasmo-text-center plasmo-text-sm plasmo-text-slate-500">
+              No previous versions yet. A version is saved every time this note
+              is updated.
+            </p>
+          ) : (
+            <ul className="plasmo-divide-y plasmo-divide-slate-100">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedRevision(revision)}
+                    className="plasmo-w-full plasmo-px-3 plasmo-py-3 plasmo-text-left hover:plasmo-bg-slate-50 plasmo-transition-colors">
+                    <div className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900 plasmo-truncate">
+                      {revision.title}
+                      {revision.title !== currentTitle && (
+                        <span className="plasmo-ml-2 plasmo-text-xs plasmo-font-normal plasmo-text-slate-400">
+                          (renamed)
+                        </span>
+                      )}
+                    </div>
+                    <div className="plasmo-text-xs plasmo-text-slate-500">
+                      {formatRevisionDate(revision.noteUpdatedAt)} ·{" "}
+                      {revision.category}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        ) : (
+          <div className="plasmo-flex plasmo-flex-col plasmo-gap-2 plasmo-py-3">
+            <div className="plasmo-flex plasmo-items-center plasmo-gap-1 plasmo-px-3">
+              {(["inline", "side-by-side"] as DiffMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setDiffMode(mode)}
+                  className={`plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-rounded-full plasmo-transition-colors ${
+                    diffMode === mode
+                      ? "plasmo-bg-slate-800 plasmo-text-white"
+                      : "plasmo-text-slate-600 hover:plasmo-bg-slate-100"
+                  }`}>
+                  {mode === "inline" ? "Inline" : "Side by side"}
+                </button>
+              ))}
+            </div>
+
+            {diffMode === "inline" ? (
+              <pre className="plasmo-text-xs plasmo-font-mono plasmo-whitespace-pre-wrap plasmo-break-words">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={`plasmo-px-3 ${LINE_STYLES[line.type]}`}>
+                    {LINE_PREFIX[line.type]} {line.text || " "}
+                  </div>
+                ))}
+              </pre>
+            ) : (
+              <div className="plasmo-grid plasmo-grid-cols-2 plasmo-text-xs plasmo-font-mono">
+                <div className="plasmo-px-3 plasmo-pb-1 plasmo-font-sans plasmo-text-slate-500">
+                  This version
+                </div>
+                <div className="plasmo-px-3 plasmo-pb-1 plasmo-font-sans plasmo-text-slate-500">
+                  Current
+                </div>
+                {sideBySideRows.map((row, index) => (
+                  <div key={index} className="plasmo-contents">
+                    <div
+                      className={`plasmo-px-3 plasmo-whitespace-pre-wrap plasmo-break-words plasmo-border-r plasmo-border-slate-100 ${
+                        row.left ? LINE_STYLES[row.left.type] : ""
+                      }`}>
+                      {row.left?.text || " "}
+                    </div>
+                    <div
+                      className={`plasmo-px-3 plasmo-whitespace-pre-wrap plasmo-break-words ${
+                        row.right ? LINE_STYLES[row.right.type] : ""
+                      }`}>
+                      {row.right?.text || " "}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {}
+      {selectedRevision && (
+        <div className="plasmo-border-t plasmo-border-slate-200 plasmo-pt-3 plasmo-flex plasmo-justify-end">
+          <button
+            onClick={handleRestore}
+            disabled={isRestoring}
+            className="plasmo-px-4 plasmo-py-2 plasmo-text-sm plasmo-font-medium plasmo-text-white plasmo-bg-blue-600 hover:plasmo-bg-blue-700 plasmo-rounded-lg disabled:plasmo-opacity-50 disabled:plasmo-cursor-not-allowed plasmo-transition-colors">
+            {isRestoring ? "Restoring..." : "Restore this version"}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
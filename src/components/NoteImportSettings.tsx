@@ -0,0 +1,290 @@
+import { useRef, useState } from "react"
+
+import { enexImporter } from "~services/enex-import-service"
+import {
+  planImport,
+  readImportSource,
+  runImport
+} from "~services/import-service"
+import { keepImporter } from "~services/keep-import-service"
+import { markdownImporter } from "~services/markdown-import-service"
+import { notionImporter } from "~services/notion-import-service"
+import type {
+  ImportItemError,
+  ImportPlan,
+  ImportResult,
+  NoteImporter
+} from "~types/import"
+import { NOTE_COLORS } from "~util/note-colors"
+import { logger } from "~utils/logger"
+
+const IMPORTERS: NoteImporter[] = [
+  markdownImporter,
+  keepImporter,
+  enexImporter,
+  notionImporter
+]
+
+const actionLabels = {
+  create: "New",
+  update: "Update",
+  skip: "Skip"
+}
+
+const buttonClassName =
+  "plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50"
+
+function formatImportResult(result: ImportResult): string {
+  const parts = [
+    `${result.cancelled ? "Cancelled after importing" : "Imported"} ${result.created} new notes`,
+    `updated ${result.updated}`,
+    `skipped ${result.skipped}`
+  ]
+  if (result.trashed > 0) {
+    parts.push(`${result.trashed} moved to trash`)
+  }
+  if (result.attachmentsImported > 0) {
+    parts.push(`${result.attachmentsImported} attachments`)
+  }
+  return parts.join(", ")
+}
+
+export function NoteImportSettings() {
+  const [importer, setImporter] = useState<NoteImporter>(IMPORTERS[0])
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [itemErrors, setItemErrors] = useState<ImportItemError[]>([])
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [progress, setProgress] = useState<{
+    done: number
+    total: number
+  } | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const reset = () => {
+    setPlan(null)
+    setStatus(null)
+    setError(null)
+    setItemErrors([])
+  }
+
+  const handleSelectSource = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || [])
+    if (files.length === 0) return
+
+    reset()
+    setIsWorking(true)
+    try {
+      const nextPlan = await planImport(importer, await readImportSource(files))
+      setItemErrors(nextPlan.errors)
+      if (nextPlan.items.length === 0) {
+        setError(`No ${importer.label} notes were found in the selected files`)
+      } else {
+        setPlan(nextPlan)
+      }
+    } catch (error) {
+      logger.error(` [Import] ${importer.label} preview failed:`, error)
+      setError(error.message || "Failed to read the selected files")
+    }
+    setIsWorking(false)
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setIsWorking(true)
+    setError(null)
+    setProgress({ done: 0, total: plan.createCount + plan.updateCount })
+    try {
+      const result = await runImport(plan, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      })
+      setStatus(formatImportResult(result))
+      setItemErrors(result.errors)
+      setPlan(null)
+      await chrome.runtime.sendMessage({ type: "NOTES_IMPORTED" })
+    } catch (error) {
+      logger.error(` [Import] ${importer.label} import failed:`, error)
+      setError(error.message || "Failed to import notes")
+    }
+    abortControllerRef.current = null
+    setProgress(null)
+    setIsWorking(false)
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Import from other apps
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          {importer.description} Notes whose text already exists are skipped.
+        </p>
+      </div>
+
+      <select
+        value={importer.id}
+        onChange={(e) => {
+          reset()
+          setImporter(
+            IMPORTERS.find((candidate) => candidate.id === e.target.value)!
+          )
+        }}
+        disabled={isWorking}
+        className="plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white">
+        {IMPORTERS.map((candidate) => (
+          <option key={candidate.id} value={candidate.id}>
+            {candidate.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="plasmo-flex plasmo-flex-col plasmo-gap-1 plasmo-text-xs plasmo-text-slate-600">
+        <label>
+          Files{" "}
+          <input
+            key={`${importer.id}-files`}
+            type="file"
+            accept={importer.accept}
+            multiple
+            disabled={isWorking}
+            onChange={(e) => handleSelectSource(e.target.files)}
+          />
+        </label>
+        <label>
+          Folder{" "}
+          <input
+            key={`${importer.id}-folder`}
+            type="file"
+            {...{ webkitdirectory: "" }}
+            disabled={isWorking}
+            onChange={(e) => handleSelectSource(e.target.files)}
+          />
+        </label>
+      </div>
+
+      {plan && !progress && (
+        <div className="plasmo-flex plasmo-flex-col plasmo-gap-2">
+          <span className="plasmo-text-xs plasmo-text-slate-600">
+            {plan.createCount} new, {plan.updateCount} to update,{" "}
+            {plan.skipCount} skipped
+          </span>
+          <ul className="plasmo-max-h-48 plasmo-overflow-y-auto plasmo-text-xs plasmo-text-slate-600 plasmo-border plasmo-border-slate-200 plasmo-rounded">
+            {plan.items.map(({ candidate, ...item }) => (
+              <li
+                key={candidate.path}
+                className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-px-2 plasmo-py-1 plasmo-border-b plasmo-border-slate-100">
+                <span
+                  className={`plasmo-w-12 plasmo-flex-shrink-0 plasmo-font-medium ${
+                    item.action === "skip"
+                      ? "plasmo-text-slate-400"
+                      : "plasmo-text-blue-600"
+                  }`}>
+                  {actionLabels[item.action]}
+                </span>
+                {candidate.color && (
+                  <span
+                    className="plasmo-w-3 plasmo-h-3 plasmo-flex-shrink-0 plasmo-rounded-full plasmo-border"
+                    style={{
+                      backgroundColor: NOTE_COLORS[candidate.color].bg,
+                      borderColor: NOTE_COLORS[candidate.color].border
+                    }}
+                  />
+                )}
+                <span
+                  className="plasmo-flex-1 plasmo-min-w-0 plasmo-truncate"
+                  title={candidate.path}>
+                  {candidate.title}
+                  <span className="plasmo-text-slate-400">
+                    {" "}
+                    · {candidate.category}
+                  </span>
+                  {candidate.trashed && (
+                    <span className="plasmo-text-slate-400"> · trash</span>
+                  )}
+                  {item.reason && (
+                    <span className="plasmo-text-slate-400">
+                      {" "}
+                      · {item.reason}
+                    </span>
+                  )}
+                  {item.missingAttachments.length > 0 && (
+                    <span className="plasmo-text-amber-600">
+                      {" "}
+                      · {item.missingAttachments.length} missing attachments
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="plasmo-flex plasmo-items-center plasmo-gap-2">
+            <button
+              onClick={handleImport}
+              disabled={isWorking || plan.createCount + plan.updateCount === 0}
+              className={`${buttonClassName} plasmo-text-blue-600 hover:plasmo-bg-blue-50`}>
+              Import {plan.createCount + plan.updateCount} notes
+            </button>
+            <button
+              onClick={reset}
+              disabled={isWorking}
+              className={`${buttonClassName} plasmo-text-slate-600 hover:plasmo-bg-slate-100`}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {progress && (
+        <div className="plasmo-flex plasmo-flex-col plasmo-gap-1 plasmo-text-xs plasmo-text-slate-600">
+          <span>
+            Imported {progress.done} of {progress.total} notes...
+          </span>
+          <div className="plasmo-h-1.5 plasmo-rounded-full plasmo-bg-slate-200 plasmo-overflow-hidden">
+            <div
+              className="plasmo-h-full plasmo-bg-blue-500 plasmo-transition-all"
+              style={{
+                width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%`
+              }}
+            />
+          </div>
+          <div>
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className={`${buttonClassName} plasmo-text-red-600 hover:plasmo-bg-red-50`}>
+              Stop import
+            </button>
+          </div>
+        </div>
+      )}
+      {status && (
+        <span className="plasmo-text-xs plasmo-text-slate-600">{status}</span>
+      )}
+      {itemErrors.length > 0 && (
+        <details className="plasmo-text-xs plasmo-text-amber-700">
+          <summary className="plasmo-cursor-pointer">
+            {itemErrors.length} notes could not be imported
+          </summary>
+          <ul className="plasmo-max-h-32 plasmo-overflow-y-auto plasmo-mt-1">
+            {itemErrors.map((itemError) => (
+              <li key={itemError.path} className="plasmo-py-0.5">
+                <span className="plasmo-font-medium">
+                  {itemError.title || itemError.path}
+                </span>
+                : {itemError.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {error && (
+        <span className="plasmo-text-xs plasmo-text-red-600">{error}</span>
+      )}
+    </div>
+  )
+}
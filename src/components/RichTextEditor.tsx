@@ -1,6 +1,5 @@
 import { Color } from "@tiptap/extension-color"
 import Highlight from "@tiptap/extension-highlight"
-import Image from "@tiptap/extension-image"
 import Link from "@tiptap/extension-link"
 import Subscript from "@tiptap/extension-subscript"
 import Superscript from "@tiptap/extension-superscript"
@@ -18,12 +17,41 @@ import {
   useCallback,
   useEffect,
   useImperativeHandle,
+  useRef,
   useState
 } from "react"
 
+import {
+  ATTACHMENT_FILE_NODE,
+  AttachmentFile,
+  AttachmentImage
+} from "~components/AttachmentNodes"
+import { TaskItem, TaskList } from "~components/TaskListNodes"
+import {
+  WIKI_LINK_NODE,
+  WikiLink,
+  type WikiLinkTarget
+} from "~components/WikiLink"
+import {
+  getAttachmentObjectUrl,
+  isSupportedAttachment,
+  saveAttachment
+} from "~services/attachment-service"
+import { searchNotesByTitle, type Note } from "~services/db-proxy"
+import { toAttachmentUrl } from "~util/attachments"
 import { tiptapToMarkdown } from "~util/tiptap-to-markdown"
 import { logger } from "~utils/logger"
 
+interface WikiLinkSuggestState {
+  query: string
+  from: number
+  to: number
+  left: number
+  top: number
+}
+
+const WIKI_LINK_TRIGGER = /\[\[([^[\]\n]*)$/
+
 interface RichTextEditorProps {
   initialContent?: string
   placeholder?: string
@@ -34,6 +62,9 @@ interface RichTextEditorProps {
   showToolbar?: boolean
   compact?: boolean
   onToolbarVisibilityChange?: (isVisible: boolean) => void
+  enableWikiLinks?: boolean
+  onWikiLinkClick?: (target: WikiLinkTarget) => void
+  enableAttachments?: boolean
 }
 
 export interface RichTextEditorRef {
@@ -57,7 +88,10 @@ export const RichTextEditor = forwardRef<
       isSummarizing,
       showToolbar = true,
       compact = false,
-      onToolbarVisibilityChange
+      onToolbarVisibilityChange,
+      enableWikiLinks = false,
+      onWikiLinkClick,
+      enableAttachments = false
     },
     ref
   ) => {
@@ -66,6 +100,52 @@ export const RichTextEditor = forwardRef<
     const [showImageInput, setShowImageInput] = useState(false)
     const [imageUrl, setImageUrl] = useState("")
     const [isEditorFocused, setIsEditorFocused] = useState(false)
+    const [wikiSuggest, setWikiSuggest] = useState<WikiLinkSuggestState | null>(
+      null
+    )
+    const [wikiSuggestions, setWikiSuggestions] = useState<Note[]>([])
+    const [wikiSelectedIndex, setWikiSelectedIndex] = useState(0)
+
+    const wikiKeyHandlerRef = useRef<(event: KeyboardEvent) => boolean>(
+      () => false
+    )
+    const onWikiLinkClickRef = useRef(onWikiLinkClick)
+    onWikiLinkClickRef.current = onWikiLinkClick
+    const insertFilesRef = useRef<(files: File[], pos: number) => void>(
+      () => {}
+    )
+
+    const updateWikiSuggest = (currentEditor: any) => {
+      if (!enableWikiLinks) return
+
+      const { $from, empty } = currentEditor.state.selection
+      if (!empty) {
+        setWikiSuggest(null)
+        return
+      }
+
+      const textBefore = $from.parent.textBetween(
+        Math.max(0, $from.parentOffset - 100),
+        $from.parentOffset,
+        undefined,
+        "\ufffc"
+      )
+      const match = WIKI_LINK_TRIGGER.exec(textBefore)
+
+      if (!match) {
+        setWikiSuggest(null)
+        return
+      }
+
+      const coords = currentEditor.view.coordsAtPos($from.pos)
+      setWikiSuggest({
+        query: match[1],
+        from: $from.pos - match[0].length,
+        to: $from.pos,
+        left: coords.left,
+        top: coords.bottom + 4
+      })
+    }
 
     const editor = useEditor({
       extensions: [
@@ -83,7 +163,7 @@ export const RichTextEditor = forwardRef<
             class: "plasmo-text-blue-600 plasmo-underline"
           }
         }),
-        Image.configure({
+        AttachmentImage.configure({
           inline: true,
           HTMLAttributes: {
             class: "plasmo-max-w-full plasmo-h-auto plasmo-rounded"
@@ -99,7 +179,11 @@ export const RichTextEditor = forwardRef<
         TableHeader,
         TableCell,
         Superscript,
-        Subscript
+        Subscript,
+        WikiLink,
+        AttachmentFile,
+        TaskList,
+        TaskItem
       ],
       content: initialContent || "",
       editorProps: {
@@ -108,12 +192,69 @@ export const RichTextEditor = forwardRef<
             "plasmo-prose plasmo-prose-sm plasmo-max-w-none plasmo-min-h-[240px] plasmo-px-3 plasmo-py-2 plasmo-text-slate-900 focus:plasmo-outline-none"
         },
         handleKeyDown: (view, event) => {
+          if (wikiKeyHandlerRef.current(event)) {
+            event.preventDefault()
+            return true
+          }
           if (event.key === "Enter" && !event.shiftKey && onSubmit) {
             event.preventDefault()
             onSubmit()
             return true
           }
           return false
+        },
+        handlePaste: (view, event) => {
+          const files = Array.from(event.clipboardData?.files || [])
+          if (!enableAttachments || files.length === 0) {
+            return false
+          }
+
+          insertFilesRef.current(files, view.state.selection.from)
+          return true
+        },
+        handleDrop: (view, event, slice, moved) => {
+          const files = Array.from(event.dataTransfer?.files || [])
+          if (!enableAttachments || moved || files.length === 0) {
+            return false
+          }
+
+          event.preventDefault()
+          const dropPos = view.posAtCoords({
+            left: event.clientX,
+            top: event.clientY
+          })
+          insertFilesRef.current(
+            files,
+            dropPos?.pos ?? view.state.selection.from
+          )
+          return true
+        },
+        handleClick: (view, pos, event) => {
+          const fileTarget = (event.target as HTMLElement)?.closest?.(
+            "[data-attachment-file]"
+          )
+          if (fileTarget) {
+            event.preventDefault()
+            getAttachmentObjectUrl(
+              fileTarget.getAttribute("data-attachment-file")
+            ).then((url) => {
+              if (url) window.open(url, "_blank")
+            })
+            return true
+          }
+
+          const target = (event.target as HTMLElement)?.closest?.(
+            "[data-wiki-link]"
+          )
+          if (!target || !onWikiLinkClickRef.current) {
+            return false
+          }
+
+          onWikiLinkClickRef.current({
+            noteId: target.getAttribute("data-note-id"),
+            title: target.getAttribute("data-title") || ""
+          })
+          return true
         }
       },
       onUpdate: ({ editor }) => {
@@ -123,6 +264,10 @@ export const RichTextEditor = forwardRef<
           const markdown = tiptapToMarkdown(json)
           onUpdate(markdown, json)
         }
+        updateWikiSuggest(editor)
+      },
+      onSelectionUpdate: ({ editor }) => {
+        updateWikiSuggest(editor)
       },
       onFocus: () => {
         setIsEditorFocused(true)
@@ -132,6 +277,117 @@ export const RichTextEditor = forwardRef<
       }
     })
 
+    useEffect(() => {
+      if (!wikiSuggest || !wikiSuggest.query.trim()) {
+        setWikiSuggestions([])
+        return
+      }
+
+      let isCurrent = true
+      const timeoutId = setTimeout(async () => {
+        try {
+          const results = await searchNotesByTitle(wikiSuggest.query)
+          if (isCurrent) {
+            setWikiSuggestions(results.slice(0, 6))
+            setWikiSelectedIndex(0)
+          }
+        } catch (error) {
+          logger.error(" [RichTextEditor] Wiki link search failed:", error)
+        }
+      }, 150)
+
+      return () => {
+        isCurrent = false
+        clearTimeout(timeoutId)
+      }
+    }, [wikiSuggest?.query])
+
+    const insertWikiLink = (note: Note) => {
+      if (!editor || !wikiSuggest) return
+
+      editor
+        .chain()
+        .focus()
+        .insertContentAt({ from: wikiSuggest.from, to: wikiSuggest.to }, [
+          {
+            type: WIKI_LINK_NODE,
+            attrs: { noteId: note.id, title: note.title }
+          },
+          { type: "text", text: " " }
+        ])
+        .run()
+      setWikiSuggest(null)
+      setWikiSuggestions([])
+    }
+
+    insertFilesRef.current = async (files: File[], pos: number) => {
+      if (!editor) return
+
+      let insertPos = pos
+      for (const file of files) {
+        if (!isSupportedAttachment(file)) {
+          alert(
+            `"${file.name}" is not supported. You can attach images, PDFs and text files.`
+          )
+          continue
+        }
+
+        try {
+          const attachment = await saveAttachment(file, file.name)
+          const node = attachment.mimeType.startsWith("image/")
+            ? {
+                type: "image",
+                attrs: {
+                  src: toAttachmentUrl(attachment.id),
+                  alt: attachment.name,
+                  attachmentId: attachment.id
+                }
+              }
+            : {
+                type: ATTACHMENT_FILE_NODE,
+                attrs: {
+                  attachmentId: attachment.id,
+                  name: attachment.name,
+                  mimeType: attachment.mimeType,
+                  size: attachment.size
+                }
+              }
+
+          editor.chain().focus().insertContentAt(insertPos, node).run()
+          insertPos = editor.state.selection.to
+        } catch (error) {
+          logger.error(" [RichTextEditor] Failed to attach file:", error)
+          alert(error.message || `Failed to attach "${file.name}"`)
+        }
+      }
+    }
+
+    wikiKeyHandlerRef.current = (event: KeyboardEvent) => {
+      if (!wikiSuggest || wikiSuggestions.length === 0) {
+        return false
+      }
+
+      switch (event.key) {
+        case "ArrowDown":
+          setWikiSelectedIndex((i) => (i + 1) % wikiSuggestions.length)
+          return true
+        case "ArrowUp":
+          setWikiSelectedIndex(
+            (i) => (i - 1 + wikiSuggestions.length) % wikiSuggestions.length
+          )
+          return true
+        case "Enter":
+        case "Tab":
+          insertWikiLink(wikiSuggestions[wikiSelectedIndex])
+          return true
+        case "Escape":
+          setWikiSuggest(null)
+          return true
+        default:
+          return false
+      }
+    }
+
     useEffect(() => {
       if (onToolbarVisibilityChange && showToolbar) {
         onToolbarVisibilityChange(isEditorFocused)
@@ -281,6 +537,31 @@ export const RichTextEditor = forwardRef<
           />
         </div>
 
+        {}
+        {wikiSuggest && wikiSuggestions.length > 0 && (
+          <ul
+            className="plasmo-fixed plasmo-z-50 plasmo-w-64 plasmo-max-h-60 plasmo-overflow-y-auto plasmo-bg-white plasmo-border plasmo-border-slate-200 plasmo-rounded-lg plasmo-shadow-lg plasmo-py-1"
+            style={{ left: wikiSuggest.left, top: wikiSuggest.top }}
+            onMouseDown={(e) => e.preventDefault()}>
+            {wikiSuggestions.map((note, index) => (
+              <li key={note.id}>
+                <button
+                  onClick={() => insertWikiLink(note)}
+                  className={`plasmo-w-full plasmo-text-left plasmo-px-3 plasmo-py-1.5 plasmo-text-sm plasmo-truncate ${
+                    index === wikiSelectedIndex
+                      ? "plasmo-bg-indigo-50 plasmo-text-indigo-700"
+                      : "plasmo-text-slate-700 hover:plasmo-bg-slate-50"
+                  }`}>
+                  {note.title}
+                  <span className="plasmo-ml-2 plasmo-text-xs plasmo-text-slate-400">
+                    {note.category}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {}
         {showToolbar && isEditorFocused && (
           <div className="plasmo-fixed plasmo-bottom-0 plasmo-left-0 plasmo-right-0 plasmo-z-40 plasmo-animate-slide-up">
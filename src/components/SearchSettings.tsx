@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react"
+
+import {
+  getSearchSettings,
+  updateSearchSettings
+} from "~services/search-settings"
+import type { SearchSettings as SearchSettingsValues } from "~types/search"
+
+type SearchSettingsField = keyof Omit<SearchSettingsValues, "lastUpdated">
+
+const FIELDS: Array<{
+  key: SearchSettingsField
+  label: string
+  step: number
+  min: number
+}> = [
+  { key: "keywordWeight", label: "Keyword weight", step: 0.1, min: 0 },
+  { key: "vectorWeight", label: "Semantic weight", step: 0.1, min: 0 },
+  { key: "rrfK", label: "Fusion constant", step: 1, min: 1 },
+  { key: "candidateLimit", label: "Candidates per search", step: 1, min: 1 }
+]
+
+function toInputs(settings: SearchSettingsValues) {
+  return Object.fromEntries(
+    FIELDS.map(({ key }) => [key, String(settings[key])])
+  ) as Record<SearchSettingsField, string>
+}
+
+export function SearchSettings() {
+  const [settings, setSettings] = useState<SearchSettingsValues | null>(null)
+  const [inputs, setInputs] = useState<Record<
+    SearchSettingsField,
+    string
+  > | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    getSearchSettings().then((settings) => {
+      setSettings(settings)
+      setInputs(toInputs(settings))
+    })
+  }, [])
+
+  if (!settings || !inputs) return null
+
+  const hasChanges = FIELDS.some(
+    ({ key }) => inputs[key] !== String(settings[key])
+  )
+
+  const handleSave = async () => {
+    const updates = Object.fromEntries(
+      FIELDS.map(({ key }) => [key, Number(inputs[key])])
+    ) as Record<SearchSettingsField, number>
+    if (Object.values(updates).some((value) => !Number.isFinite(value))) {
+      alert("Please enter a number in every field")
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await updateSearchSettings(updates)
+      setSettings(saved)
+      setInputs(toInputs(saved))
+    } catch (error) {
+      alert(error.message || "Failed to save search settings")
+    }
+    setIsSaving(false)
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Search
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          Search and the assistant combine keyword and semantic matches. Raise
+          the keyword weight to favor exact terms such as ticket numbers, or set
+          a weight to zero to turn that half off.
+        </p>
+      </div>
+
+      <div className="plasmo-grid plasmo-grid-cols-2 plasmo-gap-2 plasmo-text-xs plasmo-text-slate-600">
+        {FIELDS.map(({ key, label, step, min }) => (
+          <label key={key} className="plasmo-flex plasmo-flex-col plasmo-gap-1">
+            {label}
+            <input
+              type="number"
+              min={min}
+              step={step}
+              value={inputs[key]}
+              disabled={isSaving}
+              onChange={(e) => setInputs({ ...inputs, [key]: e.target.value })}
+              className="plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      {hasChanges && (
+        <div className="plasmo-flex plasmo-gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-white plasmo-bg-blue-600 hover:plasmo-bg-blue-700 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50">
+            Save
+          </button>
+          <button
+            onClick={() => setInputs(toInputs(settings))}
+            disabled={isSaving}
+            className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50">
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { BackupSettings } from "./BackupSettings"
+import { EmbeddingModelSettings } from "./EmbeddingModelSettings"
+import { KeyRotationSettings } from "./KeyRotationSettings"
+import { MarkdownVaultSettings } from "./MarkdownVaultSettings"
+import { NoteImportSettings } from "./NoteImportSettings"
+import { SearchSettings } from "./SearchSettings"
+import { StorageModeSettings } from "./StorageModeSettings"
+import { VaultSettings } from "./VaultSettings"
+
+interface SettingsViewProps {
+  onBack: () => void
+}
+
+export function SettingsView({ onBack }: SettingsViewProps) {
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-h-full plasmo-p-4 plasmo-overflow-y-auto plasmo-no-visible-scrollbar">
+      {}
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-3 plasmo-border-b plasmo-border-slate-200 plasmo-pb-3">
+        <button
+          onClick={onBack}
+          className="plasmo-p-1.5 plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded-lg plasmo-transition-colors plasmo-flex-shrink-0">
+          <svg
+            className="plasmo-w-5 plasmo-h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+        <h2 className="plasmo-flex-1 plasmo-text-lg plasmo-font-normal plasmo-text-slate-900">
+          Settings
+        </h2>
+      </div>
+
+      {}
+      <EmbeddingModelSettings />
+
+      {}
+      <SearchSettings />
+
+      {}
+      <VaultSettings />
+
+      {}
+      <KeyRotationSettings />
+
+      {}
+      <StorageModeSettings />
+
+      {}
+      <BackupSettings />
+
+      {}
+      <MarkdownVaultSettings />
+
+      {}
+      <NoteImportSettings />
+    </div>
+  )
+}
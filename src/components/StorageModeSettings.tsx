@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react"
+
+import { onStorageModeJobStateChanged } from "~services/storage-mode-service"
+import type { StorageMode, StorageModeJobState } from "~types/vault"
+import { logger } from "~utils/logger"
+
+const STATUS_LABELS: Record<StorageModeJobState["status"], string> = {
+  idle: "Idle",
+  running: "Converting",
+  completed: "Conversion complete",
+  failed: "Failed",
+  cancelled: "Cancelled"
+}
+
+export function StorageModeSettings() {
+  const [mode, setMode] = useState<StorageMode | null>(null)
+  const [job, setJob] = useState<StorageModeJobState | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: "GET_STORAGE_MODE_STATUS" })
+      .then((response) => {
+        setMode(response?.mode || null)
+        setJob(response?.job || null)
+      })
+      .catch((error) =>
+        logger.error(" [Storage Mode] Error loading status:", error)
+      )
+
+    return onStorageModeJobStateChanged(setJob)
+  }, [])
+
+  const isRunning = job?.status === "running"
+
+  const sendModeRequest = async (
+    type: string,
+    fallbackError: string,
+    data?: any
+  ) => {
+    setIsSubmitting(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ type, data })
+      if (!response?.success) {
+        throw new Error(response?.error || fallbackError)
+      }
+      setMode(response.mode)
+      setJob(response.job || null)
+    } catch (error) {
+      alert(error.message || fallbackError)
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleToggle = () => {
+    const nextMode: StorageMode =
+      mode === "encrypt-everything" ? "standard" : "encrypt-everything"
+
+    if (
+      nextMode === "encrypt-everything" &&
+      !confirm(
+        "Encrypt titles, categories, source URLs and embeddings too? Search keeps working after unlock, but the first search of a session is slower while MindKeep decrypts them."
+      )
+    ) {
+      return
+    }
+    sendModeRequest("SET_STORAGE_MODE", "Failed to change storage mode", {
+      mode: nextMode
+    })
+  }
+
+  if (!mode) {
+    return null
+  }
+
+  const progress =
+    job && job.total > 0
+      ? Math.min(100, Math.round((job.processed / job.total) * 100))
+      : 0
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div className="plasmo-flex plasmo-items-start plasmo-justify-between plasmo-gap-2">
+        <div>
+          <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+            Encrypt everything
+          </h3>
+          <p className="plasmo-text-xs plasmo-text-slate-500">
+            {mode === "encrypt-everything"
+              ? "Titles, categories, source URLs and embeddings are encrypted along with note content."
+              : "Only note content is encrypted. Titles, categories, source URLs and embeddings are stored as is."}
+          </p>
+        </div>
+        <button
+          onClick={handleToggle}
+          disabled={isSubmitting}
+          className="plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50 plasmo-flex-shrink-0">
+          {mode === "encrypt-everything" ? "Turn off" : "Turn on"}
+        </button>
+      </div>
+
+      {job && job.status !== "idle" && (
+        <div className="plasmo-flex plasmo-flex-col plasmo-gap-1.5 plasmo-text-xs plasmo-text-slate-600">
+          <div className="plasmo-flex plasmo-items-center plasmo-justify-between">
+            <span>{STATUS_LABELS[job.status]}</span>
+            <span>
+              {job.processed}/{job.total}
+            </span>
+          </div>
+          <div className="plasmo-h-1.5 plasmo-rounded-full plasmo-bg-slate-200 plasmo-overflow-hidden">
+            <div
+              className="plasmo-h-full plasmo-bg-blue-500 plasmo-transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          {job.failedRecords.length > 0 && (
+            <span className="plasmo-text-amber-700">
+              {job.failedRecords.length} records could not be converted
+            </span>
+          )}
+          {job.error && (
+            <span className="plasmo-text-red-600">{job.error}</span>
+          )}
+          <div className="plasmo-flex plasmo-gap-2">
+            {isRunning && (
+              <button
+                onClick={() =>
+                  sendModeRequest(
+                    "CANCEL_STORAGE_MODE",
+                    "Failed to cancel conversion"
+                  )
+                }
+                className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-red-600 hover:plasmo-bg-red-50 plasmo-rounded plasmo-transition-colors">
+                Cancel
+              </button>
+            )}
+            {(job.status === "cancelled" || job.status === "failed") && (
+              <button
+                onClick={() =>
+                  sendModeRequest(
+                    "RETRY_STORAGE_MODE",
+                    "Failed to resume conversion"
+                  )
+                }
+                disabled={isSubmitting}
+                className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50">
+                Resume
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+interface TagFilterBarProps {
+  tags: string[]
+
+  selectedTags: string[]
+
+  onSelectedTagsChange: (tags: string[]) => void
+}
+
+export function TagFilterBar({
+  tags,
+  selectedTags,
+  onSelectedTagsChange
+}: TagFilterBarProps) {
+  if (tags.length === 0) {
+    return null
+  }
+
+  const toggleTag = (tag: string) => {
+    if (selectedTags.includes(tag)) {
+      onSelectedTagsChange(selectedTags.filter((t) => t !== tag))
+    } else {
+      onSelectedTagsChange([...selectedTags, tag])
+    }
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-items-center plasmo-gap-1.5 plasmo-px-3 plasmo-py-2 plasmo-overflow-x-auto plasmo-no-visible-scrollbar">
+      {tags.map((tag) => {
+        const isSelected = selectedTags.includes(tag)
+        return (
+          <button
+            key={tag}
+            onClick={() => toggleTag(tag)}
+            className={`plasmo-px-2 plasmo-py-0.5 plasmo-rounded-full plasmo-text-xs plasmo-font-medium plasmo-whitespace-nowrap plasmo-flex-shrink-0 plasmo-border plasmo-transition-colors ${
+              isSelected
+                ? "plasmo-bg-slate-800 plasmo-text-white plasmo-border-slate-800"
+                : "plasmo-bg-white plasmo-text-slate-600 plasmo-border-slate-200 hover:plasmo-border-slate-400"
+            }`}
+            title={
+              isSelected
+                ? `Stop filtering by "${tag}"`
+                : `Show notes tagged "${tag}"`
+            }>
+            #{tag}
+          </button>
+        )
+      })}
+      {selectedTags.length > 0 && (
+        <button
+          onClick={() => onSelectedTagsChange([])}
+          className="plasmo-px-2 plasmo-py-0.5 plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-800 plasmo-whitespace-nowrap plasmo-flex-shrink-0">
+          Clear
+        </button>
+      )}
+    </div>
+  )
+}
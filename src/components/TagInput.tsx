@@ -0,0 +1,165 @@
+import { useEffect, useRef, useState } from "react"
+
+import { getRelevantTags } from "~services/ai-service"
+import { normalizeTags } from "~services/db-service"
+import type { ScoredTag } from "~types/response"
+import { logger } from "~utils/logger"
+
+interface TagInputProps {
+  tags: string[]
+
+  availableTags: string[]
+
+  onTagsChange: (tags: string[]) => void
+
+  noteTitle: string
+
+  noteContent: string
+
+  maxSuggestions?: number
+}
+
+export function TagInput({
+  tags,
+  availableTags,
+  onTagsChange,
+  noteTitle,
+  noteContent,
+  maxSuggestions = 3
+}: TagInputProps) {
+  const [inputValue, setInputValue] = useState("")
+  const [suggestions, setSuggestions] = useState<ScoredTag[]>([])
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false)
+
+  const tagsRef = useRef(tags)
+  const availableTagsRef = useRef(availableTags)
+
+  useEffect(() => {
+    tagsRef.current = tags
+  }, [tags])
+
+  useEffect(() => {
+    availableTagsRef.current = availableTags
+  }, [availableTags])
+
+  useEffect(() => {
+    let isMounted = true
+
+    const fetchSuggestions = async () => {
+      const candidates = availableTagsRef.current.filter(
+        (tag) => !tagsRef.current.includes(tag)
+      )
+
+      if ((!noteTitle.trim() && !noteContent.trim()) || !candidates.length) {
+        setSuggestions([])
+        return
+      }
+
+      setIsLoadingSuggestions(true)
+      try {
+        const results = await getRelevantTags(
+          noteTitle,
+          noteContent,
+          candidates
+        )
+        if (!isMounted) return
+        setSuggestions(results.slice(0, maxSuggestions))
+      } catch (err) {
+        if (!isMounted) return
+        logger.error("Error fetching tag suggestions:", err)
+        setSuggestions([])
+      } finally {
+        if (isMounted) {
+          setIsLoadingSuggestions(false)
+        }
+      }
+    }
+
+    const timeoutId = setTimeout(fetchSuggestions, 500)
+
+    return () => {
+      isMounted = false
+      clearTimeout(timeoutId)
+    }
+  }, [noteTitle, noteContent])
+
+  const addTags = (values: string[]) => {
+    const nextTags = normalizeTags([...tags, ...values])
+    if (nextTags.length !== tags.length) {
+      onTagsChange(nextTags)
+    }
+    setSuggestions((prev) =>
+      prev.filter((item) => !nextTags.includes(item.tag))
+    )
+  }
+
+  const removeTag = (tag: string) => {
+    onTagsChange(tags.filter((t) => t !== tag))
+  }
+
+  const commitInput = () => {
+    if (!inputValue.trim()) return
+    addTags(inputValue.split(","))
+    setInputValue("")
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-items-center plasmo-gap-1.5 plasmo-px-3 plasmo-py-2 plasmo-border-b plasmo-border-slate-200 plasmo-overflow-x-auto plasmo-no-visible-scrollbar">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="plasmo-inline-flex plasmo-items-center plasmo-gap-1 plasmo-px-2 plasmo-py-0.5 plasmo-bg-slate-100 plasmo-text-slate-700 plasmo-rounded-full plasmo-text-xs plasmo-font-medium plasmo-whitespace-nowrap plasmo-flex-shrink-0">
+          #{tag}
+          <button
+            onClick={() => removeTag(tag)}
+            className="plasmo-text-slate-400 hover:plasmo-text-slate-700"
+            title={`Remove tag "${tag}"`}>
+            ×
+          </button>
+        </span>
+      ))}
+
+      <input
+        type="text"
+        value={inputValue}
+        onChange={(e) => setInputValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault()
+            commitInput()
+          } else if (e.key === "Backspace" && !inputValue && tags.length) {
+            removeTag(tags[tags.length - 1])
+          }
+        }}
+        onBlur={commitInput}
+        list="mindkeep-tag-options"
+        placeholder={tags.length ? "" : "Add tags..."}
+        className="plasmo-flex-1 plasmo-min-w-[80px] plasmo-bg-transparent plasmo-text-xs plasmo-text-slate-900 placeholder:plasmo-text-slate-400 focus:plasmo-outline-none"
+      />
+      <datalist id="mindkeep-tag-options">
+        {availableTags
+          .filter((tag) => !tags.includes(tag))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+
+      {isLoadingSuggestions && (
+        <div className="plasmo-animate-spin plasmo-h-3 plasmo-w-3 plasmo-border-2 plasmo-border-blue-500 plasmo-border-t-transparent plasmo-rounded-full plasmo-flex-shrink-0"></div>
+      )}
+
+      {!isLoadingSuggestions &&
+        suggestions.map((item) => (
+          <button
+            key={item.tag}
+            onClick={() => addTags([item.tag])}
+            className="plasmo-inline-flex plasmo-items-center plasmo-px-2 plasmo-py-0.5 plasmo-bg-gradient-to-r plasmo-from-blue-50 plasmo-to-indigo-50 hover:plasmo-from-blue-100 hover:plasmo-to-indigo-100 plasmo-text-blue-700 plasmo-rounded-full plasmo-text-xs plasmo-font-medium plasmo-border plasmo-border-dashed plasmo-border-blue-200 plasmo-whitespace-nowrap plasmo-flex-shrink-0"
+            title={`Click to add "${item.tag}" tag`}>
+            +#{item.tag}
+          </button>
+        ))}
+    </div>
+  )
+}
+
+export default TagInput
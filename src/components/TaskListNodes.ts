@@ -0,0 +1,150 @@
+import { mergeAttributes, Node, wrappingInputRule } from "@tiptap/react"
+
+export const TASK_LIST_NODE = "taskList"
+
+export const TASK_ITEM_NODE = "taskItem"
+
+export const TaskList = Node.create({
+  name: TASK_LIST_NODE,
+
+  group: "block list",
+
+  content: `${TASK_ITEM_NODE}+`,
+
+  parseHTML() {
+    return [{ tag: 'ul[data-type="taskList"]', priority: 51 }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "ul",
+      mergeAttributes(
+        {
+          "data-type": "taskList",
+          class: "plasmo-list-none plasmo-pl-0"
+        },
+        HTMLAttributes
+      ),
+      0
+    ]
+  }
+})
+
+export const TaskItem = Node.create({
+  name: TASK_ITEM_NODE,
+
+  content: "paragraph block*",
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      checked: {
+        default: false,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute("data-checked") === "true",
+        renderHTML: (attributes) => ({
+          "data-checked": String(!!attributes.checked)
+        })
+      }
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: 'li[data-type="taskItem"]', priority: 51 }]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "li",
+      mergeAttributes({ "data-type": "taskItem" }, HTMLAttributes),
+      [
+        "label",
+        { contenteditable: "false" },
+        [
+          "input",
+          {
+            type: "checkbox",
+            checked: node.attrs.checked ? "checked" : null
+          }
+        ]
+      ],
+      ["div", 0]
+    ]
+  },
+
+  renderText({ node }) {
+    return node.attrs.checked ? "[x] " : "[ ] "
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      Enter: () => this.editor.commands.splitListItem(this.name),
+      Tab: () => this.editor.commands.sinkListItem(this.name),
+      "Shift-Tab": () => this.editor.commands.liftListItem(this.name)
+    }
+  },
+
+  addInputRules() {
+    return [
+      wrappingInputRule({
+        find: /^\s*\[([( |x])?\]\s$/,
+        type: this.type,
+        getAttributes: (match) => ({ checked: match[match.length - 1] === "x" })
+      })
+    ]
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const item = document.createElement("li")
+      const label = document.createElement("label")
+      const checkbox = document.createElement("input")
+      const content = document.createElement("div")
+
+      item.dataset.type = "taskItem"
+      item.dataset.checked = String(!!node.attrs.checked)
+      item.className = "plasmo-flex plasmo-items-start plasmo-gap-2"
+      label.contentEditable = "false"
+      checkbox.type = "checkbox"
+      checkbox.checked = !!node.attrs.checked
+      checkbox.className = "plasmo-mt-1 plasmo-cursor-pointer"
+      content.className = "plasmo-flex-1 plasmo-min-w-0"
+
+      checkbox.addEventListener("mousedown", (event) => event.preventDefault())
+      checkbox.addEventListener("change", () => {
+        if (!editor.isEditable || typeof getPos !== "function") {
+          checkbox.checked = !checkbox.checked
+          return
+        }
+        const position = getPos()
+        if (typeof position !== "number") return
+        editor
+          .chain()
+          .command(({ tr }) => {
+            const current = tr.doc.nodeAt(position)
+            tr.setNodeMarkup(position, undefined, {
+              ...current?.attrs,
+              checked: checkbox.checked
+            })
+            return true
+          })
+          .run()
+      })
+
+      label.append(checkbox)
+      item.append(label, content)
+
+      return {
+        dom: item,
+        contentDOM: content,
+        update: (updatedNode) => {
+          if (updatedNode.type !== node.type) return false
+          item.dataset.checked = String(!!updatedNode.attrs.checked)
+          checkbox.checked = !!updatedNode.attrs.checked
+          return true
+        }
+      }
+    }
+  }
+})
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react"
+
+import {
+  emptyTrash,
+  getTrashedNotes,
+  permanentlyDeleteNote,
+  purgeExpiredTrash,
+  restoreNote,
+  type Note
+} from "~services/db-service"
+import { getTrashSettings, updateTrashSettings } from "~services/trash-settings"
+import { logger } from "~utils/logger"
+
+interface TrashViewProps {
+  onBack: () => void
+
+  onNotesChange: () => void
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const formatDeletedDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric"
+  })
+}
+
+export function TrashView({ onBack, onNotesChange }: TrashViewProps) {
+  const [trashedNotes, setTrashedNotes] = useState<Note[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [retentionDays, setRetentionDays] = useState(30)
+  const [retentionInput, setRetentionInput] = useState("30")
+
+  const loadTrash = async () => {
+    setIsLoading(true)
+    try {
+      setTrashedNotes(await getTrashedNotes())
+    } catch (error) {
+      logger.error(" [Trash] Error loading trash:", error)
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadTrash()
+
+    getTrashSettings().then((settings) => {
+      setRetentionDays(settings.retentionDays)
+      setRetentionInput(String(settings.retentionDays))
+    })
+  }, [])
+
+  const handleRestore = async (note: Note) => {
+    const restored = await restoreNote(note.id)
+    if (!restored) {
+      alert("Failed to restore note")
+      return
+    }
+
+    await loadTrash()
+    onNotesChange()
+  }
+
+  const handlePermanentDelete = async (note: Note) => {
+    if (
+      !confirm(
+        `Permanently delete "${note.title}"? This also removes its version history and cannot be undone.`
+      )
+    ) {
+      return
+    }
+
+    const deleted = await permanentlyDeleteNote(note.id)
+    if (!deleted) {
+      alert("Failed to delete note")
+      return
+    }
+
+    await loadTrash()
+  }
+
+  const handleEmptyTrash = async () => {
+    if (
+      !confirm(
+        `Permanently delete all ${trashedNotes.length} notes in the trash? This cannot be undone.`
+      )
+    ) {
+      return
+    }
+
+    try {
+      await emptyTrash()
+      await loadTrash()
+    } catch (error) {
+      alert(error.message || "Failed to empty trash")
+    }
+  }
+
+  const handleSaveRetention = async () => {
+    const days = parseInt(retentionInput, 10)
+    if (!days || days < 1) {
+      alert("Please enter a number of days greater than zero")
+      return
+    }
+
+    try {
+      const settings = await updateTrashSettings({ retentionDays: days })
+      setRetentionDays(settings.retentionDays)
+      await purgeExpiredTrash()
+      await loadTrash()
+    } catch (error) {
+      alert(error.message || "Failed to save trash settings")
+    }
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-h-full plasmo-p-4">
+      {}
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-3 plasmo-border-b plasmo-border-slate-200 plasmo-pb-3">
+        <button
+          onClick={onBack}
+          className="plasmo-p-1.5 plasmo-text-slate-600 hover:plasmo-bg-slate-100 plasmo-rounded-lg plasmo-transition-colors plasmo-flex-shrink-0">
+          <svg
+            className="plasmo-w-5 plasmo-h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+        <h2 className="plasmo-flex-1 plasmo-text-lg plasmo-font-normal plasmo-text-slate-900">
+          Trash
+        </h2>
+        {trashedNotes.length > 0 && (
+          <button
+            onClick={handleEmptyTrash}
+            className="plasmo-px-3 plasmo-py-1.5 plasmo-text-xs plasmo-font-medium plasmo-text-red-600 hover:plasmo-bg-red-50 plasmo-rounded-lg plasmo-transition-colors">
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {}
+      <div className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-py-3 plasmo-border-b plasmo-border-slate-200 plasmo-text-sm plasmo-text-slate-600">
+        <span>Delete notes forever after</span>
+        <input
+          type="number"
+          min={1}
+          value={retentionInput}
+          onChange={(e) => setRetentionInput(e.target.value)}
+          className="plasmo-w-16 plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm"
+        />
+        <span>days</span>
+        {retentionInput !== String(retentionDays) && (
+          <button
+            onClick={handleSaveRetention}
+            className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-white plasmo-bg-blue-600 hover:plasmo-bg-blue-700 plasmo-rounded plasmo-transition-colors">
+            Save
+          </button>
+        )}
+      </div>
+
+      {}
+      <div className="plasmo-flex-1 plasmo-overflow-y-auto plasmo-no-visible-scrollbar">
+        {isLoading ? (
+          <div className="plasmo-flex plasmo-items-center plasmo-justify-center plasmo-py-12">
+            <div className="plasmo-w-8 plasmo-h-8 plasmo-border-4 plasmo-border-slate-200 plasmo-border-t-slate-800 plasmo-rounded-full plasmo-animate-spin" />
+          </div>
+        ) : trashedNotes.length === 0 ? (
+          <p className="plasmo-py-12 plasmo-text-center plasmo-text-sm plasmo-text-slate-500">
+            The trash is empty
+          </p>
+        ) : (
+          <ul className="plasmo-divide-y plasmo-divide-slate-100">
+            {trashedNotes.map((note) => {
+              const deletedAt = note.deletedAt || Date.now()
+              const daysLeft = Math.max(
+                0,
+                Math.ceil(
+                  (deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS
+                )
+              )
+
+              return (
+                <li
+                  key={note.id}
+                  className="plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-py-3">
+                  <div className="plasmo-flex-1 plasmo-min-w-0">
+                    <div className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900 plasmo-truncate">
+                      {note.title}
+                    </div>
+                    <div className="plasmo-text-xs plasmo-text-slate-500">
+                      {note.category} · deleted {formatDeletedDate(deletedAt)} ·{" "}
+                      {daysLeft} day
+                      {daysLeft === 1 ? "" : "s"} left
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(note)}
+                    className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-blue-600 hover:plasmo-bg-blue-50 plasmo-rounded plasmo-transition-colors"
+                    title="Restore note">
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePermanentDelete(note)}
+                    className="plasmo-px-2 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-text-red-600 hover:plasmo-bg-red-50 plasmo-rounded plasmo-transition-colors"
+                    title="Delete forever">
+                    Delete
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react"
+
+import type { VaultStatus } from "~types/vault"
+import { logger } from "~utils/logger"
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: "Never" },
+  { minutes: 5, label: "After 5 minutes idle" },
+  { minutes: 15, label: "After 15 minutes idle" },
+  { minutes: 30, label: "After 30 minutes idle" },
+  { minutes: 60, label: "After 1 hour idle" },
+  { minutes: 240, label: "After 4 hours idle" }
+]
+
+const inputClassName =
+  "plasmo-w-full plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white"
+
+const buttonClassName =
+  "plasmo-px-3 plasmo-py-1 plasmo-text-xs plasmo-font-medium plasmo-rounded plasmo-transition-colors disabled:plasmo-opacity-50"
+
+export function VaultSettings() {
+  const [status, setStatus] = useState<VaultStatus | null>(null)
+  const [passphrase, setPassphrase] = useState("")
+  const [newPassphrase, setNewPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: "GET_VAULT_STATUS" })
+      .then((response) => setStatus(response?.status || null))
+      .catch((error) =>
+        logger.error(" [Vault Settings] Error loading status:", error)
+      )
+  }, [])
+
+  const sendVaultRequest = async (type: string, data?: any) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await chrome.runtime.sendMessage({ type, data })
+      if (!response?.success) {
+        throw new Error(response?.error || "Vault request failed")
+      }
+      setStatus(response.status)
+      setPassphrase("")
+      setNewPassphrase("")
+      setConfirmPassphrase("")
+    } catch (error) {
+      setError(error.message || "Vault request failed")
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleEnable = () => {
+    if (newPassphrase !== confirmPassphrase) {
+      setError("Passphrases do not match")
+      return
+    }
+    if (
+      !confirm(
+        "Your notes will need this passphrase to be decrypted. If you forget it, they cannot be recovered. Continue?"
+      )
+    ) {
+      return
+    }
+    sendVaultRequest("ENABLE_VAULT_PASSPHRASE", { passphrase: newPassphrase })
+  }
+
+  const handleChange = () => {
+    if (newPassphrase !== confirmPassphrase) {
+      setError("Passphrases do not match")
+      return
+    }
+    sendVaultRequest("CHANGE_VAULT_PASSPHRASE", {
+      currentPassphrase: passphrase,
+      newPassphrase
+    })
+  }
+
+  const handleDisable = () => {
+    if (
+      !confirm(
+        "Remove the passphrase? The encryption key will be stored unprotected on this device again."
+      )
+    ) {
+      return
+    }
+    sendVaultRequest("DISABLE_VAULT_PASSPHRASE", { passphrase })
+  }
+
+  if (!status) {
+    return null
+  }
+
+  return (
+    <div className="plasmo-flex plasmo-flex-col plasmo-gap-3 plasmo-py-3 plasmo-border-b plasmo-border-slate-200">
+      <div>
+        <h3 className="plasmo-text-sm plasmo-font-medium plasmo-text-slate-900">
+          Passphrase lock
+        </h3>
+        <p className="plasmo-text-xs plasmo-text-slate-500">
+          {status.passphraseEnabled
+            ? "Your encryption key is protected by a passphrase and only kept in memory while unlocked."
+            : "Your encryption key is stored on this device. Add a passphrase so notes can only be read after unlocking."}
+        </p>
+      </div>
+
+      {status.passphraseEnabled ? (
+        <>
+          <div className="plasmo-flex plasmo-items-center plasmo-gap-2">
+            <select
+              value={status.autoLockMinutes}
+              onChange={(e) =>
+                sendVaultRequest("UPDATE_VAULT_SETTINGS", {
+                  autoLockMinutes: Number(e.target.value)
+                })
+              }
+              disabled={isSubmitting}
+              className="plasmo-flex-1 plasmo-min-w-0 plasmo-px-2 plasmo-py-1 plasmo-rounded plasmo-border plasmo-border-slate-300 plasmo-text-sm plasmo-bg-white">
+              {AUTO_LOCK_OPTIONS.map((option) => (
+                <option key={option.minutes} value={option.minutes}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => sendVaultRequest("LOCK_VAULT")}
+              disabled={isSubmitting}
+              className={`${buttonClassName} plasmo-text-blue-600 hover:plasmo-bg-blue-50`}>
+              Lock now
+            </button>
+          </div>
+
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Current passphrase"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            placeholder="New passphrase"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm new passphrase"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <div className="plasmo-flex plasmo-gap-2">
+            <button
+              onClick={handleChange}
+              disabled={isSubmitting || !passphrase || !newPassphrase}
+              className={`${buttonClassName} plasmo-text-blue-600 hover:plasmo-bg-blue-50`}>
+              Change passphrase
+            </button>
+            <button
+              onClick={handleDisable}
+              disabled={isSubmitting || !passphrase}
+              className={`${buttonClassName} plasmo-text-red-600 hover:plasmo-bg-red-50`}>
+              Remove passphrase
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <input
+            type="password"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            placeholder="New passphrase"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <div>
+            <button
+              onClick={handleEnable}
+              disabled={isSubmitting || !newPassphrase}
+              className={`${buttonClassName} plasmo-text-blue-600 hover:plasmo-bg-blue-50`}>
+              Enable passphrase
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <span className="plasmo-text-xs plasmo-text-red-600">{error}</span>
+      )}
+    </div>
+  )
+}
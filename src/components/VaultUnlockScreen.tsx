@@ -0,0 +1,106 @@
+import { useState } from "react"
+
+import { logger } from "~utils/logger"
+
+interface VaultUnlockScreenProps {
+  onUnlocked: () => void
+  compact?: boolean
+  messageType?: "UNLOCK_VAULT" | "UNLOCK_SENSITIVE_NOTES"
+  title?: string
+  description?: string
+  onCancel?: () => void
+}
+
+export function VaultUnlockScreen({
+  onUnlocked,
+  compact = false,
+  messageType = "UNLOCK_VAULT",
+  title = "MindKeep is locked",
+  description = "Enter your passphrase to decrypt your notes.",
+  onCancel
+}: VaultUnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase || isUnlocking) return
+
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: messageType,
+        data: { passphrase }
+      })
+      if (!response?.success) {
+        throw new Error(response?.error || "Failed to unlock")
+      }
+      setPassphrase("")
+      onUnlocked()
+    } catch (error) {
+      logger.error(" [Vault] Unlock failed:", error)
+      setError(error.message || "Failed to unlock")
+    }
+    setIsUnlocking(false)
+  }
+
+  return (
+    <div
+      className={`plasmo-flex plasmo-flex-col plasmo-items-center plasmo-justify-center plasmo-gap-4 ${
+        compact ? "plasmo-p-4" : "plasmo-h-screen plasmo-p-6 plasmo-bg-slate-50"
+      }`}>
+      {}
+      <svg
+        className="plasmo-w-10 plasmo-h-10 plasmo-text-slate-400"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+        />
+      </svg>
+      <div className="plasmo-text-center">
+        <h2 className="plasmo-text-lg plasmo-font-normal plasmo-text-slate-900">
+          {title}
+        </h2>
+        <p className="plasmo-text-xs plasmo-text-slate-500">{description}</p>
+      </div>
+
+      <form
+        onSubmit={handleUnlock}
+        className="plasmo-flex plasmo-flex-col plasmo-gap-2 plasmo-w-full plasmo-max-w-xs">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          autoComplete="current-password"
+          className="plasmo-w-full plasmo-px-4 plasmo-py-2.5 plasmo-bg-gray-50 plasmo-border plasmo-border-gray-200 plasmo-rounded-lg focus:plasmo-outline-none focus:plasmo-ring-2 focus:plasmo-ring-blue-500 focus:plasmo-border-transparent plasmo-text-sm plasmo-text-gray-900"
+        />
+        {error && (
+          <span className="plasmo-text-xs plasmo-text-red-600">{error}</span>
+        )}
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="plasmo-bg-blue-600 plasmo-text-white plasmo-px-4 plasmo-py-2.5 plasmo-rounded-lg hover:plasmo-bg-blue-700 disabled:plasmo-opacity-50 disabled:plasmo-cursor-not-allowed plasmo-font-medium plasmo-text-sm plasmo-transition-colors">
+          {isUnlocking ? "Unlocking..." : "Unlock"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="plasmo-text-xs plasmo-text-slate-500 hover:plasmo-text-slate-700 plasmo-transition-colors">
+            Cancel
+          </button>
+        )}
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { InputRule, mergeAttributes, Node } from "@tiptap/react"
+
+export interface WikiLinkTarget {
+  noteId: string | null
+  title: string
+}
+
+export const WIKI_LINK_NODE = "wikiLink"
+
+export const WikiLink = Node.create({
+  name: WIKI_LINK_NODE,
+
+  group: "inline",
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      noteId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-note-id"),
+        renderHTML: (attributes) =>
+          attributes.noteId ? { "data-note-id": attributes.noteId } : {}
+      },
+      title: {
+        default: "",
+        parseHTML: (element) =>
+          element.getAttribute("data-title") ||
+          (element.textContent || "").replace(/^\[\[|\]\]$/g, ""),
+        renderHTML: (attributes) => ({ "data-title": attributes.title })
+      }
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-wiki-link]" }]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "span",
+      mergeAttributes(
+        {
+          "data-wiki-link": "",
+          class:
+            "plasmo-text-indigo-600 plasmo-bg-indigo-50 plasmo-rounded plasmo-px-0.5 plasmo-cursor-pointer"
+        },
+        HTMLAttributes
+      ),
+      `[[${node.attrs.title}]]`
+    ]
+  },
+
+  renderText({ node }) {
+    return `[[${node.attrs.title}]]`
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /\[\[([^[\]\n]+)\]\]$/,
+        handler: ({ state, range, match }) => {
+          const title = match[1].trim()
+          if (!title) {
+            return null
+          }
+
+          state.tr.replaceWith(
+            range.from,
+            range.to,
+            this.type.create({ noteId: null, title })
+          )
+        }
+      })
+    ]
+  }
+})
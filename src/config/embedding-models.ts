@@ -0,0 +1,60 @@
+import type { EmbeddingModelInfo } from "~types/embedding"
+
+/**
+ * Local sentence-embedding models that can be selected in settings.
+ * The first entry is the model that produced all embeddings before
+ * model versioning existed.
+ */
+export const EMBEDDING_MODELS: EmbeddingModelInfo[] = [
+  {
+    id: "Xenova/all-MiniLM-L6-v2",
+    label: "MiniLM L6 (English, fast)",
+    dimension: 384,
+    multilingual: false
+  },
+  {
+    id: "Xenova/bge-small-en-v1.5",
+    label: "BGE Small (English, accurate)",
+    dimension: 384,
+    multilingual: false
+  },
+  {
+    id: "Xenova/paraphrase-multilingual-MiniLM-L12-v2",
+    label: "Multilingual MiniLM L12 (50+ languages)",
+    dimension: 384,
+    multilingual: true
+  },
+  {
+    id: "Xenova/all-mpnet-base-v2",
+    label: "MPNet Base (English, largest)",
+    dimension: 768,
+    multilingual: false
+  }
+]
+
+export const DEFAULT_EMBEDDING_MODEL_ID = EMBEDDING_MODELS[0].id
+
+/**
+ * Files transformers.js needs to run a feature-extraction model.
+ * setup-models.js reads this module, so this list and EMBEDDING_MODELS are
+ * also what gets bundled and checksummed.
+ */
+export const EMBEDDING_MODEL_FILES = [
+  "config.json",
+  "tokenizer.json",
+  "tokenizer_config.json",
+  "onnx/model_quantized.onnx"
+]
+
+export function getEmbeddingModel(
+  modelId: string
+): EmbeddingModelInfo | undefined {
+  return EMBEDDING_MODELS.find((model) => model.id === modelId)
+}
+
+/**
+ * Longest text accepted for a single embedding over extension messaging.
+ * Every bundled model truncates to at most 512 tokens, so anything past
+ * this never reaches the model anyway.
+ */
+export const MAX_EMBEDDING_TEXT_LENGTH = 16000
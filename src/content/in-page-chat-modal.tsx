@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState, type CSSProperties } from "react"
 
 import { AISearchBar } from "~components/AISearchBar"
+import { VaultUnlockScreen } from "~components/VaultUnlockScreen"
 import { InPageTour, useInPageTourState } from "~content/in-page-tour"
 import { inPageAssistantTourSteps } from "~config/tour-steps"
 import type { AgentResponse } from "~services/langchain-agent"
@@ -22,11 +23,33 @@ export function InPageChatModal({
   const [isDragging, setIsDragging] = useState(false)
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const modalRef = useRef<HTMLDivElement>(null)
+  const [vaultLocked, setVaultLocked] = useState(false)
+  const [sensitiveHidden, setSensitiveHidden] = useState(false)
+  const [showSensitiveUnlock, setShowSensitiveUnlock] = useState(false)
 
   // Tour state
   const { hasCompletedTour, runTour, startTour, completeTour, skipTour } =
     useInPageTourState("assistant")
 
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: "GET_VAULT_STATUS" })
+      .then((response) => setVaultLocked(!!response?.status?.locked))
+      .catch((error) =>
+        logger.error("💬 [In-Page Chat] Error loading vault status:", error)
+      )
+
+    // Sensitive notes stay hidden on web pages until this tab re-authenticates
+    chrome.runtime
+      .sendMessage({ type: "GET_SENSITIVE_ACCESS" })
+      .then((response) =>
+        setSensitiveHidden(!!response?.passphraseEnabled && !response.granted)
+      )
+      .catch((error) =>
+        logger.error("💬 [In-Page Chat] Error loading sensitive access:", error)
+      )
+  }, [])
+
   // Auto-start tour on first open
   useEffect(() => {
     if (!hasCompletedTour) {
@@ -220,15 +243,53 @@ export function InPageChatModal({
             <div
               style={{ flex: 1, overflow: "visible", padding: "16px" }}
               data-tour="in-page-ai-search">
-              <AISearchBar
-                placeholder="Ask me anything..."
-                onSearch={handleAISearch}
-                onStartTour={startTour}
-                maxInputHeight="2.5em"
-                personaDropdownUpward={false}
-                enableInsertMode={!!onInsert}
-                onInsert={onInsert}
-              />
+              {vaultLocked ? (
+                <VaultUnlockScreen
+                  compact
+                  onUnlocked={() => setVaultLocked(false)}
+                />
+              ) : showSensitiveUnlock ? (
+                <VaultUnlockScreen
+                  compact
+                  messageType="UNLOCK_SENSITIVE_NOTES"
+                  title="Show sensitive notes"
+                  description="Enter your passphrase to include sensitive notes on this tab for a few minutes."
+                  onUnlocked={() => {
+                    setShowSensitiveUnlock(false)
+                    setSensitiveHidden(false)
+                  }}
+                  onCancel={() => setShowSensitiveUnlock(false)}
+                />
+              ) : (
+                <>
+                  {sensitiveHidden && (
+                    <button
+                      onClick={() => setShowSensitiveUnlock(true)}
+                      style={{
+                        display: "block",
+                        marginBottom: "8px",
+                        padding: "4px 10px",
+                        fontSize: "12px",
+                        color: "#475569",
+                        background: "rgba(241, 245, 249, 0.9)",
+                        border: "1px solid rgba(226, 232, 240, 0.8)",
+                        borderRadius: "9999px",
+                        cursor: "pointer"
+                      }}>
+                      Sensitive notes hidden · Show
+                    </button>
+                  )}
+                  <AISearchBar
+                    placeholder="Ask me anything..."
+                    onSearch={handleAISearch}
+                    onStartTour={startTour}
+                    maxInputHeight="2.5em"
+                    personaDropdownUpward={false}
+                    enableInsertMode={!!onInsert}
+                    onInsert={onInsert}
+                  />
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -1,6 +1,10 @@
+import { MAX_EMBEDDING_TEXT_LENGTH } from "~config/embedding-models"
 import * as aiService from "~services/ai-service"
+import { callRpc } from "~services/rpc-client"
 import { logger } from "~utils/logger"
 
+const EMBEDDING_TIMEOUT_MS = 60000
+
 function isContentScript(): boolean {
   try {
     return (
@@ -14,17 +18,39 @@ function isContentScript(): boolean {
 
 export async function generateEmbedding(text: string): Promise<number[]> {
   if (isContentScript()) {
-    logger.warn(
-      " [AI Proxy] Embedding generation not supported in content scripts due to Chrome MV3 limitations"
-    )
-    logger.warn(" [AI Proxy] Use title-only search instead")
-    throw new Error(
-      "Embedding generation not available in content script context. Use title-only search instead."
+    if (text.length > MAX_EMBEDDING_TEXT_LENGTH) {
+      logger.warn(
+        ` [AI Proxy] Truncating embedding text from ${text.length} to ${MAX_EMBEDDING_TEXT_LENGTH} chars`
+      )
+      text = text.slice(0, MAX_EMBEDDING_TEXT_LENGTH)
+    }
+
+    logger.log(" [AI Proxy] Routing generateEmbedding to background")
+    return await callRpc(
+      "AI_GENERATE_EMBEDDING",
+      { text },
+      { timeoutMs: EMBEDDING_TIMEOUT_MS }
     )
   }
   return await aiService.generateEmbedding(text)
 }
 
+export async function generateNoteEmbedding(
+  text: string
+): Promise<number[] | undefined> {
+  if (isContentScript()) {
+    // Pages cannot see the model files, so a failed embedding is handled
+    // like a missing model and left to the re-embed job
+    try {
+      return await generateEmbedding(text)
+    } catch (error) {
+      logger.warn(" [AI Proxy] Saving without an embedding:", error)
+      return undefined
+    }
+  }
+  return await aiService.generateNoteEmbedding(text)
+}
+
 export const EmbeddingPipeline = {
   generateEmbedding
 }
@@ -1,61 +1,21 @@
-import type { FeatureExtractionPipeline } from "@xenova/transformers"
-import { env, pipeline } from "@xenova/transformers"
-
 import { NOTE_TITLE_GENERATION_SYSTEM_PROMPT } from "~lib/prompts"
-import type { ScoredCategory } from "~types/response"
+import { embedTexts, type EmbedOptions } from "~services/embedding-queue"
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
+import { getModelAssetStatus, isModelUsable } from "~services/model-assets"
+import type { ScoredCategory, ScoredTag } from "~types/response"
 import { logger } from "~utils/logger"
 
 import * as NanoService from "./gemini-nano-service"
 import { executePrompt, type PromptOptions } from "./gemini-nano-service"
 
-env.allowLocalModels = false
-env.useBrowserCache = true
-
-env.backends.onnx.wasm.proxy = false
-
-const EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2"
-
 export class EmbeddingPipeline {
-  static task = "feature-extraction" as const
-  static model = EMBEDDING_MODEL
-  static instance: FeatureExtractionPipeline | null = null
-
-  static async getInstance(): Promise<FeatureExtractionPipeline> {
-    if (this.instance === null) {
-      logger.log("Initializing embedding pipeline...")
-      this.instance = (await pipeline(
-        this.task,
-        this.model
-      )) as FeatureExtractionPipeline
-      logger.log("Embedding pipeline initialized")
-    }
-    return this.instance
-  }
-
-  static async generateEmbedding(text: string): Promise<number[]> {
+  static async generateEmbedding(
+    text: string,
+    options: EmbedOptions = {}
+  ): Promise<number[]> {
     const startTime = performance.now()
     try {
-      const pipelineStartTime = performance.now()
-      const pipeline = await this.getInstance()
-      const pipelineTime = performance.now() - pipelineStartTime
-      logger.log(
-        ` [Embedding] Pipeline initialization: ${pipelineTime.toFixed(2)}ms`
-      )
-
-      const embeddingStartTime = performance.now()
-      const output = await pipeline(text, {
-        pooling: "mean",
-        normalize: true
-      })
-      const embeddingTime = performance.now() - embeddingStartTime
-      logger.log(` [Embedding] Generation time: ${embeddingTime.toFixed(2)}ms`)
-
-      const conversionStartTime = performance.now()
-      const embedding = Array.from(output.data) as number[]
-      const conversionTime = performance.now() - conversionStartTime
-      logger.log(
-        ` [Embedding] Tensor to array conversion: ${conversionTime.toFixed(2)}ms`
-      )
+      const [embedding] = await embedTexts([text], options)
 
       const totalTime = performance.now() - startTime
       logger.log(
@@ -69,24 +29,47 @@ export class EmbeddingPipeline {
         ` [Embedding] Failed after ${totalTime.toFixed(2)}ms:`,
         error
       )
+      if (error?.name === "AbortError") throw error
       throw new Error("Failed to generate embedding")
     }
   }
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  return EmbeddingPipeline.generateEmbedding(text)
+export async function generateEmbedding(
+  text: string,
+  modelId?: string,
+  signal?: AbortSignal
+): Promise<number[]> {
+  return EmbeddingPipeline.generateEmbedding(text, { modelId, signal })
+}
+
+/**
+ * Embeds note content that is about to be saved. Returns undefined while
+ * the model is missing or unverified, so the note is saved without a
+ * vector and the re-embed job fills it in once the model is imported.
+ */
+export async function generateNoteEmbedding(
+  text: string
+): Promise<number[] | undefined> {
+  const modelId = await getActiveEmbeddingModelId()
+  if (!isModelUsable(await getModelAssetStatus(modelId))) {
+    logger.warn(
+      ` [Embedding] ${modelId} is unavailable, saving without an embedding`
+    )
+    return undefined
+  }
+  return generateEmbedding(text, modelId)
 }
 
 export async function generateBatchEmbeddings(
-  texts: string[]
+  texts: string[],
+  options: EmbedOptions = {}
 ): Promise<number[][]> {
   try {
-    const embeddingPromises = texts.map((text) => generateEmbedding(text))
-    const embeddings = await Promise.all(embeddingPromises)
-    return embeddings
+    return await embedTexts(texts, options)
   } catch (error) {
     logger.error("Error generating batch embeddings:", error)
+    if (error?.name === "AbortError") throw error
     throw new Error("Failed to generate batch embeddings")
   }
 }
@@ -402,3 +385,52 @@ export async function getRelevantCategories(
     return []
   }
 }
+
+export async function getRelevantTags(
+  titleContent: string,
+  noteContent: string,
+  availableTags: string[]
+): Promise<ScoredTag[]> {
+  const startTime = performance.now()
+  logger.log(` [Get Tags] Starting tag suggestion (embeddings)...`)
+
+  try {
+    const textToProcess = `${titleContent.trim()} ${noteContent.trim()}`
+
+    if (!textToProcess.trim() || availableTags.length === 0) {
+      logger.log("No content or tags available for analysis.")
+      return []
+    }
+
+    const noteEmbedding = await generateEmbedding(textToProcess)
+    const tagEmbeddings = await generateBatchEmbeddings(availableTags)
+
+    const scoredTags: ScoredTag[] = availableTags.map((tag, index) => ({
+      tag,
+      relevanceScore: cosineSimilarity(noteEmbedding, tagEmbeddings[index])
+    }))
+
+    const sortedTags = scoredTags.sort(
+      (a, b) => b.relevanceScore - a.relevanceScore
+    )
+
+    const totalTime = performance.now() - startTime
+    logger.log(` [Get Tags] TOTAL time: ${totalTime.toFixed(2)}ms`)
+    logger.log(
+      ` Top tags:`,
+      sortedTags
+        .slice(0, 5)
+        .map((t) => `${t.tag}: ${(t.relevanceScore * 100).toFixed(1)}%`)
+    )
+
+    return sortedTags
+  } catch (error) {
+    const totalTime = performance.now() - startTime
+    logger.warn(
+      ` [Get Tags] Could not generate tags after ${totalTime.toFixed(2)}ms.`,
+      error
+    )
+
+    return []
+  }
+}
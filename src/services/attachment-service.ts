@@ -0,0 +1,184 @@
+import { addAttachment, getStoredAttachment } from "~services/db-service"
+import { toAttachmentUrl } from "~util/attachments"
+import { decryptBytes, encryptBytes, getActiveKeyId } from "~util/crypto"
+import { logger } from "~utils/logger"
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+
+const THUMBNAIL_SIZE = 256
+
+const objectUrlCache = new Map<string, Promise<string | null>>()
+
+export interface AttachmentInfo {
+  id: string
+  name: string
+  mimeType: string
+  size: number
+}
+
+export function isSupportedAttachment(file: File): boolean {
+  return (
+    file.type.startsWith("image/") ||
+    file.type.startsWith("text/") ||
+    file.type === "application/pdf"
+  )
+}
+
+function generateAttachmentId(): string {
+  return `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+async function createThumbnail(blob: Blob): Promise<ArrayBuffer | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const scale = Math.min(
+      1,
+      THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height)
+    )
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    )
+    canvas
+      .getContext("2d")!
+      .drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    const thumbnail = await canvas.convertToBlob({
+      type: "image/jpeg",
+      quality: 0.7
+    })
+    return await thumbnail.arrayBuffer()
+  } catch (error) {
+    logger.warn(" [Attachments] Could not create thumbnail:", error)
+    return undefined
+  }
+}
+
+export async function saveAttachment(
+  blob: Blob,
+  name: string
+): Promise<AttachmentInfo> {
+  if (blob.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(
+      `"${name}" is too large (max ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB)`
+    )
+  }
+
+  const startTime = performance.now()
+  const id = generateAttachmentId()
+  const mimeType = blob.type || "application/octet-stream"
+
+  const thumbnail = mimeType.startsWith("image/")
+    ? await createThumbnail(blob)
+    : undefined
+
+  const keyId = await getActiveKeyId()
+  await addAttachment({
+    id,
+    name,
+    mimeType,
+    size: blob.size,
+    data: await encryptBytes(await blob.arrayBuffer(), keyId),
+    thumbnail: thumbnail ? await encryptBytes(thumbnail, keyId) : undefined,
+    createdAt: Date.now(),
+    keyId
+  })
+
+  logger.log(
+    ` [Attachments] Saved "${name}" as ${id}: ${(performance.now() - startTime).toFixed(2)}ms`
+  )
+
+  return { id, name, mimeType, size: blob.size }
+}
+
+export async function getAttachmentBlob(id: string): Promise<Blob | null> {
+  const stored = await getStoredAttachment(id)
+  if (!stored) {
+    logger.warn(` [Attachments] Attachment ${id} not found`)
+    return null
+  }
+
+  const data = await decryptBytes(stored.data, stored.keyId)
+  return new Blob([data], { type: stored.mimeType })
+}
+
+export function getAttachmentObjectUrl(id: string): Promise<string | null> {
+  if (!objectUrlCache.has(id)) {
+    objectUrlCache.set(
+      id,
+      getAttachmentBlob(id)
+        .then((blob) => (blob ? URL.createObjectURL(blob) : null))
+        .catch((error) => {
+          logger.error(` [Attachments] Failed to load ${id}:`, error)
+          objectUrlCache.delete(id)
+          return null
+        })
+    )
+  }
+  return objectUrlCache.get(id)!
+}
+
+export async function getAttachmentThumbnailUrl(
+  id: string
+): Promise<string | null> {
+  try {
+    const stored = await getStoredAttachment(id)
+    if (!stored?.thumbnail) {
+      return null
+    }
+
+    const data = await decryptBytes(stored.thumbnail, stored.keyId)
+    return URL.createObjectURL(new Blob([data], { type: "image/jpeg" }))
+  } catch (error) {
+    logger.error(` [Attachments] Failed to load thumbnail ${id}:`, error)
+    return null
+  }
+}
+
+export async function externalizeInlineImages(doc: any): Promise<number> {
+  let externalized = 0
+
+  const visit = async (node: any) => {
+    if (!node) return
+
+    if (
+      node.type === "image" &&
+      typeof node.attrs?.src === "string" &&
+      node.attrs.src.startsWith("data:") &&
+      !node.attrs.attachmentId
+    ) {
+      try {
+        const blob = await (await fetch(node.attrs.src)).blob()
+        const attachment = await saveAttachment(
+          blob,
+          node.attrs.alt || "pasted-image"
+        )
+        node.attrs = {
+          ...node.attrs,
+          src: toAttachmentUrl(attachment.id),
+          attachmentId: attachment.id
+        }
+        externalized++
+      } catch (error) {
+        logger.error(" [Attachments] Failed to externalize image:", error)
+      }
+    }
+
+    if (Array.isArray(node.content)) {
+      for (const child of node.content) {
+        await visit(child)
+      }
+    }
+  }
+
+  await visit(doc)
+
+  if (externalized > 0) {
+    logger.log(
+      ` [Attachments] Moved ${externalized} inline images to the attachment store`
+    )
+  }
+
+  return externalized
+}
@@ -0,0 +1,389 @@
+import {
+  addAttachment,
+  addCategory,
+  clearAllData,
+  getAllCategories,
+  getAllPersonas,
+  getAllStoredAttachments,
+  getAttachmentIds,
+  getNotesForBackup,
+  importNote,
+  importPersona
+} from "~services/db-service"
+import type { Note } from "~services/db-service"
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
+import {
+  getPersonaSettings,
+  updatePersonaSettings
+} from "~services/persona-settings"
+import { syncNoteLinks } from "~services/wiki-link-service"
+import type {
+  BackupAttachment,
+  BackupFile,
+  BackupNote,
+  BackupPayload,
+  RestoreMode,
+  RestoreReport
+} from "~types/backup"
+import { hashNoteContent } from "~util/content-hash"
+import {
+  arrayBufferToBase64,
+  assertVaultUnlocked,
+  base64ToArrayBuffer,
+  decryptBytes,
+  decryptWithPassphrase,
+  encrypt,
+  encryptBytes,
+  encryptWithPassphrase,
+  getActiveKeyId
+} from "~util/crypto"
+import {
+  dequantizeEmbedding,
+  deserializeEmbedding,
+  quantizeEmbedding,
+  serializeEmbedding
+} from "~util/embedding-codec"
+import { isNoteColor } from "~util/note-colors"
+import { containsSensitiveContent } from "~util/sensitive-content"
+import { logger } from "~utils/logger"
+
+export const BACKUP_FILE_EXTENSION = ".mindkeep"
+
+const BACKUP_FORMAT = "mindkeep-backup"
+
+const BACKUP_FILE_VERSION = 1
+
+const BACKUP_SCHEMA_VERSION = 1
+
+// Upgrades a payload from the keyed schema version to the next one. Add an
+// entry here whenever BACKUP_SCHEMA_VERSION is bumped.
+const SCHEMA_UPGRADES: Record<number, (payload: any) => any> = {}
+
+async function gzip(text: string): Promise<ArrayBuffer> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"))
+  return new Response(stream).arrayBuffer()
+}
+
+async function gunzip(data: ArrayBuffer): Promise<string> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"))
+  return new Response(stream).text()
+}
+
+function toBackupNote(note: Note): BackupNote {
+  return {
+    id: note.id,
+    title: note.title,
+    content: note.content,
+    contentPlaintext: note.contentPlaintext,
+    category: note.category,
+    tags: note.tags || [],
+    attachmentIds: note.attachmentIds || [],
+    sourceUrl: note.sourceUrl,
+    sensitive: note.sensitive,
+    color: note.color,
+    embedding: note.embedding
+      ? serializeEmbedding(
+          quantizeEmbedding(note.embedding, note.embeddingModel)
+        )
+      : undefined,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    deletedAt: note.deletedAt
+  }
+}
+
+async function exportAttachments(): Promise<BackupAttachment[]> {
+  const attachments: BackupAttachment[] = []
+
+  for (const stored of await getAllStoredAttachments()) {
+    attachments.push({
+      id: stored.id,
+      name: stored.name,
+      mimeType: stored.mimeType,
+      size: stored.size,
+      data: arrayBufferToBase64(await decryptBytes(stored.data, stored.keyId)),
+      thumbnail: stored.thumbnail
+        ? arrayBufferToBase64(
+            await decryptBytes(stored.thumbnail, stored.keyId)
+          )
+        : undefined,
+      createdAt: stored.createdAt
+    })
+  }
+
+  return attachments
+}
+
+export function getBackupFileName(date: Date = new Date()): string {
+  return `mindkeep-backup-${date.toISOString().slice(0, 10)}${BACKUP_FILE_EXTENSION}`
+}
+
+export async function createBackup(passphrase: string): Promise<Blob> {
+  const startTime = performance.now()
+  await assertVaultUnlocked()
+
+  const payload: BackupPayload = {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    notes: (await getNotesForBackup()).map(toBackupNote),
+    personas: await getAllPersonas(),
+    personaSettings: await getPersonaSettings(),
+    categories: await getAllCategories(),
+    attachments: await exportAttachments()
+  }
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FILE_VERSION,
+    compression: "gzip",
+    createdAt: payload.exportedAt,
+    ...(await encryptWithPassphrase(
+      await gzip(JSON.stringify(payload)),
+      passphrase
+    ))
+  }
+
+  logger.log(
+    ` [Backup] Created backup with ${payload.notes.length} notes and ${payload.attachments.length} attachments in ${(performance.now() - startTime).toFixed(2)}ms`
+  )
+  return new Blob([JSON.stringify(file)], { type: "application/json" })
+}
+
+function parseBackupFile(text: string): BackupFile {
+  let file: BackupFile
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error("This file is not a MindKeep backup")
+  }
+
+  if (file?.format !== BACKUP_FORMAT || typeof file.data !== "string") {
+    throw new Error("This file is not a MindKeep backup")
+  }
+  if (file.version > BACKUP_FILE_VERSION) {
+    throw new Error(
+      "This backup was created by a newer version of MindKeep. Update the extension to restore it."
+    )
+  }
+  return file
+}
+
+function upgradePayload(payload: any): BackupPayload {
+  let version = payload?.schemaVersion
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error("The backup is damaged and cannot be restored")
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new Error(
+      "This backup was created by a newer version of MindKeep. Update the extension to restore it."
+    )
+  }
+
+  while (version < BACKUP_SCHEMA_VERSION) {
+    logger.log(` [Backup] Upgrading backup from schema ${version}`)
+    payload = { ...SCHEMA_UPGRADES[version](payload), schemaVersion: ++version }
+  }
+
+  return {
+    ...payload,
+    notes: payload.notes || [],
+    personas: payload.personas || [],
+    categories: payload.categories || [],
+    attachments: payload.attachments || []
+  }
+}
+
+async function readBackup(
+  file: Blob,
+  passphrase: string
+): Promise<BackupPayload> {
+  const backup = parseBackupFile(await file.text())
+  const decrypted = await decryptWithPassphrase(backup, passphrase)
+  return upgradePayload(JSON.parse(await gunzip(decrypted)))
+}
+
+async function toNoteRecord(
+  note: BackupNote,
+  activeModelId: string
+): Promise<Note> {
+  const embedding = note.embedding
+    ? deserializeEmbedding(note.embedding)
+    : undefined
+
+  // Vectors from another model cannot be compared, so they are re-embedded
+  const usableEmbedding =
+    embedding?.model === activeModelId ? embedding : undefined
+
+  return {
+    id: note.id,
+    title: note.title,
+    content: await encrypt(note.content),
+    contentPlaintext: await encrypt(note.contentPlaintext),
+    category: note.category,
+    tags: note.tags,
+    attachmentIds: note.attachmentIds,
+    sourceUrl: note.sourceUrl,
+    sensitive:
+      note.sensitive ?? containsSensitiveContent(note.contentPlaintext),
+    color: isNoteColor(note.color) ? note.color : undefined,
+    embedding: usableEmbedding
+      ? dequantizeEmbedding(usableEmbedding)
+      : undefined,
+    embeddingModel: usableEmbedding?.model,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    deletedAt: note.deletedAt
+  }
+}
+
+async function restoreAttachments(
+  attachments: BackupAttachment[],
+  ids: Set<string>
+): Promise<number> {
+  const existingIds = new Set(await getAttachmentIds())
+  const keyId = await getActiveKeyId()
+  let restored = 0
+
+  for (const attachment of attachments) {
+    if (!ids.has(attachment.id) || existingIds.has(attachment.id)) continue
+
+    await addAttachment({
+      id: attachment.id,
+      name: attachment.name,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      data: await encryptBytes(base64ToArrayBuffer(attachment.data), keyId),
+      thumbnail: attachment.thumbnail
+        ? await encryptBytes(base64ToArrayBuffer(attachment.thumbnail), keyId)
+        : undefined,
+      createdAt: attachment.createdAt,
+      keyId
+    })
+    restored++
+  }
+
+  return restored
+}
+
+async function restorePersonas(
+  payload: BackupPayload,
+  mode: RestoreMode
+): Promise<number> {
+  if (mode === "replace") {
+    for (const persona of payload.personas) {
+      await importPersona(persona)
+    }
+    const { selectedPersonaId, defaultPersonaId } = payload.personaSettings
+    await updatePersonaSettings({ selectedPersonaId, defaultPersonaId })
+    return payload.personas.length
+  }
+
+  const existing = await getAllPersonas()
+  const ids = new Set(existing.map((persona) => persona.id))
+  const names = new Set(existing.map((persona) => persona.name.toLowerCase()))
+  let restored = 0
+
+  for (const persona of payload.personas) {
+    if (ids.has(persona.id) || names.has(persona.name.toLowerCase())) continue
+
+    await importPersona({ ...persona, isActive: false, isDefault: false })
+    restored++
+  }
+
+  return restored
+}
+
+/**
+ * Restores a backup created by createBackup. "replace" deletes everything
+ * on this device first; "merge" keeps local data, only overwriting notes
+ * the backup has a newer copy of and skipping notes whose content already
+ * exists under another id.
+ */
+export async function restoreBackup(
+  file: Blob,
+  passphrase: string,
+  mode: RestoreMode
+): Promise<RestoreReport> {
+  const startTime = performance.now()
+  await assertVaultUnlocked()
+
+  const payload = await readBackup(file, passphrase)
+  const report: RestoreReport = {
+    mode,
+    schemaVersion: payload.schemaVersion,
+    notesCreated: 0,
+    notesUpdated: 0,
+    skippedById: 0,
+    skippedByContent: 0,
+    personasRestored: 0,
+    attachmentsRestored: 0,
+    failedNoteIds: []
+  }
+
+  if (mode === "replace") {
+    await clearAllData()
+  }
+
+  const localNotes = mode === "merge" ? await getNotesForBackup() : []
+  const localUpdatedAt = new Map(
+    localNotes.map((note) => [note.id, note.updatedAt])
+  )
+  const contentHashes = new Set(
+    await Promise.all(
+      localNotes.map((note) => hashNoteContent(note.contentPlaintext))
+    )
+  )
+
+  const activeModelId = await getActiveEmbeddingModelId()
+  const restoredNotes: BackupNote[] = []
+
+  for (const note of payload.notes) {
+    const contentHash = await hashNoteContent(note.contentPlaintext)
+    const updatedAt = localUpdatedAt.get(note.id)
+
+    if (updatedAt !== undefined) {
+      if (note.updatedAt <= updatedAt) {
+        report.skippedById++
+        continue
+      }
+    } else if (contentHashes.has(contentHash)) {
+      report.skippedByContent++
+      continue
+    }
+
+    try {
+      const result = await importNote(await toNoteRecord(note, activeModelId))
+      if (result === "created") report.notesCreated++
+      else report.notesUpdated++
+      contentHashes.add(contentHash)
+      restoredNotes.push(note)
+    } catch (error) {
+      logger.error(` [Backup] Failed to restore note ${note.id}:`, error)
+      report.failedNoteIds.push(note.id)
+    }
+  }
+
+  for (const note of restoredNotes) {
+    await syncNoteLinks(note.id, note.content)
+  }
+
+  for (const category of payload.categories) {
+    await addCategory(category)
+  }
+
+  report.attachmentsRestored = await restoreAttachments(
+    payload.attachments,
+    new Set(restoredNotes.flatMap((note) => note.attachmentIds))
+  )
+  report.personasRestored = await restorePersonas(payload, mode)
+
+  logger.log(
+    ` [Backup] Restored backup (${mode}) in ${(performance.now() - startTime).toFixed(2)}ms:`,
+    report
+  )
+  return report
+}
@@ -0,0 +1,102 @@
+import { generateBatchEmbeddings } from "~services/ai-service"
+import {
+  getNote,
+  getUnchunkedNoteIds,
+  replaceNoteChunks
+} from "~services/db-service"
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
+import { getModelAssetStatus, isModelUsable } from "~services/model-assets"
+import { chunkNoteContent, getChunkEmbeddingText } from "~util/note-chunks"
+import { parseTipTapContent } from "~util/wiki-links"
+import { logger } from "~utils/logger"
+
+const BACKFILL_BATCH_SIZE = 20
+
+export async function syncNoteChunks(
+  noteId: string,
+  title: string,
+  content: string,
+  contentPlaintext: string,
+  noteEmbedding?: number[],
+  modelId?: string
+): Promise<number> {
+  const startTime = performance.now()
+
+  try {
+    const model = modelId || (await getActiveEmbeddingModelId())
+    const chunks = chunkNoteContent(
+      parseTipTapContent(content),
+      contentPlaintext
+    )
+
+    const canReuseNoteEmbedding =
+      chunks.length === 1 &&
+      chunks[0].headingPath.length === 0 &&
+      !!noteEmbedding?.length
+
+    if (
+      !canReuseNoteEmbedding &&
+      !isModelUsable(await getModelAssetStatus(model))
+    ) {
+      // Stale chunks would match the old content, so drop them and let the
+      // backfill embed this note once the model is imported
+      await replaceNoteChunks(noteId, [], model)
+      logger.warn(` [Chunks] ${model} is unavailable, skipped "${title}"`)
+      return 0
+    }
+
+    const embeddings = canReuseNoteEmbedding
+      ? [noteEmbedding!]
+      : await generateBatchEmbeddings(
+          chunks.map((chunk) => getChunkEmbeddingText(title, chunk)),
+          { modelId: model }
+        )
+    const embeddedChunks = chunks.map((chunk, index) => ({
+      ...chunk,
+      embedding: embeddings[index]
+    }))
+
+    const stored = await replaceNoteChunks(noteId, embeddedChunks, model)
+    logger.log(
+      ` [Chunks] Embedded ${stored} chunks for "${title}" in ${(performance.now() - startTime).toFixed(2)}ms`
+    )
+    return stored
+  } catch (error) {
+    logger.error(` [Chunks] Failed to chunk note ${noteId}:`, error)
+    return 0
+  }
+}
+
+export async function backfillNoteChunks(): Promise<number> {
+  const model = await getActiveEmbeddingModelId()
+  let processed = 0
+  // Empty notes and failed ones store no chunks, so they would otherwise be
+  // returned again in every batch
+  const attempted: string[] = []
+
+  while (true) {
+    const noteIds = await getUnchunkedNoteIds(BACKFILL_BATCH_SIZE, attempted)
+    if (noteIds.length === 0) break
+    attempted.push(...noteIds)
+
+    for (const noteId of noteIds) {
+      const note = await getNote(noteId, { includeEmbedding: true })
+      if (!note) continue
+
+      const stored = await syncNoteChunks(
+        note.id,
+        note.title,
+        note.content,
+        note.contentPlaintext,
+        note.embeddingModel === model ? note.embedding : undefined,
+        model
+      )
+      if (stored > 0) processed++
+    }
+  }
+
+  if (processed > 0) {
+    logger.log(` [Chunks] Backfilled chunks for ${processed} notes`)
+  }
+  return processed
+}
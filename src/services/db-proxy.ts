@@ -1,5 +1,14 @@
-import type { Note, Persona } from "~services/db-service"
+import type {
+  ChunkSearchOptions,
+  FullTextSearchOptions,
+  HybridSearchOptions,
+  Note,
+  NoteChunkMatch
+} from "~services/db-service"
 import * as dbService from "~services/db-service"
+import { callRpc } from "~services/rpc-client"
+import type { RpcRequest, RpcResponse } from "~services/rpc-contract"
+import type { Persona, PersonaInput } from "~types/persona"
 import { logger } from "~utils/logger"
 
 function isContentScript(): boolean {
@@ -13,170 +22,246 @@ function isContentScript(): boolean {
   }
 }
 
-async function sendToOffscreen<T>(type: string, payload: any = {}): Promise<T> {
-  try {
-    const response = await chrome.runtime.sendMessage({
-      type,
-      payload
-    })
+export async function searchNotesByVector(
+  vector: number[],
+  limit: number = 5
+): Promise<RpcResponse<"DB_SEARCH_BY_VECTOR">> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing searchNotesByVector to background")
+    return await callRpc("DB_SEARCH_BY_VECTOR", { vector, limit })
+  }
+  return await dbService.searchNotesByVector(vector, limit)
+}
 
-    if (!response.success) {
-      throw new Error(response.error || "Operation failed")
-    }
+export async function searchNotesByTitle(
+  query: string
+): Promise<RpcResponse<"DB_SEARCH_BY_TITLE">> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing searchNotesByTitle to background")
+    return await callRpc("DB_SEARCH_BY_TITLE", { query })
+  }
+  return await dbService.searchNotesByTitle(query)
+}
 
-    return response.data
-  } catch (error) {
-    logger.error(`[DB Proxy] Error sending message ${type}:`, error)
-    throw error
+export async function searchNotesFullText(
+  query: string,
+  options: FullTextSearchOptions = {}
+): Promise<RpcResponse<"DB_SEARCH_FULL_TEXT">> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing searchNotesFullText to background")
+    return await callRpc("DB_SEARCH_FULL_TEXT", { query, options })
   }
+  return await dbService.searchNotesFullText(query, options)
 }
 
-export async function searchNotesByVector(
+export async function searchNotesHybrid(
+  query: string,
+  vector: number[] | null,
+  options: HybridSearchOptions = {}
+): Promise<RpcResponse<"DB_SEARCH_HYBRID">> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing searchNotesHybrid to background")
+    return await callRpc("DB_SEARCH_HYBRID", {
+      query,
+      vector,
+      options
+    })
+  }
+  return await dbService.searchNotesHybrid(query, vector, options)
+}
+
+export async function searchNoteChunks(
   vector: number[],
-  limit: number = 5
-): Promise<Array<{ note: Note; score: number }>> {
+  options: ChunkSearchOptions = {}
+): Promise<RpcResponse<"DB_SEARCH_CHUNKS">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing searchNotesByVector to offscreen")
-    return await sendToOffscreen("DB_SEARCH_BY_VECTOR", { vector, limit })
+    logger.log(" [DB Proxy] Routing searchNoteChunks to background")
+    return await callRpc("DB_SEARCH_CHUNKS", { vector, options })
   }
-  return await dbService.searchNotesByVector(vector, limit)
+  return await dbService.searchNoteChunks(vector, options)
 }
 
-export async function searchNotesByTitle(query: string): Promise<Note[]> {
+export async function benchmarkVectorSearch(
+  queryCount: number = 20,
+  limit: number = 10
+): Promise<RpcResponse<"DB_BENCHMARK_VECTOR_SEARCH">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing searchNotesByTitle to offscreen")
-    return await sendToOffscreen("DB_SEARCH_BY_TITLE", { query })
+    logger.log(" [DB Proxy] Routing benchmarkVectorSearch to background")
+    return await callRpc("DB_BENCHMARK_VECTOR_SEARCH", {
+      queryCount,
+      limit
+    })
   }
-  return await dbService.searchNotesByTitle(query)
+  return await dbService.benchmarkVectorSearch(queryCount, limit)
 }
 
-export async function getNote(id: string): Promise<Note | undefined> {
+export async function getNote(
+  id: string,
+  options: { includeEmbedding?: boolean } = {}
+): Promise<RpcResponse<"DB_GET_NOTE">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getNote to offscreen")
-    return await sendToOffscreen("DB_GET_NOTE", { id })
+    logger.log(" [DB Proxy] Routing getNote to background")
+    return await callRpc("DB_GET_NOTE", { id, options })
   }
-  return await dbService.getNote(id)
+  return await dbService.getNote(id, options)
 }
 
-export async function getAllNotes(): Promise<Note[]> {
+export async function getAllNotes(): Promise<RpcResponse<"DB_GET_ALL_NOTES">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getAllNotes to offscreen")
-    return await sendToOffscreen("DB_GET_ALL_NOTES")
+    logger.log(" [DB Proxy] Routing getAllNotes to background")
+    return await callRpc("DB_GET_ALL_NOTES")
   }
   return await dbService.getAllNotes()
 }
 
 export async function addNote(
-  note: Omit<Note, "id" | "createdAt" | "updatedAt">
-): Promise<string> {
+  note: RpcRequest<"DB_ADD_NOTE">["note"]
+): Promise<RpcResponse<"DB_ADD_NOTE">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing addNote to offscreen")
-    return await sendToOffscreen("DB_ADD_NOTE", { note })
+    logger.log(" [DB Proxy] Routing addNote to background")
+    return await callRpc("DB_ADD_NOTE", { note })
   }
   return await dbService.addNote(note)
 }
 
 export async function updateNote(
   id: string,
-  updates: Partial<Omit<Note, "id" | "createdAt" | "updatedAt">>
-): Promise<Note | undefined> {
+  updates: Omit<RpcRequest<"DB_UPDATE_NOTE">["note"], "id">
+): Promise<RpcResponse<"DB_UPDATE_NOTE">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing updateNote to offscreen")
-    return await sendToOffscreen("DB_UPDATE_NOTE", { note: { id, ...updates } })
+    logger.log(" [DB Proxy] Routing updateNote to background")
+    return await callRpc("DB_UPDATE_NOTE", { note: { id, ...updates } })
   }
   return await dbService.updateNote(id, updates)
 }
 
-export async function deleteNote(id: string): Promise<void> {
+export async function deleteNote(
+  id: string
+): Promise<RpcResponse<"DB_DELETE_NOTE">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing deleteNote to offscreen")
-    await sendToOffscreen("DB_DELETE_NOTE", { id })
-    return
+    logger.log(" [DB Proxy] Routing deleteNote to background")
+    return await callRpc("DB_DELETE_NOTE", { id })
   }
   return await dbService.deleteNote(id)
 }
 
-export async function getAllCategories(): Promise<string[]> {
+export async function restoreNote(
+  id: string
+): Promise<RpcResponse<"DB_RESTORE_NOTE">> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing restoreNote to background")
+    return await callRpc("DB_RESTORE_NOTE", { id })
+  }
+  return await dbService.restoreNote(id)
+}
+
+export async function getAllCategories(): Promise<
+  RpcResponse<"DB_GET_ALL_CATEGORIES">
+> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getAllCategories to offscreen")
-    return await sendToOffscreen("DB_GET_ALL_CATEGORIES")
+    logger.log(" [DB Proxy] Routing getAllCategories to background")
+    return await callRpc("DB_GET_ALL_CATEGORIES")
   }
   return await dbService.getAllCategories()
 }
 
-export async function getDatabaseStatistics(): Promise<{
-  totalNotes: number
-  categories: Array<{ category: string; count: number; lastUpdated: number }>
-  oldestNoteDate: number | null
-  newestNoteDate: number | null
-  lastModifiedDate: number | null
-}> {
+export async function getAllTags(): Promise<RpcResponse<"DB_GET_ALL_TAGS">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getDatabaseStatistics to offscreen")
-    return await sendToOffscreen("DB_GET_STATISTICS")
+    logger.log(" [DB Proxy] Routing getAllTags to background")
+    return await callRpc("DB_GET_ALL_TAGS")
+  }
+  return await dbService.getAllTags()
+}
+
+export async function getNotesByTag(
+  tag: string
+): Promise<RpcResponse<"DB_GET_NOTES_BY_TAG">> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing getNotesByTag to background")
+    return await callRpc("DB_GET_NOTES_BY_TAG", { tag })
+  }
+  return await dbService.getNotesByTag(tag)
+}
+
+export async function getDatabaseStatistics(): Promise<
+  RpcResponse<"DB_GET_STATISTICS">
+> {
+  if (isContentScript()) {
+    logger.log(" [DB Proxy] Routing getDatabaseStatistics to background")
+    return await callRpc("DB_GET_STATISTICS")
   }
   return await dbService.getDatabaseStatistics()
 }
 
-export async function getPersona(id: string): Promise<Persona | undefined> {
+export async function getPersona(
+  id: string
+): Promise<RpcResponse<"DB_GET_PERSONA">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getPersona to offscreen")
-    return await sendToOffscreen("DB_GET_PERSONA", { id })
+    logger.log(" [DB Proxy] Routing getPersona to background")
+    return await callRpc("DB_GET_PERSONA", { id })
   }
   return await dbService.getPersona(id)
 }
 
-export async function getAllPersonas(): Promise<Persona[]> {
+export async function getAllPersonas(): Promise<
+  RpcResponse<"DB_GET_ALL_PERSONAS">
+> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getAllPersonas to offscreen")
-    return await sendToOffscreen("DB_GET_ALL_PERSONAS")
+    logger.log(" [DB Proxy] Routing getAllPersonas to background")
+    return await callRpc("DB_GET_ALL_PERSONAS")
   }
   return await dbService.getAllPersonas()
 }
 
-export async function getActivePersona(): Promise<Persona | null> {
+export async function getActivePersona(): Promise<
+  RpcResponse<"DB_GET_ACTIVE_PERSONA">
+> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing getActivePersona to offscreen")
-    return await sendToOffscreen("DB_GET_ACTIVE_PERSONA")
+    logger.log(" [DB Proxy] Routing getActivePersona to background")
+    return await callRpc("DB_GET_ACTIVE_PERSONA")
   }
   return await dbService.getActivePersona()
 }
 
 export async function addPersona(
-  persona: Omit<Persona, "id">
-): Promise<string> {
+  persona: PersonaInput
+): Promise<RpcResponse<"DB_ADD_PERSONA">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing addPersona to offscreen")
-    return await sendToOffscreen("DB_ADD_PERSONA", { persona })
+    logger.log(" [DB Proxy] Routing addPersona to background")
+    return await callRpc("DB_ADD_PERSONA", { persona })
   }
   return await dbService.addPersona(persona)
 }
 
-export async function updatePersona(persona: Persona): Promise<void> {
+export async function updatePersona(
+  id: string,
+  updates: Partial<PersonaInput>
+): Promise<RpcResponse<"DB_UPDATE_PERSONA">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing updatePersona to offscreen")
-    await sendToOffscreen("DB_UPDATE_PERSONA", { persona })
-    return
+    logger.log(" [DB Proxy] Routing updatePersona to background")
+    return await callRpc("DB_UPDATE_PERSONA", { persona: { id, ...updates } })
   }
-  return await dbService.updatePersona(persona)
+  return await dbService.updatePersona(id, updates)
 }
 
-export async function deletePersona(id: string): Promise<void> {
+export async function deletePersona(
+  id: string
+): Promise<RpcResponse<"DB_DELETE_PERSONA">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing deletePersona to offscreen")
-    await sendToOffscreen("DB_DELETE_PERSONA", { id })
-    return
+    logger.log(" [DB Proxy] Routing deletePersona to background")
+    return await callRpc("DB_DELETE_PERSONA", { id })
   }
   return await dbService.deletePersona(id)
 }
 
-export async function setActivePersona(id: string | null): Promise<boolean> {
+export async function setActivePersona(
+  id: string | null
+): Promise<RpcResponse<"DB_SET_ACTIVE_PERSONA">> {
   if (isContentScript()) {
-    logger.log(" [DB Proxy] Routing setActivePersona to offscreen")
-    await sendToOffscreen("DB_SET_ACTIVE_PERSONA", { id })
-    return true
+    logger.log(" [DB Proxy] Routing setActivePersona to background")
+    return await callRpc("DB_SET_ACTIVE_PERSONA", { id })
   }
   return await dbService.setActivePersona(id)
 }
 
-export type { Note, Persona }
+export type { Note, NoteChunkMatch, Persona }
@@ -1,8 +1,67 @@
 import Dexie, { type Table } from "dexie"
 
+import { DEFAULT_EMBEDDING_MODEL_ID } from "~config/embedding-models"
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
 import { setSelectedPersona } from "~services/persona-settings"
+import { getRevisionSettings } from "~services/revision-settings"
+import { getSearchSettings } from "~services/search-settings"
+import { getTrashSettings } from "~services/trash-settings"
+import { getVaultSettings } from "~services/vault-settings"
+import type { Category, CategoryTreeNode } from "~types/category"
 import type { Persona, PersonaInput } from "~types/persona"
-import { decrypt } from "~util/crypto"
+import type { StorageMode } from "~types/vault"
+import {
+  getCategoryAncestors,
+  getCategoryName,
+  getParentCategoryPath,
+  isInCategoryPath,
+  normalizeCategoryPath,
+  replaceCategoryPrefix
+} from "~util/category-path"
+import {
+  assertVaultUnlocked,
+  computeBlindIndex,
+  decrypt,
+  decryptBytes,
+  encrypt,
+  encryptBytes,
+  getCiphertextKeyId,
+  LEGACY_KEY_ID,
+  onVaultLocked
+} from "~util/crypto"
+import {
+  dequantizeEmbedding,
+  deserializeEmbedding,
+  prepareQueryVector,
+  quantizedSimilarity,
+  quantizeEmbedding,
+  serializeEmbedding,
+  type QuantizedEmbedding,
+  type SerializedEmbedding
+} from "~util/embedding-codec"
+import {
+  addToCorpus,
+  buildIndexedDocument,
+  buildSnippet,
+  createCorpus,
+  parseSearchQuery,
+  rankDocuments,
+  removeFromCorpus,
+  stripMarkdown,
+  type IndexedDocument,
+  type TextSnippet
+} from "~util/full-text"
+import {
+  ANN_MIN_COLLECTION_SIZE,
+  chooseListCount,
+  chooseProbeCount,
+  nearestCentroids,
+  trainCentroids
+} from "~util/ivf-index"
+import type { NoteChunk } from "~util/note-chunks"
+import type { NoteColor } from "~util/note-colors"
+import { reciprocalRankFusion } from "~util/rank-fusion"
+import { containsSensitiveContent } from "~util/sensitive-content"
 import { logger } from "~utils/logger"
 
 export interface Note {
@@ -12,9 +71,15 @@ export interface Note {
   contentPlaintext: string
   category: string
   embedding?: number[]
+  embeddingModel?: string
   createdAt: number
   updatedAt: number
   sourceUrl?: string
+  tags?: string[]
+  attachmentIds?: string[]
+  deletedAt?: number
+  sensitive?: boolean
+  color?: NoteColor
 }
 
 export interface StoredNote {
@@ -23,15 +88,268 @@ export interface StoredNote {
   content: string
   contentPlaintext: string
   category: string
-  embedding?: number[]
+  embedding?: QuantizedEmbedding
   createdAt: number
   updatedAt: number
   sourceUrl?: string
+  tags?: string[]
+  attachmentIds?: string[]
+  deletedAt?: number
+  sensitive?: boolean
+  color?: NoteColor
+  embeddingModel?: string
+  sealed?: string
+  keyId: string
+}
+
+export interface NoteRevision {
+  id: string
+  noteId: string
+  title: string
+  content: string
+  contentPlaintext: string
+  category: string
+  attachmentIds?: string[]
+  noteUpdatedAt: number
+  createdAt: number
+}
+
+export interface StoredNoteRevision {
+  id: string
+  noteId: string
+  title: string
+  content: string
+  contentPlaintext: string
+  category: string
+  attachmentIds?: string[]
+  noteUpdatedAt: number
+  createdAt: number
+  sealed?: string
+  keyId: string
+}
+
+export interface StoredNoteLink {
+  id: string
+  sourceNoteId: string
+  targetNoteId: string | null
+  targetTitle: string
+  sealed?: string
+  keyId: string
+}
+
+export interface StoredCategory extends Category {
+  sealed?: string
+  keyId: string
+}
+
+export interface StoredAttachment {
+  id: string
+  name: string
+  mimeType: string
+  size: number
+  data: ArrayBuffer
+  thumbnail?: ArrayBuffer
+  createdAt: number
+  keyId: string
+}
+
+export interface StoredSearchIndexEntry {
+  noteId: string
+  indexedAt: number
+  data: string
+  keyId: string
+}
+
+export interface StoredNoteChunk {
+  id: string
+  noteId: string
+  index: number
+  start: number
+  end: number
+  data: string
+  embedding?: QuantizedEmbedding
+  sealed?: string
+  keyId: string
+}
+
+export interface StoredVectorIndex {
+  id: string
+  model: string
+  centroids: number[][]
+  dimension: number
+  listCount: number
+  trainedSize: number
+  builtAt: number
+}
+
+export interface StoredVectorEntry {
+  noteId: string
+  listId: number
+  embedding: QuantizedEmbedding
+}
+
+export interface VectorSearchBenchmark {
+  collectionSize: number
+  listCount: number
+  probeCount: number
+  queries: number
+  limit: number
+  recall: number
+  exactLatencyMs: number
+  approximateLatencyMs: number
+}
+
+export interface NoteChunkMatch {
+  noteId: string
+  noteTitle: string
+  chunkIndex: number
+  headingPath: string[]
+  text: string
+  start: number
+  end: number
+  score: number
+}
+
+export interface ChunkSearchOptions {
+  limit?: number
+  maxChunksPerNote?: number
+  noteIds?: string[]
+}
+
+export interface FullTextSearchOptions {
+  limit?: number
+  snippetLength?: number
+  category?: string
+}
+
+export interface FullTextSearchResult {
+  note: Note
+  score: number
+  snippet: TextSnippet
+}
+
+export interface HybridSearchOptions {
+  limit?: number
+  keywordWeight?: number
+  vectorWeight?: number
+  rrfK?: number
+  candidateLimit?: number
+}
+
+export interface HybridScoreBreakdown {
+  fused: number
+  keywordScore: number | null
+  keywordRank: number | null
+  vectorScore: number | null
+  vectorRank: number | null
+}
+
+export interface HybridSearchResult {
+  note: Note
+  score: number
+  breakdown: HybridScoreBreakdown
+  snippet?: TextSnippet
+}
+
+export interface DatabaseStatistics {
+  totalNotes: number
+  categories: Array<{
+    category: string
+    count: number
+    directCount: number
+    lastUpdated: number
+  }>
+  oldestNoteDate: number | null
+  newestNoteDate: number | null
+  lastModifiedDate: number | null
+}
+
+export interface NoteBacklink {
+  noteId: string
+  title: string
+  category: string
+  updatedAt: number
 }
 
+export type EncryptedTable =
+  | "notes"
+  | "revisions"
+  | "attachments"
+  | "searchIndex"
+  | "chunks"
+  | "categories"
+  | "links"
+
+const ENCRYPTED_TABLES: EncryptedTable[] = [
+  "notes",
+  "revisions",
+  "attachments",
+  "searchIndex",
+  "chunks",
+  "categories",
+  "links"
+]
+
+const ENCRYPTED_TABLE_PRIMARY_KEYS: Record<EncryptedTable, string> = {
+  notes: "id",
+  revisions: "id",
+  attachments: "id",
+  searchIndex: "noteId",
+  chunks: "id",
+  categories: "path",
+  links: "id"
+}
+
+const ENCRYPTED_TEXT_FIELDS: Record<EncryptedTable, string[]> = {
+  notes: ["content", "contentPlaintext", "sealed"],
+  revisions: ["content", "contentPlaintext", "sealed"],
+  attachments: [],
+  searchIndex: ["data"],
+  chunks: ["data", "sealed"],
+  categories: ["sealed"],
+  links: ["sealed"]
+}
+
+const ENCRYPTED_BYTE_FIELDS: Record<EncryptedTable, string[]> = {
+  notes: [],
+  revisions: [],
+  attachments: ["data", "thumbnail"],
+  searchIndex: [],
+  chunks: [],
+  categories: [],
+  links: []
+}
+
+// Tables whose metadata moves into a `sealed` ciphertext when everything is encrypted
+export type SealableTable =
+  | "notes"
+  | "revisions"
+  | "chunks"
+  | "categories"
+  | "links"
+
+const SEALABLE_TABLES: SealableTable[] = [
+  "notes",
+  "revisions",
+  "chunks",
+  "categories",
+  "links"
+]
+
+// Records whose encrypted fields were written under different keys
+const MIXED_KEY_ID = "mixed"
+
 class MindKeepDatabase extends Dexie {
   notes!: Table<StoredNote, string>
   personas!: Table<Persona, string>
+  revisions!: Table<StoredNoteRevision, string>
+  categories!: Table<StoredCategory, string>
+  links!: Table<StoredNoteLink, string>
+  attachments!: Table<StoredAttachment, string>
+  searchIndex!: Table<StoredSearchIndexEntry, string>
+  chunks!: Table<StoredNoteChunk, string>
+  vectorIndex!: Table<StoredVectorIndex, string>
+  vectorEntries!: Table<StoredVectorEntry, string>
 
   constructor() {
     super("mindkeep_db")
@@ -44,30 +362,1011 @@ class MindKeepDatabase extends Dexie {
       notes: "id, category, updatedAt, createdAt, title",
       personas: "id, name, createdAt, updatedAt, isActive, isDefault"
     })
+
+    this.version(4).stores({
+      notes: "id, category, updatedAt, createdAt, title",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt"
+    })
+
+    this.version(5).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt"
+    })
+
+    this.version(6).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt"
+    })
+
+    this.version(7)
+      .stores({
+        notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+        personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+        revisions: "id, noteId, createdAt",
+        categories: "path, parentPath"
+      })
+      .upgrade(async (tx) => {
+        const noteCategories = (await tx
+          .table("notes")
+          .orderBy("category")
+          .uniqueKeys()) as string[]
+        const paths = new Set<string>()
+        noteCategories.forEach((category) =>
+          getCategoryAncestors(category).forEach((path) => paths.add(path))
+        )
+
+        const now = Date.now()
+        await tx
+          .table("categories")
+          .bulkPut(
+            Array.from(paths).map((path) => buildCategoryRecord(path, now))
+          )
+      })
+
+    this.version(8).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt",
+      categories: "path, parentPath",
+      links: "id, sourceNoteId, targetNoteId, targetTitle"
+    })
+
+    this.version(9).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt",
+      categories: "path, parentPath",
+      links: "id, sourceNoteId, targetNoteId, targetTitle",
+      attachments: "id, createdAt"
+    })
+
+    this.version(10).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt",
+      categories: "path, parentPath",
+      links: "id, sourceNoteId, targetNoteId, targetTitle",
+      attachments: "id, createdAt",
+      searchIndex: "noteId, indexedAt"
+    })
+
+    this.version(11).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt",
+      categories: "path, parentPath",
+      links: "id, sourceNoteId, targetNoteId, targetTitle",
+      attachments: "id, createdAt",
+      searchIndex: "noteId, indexedAt",
+      chunks: "id, noteId"
+    })
+
+    this.version(12).stores({
+      notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+      personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+      revisions: "id, noteId, createdAt",
+      categories: "path, parentPath",
+      links: "id, sourceNoteId, targetNoteId, targetTitle",
+      attachments: "id, createdAt",
+      searchIndex: "noteId, indexedAt",
+      chunks: "id, noteId",
+      vectorIndex: "id",
+      vectorEntries: "noteId, listId"
+    })
+
+    this.version(13)
+      .stores({
+        notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+        personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+        revisions: "id, noteId, createdAt",
+        categories: "path, parentPath",
+        links: "id, sourceNoteId, targetNoteId, targetTitle",
+        attachments: "id, createdAt",
+        searchIndex: "noteId, indexedAt",
+        chunks: "id, noteId",
+        vectorIndex: "id",
+        vectorEntries: "noteId, listId"
+      })
+      .upgrade(async (tx) => {
+        const quantizeRecord = (record: { embedding?: any }) => {
+          if (Array.isArray(record.embedding)) {
+            record.embedding = quantizeEmbedding(record.embedding)
+          }
+        }
+
+        await tx.table("notes").toCollection().modify(quantizeRecord)
+        await tx.table("chunks").toCollection().modify(quantizeRecord)
+        await tx.table("vectorEntries").toCollection().modify(quantizeRecord)
+      })
+
+    this.version(14)
+      .stores({
+        notes: "id, category, updatedAt, createdAt, title, deletedAt, *tags",
+        personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+        revisions: "id, noteId, createdAt",
+        categories: "path, parentPath",
+        links: "id, sourceNoteId, targetNoteId, targetTitle",
+        attachments: "id, createdAt",
+        searchIndex: "noteId, indexedAt",
+        chunks: "id, noteId",
+        vectorIndex: "id",
+        vectorEntries: "noteId, listId"
+      })
+      .upgrade(async (tx) => {
+        const tagLegacyModel = (record: { embedding?: QuantizedEmbedding }) => {
+          if (record.embedding && !record.embedding.model) {
+            record.embedding.model = DEFAULT_EMBEDDING_MODEL_ID
+          }
+        }
+
+        await tx.table("notes").toCollection().modify(tagLegacyModel)
+        await tx.table("chunks").toCollection().modify(tagLegacyModel)
+        await tx.table("vectorEntries").toCollection().modify(tagLegacyModel)
+        await tx
+          .table("vectorIndex")
+          .toCollection()
+          .modify((index: StoredVectorIndex) => {
+            index.model = index.model || DEFAULT_EMBEDDING_MODEL_ID
+          })
+      })
+
+    this.version(15)
+      .stores({
+        notes:
+          "id, category, updatedAt, createdAt, title, deletedAt, *tags, keyId",
+        personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+        revisions: "id, noteId, createdAt, keyId",
+        categories: "path, parentPath",
+        links: "id, sourceNoteId, targetNoteId, targetTitle",
+        attachments: "id, createdAt, keyId",
+        searchIndex: "noteId, indexedAt, keyId",
+        chunks: "id, noteId, keyId",
+        vectorIndex: "id",
+        vectorEntries: "noteId, listId"
+      })
+      .upgrade(async (tx) => {
+        for (const table of ENCRYPTED_TABLES) {
+          await tx
+            .table(table)
+            .toCollection()
+            .modify((record: { keyId?: string }) => {
+              record.keyId = record.keyId || LEGACY_KEY_ID
+            })
+        }
+      })
+
+    this.version(16)
+      .stores({
+        notes:
+          "id, category, updatedAt, createdAt, title, deletedAt, *tags, keyId",
+        personas: "id, name, createdAt, updatedAt, isActive, isDefault",
+        revisions: "id, noteId, createdAt, keyId",
+        categories: "path, parentPath, keyId",
+        links: "id, sourceNoteId, targetNoteId, targetTitle, keyId",
+        attachments: "id, createdAt, keyId",
+        searchIndex: "noteId, indexedAt, keyId",
+        chunks: "id, noteId, keyId",
+        vectorIndex: "id",
+        vectorEntries: "noteId, listId"
+      })
+      .upgrade(async (tx) => {
+        for (const table of ["categories", "links"]) {
+          await tx
+            .table(table)
+            .toCollection()
+            .modify((record: { keyId?: string }) => {
+              record.keyId = record.keyId || LEGACY_KEY_ID
+            })
+        }
+      })
   }
 }
 
 const db = new MindKeepDatabase()
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0
+function isActiveNote(note: StoredNote): boolean {
+  return !note.deletedAt
+}
+
+function getRecordKeyId(...ciphertexts: Array<string | undefined>): string {
+  const keyIds = new Set(
+    ciphertexts
+      .filter((ciphertext): ciphertext is string => !!ciphertext)
+      .map(getCiphertextKeyId)
+  )
+  return keyIds.size === 1 ? Array.from(keyIds)[0] : MIXED_KEY_ID
+}
+
+function hasEmbeddingFrom(
+  embedding: QuantizedEmbedding | undefined,
+  modelId: string
+): embedding is QuantizedEmbedding {
+  return (
+    !!embedding &&
+    embedding.values.length > 0 &&
+    (embedding.model || DEFAULT_EMBEDDING_MODEL_ID) === modelId
+  )
+}
+
+function noteHasEmbeddingFrom(note: StoredNote, modelId: string): boolean {
+  return note.sealed
+    ? note.embeddingModel === modelId
+    : hasEmbeddingFrom(note.embedding, modelId)
+}
+
+interface NoteMetadata {
+  title: string
+  category: string
+  sourceUrl?: string
+  embedding?: QuantizedEmbedding
+}
+
+interface SealedNoteMetadata {
+  title: string
+  category: string
+  sourceUrl?: string
+  embedding?: SerializedEmbedding
+}
+
+// Decrypted metadata by record, reused while its ciphertext is unchanged
+const openedMetadata = new Map<string, { sealed: string; value: unknown }>()
+
+onVaultLocked(() => {
+  logger.log(" [DB Metadata] Vault locked, dropping decrypted metadata")
+  openedMetadata.clear()
+})
+
+async function openSealed<T>(
+  ref: string,
+  sealed: string,
+  parse: (json: any) => T
+): Promise<T> {
+  const cached = openedMetadata.get(ref)
+  if (cached && cached.sealed === sealed) {
+    return cached.value as T
+  }
+
+  const value = parse(JSON.parse(await decrypt(sealed)))
+  openedMetadata.set(ref, { sealed, value })
+  return value
+}
+
+async function seal<T>(ref: string, value: T, json: unknown): Promise<string> {
+  const sealed = await encrypt(JSON.stringify(json))
+  openedMetadata.set(ref, { sealed, value })
+  return sealed
+}
+
+export async function isMetadataEncrypted(): Promise<boolean> {
+  return (await getVaultSettings()).storageMode === "encrypt-everything"
+}
+
+async function getBlindIndex(value: string): Promise<string> {
+  const token = await computeBlindIndex(value)
+  if (!token) {
+    throw new Error("Blind index key is missing")
+  }
+  return token
+}
+
+// Plain and blind-indexed forms, so lookups also match records awaiting migration
+async function getIndexKeys(value: string): Promise<string[]> {
+  const token = await computeBlindIndex(value)
+  return token ? [value, token] : [value]
+}
+
+function parseNoteMetadata(metadata: SealedNoteMetadata): NoteMetadata {
+  return {
+    title: metadata.title,
+    category: metadata.category,
+    sourceUrl: metadata.sourceUrl,
+    embedding: metadata.embedding
+      ? deserializeEmbedding(metadata.embedding)
+      : undefined
+  }
+}
+
+async function openNote(storedNote: StoredNote): Promise<StoredNote> {
+  if (!storedNote.sealed) {
+    return storedNote
+  }
+
+  const metadata = await openSealed(
+    `notes:${storedNote.id}`,
+    storedNote.sealed,
+    parseNoteMetadata
+  )
+  return {
+    ...storedNote,
+    ...metadata,
+    embeddingModel: undefined,
+    sealed: undefined
+  }
+}
+
+async function openNotes(storedNotes: StoredNote[]): Promise<StoredNote[]> {
+  const notes: StoredNote[] = []
+  for (const storedNote of storedNotes) {
+    try {
+      notes.push(await openNote(storedNote))
+    } catch (error) {
+      logger.error(
+        ` [DB Metadata] Failed to open note ${storedNote.id}:`,
+        error
+      )
+    }
+  }
+  return notes
+}
+
+async function sealNote(
+  note: StoredNote,
+  encrypted?: boolean
+): Promise<StoredNote> {
+  if (!(encrypted ?? (await isMetadataEncrypted()))) {
+    return {
+      ...note,
+      embeddingModel: undefined,
+      sealed: undefined,
+      keyId: getRecordKeyId(note.content, note.contentPlaintext)
+    }
+  }
+
+  const metadata: NoteMetadata = {
+    title: note.title,
+    category: note.category,
+    sourceUrl: note.sourceUrl,
+    embedding: note.embedding
+  }
+  const sealed = await seal(`notes:${note.id}`, metadata, {
+    ...metadata,
+    embedding: note.embedding ? serializeEmbedding(note.embedding) : undefined
+  })
+
+  return {
+    ...note,
+    title: "",
+    category: await getBlindIndex(note.category),
+    sourceUrl: undefined,
+    embedding: undefined,
+    embeddingModel:
+      note.embedding && note.embedding.values.length > 0
+        ? note.embedding.model || DEFAULT_EMBEDDING_MODEL_ID
+        : undefined,
+    sealed,
+    keyId: getRecordKeyId(note.content, note.contentPlaintext, sealed)
+  }
+}
+
+function isSameNoteMetadata(a: StoredNote, b: StoredNote): boolean {
+  return (
+    a.sealed === b.sealed &&
+    a.title === b.title &&
+    a.category === b.category &&
+    a.sourceUrl === b.sourceUrl &&
+    a.embedding?.model === b.embedding?.model &&
+    a.embedding?.scale === b.embedding?.scale
+  )
+}
+
+/**
+ * Writes the metadata of `updated` over a note read earlier as `snapshot`,
+ * unless its metadata changed in between. Must run inside a transaction
+ * on `db.notes`.
+ */
+async function replaceNoteMetadata(
+  snapshot: StoredNote,
+  updated: StoredNote
+): Promise<boolean> {
+  const current = await db.notes.get(snapshot.id)
+  if (!current || !isSameNoteMetadata(current, snapshot)) {
+    return false
+  }
+
+  await db.notes.update(snapshot.id, {
+    title: updated.title,
+    category: updated.category,
+    sourceUrl: updated.sourceUrl,
+    embedding: updated.embedding,
+    embeddingModel: updated.embeddingModel,
+    sealed: updated.sealed,
+    keyId: getRecordKeyId(
+      current.content,
+      current.contentPlaintext,
+      updated.sealed
+    )
+  })
+  return true
+}
+
+async function openRevision(
+  storedRevision: StoredNoteRevision
+): Promise<StoredNoteRevision> {
+  if (!storedRevision.sealed) {
+    return storedRevision
+  }
+
+  const metadata = await openSealed(
+    `revisions:${storedRevision.id}`,
+    storedRevision.sealed,
+    (json: { title: string; category: string }) => json
+  )
+  return { ...storedRevision, ...metadata, sealed: undefined }
+}
+
+async function sealRevision(
+  revision: StoredNoteRevision,
+  encrypted?: boolean
+): Promise<StoredNoteRevision> {
+  if (!(encrypted ?? (await isMetadataEncrypted()))) {
+    return {
+      ...revision,
+      sealed: undefined,
+      keyId: getRecordKeyId(revision.content, revision.contentPlaintext)
+    }
+  }
+
+  const metadata = { title: revision.title, category: revision.category }
+  const sealed = await seal(`revisions:${revision.id}`, metadata, metadata)
+  return {
+    ...revision,
+    title: "",
+    category: "",
+    sealed,
+    keyId: getRecordKeyId(revision.content, revision.contentPlaintext, sealed)
+  }
+}
+
+async function openChunk(
+  storedChunk: StoredNoteChunk
+): Promise<StoredNoteChunk> {
+  if (!storedChunk.sealed) {
+    return storedChunk
+  }
+
+  const embedding = await openSealed(
+    `chunks:${storedChunk.id}`,
+    storedChunk.sealed,
+    deserializeEmbedding
+  )
+  return { ...storedChunk, embedding, sealed: undefined }
+}
+
+async function sealChunk(
+  chunk: StoredNoteChunk,
+  encrypted?: boolean
+): Promise<StoredNoteChunk> {
+  if (!(encrypted ?? (await isMetadataEncrypted())) || !chunk.embedding) {
+    return { ...chunk, sealed: undefined, keyId: getRecordKeyId(chunk.data) }
+  }
+
+  const sealed = await seal(
+    `chunks:${chunk.id}`,
+    chunk.embedding,
+    serializeEmbedding(chunk.embedding)
+  )
+  return {
+    ...chunk,
+    embedding: undefined,
+    sealed,
+    keyId: getRecordKeyId(chunk.data, sealed)
+  }
+}
+
+async function openCategory(
+  storedCategory: StoredCategory
+): Promise<StoredCategory> {
+  if (!storedCategory.sealed) {
+    return storedCategory
+  }
+
+  const path = await openSealed(
+    `categories:${storedCategory.path}`,
+    storedCategory.sealed,
+    (json: string) => json
+  )
+  return {
+    ...buildCategoryRecord(path, storedCategory.createdAt),
+    updatedAt: storedCategory.updatedAt,
+    keyId: storedCategory.keyId
+  }
+}
+
+async function sealCategory(
+  category: Category,
+  encrypted?: boolean
+): Promise<StoredCategory> {
+  if (!(encrypted ?? (await isMetadataEncrypted()))) {
+    return { ...category, sealed: undefined, keyId: LEGACY_KEY_ID }
+  }
+
+  const path = await getBlindIndex(category.path)
+  const sealed = await seal(`categories:${path}`, category.path, category.path)
+  return {
+    path,
+    name: "",
+    parentPath: category.parentPath
+      ? await getBlindIndex(category.parentPath)
+      : null,
+    createdAt: category.createdAt,
+    updatedAt: category.updatedAt,
+    sealed,
+    keyId: getCiphertextKeyId(sealed)
+  }
+}
+
+async function openLink(storedLink: StoredNoteLink): Promise<StoredNoteLink> {
+  if (!storedLink.sealed) {
+    return storedLink
+  }
+
+  const targetTitle = await openSealed(
+    `links:${storedLink.id}`,
+    storedLink.sealed,
+    (json: string) => json
+  )
+  return { ...storedLink, targetTitle, sealed: undefined }
+}
+
+async function buildNoteLink(
+  sourceNoteId: string,
+  targetNoteId: string | null,
+  targetTitle: string,
+  encrypted?: boolean
+): Promise<StoredNoteLink> {
+  if (!(encrypted ?? (await isMetadataEncrypted()))) {
+    return {
+      id: `${sourceNoteId}:${targetNoteId || targetTitle.toLowerCase()}`,
+      sourceNoteId,
+      targetNoteId,
+      targetTitle,
+      keyId: LEGACY_KEY_ID
+    }
+  }
+
+  const titleToken = await getBlindIndex(targetTitle.toLowerCase())
+  const id = `${sourceNoteId}:${targetNoteId || titleToken}`
+  const sealed = await seal(`links:${id}`, targetTitle, targetTitle)
+  return {
+    id,
+    sourceNoteId,
+    targetNoteId,
+    targetTitle: titleToken,
+    sealed,
+    keyId: getCiphertextKeyId(sealed)
+  }
+}
+
+const searchCorpus = createCorpus()
+const searchCorpusVersions = new Map<string, number>()
+let searchCorpusSyncedAt = 0
+
+async function indexNoteForSearch(storedNote: StoredNote): Promise<void> {
+  try {
+    const contentPlaintext = await decrypt(storedNote.contentPlaintext)
+    const document = buildIndexedDocument(
+      storedNote.title,
+      stripMarkdown(contentPlaintext)
+    )
+    const indexedAt = Date.now()
+
+    const data = await encrypt(JSON.stringify(document))
+    await db.searchIndex.put({
+      noteId: storedNote.id,
+      indexedAt,
+      data,
+      keyId: getCiphertextKeyId(data)
+    })
+
+    addToCorpus(searchCorpus, storedNote.id, document)
+    searchCorpusVersions.set(storedNote.id, indexedAt)
+  } catch (error) {
+    logger.error(` [DB Search] Failed to index note ${storedNote.id}:`, error)
+  }
+}
+
+function forgetSearchDocuments(ids: string[]): void {
+  ids.forEach((id) => {
+    removeFromCorpus(searchCorpus, id)
+    searchCorpusVersions.delete(id)
+  })
+}
+
+onVaultLocked(() => {
+  logger.log(" [DB Search] Vault locked, dropping decrypted search corpus")
+  forgetSearchDocuments(Array.from(searchCorpus.documents.keys()))
+  searchCorpusSyncedAt = 0
+})
+
+async function syncSearchIndex(): Promise<void> {
+  await assertVaultUnlocked()
+
+  const [noteIds, trashedIds, indexedIds] = (await Promise.all([
+    db.notes.toCollection().primaryKeys(),
+    db.notes.where("deletedAt").above(0).primaryKeys(),
+    db.searchIndex.toCollection().primaryKeys()
+  ])) as [string[], string[], string[]]
+
+  const trashed = new Set(trashedIds)
+  const activeIds = new Set(noteIds.filter((id) => !trashed.has(id)))
+  const indexed = new Set(indexedIds)
+
+  const staleIds = indexedIds.filter((id) => !activeIds.has(id))
+  if (staleIds.length > 0) {
+    await db.searchIndex.bulkDelete(staleIds)
+  }
+
+  const missingIds = Array.from(activeIds).filter((id) => !indexed.has(id))
+  if (missingIds.length > 0) {
+    logger.log(` [DB Search] Indexing ${missingIds.length} unindexed notes`)
+    const missingNotes = await openNotes(
+      (await db.notes.bulkGet(missingIds)).filter(
+        (note): note is StoredNote => !!note
+      )
+    )
+    for (const storedNote of missingNotes) {
+      await indexNoteForSearch(storedNote)
+    }
+  }
+
+  const changedEntries = await db.searchIndex
+    .where("indexedAt")
+    .aboveOrEqual(searchCorpusSyncedAt)
+    .toArray()
+
+  for (const entry of changedEntries) {
+    searchCorpusSyncedAt = Math.max(searchCorpusSyncedAt, entry.indexedAt)
+    if (searchCorpusVersions.get(entry.noteId) === entry.indexedAt) continue
+
+    try {
+      const document: IndexedDocument = JSON.parse(await decrypt(entry.data))
+      addToCorpus(searchCorpus, entry.noteId, document)
+      searchCorpusVersions.set(entry.noteId, entry.indexedAt)
+    } catch (error) {
+      logger.error(
+        ` [DB Search] Failed to load index entry ${entry.noteId}:`,
+        error
+      )
+    }
+  }
+
+  forgetSearchDocuments(
+    Array.from(searchCorpus.documents.keys()).filter((id) => !activeIds.has(id))
+  )
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().toLowerCase().replace(/^#/, ""))
+    .filter((tag) => tag.length > 0 && tag.length <= 50)
+
+  return Array.from(new Set(normalized))
+}
+
+function buildCategoryRecord(path: string, createdAt: number): Category {
+  return {
+    path,
+    name: getCategoryName(path),
+    parentPath: getParentCategoryPath(path),
+    createdAt,
+    updatedAt: createdAt
+  }
+}
+
+async function prepareCategoryPath(path: string): Promise<StoredCategory[]> {
+  const now = Date.now()
+  const records: StoredCategory[] = []
+  for (const ancestor of getCategoryAncestors(path)) {
+    records.push(await sealCategory(buildCategoryRecord(ancestor, now)))
+  }
+  return records
+}
+
+// Only touches Dexie, so it can run inside a transaction
+async function putMissingCategories(records: StoredCategory[]): Promise<void> {
+  const existing = await db.categories.bulkGet(
+    records.map((record) => record.path)
+  )
+  const missing = records.filter((_, index) => !existing[index])
+
+  if (missing.length > 0) {
+    await db.categories.bulkPut(missing)
+  }
+}
+
+async function ensureCategoryPath(path: string): Promise<void> {
+  await putMissingCategories(await prepareCategoryPath(path))
+}
+
+const VECTOR_INDEX_ID = "ivf"
+const VECTOR_INDEX_REBUILD_GROWTH = 4
+
+async function updateVectorIndexEntry(storedNote: StoredNote): Promise<void> {
+  try {
+    if (await isMetadataEncrypted()) {
+      await db.vectorEntries.delete(storedNote.id)
+      return
+    }
+
+    const index = await db.vectorIndex.get(VECTOR_INDEX_ID)
+    const embedding = storedNote.embedding
+
+    if (
+      !index ||
+      !hasEmbeddingFrom(embedding, index.model) ||
+      embedding.values.length !== index.dimension
+    ) {
+      await db.vectorEntries.delete(storedNote.id)
+      return
+    }
+
+    const [listId] = nearestCentroids(
+      index.centroids,
+      dequantizeEmbedding(embedding),
+      1
+    )
+    await db.vectorEntries.put({ noteId: storedNote.id, listId, embedding })
+  } catch (error) {
+    logger.error(
+      ` [DB Vector Index] Failed to update entry ${storedNote.id}:`,
+      error
+    )
+  }
+}
+
+export async function rebuildVectorIndex(
+  force: boolean = false
+): Promise<StoredVectorIndex | null> {
+  const startTime = performance.now()
+
+  try {
+    const model = await getActiveEmbeddingModelId()
+    // The centroids and entries would leak embeddings, so search stays exact
+    const storedNotes = (await isMetadataEncrypted())
+      ? []
+      : await openNotes(
+          await db.notes
+            .filter(
+              (note) => isActiveNote(note) && noteHasEmbeddingFrom(note, model)
+            )
+            .toArray()
+        )
+
+    if (
+      storedNotes.length === 0 ||
+      (!force && storedNotes.length < ANN_MIN_COLLECTION_SIZE)
+    ) {
+      await db.transaction("rw", db.vectorIndex, db.vectorEntries, async () => {
+        await db.vectorIndex.clear()
+        await db.vectorEntries.clear()
+      })
+      return null
+    }
+
+    const dimension = storedNotes[0].embedding!.values.length
+    const indexedNotes = storedNotes.filter(
+      (note) => note.embedding!.values.length === dimension
+    )
+    const vectors = indexedNotes.map((note) =>
+      dequantizeEmbedding(note.embedding!)
+    )
+    const listCount = Math.min(
+      indexedNotes.length,
+      chooseListCount(indexedNotes.length)
+    )
+    const centroids = trainCentroids(vectors, listCount)
+
+    const index: StoredVectorIndex = {
+      id: VECTOR_INDEX_ID,
+      model,
+      centroids,
+      dimension,
+      listCount: centroids.length,
+      trainedSize: indexedNotes.length,
+      builtAt: Date.now()
+    }
+    const entries: StoredVectorEntry[] = indexedNotes.map((note, i) => ({
+      noteId: note.id,
+      listId: nearestCentroids(centroids, vectors[i], 1)[0],
+      embedding: note.embedding!
+    }))
+
+    await db.transaction("rw", db.vectorIndex, db.vectorEntries, async () => {
+      await db.vectorEntries.clear()
+      await db.vectorEntries.bulkPut(entries)
+      await db.vectorIndex.put(index)
+    })
 
-  let dotProduct = 0
-  let magnitudeA = 0
-  let magnitudeB = 0
+    logger.log(
+      ` [DB Vector Index] Built ${index.listCount} lists over ${entries.length} ${model} vectors in ${(performance.now() - startTime).toFixed(2)}ms`
+    )
+    return index
+  } catch (error) {
+    logger.error(" [DB Vector Index] Failed to rebuild index:", error)
+    return null
+  }
+}
 
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    magnitudeA += a[i] * a[i]
-    magnitudeB += b[i] * b[i]
+/**
+ * Rebuilds the vector index when enough active notes are embedded with the
+ * current model and it is missing or has outgrown its training set. Meant
+ * for background work; searches never train the index themselves.
+ */
+export async function refreshVectorIndex(): Promise<StoredVectorIndex | null> {
+  const model = await getActiveEmbeddingModelId()
+  const index = await db.vectorIndex.get(VECTOR_INDEX_ID)
+  const embeddedCount = await db.notes
+    .filter((note) => isActiveNote(note) && noteHasEmbeddingFrom(note, model))
+    .count()
+
+  if (
+    embeddedCount < ANN_MIN_COLLECTION_SIZE ||
+    (await isMetadataEncrypted())
+  ) {
+    return index ? await rebuildVectorIndex() : null
   }
+  if (
+    index?.model === model &&
+    embeddedCount <= index.trainedSize * VECTOR_INDEX_REBUILD_GROWTH
+  ) {
+    return index
+  }
+  return await rebuildVectorIndex()
+}
 
-  magnitudeA = Math.sqrt(magnitudeA)
-  magnitudeB = Math.sqrt(magnitudeB)
+// Until the background has (re)built the index, searches stay exact
+async function getUsableVectorIndex(
+  model: string,
+  dimension: number
+): Promise<StoredVectorIndex | null> {
+  if (await isMetadataEncrypted()) {
+    return null
+  }
 
-  if (magnitudeA === 0 || magnitudeB === 0) return 0
+  const index = await db.vectorIndex.get(VECTOR_INDEX_ID)
+  if (!index || index.model !== model || index.dimension !== dimension) {
+    return null
+  }
 
-  return dotProduct / (magnitudeA * magnitudeB)
+  const entryCount = await db.vectorEntries.count()
+  return entryCount >= ANN_MIN_COLLECTION_SIZE &&
+    entryCount <= index.trainedSize * VECTOR_INDEX_REBUILD_GROWTH
+    ? index
+    : null
+}
+
+async function findNearestNotesExact(
+  vector: number[],
+  limit: number,
+  model: string
+): Promise<Array<{ id: string; score: number }>> {
+  const query = prepareQueryVector(vector)
+  const storedNotes = await openNotes(
+    await db.notes
+      .filter((note) => isActiveNote(note) && noteHasEmbeddingFrom(note, model))
+      .toArray()
+  )
+
+  return storedNotes
+    .map((note) => ({
+      id: note.id,
+      score: quantizedSimilarity(query, note.embedding!)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+async function findNearestNotesApproximate(
+  vector: number[],
+  limit: number,
+  index: StoredVectorIndex
+): Promise<Array<{ id: string; score: number }>> {
+  const probes = nearestCentroids(
+    index.centroids,
+    vector,
+    chooseProbeCount(index.listCount)
+  )
+  const entries = await db.vectorEntries.where("listId").anyOf(probes).toArray()
+
+  const query = prepareQueryVector(vector)
+  return entries
+    .map((entry) => ({
+      id: entry.noteId,
+      score: quantizedSimilarity(query, entry.embedding)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+export async function benchmarkVectorSearch(
+  queryCount: number = 20,
+  limit: number = 10
+): Promise<VectorSearchBenchmark | null> {
+  try {
+    const index =
+      (await db.vectorIndex.get(VECTOR_INDEX_ID)) ||
+      (await rebuildVectorIndex(true))
+    if (!index) {
+      logger.log(" [DB Vector Index] Nothing to benchmark")
+      return null
+    }
+
+    const entries = await db.vectorEntries.toArray()
+    const queries = entries
+      .sort(() => Math.random() - 0.5)
+      .slice(0, queryCount)
+      .map((entry) => dequantizeEmbedding(entry.embedding))
+
+    let exactTime = 0
+    let approximateTime = 0
+    let recalled = 0
+    let expected = 0
+
+    for (const query of queries) {
+      let start = performance.now()
+      const exact = await findNearestNotesExact(query, limit, index.model)
+      exactTime += performance.now() - start
+
+      start = performance.now()
+      const approximate = await findNearestNotesApproximate(query, limit, index)
+      approximateTime += performance.now() - start
+
+      const approximateIds = new Set(approximate.map((result) => result.id))
+      recalled += exact.filter((result) => approximateIds.has(result.id)).length
+      expected += exact.length
+    }
+
+    const benchmark: VectorSearchBenchmark = {
+      collectionSize: entries.length,
+      listCount: index.listCount,
+      probeCount: chooseProbeCount(index.listCount),
+      queries: queries.length,
+      limit,
+      recall: expected > 0 ? recalled / expected : 1,
+      exactLatencyMs: queries.length > 0 ? exactTime / queries.length : 0,
+      approximateLatencyMs:
+        queries.length > 0 ? approximateTime / queries.length : 0
+    }
+
+    logger.log(" [DB Vector Index] Benchmark:", benchmark)
+    return benchmark
+  } catch (error) {
+    logger.error(" [DB Vector Index] Benchmark failed:", error)
+    return null
+  }
+}
+
+// Embeddings are only returned when asked for, so they never leave the
+// extension pages by accident
+async function toNote(
+  storedNote: StoredNote,
+  options: { includeEmbedding?: boolean } = {}
+): Promise<Note> {
+  return {
+    id: storedNote.id,
+    title: storedNote.title,
+    content: await decrypt(storedNote.content),
+    contentPlaintext: await decrypt(storedNote.contentPlaintext),
+    category: storedNote.category,
+    embedding:
+      options.includeEmbedding && storedNote.embedding
+        ? dequantizeEmbedding(storedNote.embedding)
+        : undefined,
+    embeddingModel: options.includeEmbedding
+      ? storedNote.embedding?.model
+      : undefined,
+    createdAt: storedNote.createdAt,
+    updatedAt: storedNote.updatedAt,
+    sourceUrl: storedNote.sourceUrl,
+    tags: storedNote.tags || [],
+    attachmentIds: storedNote.attachmentIds || [],
+    sensitive: storedNote.sensitive,
+    color: storedNote.color,
+    deletedAt: storedNote.deletedAt
+  }
 }
 
 function generateId(): string {
@@ -75,15 +1374,23 @@ function generateId(): string {
 }
 
 export async function addNote(noteData: {
+  // Only given when importing a note exported from MindKeep
+  id?: string
   title: string
   content: string
   contentPlaintext: string
   category?: string
+  tags?: string[]
+  attachmentIds?: string[]
   sourceUrl?: string
   embedding?: number[]
-}): Promise<StoredNote> {
+  sensitive?: boolean
+  color?: NoteColor
+  createdAt?: number
+  updatedAt?: number
+}): Promise<Note> {
   try {
-    const id = generateId()
+    const id = noteData.id || generateId()
     const now = Date.now()
 
     logger.log(
@@ -100,42 +1407,106 @@ export async function addNote(noteData: {
       content: noteData.content,
       contentPlaintext: noteData.contentPlaintext,
       category: noteData.category || "general",
-      embedding: noteData.embedding,
-      createdAt: now,
-      updatedAt: now,
-      sourceUrl: noteData.sourceUrl
+      embedding: noteData.embedding
+        ? quantizeEmbedding(
+            noteData.embedding,
+            await getActiveEmbeddingModelId()
+          )
+        : undefined,
+      createdAt: noteData.createdAt ?? now,
+      updatedAt: noteData.updatedAt ?? noteData.createdAt ?? now,
+      sourceUrl: noteData.sourceUrl,
+      tags: normalizeTags(noteData.tags || []),
+      attachmentIds: noteData.attachmentIds || [],
+      sensitive:
+        noteData.sensitive ??
+        containsSensitiveContent(await decrypt(noteData.contentPlaintext)),
+      color: noteData.color,
+      keyId: getRecordKeyId(noteData.content, noteData.contentPlaintext)
     }
 
-    await db.notes.add(storedNote)
-    return storedNote
+    const record = await sealNote(storedNote)
+    const categories = await prepareCategoryPath(storedNote.category)
+    await db.transaction("rw", db.notes, db.categories, async () => {
+      await db.notes.add(record)
+      await putMissingCategories(categories)
+    })
+    await indexNoteForSearch(storedNote)
+    await updateVectorIndexEntry(storedNote)
+    return await toNote(storedNote)
   } catch (error) {
     logger.error("Error adding note:", error)
     throw new Error("Failed to add note")
   }
 }
 
-export async function getNote(id: string): Promise<Note | null> {
+export async function importNote(note: Note): Promise<"created" | "updated"> {
   try {
-    const storedNote = await db.notes.get(id)
+    const existingRecord = await db.notes.get(note.id)
+    const storedNote: StoredNote = {
+      id: note.id,
+      title: note.title,
+      content: note.content,
+      contentPlaintext: note.contentPlaintext,
+      category: note.category || "general",
+      embedding: note.embedding
+        ? quantizeEmbedding(note.embedding, note.embeddingModel)
+        : undefined,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      sourceUrl: note.sourceUrl,
+      tags: normalizeTags(note.tags || []),
+      attachmentIds: note.attachmentIds || [],
+      sensitive: note.sensitive,
+      color: note.color,
+      deletedAt: note.deletedAt,
+      keyId: getRecordKeyId(note.content, note.contentPlaintext)
+    }
 
-    if (!storedNote) {
-      return null
+    const record = await sealNote(storedNote)
+    const categories = await prepareCategoryPath(storedNote.category)
+    const snapshot = existingRecord
+      ? await createRevisionSnapshot(await openNote(existingRecord))
+      : null
+
+    await db.transaction(
+      "rw",
+      [db.notes, db.revisions, db.categories],
+      async () => {
+        if (snapshot) await db.revisions.add(snapshot)
+        await db.notes.put(record)
+        await putMissingCategories(categories)
+      }
+    )
+
+    if (isActiveNote(storedNote)) {
+      await indexNoteForSearch(storedNote)
+      await updateVectorIndexEntry(storedNote)
+    } else {
+      await db.searchIndex.delete(storedNote.id)
+      await db.vectorEntries.delete(storedNote.id)
+      forgetSearchDocuments([storedNote.id])
     }
 
-    const content = await decrypt(storedNote.content)
-    const contentPlaintext = await decrypt(storedNote.contentPlaintext)
+    return existingRecord ? "updated" : "created"
+  } catch (error) {
+    logger.error(`Error importing note ${note.id}:`, error)
+    throw new Error("Failed to import note")
+  }
+}
 
-    return {
-      id: storedNote.id,
-      title: storedNote.title,
-      content,
-      contentPlaintext,
-      category: storedNote.category,
-      embedding: storedNote.embedding,
-      createdAt: storedNote.createdAt,
-      updatedAt: storedNote.updatedAt,
-      sourceUrl: storedNote.sourceUrl
+export async function getNote(
+  id: string,
+  options: { includeEmbedding?: boolean } = {}
+): Promise<Note | null> {
+  try {
+    const record = await db.notes.get(id)
+
+    if (!record) {
+      return null
     }
+
+    return await toNote(await openNote(record), options)
   } catch (error) {
     logger.error("Error getting note:", error)
     return null
@@ -149,64 +1520,397 @@ export async function updateNote(
     content?: string
     contentPlaintext?: string
     category?: string
-    embedding?: number[]
+    tags?: string[]
+    attachmentIds?: string[]
+    // null removes the stored embedding
+    embedding?: number[] | null
+    sensitive?: boolean
+    color?: NoteColor
   }
 ): Promise<Note | null> {
   try {
-    const existingStoredNote = await db.notes.get(id)
+    const existingRecord = await db.notes.get(id)
 
-    if (!existingStoredNote) {
+    if (!existingRecord) {
       return null
     }
 
+    const existingStoredNote = await openNote(existingRecord)
+
+    const shouldSnapshot =
+      updates.content !== undefined ||
+      (updates.title !== undefined &&
+        updates.title !== existingStoredNote.title)
+
+    const encryptedContent = updates.content ?? existingStoredNote.content
+    const encryptedPlaintext =
+      updates.contentPlaintext ?? existingStoredNote.contentPlaintext
+
     const updatedNote: StoredNote = {
       id,
       title: updates.title ?? existingStoredNote.title,
-      content: updates.content ?? existingStoredNote.content,
-      contentPlaintext:
-        updates.contentPlaintext ?? existingStoredNote.contentPlaintext,
+      content: encryptedContent,
+      contentPlaintext: encryptedPlaintext,
       category: updates.category ?? existingStoredNote.category,
-      embedding: updates.embedding ?? existingStoredNote.embedding,
+      embedding: updates.embedding
+        ? quantizeEmbedding(
+            updates.embedding,
+            await getActiveEmbeddingModelId()
+          )
+        : updates.embedding === null
+          ? undefined
+          : existingStoredNote.embedding,
       createdAt: existingStoredNote.createdAt,
       updatedAt: Date.now(),
-      sourceUrl: existingStoredNote.sourceUrl
+      sourceUrl: existingStoredNote.sourceUrl,
+      tags:
+        updates.tags !== undefined
+          ? normalizeTags(updates.tags)
+          : existingStoredNote.tags,
+      attachmentIds: updates.attachmentIds ?? existingStoredNote.attachmentIds,
+      deletedAt: existingStoredNote.deletedAt,
+      sensitive:
+        updates.sensitive ??
+        (existingStoredNote.sensitive ||
+          (updates.contentPlaintext !== undefined &&
+            containsSensitiveContent(await decrypt(updates.contentPlaintext)))),
+      color: updates.color ?? existingStoredNote.color,
+      keyId: getRecordKeyId(encryptedContent, encryptedPlaintext)
     }
 
-    await db.notes.put(updatedNote)
+    const record = await sealNote(updatedNote)
+    if (shouldSnapshot) {
+      const snapshot = await createRevisionSnapshot(existingStoredNote)
+      await db.transaction("rw", db.notes, db.revisions, async () => {
+        await db.revisions.add(snapshot)
+        await db.notes.put(record)
+      })
+      await pruneNoteRevisions(id)
+    } else {
+      await db.notes.put(record)
+    }
 
-    const content = await decrypt(updatedNote.content)
-    const contentPlaintext = await decrypt(updatedNote.contentPlaintext)
+    if (updates.category !== undefined) {
+      await ensureCategoryPath(updatedNote.category)
+    }
 
-    return {
-      id: updatedNote.id,
-      title: updatedNote.title,
-      content,
-      contentPlaintext,
-      category: updatedNote.category,
-      embedding: updatedNote.embedding,
-      createdAt: updatedNote.createdAt,
-      updatedAt: updatedNote.updatedAt,
-      sourceUrl: updatedNote.sourceUrl
+    if (
+      isActiveNote(updatedNote) &&
+      (updatedNote.title !== existingStoredNote.title ||
+        updatedNote.contentPlaintext !== existingStoredNote.contentPlaintext)
+    ) {
+      await indexNoteForSearch(updatedNote)
+    }
+
+    if (updates.embedding !== undefined && isActiveNote(updatedNote)) {
+      await updateVectorIndexEntry(updatedNote)
     }
+
+    return await toNote(updatedNote)
   } catch (error) {
     logger.error("Error updating note:", error)
     return null
   }
 }
 
+function generateRevisionId(): string {
+  return `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+function createRevisionSnapshot(
+  storedNote: StoredNote
+): Promise<StoredNoteRevision> {
+  return sealRevision({
+    id: generateRevisionId(),
+    noteId: storedNote.id,
+    title: storedNote.title,
+    content: storedNote.content,
+    contentPlaintext: storedNote.contentPlaintext,
+    category: storedNote.category,
+    attachmentIds: storedNote.attachmentIds,
+    noteUpdatedAt: storedNote.updatedAt,
+    createdAt: Date.now(),
+    keyId: storedNote.keyId
+  })
+}
+
+async function decryptRevision(
+  record: StoredNoteRevision
+): Promise<NoteRevision> {
+  const storedRevision = await openRevision(record)
+  const content = await decrypt(storedRevision.content)
+  const contentPlaintext = await decrypt(storedRevision.contentPlaintext)
+
+  return {
+    id: storedRevision.id,
+    noteId: storedRevision.noteId,
+    title: storedRevision.title,
+    content,
+    contentPlaintext,
+    category: storedRevision.category,
+    attachmentIds: storedRevision.attachmentIds || [],
+    noteUpdatedAt: storedRevision.noteUpdatedAt,
+    createdAt: storedRevision.createdAt
+  }
+}
+
+export async function getNoteRevisions(
+  noteId: string
+): Promise<NoteRevision[]> {
+  try {
+    const storedRevisions = await db.revisions
+      .where("noteId")
+      .equals(noteId)
+      .toArray()
+
+    storedRevisions.sort((a, b) => b.createdAt - a.createdAt)
+
+    const revisions: NoteRevision[] = []
+    for (const storedRevision of storedRevisions) {
+      try {
+        revisions.push(await decryptRevision(storedRevision))
+      } catch (error) {
+        logger.error(`Error decrypting revision ${storedRevision.id}:`, error)
+      }
+    }
+
+    return revisions
+  } catch (error) {
+    logger.error("Error getting note revisions:", error)
+    return []
+  }
+}
+
+export async function getNoteRevision(
+  id: string
+): Promise<NoteRevision | null> {
+  try {
+    const storedRevision = await db.revisions.get(id)
+
+    if (!storedRevision) {
+      return null
+    }
+
+    return await decryptRevision(storedRevision)
+  } catch (error) {
+    logger.error("Error getting note revision:", error)
+    return null
+  }
+}
+
+export async function pruneNoteRevisions(noteId?: string): Promise<number> {
+  try {
+    const settings = await getRevisionSettings()
+    const storedRevisions = noteId
+      ? await db.revisions.where("noteId").equals(noteId).toArray()
+      : await db.revisions.toArray()
+
+    const revisionsByNote = new Map<string, StoredNoteRevision[]>()
+    for (const revision of storedRevisions) {
+      const existing = revisionsByNote.get(revision.noteId) || []
+      existing.push(revision)
+      revisionsByNote.set(revision.noteId, existing)
+    }
+
+    const idsToDelete: string[] = []
+
+    if (settings.retentionMode === "days") {
+      const cutoff = Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000
+      for (const revision of storedRevisions) {
+        if (revision.createdAt < cutoff) {
+          idsToDelete.push(revision.id)
+        }
+      }
+    } else {
+      for (const revisions of revisionsByNote.values()) {
+        revisions.sort((a, b) => b.createdAt - a.createdAt)
+        idsToDelete.push(
+          ...revisions.slice(settings.maxRevisions).map((r) => r.id)
+        )
+      }
+    }
+
+    if (idsToDelete.length > 0) {
+      await db.revisions.bulkDelete(idsToDelete)
+      logger.log(
+        ` [DB Revisions] Pruned ${idsToDelete.length} revisions (${settings.retentionMode} retention)`
+      )
+    }
+
+    return idsToDelete.length
+  } catch (error) {
+    logger.error("Error pruning note revisions:", error)
+    return 0
+  }
+}
+
 export async function deleteNote(id: string): Promise<boolean> {
   try {
-    await db.notes.delete(id)
-    return true
+    const updated = await db.notes.update(id, { deletedAt: Date.now() })
+    await db.searchIndex.delete(id)
+    await db.vectorEntries.delete(id)
+    forgetSearchDocuments([id])
+    logger.log(` [DB Trash] Moved note ${id} to trash`)
+    return updated > 0
   } catch (error) {
     logger.error("Error deleting note:", error)
     return false
   }
 }
 
+export async function restoreNote(id: string): Promise<boolean> {
+  try {
+    const updated = await db.notes.update(id, { deletedAt: undefined })
+    const record = await db.notes.get(id)
+    if (record) {
+      const storedNote = await openNote(record)
+      await indexNoteForSearch(storedNote)
+      await updateVectorIndexEntry(storedNote)
+    }
+    logger.log(` [DB Trash] Restored note ${id} from trash`)
+    return updated > 0
+  } catch (error) {
+    logger.error("Error restoring note:", error)
+    return false
+  }
+}
+
+export async function permanentlyDeleteNote(id: string): Promise<boolean> {
+  try {
+    await db.transaction(
+      "rw",
+      [
+        db.notes,
+        db.revisions,
+        db.links,
+        db.searchIndex,
+        db.chunks,
+        db.vectorEntries
+      ],
+      async () => {
+        await db.notes.delete(id)
+        await db.revisions.where("noteId").equals(id).delete()
+        await db.links.where("sourceNoteId").equals(id).delete()
+        await db.searchIndex.delete(id)
+        await db.chunks.where("noteId").equals(id).delete()
+        await db.vectorEntries.delete(id)
+      }
+    )
+    forgetSearchDocuments([id])
+    return true
+  } catch (error) {
+    logger.error("Error permanently deleting note:", error)
+    return false
+  }
+}
+
+export async function getTrashedNotes(): Promise<Note[]> {
+  try {
+    const storedNotes = await openNotes(
+      await db.notes.where("deletedAt").above(0).toArray()
+    )
+    const notes: Note[] = []
+
+    for (const storedNote of storedNotes) {
+      try {
+        const content = await decrypt(storedNote.content)
+        const contentPlaintext = await decrypt(storedNote.contentPlaintext)
+        notes.push({
+          id: storedNote.id,
+          title: storedNote.title,
+          content,
+          contentPlaintext,
+          category: storedNote.category,
+          createdAt: storedNote.createdAt,
+          updatedAt: storedNote.updatedAt,
+          sourceUrl: storedNote.sourceUrl,
+          tags: storedNote.tags || [],
+          attachmentIds: storedNote.attachmentIds || [],
+          sensitive: storedNote.sensitive,
+          color: storedNote.color,
+          deletedAt: storedNote.deletedAt
+        })
+      } catch (error) {
+        logger.error(`Error decrypting note ${storedNote.id}:`, error)
+      }
+    }
+
+    notes.sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0))
+    return notes
+  } catch (error) {
+    logger.error("Error getting trashed notes:", error)
+    return []
+  }
+}
+
+async function purgeTrashedNotes(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0
+
+  await db.transaction(
+    "rw",
+    [
+      db.notes,
+      db.revisions,
+      db.links,
+      db.searchIndex,
+      db.chunks,
+      db.vectorEntries
+    ],
+    async () => {
+      await db.notes.bulkDelete(ids)
+      await db.revisions.where("noteId").anyOf(ids).delete()
+      await db.links.where("sourceNoteId").anyOf(ids).delete()
+      await db.searchIndex.bulkDelete(ids)
+      await db.chunks.where("noteId").anyOf(ids).delete()
+      await db.vectorEntries.bulkDelete(ids)
+    }
+  )
+  forgetSearchDocuments(ids)
+
+  return ids.length
+}
+
+export async function emptyTrash(): Promise<number> {
+  try {
+    const ids = (await db.notes
+      .where("deletedAt")
+      .above(0)
+      .primaryKeys()) as string[]
+    const purged = await purgeTrashedNotes(ids)
+    logger.log(` [DB Trash] Emptied trash (${purged} notes)`)
+    return purged
+  } catch (error) {
+    logger.error("Error emptying trash:", error)
+    throw new Error("Failed to empty trash")
+  }
+}
+
+export async function purgeExpiredTrash(): Promise<number> {
+  try {
+    const { retentionDays } = await getTrashSettings()
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    const ids = (await db.notes
+      .where("deletedAt")
+      .between(0, cutoff, false, true)
+      .primaryKeys()) as string[]
+    const purged = await purgeTrashedNotes(ids)
+
+    if (purged > 0) {
+      logger.log(
+        ` [DB Trash] Purged ${purged} notes older than ${retentionDays} days`
+      )
+    }
+
+    return purged
+  } catch (error) {
+    logger.error("Error purging expired trash:", error)
+    return 0
+  }
+}
+
 async function getAllStoredNotes(): Promise<StoredNote[]> {
   try {
-    return await db.notes.toArray()
+    return await openNotes(await db.notes.filter(isActiveNote).toArray())
   } catch (error) {
     logger.error("Error getting stored notes:", error)
     return []
@@ -228,10 +1932,13 @@ export async function getAllNotes(): Promise<Note[]> {
           content,
           contentPlaintext,
           category: storedNote.category,
-          embedding: storedNote.embedding,
           createdAt: storedNote.createdAt,
           updatedAt: storedNote.updatedAt,
-          sourceUrl: storedNote.sourceUrl
+          sourceUrl: storedNote.sourceUrl,
+          tags: storedNote.tags || [],
+          attachmentIds: storedNote.attachmentIds || [],
+          sensitive: storedNote.sensitive,
+          color: storedNote.color
         })
       } catch (error) {
         logger.error(`Error decrypting note ${storedNote.id}:`, error)
@@ -246,6 +1953,26 @@ export async function getAllNotes(): Promise<Note[]> {
   }
 }
 
+export async function getSensitiveNoteIds(): Promise<Set<string>> {
+  const ids = await db.notes.filter((note) => !!note.sensitive).primaryKeys()
+  return new Set(ids as string[])
+}
+
+export async function getNotesForBackup(): Promise<Note[]> {
+  const notes: Note[] = []
+
+  for (const storedNote of await openNotes(await db.notes.toArray())) {
+    try {
+      notes.push(await toNote(storedNote, { includeEmbedding: true }))
+    } catch (error) {
+      logger.error(`Error decrypting note ${storedNote.id}:`, error)
+      throw new Error(`Could not read note ${storedNote.id}`)
+    }
+  }
+
+  return notes
+}
+
 export async function searchNotesByVector(
   vector: number[],
   limit: number = 5
@@ -253,41 +1980,38 @@ export async function searchNotesByVector(
   const startTime = performance.now()
 
   try {
-    const fetchStartTime = performance.now()
-    const storedNotes = await db.notes
-      .filter((note) => note.embedding && note.embedding.length > 0)
-      .toArray()
-    const fetchTime = performance.now() - fetchStartTime
+    const rankStartTime = performance.now()
+    const model = await getActiveEmbeddingModelId()
+    const index = await getUsableVectorIndex(model, vector.length)
+    const topResults = index
+      ? await findNearestNotesApproximate(vector, limit, index)
+      : await findNearestNotesExact(vector, limit, model)
+    const rankTime = performance.now() - rankStartTime
     logger.log(
-      ` [DB Vector Search] Fetch notes from DB: ${fetchTime.toFixed(2)}ms (${storedNotes.length} notes)`
+      ` [DB Vector Search] ${index ? "Approximate" : "Exact"} ranking of top ${limit}: ${rankTime.toFixed(2)}ms`
     )
 
-    if (storedNotes.length === 0) {
-      logger.log(` [DB Vector Search] No notes with embeddings found`)
-      return []
-    }
-
-    const scoreStartTime = performance.now()
-    const scored = storedNotes.map((note) => ({
-      note,
-      score: cosineSimilarity(vector, note.embedding!)
-    }))
-    const scoreTime = performance.now() - scoreStartTime
-    logger.log(
-      ` [DB Vector Search] Calculate similarity scores: ${scoreTime.toFixed(2)}ms`
-    )
+    if (topResults.length === 0) {
+      logger.log(` [DB Vector Search] No notes with embeddings found`)
+      return []
+    }
 
-    const sortStartTime = performance.now()
-    scored.sort((a, b) => b.score - a.score)
-    const topResults = scored.slice(0, limit)
-    const sortTime = performance.now() - sortStartTime
-    logger.log(
-      ` [DB Vector Search] Sort and slice top ${limit} results: ${sortTime.toFixed(2)}ms`
+    const storedById = new Map(
+      (
+        await openNotes(
+          (
+            await db.notes.bulkGet(topResults.map((result) => result.id))
+          ).filter((note): note is StoredNote => !!note && isActiveNote(note))
+        )
+      ).map((note) => [note.id, note])
     )
 
     const decryptStartTime = performance.now()
     const decryptedResults: Array<{ note: Note; score: number }> = []
-    for (const { note, score } of topResults) {
+    for (const { id, score } of topResults) {
+      const note = storedById.get(id)
+      if (!note) continue
+
       try {
         const content = await decrypt(note.content)
         const contentPlaintext = await decrypt(note.contentPlaintext)
@@ -298,10 +2022,13 @@ export async function searchNotesByVector(
             content,
             contentPlaintext,
             category: note.category,
-            embedding: note.embedding,
             createdAt: note.createdAt,
             updatedAt: note.updatedAt,
-            sourceUrl: note.sourceUrl
+            sourceUrl: note.sourceUrl,
+            tags: note.tags || [],
+            attachmentIds: note.attachmentIds || [],
+            sensitive: note.sensitive,
+            color: note.color
           },
           score
         })
@@ -329,18 +2056,104 @@ export async function searchNotesByVector(
   }
 }
 
+export async function searchNotesHybrid(
+  query: string,
+  vector: number[] | null,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResult[]> {
+  const startTime = performance.now()
+
+  try {
+    const settings = await getSearchSettings()
+    const {
+      limit = 5,
+      keywordWeight = settings.keywordWeight,
+      vectorWeight = settings.vectorWeight,
+      rrfK = settings.rrfK,
+      candidateLimit = Math.max(settings.candidateLimit, limit)
+    } = options
+
+    const hasQuery = !!query && query.trim() !== ""
+    const hasVector = !!vector && vector.length > 0
+
+    const [keywordResults, vectorResults] = await Promise.all([
+      hasQuery && keywordWeight > 0
+        ? searchNotesFullText(query, { limit: candidateLimit })
+        : Promise.resolve([] as FullTextSearchResult[]),
+      hasVector && vectorWeight > 0
+        ? searchNotesByVector(vector!, candidateLimit)
+        : Promise.resolve([] as Array<{ note: Note; score: number }>)
+    ])
+
+    const fused = reciprocalRankFusion(
+      [
+        {
+          weight: keywordWeight,
+          ids: keywordResults.map((result) => result.note.id)
+        },
+        {
+          weight: vectorWeight,
+          ids: vectorResults.map((result) => result.note.id)
+        }
+      ],
+      rrfK
+    )
+
+    const keywordById = new Map(
+      keywordResults.map((result) => [result.note.id, result])
+    )
+    const vectorById = new Map(
+      vectorResults.map((result) => [result.note.id, result])
+    )
+
+    const results: HybridSearchResult[] = fused
+      .slice(0, limit)
+      .map(({ id, score, ranks: [keywordRank, vectorRank] }) => {
+        const keywordMatch = keywordById.get(id)
+        const vectorMatch = vectorById.get(id)
+
+        return {
+          note: (keywordMatch || vectorMatch)!.note,
+          score,
+          breakdown: {
+            fused: score,
+            keywordScore: keywordMatch?.score ?? null,
+            keywordRank,
+            vectorScore: vectorMatch?.score ?? null,
+            vectorRank
+          },
+          snippet: keywordMatch?.snippet
+        }
+      })
+
+    logger.log(
+      ` [Hybrid Search] ${keywordResults.length} keyword + ${vectorResults.length} vector candidates → ${results.length} results in ${(performance.now() - startTime).toFixed(2)}ms`
+    )
+
+    return results
+  } catch (error) {
+    const totalTime = performance.now() - startTime
+    logger.error(
+      ` [Hybrid Search] Failed after ${totalTime.toFixed(2)}ms:`,
+      error
+    )
+    return []
+  }
+}
+
 export async function searchNotesSemanticWithContent(
   vector: number[],
-  limit: number = 5
+  limit: number = 5,
+  query: string = ""
 ): Promise<{ notes: Note[]; combinedContent: string }> {
   const startTime = performance.now()
 
   try {
     const searchStartTime = performance.now()
-    const matchingNotes = await searchNotesByVector(vector, limit)
+    const matchingNotes = await searchNotesHybrid(query, vector, { limit })
     const searchTime = performance.now() - searchStartTime
     logger.log(
-      ` [Semantic Search With Content] Vector search: ${searchTime.toFixed(2)}ms`
+      ` [Semantic Search With Content] Hybrid search: ${searchTime.toFixed(2)}ms`
     )
 
     if (matchingNotes.length === 0) {
@@ -378,6 +2191,224 @@ export async function searchNotesSemanticWithContent(
   }
 }
 
+export async function replaceNoteChunks(
+  noteId: string,
+  chunks: Array<NoteChunk & { embedding: number[] }>,
+  model: string
+): Promise<number> {
+  try {
+    const storedChunks: StoredNoteChunk[] = []
+    for (const chunk of chunks) {
+      const data = await encrypt(
+        JSON.stringify({ headingPath: chunk.headingPath, text: chunk.text })
+      )
+      storedChunks.push(
+        await sealChunk({
+          id: `${noteId}:${chunk.index}`,
+          noteId,
+          index: chunk.index,
+          start: chunk.start,
+          end: chunk.end,
+          data,
+          embedding: quantizeEmbedding(chunk.embedding, model),
+          keyId: getCiphertextKeyId(data)
+        })
+      )
+    }
+
+    await db.transaction("rw", db.chunks, async () => {
+      await db.chunks.where("noteId").equals(noteId).delete()
+      await db.chunks.bulkAdd(storedChunks)
+    })
+
+    logger.log(
+      ` [DB Chunks] Stored ${storedChunks.length} chunks for note ${noteId}`
+    )
+    return storedChunks.length
+  } catch (error) {
+    logger.error("Error replacing note chunks:", error)
+    throw new Error("Failed to store note chunks")
+  }
+}
+
+export async function getUnchunkedNoteIds(
+  limit: number,
+  excludeIds: string[] = []
+): Promise<string[]> {
+  try {
+    const excluded = new Set(excludeIds)
+    const chunkedIds = new Set(
+      (await db.chunks.orderBy("noteId").uniqueKeys()) as string[]
+    )
+    const noteIds = (await db.notes
+      .filter(
+        (note) =>
+          isActiveNote(note) &&
+          !excluded.has(note.id) &&
+          !chunkedIds.has(note.id)
+      )
+      .limit(limit)
+      .primaryKeys()) as string[]
+
+    return noteIds
+  } catch (error) {
+    logger.error("Error finding unchunked notes:", error)
+    return []
+  }
+}
+
+export async function getNoteIdsNeedingEmbedding(
+  model: string,
+  limit: number,
+  excludeIds: string[] = []
+): Promise<string[]> {
+  try {
+    const excluded = new Set(excludeIds)
+    return (await db.notes
+      .filter(
+        (note) =>
+          isActiveNote(note) &&
+          !excluded.has(note.id) &&
+          !noteHasEmbeddingFrom(note, model)
+      )
+      .limit(limit)
+      .primaryKeys()) as string[]
+  } catch (error) {
+    logger.error("Error finding notes needing embedding:", error)
+    return []
+  }
+}
+
+export async function countNotesNeedingEmbedding(
+  model: string
+): Promise<number> {
+  try {
+    return await db.notes
+      .filter(
+        (note) => isActiveNote(note) && !noteHasEmbeddingFrom(note, model)
+      )
+      .count()
+  } catch (error) {
+    logger.error("Error counting notes needing embedding:", error)
+    return 0
+  }
+}
+
+export async function updateNoteEmbedding(
+  id: string,
+  embedding: number[],
+  model: string
+): Promise<boolean> {
+  try {
+    const record = await db.notes.get(id)
+    if (!record) {
+      return false
+    }
+
+    const storedNote: StoredNote = {
+      ...(await openNote(record)),
+      embedding: quantizeEmbedding(embedding, model)
+    }
+    const sealedNote = await sealNote(storedNote)
+    const updated = await db.transaction("rw", db.notes, () =>
+      replaceNoteMetadata(record, sealedNote)
+    )
+    if (!updated) {
+      return false
+    }
+
+    if (isActiveNote(storedNote)) {
+      await updateVectorIndexEntry(storedNote)
+    }
+    return true
+  } catch (error) {
+    logger.error(`Error updating embedding for note ${id}:`, error)
+    return false
+  }
+}
+
+export async function searchNoteChunks(
+  vector: number[],
+  options: ChunkSearchOptions = {}
+): Promise<NoteChunkMatch[]> {
+  const { limit = 5, maxChunksPerNote = 2, noteIds } = options
+  const startTime = performance.now()
+
+  try {
+    const storedChunks = noteIds
+      ? await db.chunks.where("noteId").anyOf(noteIds).toArray()
+      : await db.chunks.toArray()
+
+    const candidateNoteIds = Array.from(
+      new Set(storedChunks.map((chunk) => chunk.noteId))
+    )
+    const notesById = new Map(
+      (
+        await openNotes(
+          (await db.notes.bulkGet(candidateNoteIds)).filter(
+            (note): note is StoredNote => !!note && isActiveNote(note)
+          )
+        )
+      ).map((note) => [note.id, note])
+    )
+
+    const openedChunks: StoredNoteChunk[] = []
+    for (const chunk of storedChunks) {
+      if (!notesById.has(chunk.noteId)) continue
+      try {
+        openedChunks.push(await openChunk(chunk))
+      } catch (error) {
+        logger.error(`Error opening chunk ${chunk.id}:`, error)
+      }
+    }
+
+    const model = await getActiveEmbeddingModelId()
+    const query = prepareQueryVector(vector)
+    const scored = openedChunks
+      .filter((chunk) => hasEmbeddingFrom(chunk.embedding, model))
+      .map((chunk) => ({
+        chunk,
+        score: quantizedSimilarity(query, chunk.embedding!)
+      }))
+      .sort((a, b) => b.score - a.score)
+
+    const perNoteCounts = new Map<string, number>()
+    const matches: NoteChunkMatch[] = []
+
+    for (const { chunk, score } of scored) {
+      if (matches.length >= limit) break
+
+      const count = perNoteCounts.get(chunk.noteId) || 0
+      if (count >= maxChunksPerNote) continue
+
+      try {
+        const { headingPath, text } = JSON.parse(await decrypt(chunk.data))
+        matches.push({
+          noteId: chunk.noteId,
+          noteTitle: notesById.get(chunk.noteId)!.title,
+          chunkIndex: chunk.index,
+          headingPath,
+          text,
+          start: chunk.start,
+          end: chunk.end,
+          score
+        })
+        perNoteCounts.set(chunk.noteId, count + 1)
+      } catch (error) {
+        logger.error(`Error decrypting chunk ${chunk.id}:`, error)
+      }
+    }
+
+    logger.log(
+      ` [DB Chunks] Matched ${matches.length}/${storedChunks.length} chunks in ${(performance.now() - startTime).toFixed(2)}ms`
+    )
+    return matches
+  } catch (error) {
+    logger.error("Error searching note chunks:", error)
+    return []
+  }
+}
+
 export async function searchNotesByTitle(query: string): Promise<Note[]> {
   try {
     if (!query || query.trim() === "") {
@@ -387,14 +2418,14 @@ export async function searchNotesByTitle(query: string): Promise<Note[]> {
     const lowerQuery = query.toLowerCase()
     const results = new Map<string, Note>()
 
-    const titleMatches = await db.notes
-      .where("title")
-      .startsWithIgnoreCase(query)
-      .toArray()
-
-    const titleSubstringMatches = await db.notes
-      .filter((note) => note.title.toLowerCase().includes(lowerQuery))
-      .toArray()
+    // Encrypted titles are only readable once opened, so match in memory
+    const activeNotes = await getAllStoredNotes()
+    const titleMatches = activeNotes.filter((note) =>
+      note.title.toLowerCase().startsWith(lowerQuery)
+    )
+    const titleSubstringMatches = activeNotes.filter((note) =>
+      note.title.toLowerCase().includes(lowerQuery)
+    )
 
     const allTitleMatches = [...titleMatches, ...titleSubstringMatches]
     const uniqueTitleMatches = Array.from(
@@ -411,10 +2442,13 @@ export async function searchNotesByTitle(query: string): Promise<Note[]> {
           content,
           contentPlaintext,
           category: storedNote.category,
-          embedding: storedNote.embedding,
           createdAt: storedNote.createdAt,
           updatedAt: storedNote.updatedAt,
-          sourceUrl: storedNote.sourceUrl
+          sourceUrl: storedNote.sourceUrl,
+          tags: storedNote.tags || [],
+          attachmentIds: storedNote.attachmentIds || [],
+          sensitive: storedNote.sensitive,
+          color: storedNote.color
         })
       } catch (error) {
         logger.error(`Error decrypting note ${storedNote.id}:`, error)
@@ -422,46 +2456,292 @@ export async function searchNotesByTitle(query: string): Promise<Note[]> {
     }
 
     if (results.size < 10) {
-      const remainingNotes = await db.notes
-        .filter((note) => !results.has(note.id))
+      const fullTextResults = await searchNotesFullText(query, {
+        limit: 10 + results.size
+      })
+
+      for (const { note } of fullTextResults) {
+        if (!results.has(note.id)) {
+          results.set(note.id, note)
+        }
+      }
+    }
+
+    return Array.from(results.values())
+  } catch (error) {
+    logger.error("Error searching notes by title:", error)
+    return []
+  }
+}
+
+export async function searchNotesFullText(
+  query: string,
+  options: FullTextSearchOptions = {}
+): Promise<FullTextSearchResult[]> {
+  const { limit = 20, snippetLength = 160, category } = options
+
+  try {
+    if (!query || query.trim() === "") {
+      return []
+    }
+
+    const startTime = performance.now()
+    await syncSearchIndex()
+
+    const ranked = rankDocuments(searchCorpus, parseSearchQuery(query))
+    const results: FullTextSearchResult[] = []
+
+    for (const match of ranked) {
+      if (results.length >= limit) break
+
+      const record = await db.notes.get(match.id)
+      if (!record || !isActiveNote(record)) continue
+
+      try {
+        const storedNote = await openNote(record)
+        if (category && !isInCategoryPath(storedNote.category, category)) {
+          continue
+        }
+
+        const content = await decrypt(storedNote.content)
+        const contentPlaintext = await decrypt(storedNote.contentPlaintext)
+        results.push({
+          note: {
+            id: storedNote.id,
+            title: storedNote.title,
+            content,
+            contentPlaintext,
+            category: storedNote.category,
+            createdAt: storedNote.createdAt,
+            updatedAt: storedNote.updatedAt,
+            sourceUrl: storedNote.sourceUrl,
+            tags: storedNote.tags || [],
+            attachmentIds: storedNote.attachmentIds || [],
+            sensitive: storedNote.sensitive,
+            color: storedNote.color
+          },
+          score: match.score,
+          snippet: buildSnippet(
+            stripMarkdown(contentPlaintext),
+            match.matchedTerms,
+            snippetLength
+          )
+        })
+      } catch (error) {
+        logger.error(`Error decrypting note ${record.id}:`, error)
+      }
+    }
+
+    logger.log(
+      ` [DB Search] Full-text "${query}": ${results.length}/${ranked.length} results in ${(performance.now() - startTime).toFixed(2)}ms`
+    )
+    return results
+  } catch (error) {
+    logger.error("Error in full-text search:", error)
+    return []
+  }
+}
+
+export async function getNotesByCategory(category: string): Promise<Note[]> {
+  try {
+    const storedNotes = await openNotes(
+      await db.notes
+        .where("category")
+        .anyOf(await getIndexKeys(category))
+        .and(isActiveNote)
         .toArray()
+    )
 
-      for (const storedNote of remainingNotes) {
-        try {
-          const contentPlaintext = await decrypt(storedNote.contentPlaintext)
-          if (contentPlaintext.toLowerCase().includes(lowerQuery)) {
-            const content = await decrypt(storedNote.content)
-            results.set(storedNote.id, {
-              id: storedNote.id,
-              title: storedNote.title,
-              content,
-              contentPlaintext,
-              category: storedNote.category,
-              embedding: storedNote.embedding,
-              createdAt: storedNote.createdAt,
-              updatedAt: storedNote.updatedAt,
-              sourceUrl: storedNote.sourceUrl
-            })
-          }
-        } catch (error) {
-          logger.error(`Error decrypting note ${storedNote.id}:`, error)
+    const notes: Note[] = []
+    for (const storedNote of storedNotes) {
+      try {
+        const content = await decrypt(storedNote.content)
+        const contentPlaintext = await decrypt(storedNote.contentPlaintext)
+        notes.push({
+          id: storedNote.id,
+          title: storedNote.title,
+          content,
+          contentPlaintext,
+          category: storedNote.category,
+          createdAt: storedNote.createdAt,
+          updatedAt: storedNote.updatedAt,
+          sourceUrl: storedNote.sourceUrl,
+          tags: storedNote.tags || [],
+          attachmentIds: storedNote.attachmentIds || [],
+          sensitive: storedNote.sensitive,
+          color: storedNote.color
+        })
+      } catch (error) {
+        logger.error(`Error decrypting note ${storedNote.id}:`, error)
+      }
+    }
+
+    return notes
+  } catch (error) {
+    logger.error("Error getting notes by category:", error)
+    return []
+  }
+}
+
+async function getAllCategoryRecords(): Promise<StoredCategory[]> {
+  const categories: StoredCategory[] = []
+  for (const storedCategory of await db.categories.toArray()) {
+    try {
+      categories.push(await openCategory(storedCategory))
+    } catch (error) {
+      logger.error(
+        ` [DB Metadata] Failed to open category ${storedCategory.path}:`,
+        error
+      )
+    }
+  }
+  return categories
+}
+
+export async function getAllCategories(): Promise<string[]> {
+  try {
+    const [storedCategories, activeNotes] = await Promise.all([
+      getAllCategoryRecords(),
+      getAllStoredNotes()
+    ])
+    const paths = new Set(storedCategories.map((category) => category.path))
+    activeNotes.forEach((note) => paths.add(note.category))
+    return Array.from(paths).sort()
+  } catch (error) {
+    logger.error("Error getting categories:", error)
+    return []
+  }
+}
+
+export async function getCategoryTree(): Promise<CategoryTreeNode[]> {
+  try {
+    const [storedCategories, activeNotes] = await Promise.all([
+      getAllCategoryRecords(),
+      getAllStoredNotes()
+    ])
+
+    const nodes = new Map<string, CategoryTreeNode>()
+    const ensureNode = (path: string) => {
+      for (const ancestor of getCategoryAncestors(path)) {
+        if (!nodes.has(ancestor)) {
+          nodes.set(ancestor, {
+            path: ancestor,
+            name: getCategoryName(ancestor),
+            directCount: 0,
+            totalCount: 0,
+            lastUpdated: 0,
+            children: []
+          })
         }
       }
     }
-
-    return Array.from(results.values())
+
+    storedCategories.forEach((category) => ensureNode(category.path))
+
+    for (const note of activeNotes) {
+      ensureNode(note.category)
+      nodes.get(note.category)!.directCount++
+
+      for (const ancestor of getCategoryAncestors(note.category)) {
+        const node = nodes.get(ancestor)!
+        node.totalCount++
+        node.lastUpdated = Math.max(node.lastUpdated, note.updatedAt)
+      }
+    }
+
+    const roots: CategoryTreeNode[] = []
+    const sortedPaths = Array.from(nodes.keys()).sort()
+
+    for (const path of sortedPaths) {
+      const node = nodes.get(path)!
+      const parentPath = getParentCategoryPath(path)
+      if (parentPath) {
+        nodes.get(parentPath)!.children.push(node)
+      } else {
+        roots.push(node)
+      }
+    }
+
+    return roots
+  } catch (error) {
+    logger.error("Error getting category tree:", error)
+    return []
+  }
+}
+
+export async function getCategoryStatistics(): Promise<
+  Array<{
+    category: string
+    count: number
+    directCount: number
+    lastUpdated: number
+  }>
+> {
+  try {
+    const tree = await getCategoryTree()
+    const stats = []
+
+    const visit = (node: CategoryTreeNode) => {
+      stats.push({
+        category: node.path,
+        count: node.totalCount,
+        directCount: node.directCount,
+        lastUpdated: node.lastUpdated
+      })
+      node.children.forEach(visit)
+    }
+    tree.forEach(visit)
+
+    return stats
+  } catch (error) {
+    logger.error("Error getting category statistics:", error)
+    return []
+  }
+}
+
+export async function getDatabaseStatistics(): Promise<DatabaseStatistics> {
+  try {
+    const allNotes = await getAllStoredNotes()
+    const totalNotes = allNotes.length
+
+    const categoryStats = await getCategoryStatistics()
+
+    const oldestNoteDate =
+      allNotes.length > 0 ? Math.min(...allNotes.map((n) => n.createdAt)) : null
+    const newestNoteDate =
+      allNotes.length > 0 ? Math.max(...allNotes.map((n) => n.createdAt)) : null
+    const lastModifiedDate =
+      allNotes.length > 0 ? Math.max(...allNotes.map((n) => n.updatedAt)) : null
+
+    return {
+      totalNotes,
+      categories: categoryStats,
+      oldestNoteDate,
+      newestNoteDate,
+      lastModifiedDate
+    }
   } catch (error) {
-    logger.error("Error searching notes by title:", error)
-    return []
+    logger.error("Error getting database statistics:", error)
+    return {
+      totalNotes: 0,
+      categories: [],
+      oldestNoteDate: null,
+      newestNoteDate: null,
+      lastModifiedDate: null
+    }
   }
 }
 
-export async function getNotesByCategory(category: string): Promise<Note[]> {
+export async function getNotesByTag(tag: string): Promise<Note[]> {
   try {
-    const storedNotes = await db.notes
-      .where("category")
-      .equals(category)
-      .toArray()
+    const storedNotes = await openNotes(
+      await db.notes
+        .where("tags")
+        .equals(tag.toLowerCase())
+        .and(isActiveNote)
+        .distinct()
+        .toArray()
+    )
 
     const notes: Note[] = []
     for (const storedNote of storedNotes) {
@@ -474,10 +2754,13 @@ export async function getNotesByCategory(category: string): Promise<Note[]> {
           content,
           contentPlaintext,
           category: storedNote.category,
-          embedding: storedNote.embedding,
           createdAt: storedNote.createdAt,
           updatedAt: storedNote.updatedAt,
-          sourceUrl: storedNote.sourceUrl
+          sourceUrl: storedNote.sourceUrl,
+          tags: storedNote.tags || [],
+          attachmentIds: storedNote.attachmentIds || [],
+          sensitive: storedNote.sensitive,
+          color: storedNote.color
         })
       } catch (error) {
         logger.error(`Error decrypting note ${storedNote.id}:`, error)
@@ -486,101 +2769,645 @@ export async function getNotesByCategory(category: string): Promise<Note[]> {
 
     return notes
   } catch (error) {
-    logger.error("Error getting notes by category:", error)
+    logger.error("Error getting notes by tag:", error)
     return []
   }
 }
 
-export async function getAllCategories(): Promise<string[]> {
+export async function getAllTags(): Promise<string[]> {
   try {
-    const categories = await db.notes.orderBy("category").uniqueKeys()
-    return categories as string[]
+    const activeNotes = await getAllStoredNotes()
+    const tags = new Set<string>()
+
+    for (const note of activeNotes) {
+      for (const tag of note.tags || []) {
+        tags.add(tag)
+      }
+    }
+
+    return Array.from(tags).sort()
   } catch (error) {
-    logger.error("Error getting categories:", error)
+    logger.error("Error getting tags:", error)
     return []
   }
 }
 
-export async function getCategoryStatistics(): Promise<
-  Array<{ category: string; count: number; lastUpdated: number }>
+export async function getTagStatistics(): Promise<
+  Array<{ tag: string; count: number }>
 > {
   try {
-    const categories = await getAllCategories()
-    const stats = []
+    const activeNotes = await getAllStoredNotes()
+    const counts = new Map<string, number>()
 
-    for (const category of categories) {
-      const notesInCategory = await db.notes
-        .where("category")
-        .equals(category)
-        .toArray()
+    for (const note of activeNotes) {
+      for (const tag of note.tags || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1)
+      }
+    }
+
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+  } catch (error) {
+    logger.error("Error getting tag statistics:", error)
+    return []
+  }
+}
+
+async function findNoteIdByTitle(title: string): Promise<string | null> {
+  const plainMatch = await db.notes
+    .where("title")
+    .equalsIgnoreCase(title)
+    .and(isActiveNote)
+    .first()
+  if (plainMatch) {
+    return plainMatch.id
+  }
+
+  const lowerTitle = title.toLowerCase()
+  const sealedNotes = await openNotes(
+    await db.notes
+      .filter((note) => isActiveNote(note) && !!note.sealed)
+      .toArray()
+  )
+  return (
+    sealedNotes.find((note) => note.title.toLowerCase() === lowerTitle)?.id ||
+    null
+  )
+}
+
+export async function replaceNoteLinks(
+  sourceNoteId: string,
+  links: Array<{ noteId: string | null; title: string }>
+): Promise<number> {
+  try {
+    const storedLinks: StoredNoteLink[] = []
 
-      const count = notesInCategory.length
-      const lastUpdated =
-        notesInCategory.length > 0
-          ? Math.max(...notesInCategory.map((n) => n.updatedAt))
-          : 0
+    for (const link of links) {
+      const targetNoteId = link.noteId || (await findNoteIdByTitle(link.title))
 
-      stats.push({ category, count, lastUpdated })
+      if (targetNoteId === sourceNoteId) continue
+
+      storedLinks.push(
+        await buildNoteLink(sourceNoteId, targetNoteId, link.title)
+      )
     }
 
-    return stats
+    await db.transaction("rw", db.links, async () => {
+      await db.links.where("sourceNoteId").equals(sourceNoteId).delete()
+      await db.links.bulkPut(storedLinks)
+    })
+
+    logger.log(
+      ` [DB Links] Indexed ${storedLinks.length} links from note ${sourceNoteId}`
+    )
+    return storedLinks.length
   } catch (error) {
-    logger.error("Error getting category statistics:", error)
+    logger.error("Error updating note links:", error)
+    return 0
+  }
+}
+
+export async function getLinkSourceNoteIds(
+  noteId: string,
+  title: string
+): Promise<string[]> {
+  const titleToken = await computeBlindIndex(title.toLowerCase())
+  const [linksById, linksByTitle, linksByToken] = await Promise.all([
+    db.links.where("targetNoteId").equals(noteId).toArray(),
+    db.links.where("targetTitle").equalsIgnoreCase(title).toArray(),
+    titleToken
+      ? db.links.where("targetTitle").equals(titleToken).toArray()
+      : Promise.resolve([] as StoredNoteLink[])
+  ])
+
+  const sourceIds = new Set<string>()
+  linksById.forEach((link) => sourceIds.add(link.sourceNoteId))
+  linksByTitle
+    .concat(linksByToken)
+    .filter((link) => !link.targetNoteId)
+    .forEach((link) => sourceIds.add(link.sourceNoteId))
+  sourceIds.delete(noteId)
+
+  return Array.from(sourceIds)
+}
+
+export async function getBacklinks(noteId: string): Promise<NoteBacklink[]> {
+  try {
+    const record = await db.notes.get(noteId)
+    if (!record) {
+      return []
+    }
+
+    const note = await openNote(record)
+    const sourceIds = await getLinkSourceNoteIds(noteId, note.title)
+    const sources = await openNotes(
+      (await db.notes.bulkGet(sourceIds)).filter(
+        (source): source is StoredNote => !!source && isActiveNote(source)
+      )
+    )
+
+    return sources
+      .map((source) => ({
+        noteId: source.id,
+        title: source.title,
+        category: source.category,
+        updatedAt: source.updatedAt
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+  } catch (error) {
+    logger.error("Error getting backlinks:", error)
     return []
   }
 }
 
-export async function getDatabaseStatistics(): Promise<{
-  totalNotes: number
-  categories: Array<{ category: string; count: number; lastUpdated: number }>
-  oldestNoteDate: number | null
-  newestNoteDate: number | null
-  lastModifiedDate: number | null
-}> {
+export async function addAttachment(
+  attachment: StoredAttachment
+): Promise<void> {
   try {
-    const allNotes = await db.notes.toArray()
-    const totalNotes = allNotes.length
+    await db.attachments.add(attachment)
+    logger.log(
+      ` [DB Attachments] Stored attachment ${attachment.id} (${attachment.mimeType}, ${attachment.size} bytes)`
+    )
+  } catch (error) {
+    logger.error("Error adding attachment:", error)
+    throw new Error("Failed to store attachment")
+  }
+}
 
-    const categoryStats = await getCategoryStatistics()
+export async function getStoredAttachment(
+  id: string
+): Promise<StoredAttachment | null> {
+  try {
+    return (await db.attachments.get(id)) || null
+  } catch (error) {
+    logger.error("Error getting attachment:", error)
+    return null
+  }
+}
 
-    const oldestNoteDate =
-      allNotes.length > 0 ? Math.min(...allNotes.map((n) => n.createdAt)) : null
-    const newestNoteDate =
-      allNotes.length > 0 ? Math.max(...allNotes.map((n) => n.createdAt)) : null
-    const lastModifiedDate =
-      allNotes.length > 0 ? Math.max(...allNotes.map((n) => n.updatedAt)) : null
+export async function getAllStoredAttachments(): Promise<StoredAttachment[]> {
+  return db.attachments.toArray()
+}
 
-    return {
-      totalNotes,
-      categories: categoryStats,
-      oldestNoteDate,
-      newestNoteDate,
-      lastModifiedDate
+export async function getAttachmentIds(): Promise<string[]> {
+  return (await db.attachments.toCollection().primaryKeys()) as string[]
+}
+
+export async function purgeOrphanedAttachments(
+  gracePeriodMs: number = 60 * 60 * 1000
+): Promise<number> {
+  try {
+    const referenced = new Set<string>()
+
+    await db.notes.each((note) => {
+      note.attachmentIds?.forEach((id) => referenced.add(id))
+    })
+    await db.revisions.each((revision) => {
+      revision.attachmentIds?.forEach((id) => referenced.add(id))
+    })
+
+    const cutoff = Date.now() - gracePeriodMs
+    const orphanIds = (await db.attachments
+      .where("createdAt")
+      .below(cutoff)
+      .primaryKeys()) as string[]
+    const idsToDelete = orphanIds.filter((id) => !referenced.has(id))
+
+    if (idsToDelete.length > 0) {
+      await db.attachments.bulkDelete(idsToDelete)
+      logger.log(
+        ` [DB Attachments] Purged ${idsToDelete.length} orphaned attachments`
+      )
     }
+
+    return idsToDelete.length
   } catch (error) {
-    logger.error("Error getting database statistics:", error)
-    return {
-      totalNotes: 0,
-      categories: [],
-      oldestNoteDate: null,
-      newestNoteDate: null,
-      lastModifiedDate: null
+    logger.error("Error purging orphaned attachments:", error)
+    return 0
+  }
+}
+
+export async function countRecordsNotOnKey(keyId: string): Promise<number> {
+  let total = 0
+  for (const table of ENCRYPTED_TABLES) {
+    total += await db.table(table).where("keyId").notEqual(keyId).count()
+  }
+  return total
+}
+
+async function reencryptRecord(
+  table: EncryptedTable,
+  record: Record<string, any>,
+  keyId: string
+): Promise<Record<string, any>> {
+  const changes: Record<string, any> = {}
+
+  for (const field of ENCRYPTED_TEXT_FIELDS[table]) {
+    const value = record[field]
+    if (typeof value === "string" && getCiphertextKeyId(value) !== keyId) {
+      changes[field] = await encrypt(await decrypt(value))
+    }
+  }
+
+  for (const field of ENCRYPTED_BYTE_FIELDS[table]) {
+    const value = record[field]
+    if (value instanceof ArrayBuffer && record.keyId !== keyId) {
+      changes[field] = await encryptBytes(
+        await decryptBytes(value, record.keyId),
+        keyId
+      )
+    }
+  }
+
+  const ciphertexts = ENCRYPTED_TEXT_FIELDS[table]
+    .map((field) => changes[field] ?? record[field])
+    .filter((value) => typeof value === "string")
+  changes.keyId =
+    ciphertexts.length > 0 ? getRecordKeyId(...ciphertexts) : keyId
+
+  return changes
+}
+
+/**
+ * Re-encrypts up to `limit` records that are not yet on `keyId`. Records
+ * that change while they are being re-encrypted are left for a later
+ * batch instead of being overwritten.
+ */
+export async function reencryptRecords(
+  keyId: string,
+  limit: number,
+  excludeRefs: string[] = []
+): Promise<{ reencrypted: number; failedRefs: string[] }> {
+  const excluded = new Set(excludeRefs)
+  const failedRefs: string[] = []
+  let reencrypted = 0
+
+  for (const table of ENCRYPTED_TABLES) {
+    const remaining = limit - reencrypted - failedRefs.length
+    if (remaining <= 0) break
+
+    const primaryKey = ENCRYPTED_TABLE_PRIMARY_KEYS[table]
+    const records = await db
+      .table(table)
+      .where("keyId")
+      .notEqual(keyId)
+      .filter((record) => !excluded.has(`${table}:${record[primaryKey]}`))
+      .limit(remaining)
+      .toArray()
+
+    for (const record of records) {
+      const id = record[primaryKey]
+      try {
+        const changes = await reencryptRecord(table, record, keyId)
+
+        const written = await db.transaction(
+          "rw",
+          db.table(table),
+          async () => {
+            const current = await db.table(table).get(id)
+            if (
+              !current ||
+              current.keyId !== record.keyId ||
+              ENCRYPTED_TEXT_FIELDS[table].some(
+                (field) => current[field] !== record[field]
+              )
+            ) {
+              return false
+            }
+
+            await db.table(table).update(id, changes)
+            return true
+          }
+        )
+
+        if (written) reencrypted++
+      } catch (error) {
+        logger.error(` [DB Keys] Failed to re-encrypt ${table} ${id}:`, error)
+        failedRefs.push(`${table}:${id}`)
+      }
+    }
+  }
+
+  return { reencrypted, failedRefs }
+}
+
+function isInStorageMode(
+  record: { sealed?: string },
+  encrypted: boolean
+): boolean {
+  return !!record.sealed === encrypted
+}
+
+export async function countRecordsNotInStorageMode(
+  mode: StorageMode
+): Promise<number> {
+  const encrypted = mode === "encrypt-everything"
+  let total = 0
+  for (const table of SEALABLE_TABLES) {
+    total += await db
+      .table(table)
+      .filter((record) => !isInStorageMode(record, encrypted))
+      .count()
+  }
+  return total
+}
+
+async function convertRecord(
+  table: SealableTable,
+  record: any,
+  encrypted: boolean
+): Promise<boolean> {
+  switch (table) {
+    case "notes": {
+      const updated = await sealNote(await openNote(record), encrypted)
+      return db.transaction("rw", db.notes, () =>
+        replaceNoteMetadata(record, updated)
+      )
+    }
+
+    case "revisions": {
+      const updated = await sealRevision(await openRevision(record), encrypted)
+      return db.transaction("rw", db.revisions, async () => {
+        const current = await db.revisions.get(record.id)
+        if (
+          !current ||
+          current.sealed !== record.sealed ||
+          current.content !== record.content
+        ) {
+          return false
+        }
+        await db.revisions.put(updated)
+        return true
+      })
+    }
+
+    case "chunks": {
+      const updated = await sealChunk(await openChunk(record), encrypted)
+      return db.transaction("rw", db.chunks, async () => {
+        const current = await db.chunks.get(record.id)
+        if (
+          !current ||
+          current.sealed !== record.sealed ||
+          current.data !== record.data
+        ) {
+          return false
+        }
+        await db.chunks.put(updated)
+        return true
+      })
+    }
+
+    case "categories": {
+      const updated = await sealCategory(await openCategory(record), encrypted)
+      return db.transaction("rw", db.categories, async () => {
+        const current = await db.categories.get(record.path)
+        if (!current || current.sealed !== record.sealed) {
+          return false
+        }
+        await db.categories.delete(record.path)
+        if (!(await db.categories.get(updated.path))) {
+          await db.categories.put(updated)
+        }
+        return true
+      })
+    }
+
+    case "links": {
+      const link = await openLink(record)
+      const updated = await buildNoteLink(
+        link.sourceNoteId,
+        link.targetNoteId,
+        link.targetTitle,
+        encrypted
+      )
+      return db.transaction("rw", db.links, async () => {
+        const current = await db.links.get(record.id)
+        if (!current || current.sealed !== record.sealed) {
+          return false
+        }
+        await db.links.delete(record.id)
+        await db.links.put(updated)
+        return true
+      })
+    }
+  }
+}
+
+/**
+ * Moves up to `limit` records into the layout of `mode`, sealing or
+ * opening their metadata. Records that change while they are converted
+ * are left for a later batch.
+ */
+export async function applyStorageMode(
+  mode: StorageMode,
+  limit: number,
+  excludeRefs: string[] = []
+): Promise<{ converted: number; failedRefs: string[] }> {
+  const encrypted = mode === "encrypt-everything"
+  const excluded = new Set(excludeRefs)
+  const failedRefs: string[] = []
+  let converted = 0
+
+  if (encrypted) {
+    await db.transaction("rw", db.vectorIndex, db.vectorEntries, async () => {
+      await db.vectorIndex.clear()
+      await db.vectorEntries.clear()
+    })
+  }
+
+  for (const table of SEALABLE_TABLES) {
+    const remaining = limit - converted - failedRefs.length
+    if (remaining <= 0) break
+
+    const primaryKey = ENCRYPTED_TABLE_PRIMARY_KEYS[table]
+    const records = await db
+      .table(table)
+      .filter(
+        (record) =>
+          !isInStorageMode(record, encrypted) &&
+          !excluded.has(`${table}:${record[primaryKey]}`)
+      )
+      .limit(remaining)
+      .toArray()
+
+    for (const record of records) {
+      const id = record[primaryKey]
+      try {
+        if (await convertRecord(table, record, encrypted)) converted++
+      } catch (error) {
+        logger.error(` [DB Metadata] Failed to convert ${table} ${id}:`, error)
+        failedRefs.push(`${table}:${id}`)
+      }
     }
   }
+
+  return { converted, failedRefs }
 }
 
 export function createCategory(categoryName: string): string {
-  const trimmed = categoryName.trim().toLowerCase()
+  return normalizeCategoryPath(categoryName)
+}
+
+export async function addCategory(categoryName: string): Promise<string> {
+  const path = createCategory(categoryName)
+  await ensureCategoryPath(path)
+  logger.log(` [DB Categories] Added category "${path}"`)
+  return path
+}
+
+async function findCategoriesInPath(
+  path: string
+): Promise<Array<{ record: StoredCategory; category: StoredCategory }>> {
+  const matches: Array<{ record: StoredCategory; category: StoredCategory }> =
+    []
+  for (const record of await db.categories.toArray()) {
+    const category = await openCategory(record)
+    if (isInCategoryPath(category.path, path)) {
+      matches.push({ record, category })
+    }
+  }
+  return matches
+}
+
+async function prepareNoteCategoryUpdates(
+  path: string,
+  getCategory: (category: string) => string
+): Promise<Array<{ snapshot: StoredNote; updated: StoredNote }>> {
+  const updates: Array<{ snapshot: StoredNote; updated: StoredNote }> = []
+  for (const snapshot of await db.notes.toArray()) {
+    const note = await openNote(snapshot)
+    if (isInCategoryPath(note.category, path)) {
+      updates.push({
+        snapshot,
+        updated: await sealNote({
+          ...note,
+          category: getCategory(note.category)
+        })
+      })
+    }
+  }
+  return updates
+}
+
+// Notes edited since their update was prepared keep their category
+async function applyNoteCategoryUpdates(
+  updates: Array<{ snapshot: StoredNote; updated: StoredNote }>
+): Promise<number> {
+  let applied = 0
+  for (const { snapshot, updated } of updates) {
+    if (await replaceNoteMetadata(snapshot, updated)) {
+      applied++
+    }
+  }
+
+  if (applied < updates.length) {
+    logger.warn(
+      ` [DB Categories] ${updates.length - applied} notes changed while their category was updated`
+    )
+  }
+  return applied
+}
 
-  if (!trimmed) {
-    throw new Error("Category name cannot be empty")
+async function relocateCategory(
+  oldPath: string,
+  newPath: string,
+  merge: boolean
+): Promise<number> {
+  if (oldPath === newPath) {
+    return 0
+  }
+
+  if (isInCategoryPath(newPath, oldPath)) {
+    throw new Error(`Cannot move "${oldPath}" into itself`)
+  }
+
+  // Encrypted paths are re-sealed up front, outside the transaction
+  const now = Date.now()
+  const subtree = await findCategoriesInPath(oldPath)
+  const movedCategories: StoredCategory[] = []
+  for (const { category } of subtree) {
+    movedCategories.push(
+      await sealCategory({
+        ...buildCategoryRecord(
+          replaceCategoryPrefix(category.path, oldPath, newPath),
+          category.createdAt
+        ),
+        updatedAt: now
+      })
+    )
   }
 
-  if (trimmed.length > 50) {
-    throw new Error("Category name too long (max 50 characters)")
+  const noteUpdates = await prepareNoteCategoryUpdates(oldPath, (category) =>
+    replaceCategoryPrefix(category, oldPath, newPath)
+  )
+  const newPathRecords = await prepareCategoryPath(newPath)
+  const newPathKeys = await getIndexKeys(newPath)
+
+  return await db.transaction("rw", db.notes, db.categories, async () => {
+    if (!merge && (await db.categories.bulkGet(newPathKeys)).some(Boolean)) {
+      throw new Error(
+        `Category "${newPath}" already exists. Merge the categories instead.`
+      )
+    }
+
+    await db.categories.bulkDelete(subtree.map(({ record }) => record.path))
+    await putMissingCategories(newPathRecords)
+
+    for (const category of movedCategories) {
+      if (!(await db.categories.get(category.path))) {
+        await db.categories.put(category)
+      }
+    }
+
+    const movedNotes = await applyNoteCategoryUpdates(noteUpdates)
+
+    logger.log(
+      ` [DB Categories] ${merge ? "Merged" : "Moved"} "${oldPath}" into "${newPath}" (${subtree.length} categories, ${movedNotes} notes)`
+    )
+
+    return movedNotes
+  })
+}
+
+export async function renameCategory(
+  path: string,
+  newName: string
+): Promise<number> {
+  const name = normalizeCategoryPath(newName)
+  if (getParentCategoryPath(name)) {
+    throw new Error("Category name cannot contain '/'. Use move instead.")
   }
 
-  return trimmed
+  const parentPath = getParentCategoryPath(path)
+  return await relocateCategory(
+    path,
+    parentPath ? `${parentPath}/${name}` : name,
+    false
+  )
+}
+
+export async function moveCategory(
+  path: string,
+  newParentPath: string | null
+): Promise<number> {
+  const name = getCategoryName(path)
+  return await relocateCategory(
+    path,
+    newParentPath ? `${normalizeCategoryPath(newParentPath)}/${name}` : name,
+    false
+  )
+}
+
+export async function mergeCategory(
+  sourcePath: string,
+  targetPath: string
+): Promise<number> {
+  return await relocateCategory(
+    sourcePath,
+    normalizeCategoryPath(targetPath),
+    true
+  )
 }
 
 export async function updateCategory(
@@ -588,17 +3415,11 @@ export async function updateCategory(
   newCategory: string
 ): Promise<number> {
   try {
-    const notes = await getNotesByCategory(oldCategory)
-    let updatedCount = 0
-
-    for (const note of notes) {
-      const updated = await updateNote(note.id, { category: newCategory })
-      if (updated) {
-        updatedCount++
-      }
-    }
-
-    return updatedCount
+    return await relocateCategory(
+      oldCategory,
+      normalizeCategoryPath(newCategory),
+      true
+    )
   } catch (error) {
     logger.error("Error updating category:", error)
     return 0
@@ -610,17 +3431,29 @@ export async function deleteCategory(
   reassignTo: string = "general"
 ): Promise<number> {
   try {
-    const notes = await getNotesByCategory(category)
-    let deletedCount = 0
-
-    for (const note of notes) {
-      const updated = await updateNote(note.id, { category: reassignTo })
-      if (updated) {
-        deletedCount++
-      }
+    if (isInCategoryPath(reassignTo, category)) {
+      throw new Error(`Cannot reassign notes into "${reassignTo}"`)
     }
 
-    return deletedCount
+    const subtree = await findCategoriesInPath(category)
+    const noteUpdates = await prepareNoteCategoryUpdates(
+      category,
+      () => reassignTo
+    )
+    const reassignRecords = await prepareCategoryPath(reassignTo)
+
+    return await db.transaction("rw", db.notes, db.categories, async () => {
+      const reassigned = await applyNoteCategoryUpdates(noteUpdates)
+
+      await db.categories.bulkDelete(subtree.map(({ record }) => record.path))
+      await putMissingCategories(reassignRecords)
+
+      logger.log(
+        ` [DB Categories] Deleted "${category}", reassigned ${reassigned} notes to "${reassignTo}"`
+      )
+
+      return reassigned
+    })
   } catch (error) {
     logger.error("Error deleting category:", error)
     return 0
@@ -629,14 +3462,48 @@ export async function deleteCategory(
 
 export async function clearAllNotes(): Promise<void> {
   try {
-    await db.notes.clear()
-    logger.log("All notes cleared")
+    const now = Date.now()
+    const trashed = await db.notes.filter(isActiveNote).modify({
+      deletedAt: now
+    })
+    await db.searchIndex.clear()
+    await db.vectorEntries.clear()
+    forgetSearchDocuments(Array.from(searchCorpus.documents.keys()))
+    logger.log(`All notes cleared (${trashed} moved to trash)`)
   } catch (error) {
     logger.error("Error clearing notes:", error)
     throw new Error("Failed to clear notes")
   }
 }
 
+export async function clearAllData(): Promise<void> {
+  try {
+    await db.transaction(
+      "rw",
+      [
+        db.notes,
+        db.personas,
+        db.revisions,
+        db.categories,
+        db.links,
+        db.attachments,
+        db.searchIndex,
+        db.chunks,
+        db.vectorIndex,
+        db.vectorEntries
+      ],
+      async () => {
+        await Promise.all(db.tables.map((table) => table.clear()))
+      }
+    )
+    forgetSearchDocuments(Array.from(searchCorpus.documents.keys()))
+    logger.warn(" [DB Service] Deleted all notes, personas and attachments")
+  } catch (error) {
+    logger.error("Error clearing database:", error)
+    throw new Error("Failed to clear database")
+  }
+}
+
 export async function debugIndexedDB(): Promise<void> {
   logger.log("=== IndexedDB Debug Info ===")
 
@@ -691,6 +3558,11 @@ export async function addPersona(personaData: PersonaInput): Promise<Persona> {
   return persona
 }
 
+export async function importPersona(persona: Persona): Promise<void> {
+  await db.personas.put(persona)
+  logger.log(" [DB] Persona imported with ID:", persona.id)
+}
+
 export async function getPersona(id: string): Promise<Persona | undefined> {
   logger.log(" [DB] getPersona called with ID:", id)
 
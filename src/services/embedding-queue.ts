@@ -0,0 +1,343 @@
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
+import {
+  getBundledModelsUrl,
+  getBundledWasmUrl,
+  getModelAssetStatus,
+  isModelUsable
+} from "~services/model-assets"
+import { sendRpc } from "~services/rpc-client"
+import type { RpcResult } from "~services/rpc-contract"
+import type { EmbeddingWorkerResponse } from "~types/embedding"
+import { logger } from "~utils/logger"
+
+export interface EmbedOptions {
+  modelId?: string
+  signal?: AbortSignal
+}
+
+const CACHE_LIMIT = 2000
+
+const cache = new Map<string, Float32Array>()
+
+// A dispatched batch is cancelled only once every caller waiting on it
+// has aborted
+interface SharedBatch {
+  controller: AbortController
+  waiters: number
+}
+
+const inFlight = new Map<
+  string,
+  { promise: Promise<Float32Array>; batch: SharedBatch }
+>()
+
+const pendingRequests = new Map<
+  string,
+  {
+    resolve: (embeddings: Float32Array[]) => void
+    reject: (error: Error) => void
+  }
+>()
+
+let worker: Worker | null = null
+
+let workerFailed = false
+
+let runtimeConfigured = false
+
+function generateRequestId(): string {
+  return `emb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("Embedding request was cancelled", "AbortError")
+}
+
+async function hashText(modelId: string, text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${modelId}\n${text}`)
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("")
+}
+
+function remember(key: string, embedding: Float32Array) {
+  cache.delete(key)
+  cache.set(key, embedding)
+  if (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value)
+  }
+}
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed || typeof Worker === "undefined") {
+    return worker
+  }
+
+  try {
+    worker = new Worker(
+      new URL("../workers/embedding-worker.ts", import.meta.url),
+      { type: "module" }
+    )
+    worker.postMessage({
+      type: "configure",
+      config: {
+        localModelPath: getBundledModelsUrl(),
+        wasmPaths: getBundledWasmUrl()
+      }
+    })
+
+    worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+      const response = event.data
+      const pending = pendingRequests.get(response.id)
+      if (!pending) return
+
+      pendingRequests.delete(response.id)
+      if (response.type === "result") {
+        pending.resolve(response.embeddings)
+      } else {
+        pending.reject(
+          response.cancelled ? createAbortError() : new Error(response.error)
+        )
+      }
+    }
+
+    worker.onerror = (event) => {
+      logger.error(" [Embedding Queue] Worker crashed:", event.message)
+      workerFailed = true
+      worker?.terminate()
+      worker = null
+      for (const pending of pendingRequests.values()) {
+        pending.reject(new Error("Embedding worker crashed"))
+      }
+      pendingRequests.clear()
+    }
+
+    logger.log(" [Embedding Queue] Started embedding worker")
+  } catch (error) {
+    logger.warn(" [Embedding Queue] Could not start worker:", error)
+    workerFailed = true
+    worker = null
+  }
+
+  return worker
+}
+
+function embedInWorker(
+  target: Worker,
+  modelId: string,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Float32Array[]> {
+  const id = generateRequestId()
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      if (pendingRequests.has(id)) {
+        target.postMessage({ type: "cancel", id })
+      }
+    }
+    pendingRequests.set(id, {
+      resolve: (embeddings) => {
+        signal?.removeEventListener("abort", onAbort)
+        resolve(embeddings)
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort)
+        reject(error)
+      }
+    })
+    target.postMessage({ type: "embed", id, modelId, texts })
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+async function embedViaOffscreen(
+  modelId: string,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Float32Array[] | null> {
+  const requestId = generateRequestId()
+  const onAbort = () => {
+    sendRpc("AI_EMBED_CANCEL", { requestId }).catch(() => {})
+  }
+  signal?.addEventListener("abort", onAbort, { once: true })
+
+  let response: RpcResult<"AI_EMBED_BATCH">
+  try {
+    response = await sendRpc("AI_EMBED_BATCH", { requestId, modelId, texts })
+  } catch (error) {
+    logger.warn(" [Embedding Queue] Offscreen document unavailable:", error)
+    return null
+  } finally {
+    signal?.removeEventListener("abort", onAbort)
+  }
+
+  if (response.success === false) {
+    throw response.cancelled
+      ? createAbortError()
+      : new Error(response.error || "Embedding request failed")
+  }
+
+  return response.data.map((row) => Float32Array.from(row))
+}
+
+async function embedInThread(
+  modelId: string,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Float32Array[]> {
+  const { configureEmbeddingRuntime, runBatchedInference } = await import(
+    "~services/embedding-runtime"
+  )
+
+  if (!runtimeConfigured) {
+    configureEmbeddingRuntime({
+      localModelPath: getBundledModelsUrl(),
+      wasmPaths: getBundledWasmUrl()
+    })
+    runtimeConfigured = true
+  }
+  return runBatchedInference(modelId, texts, () => !!signal?.aborted)
+}
+
+async function dispatch(
+  modelId: string,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Float32Array[]> {
+  const target = getWorker()
+  if (target) {
+    return embedInWorker(target, modelId, texts, signal)
+  }
+
+  if (typeof Worker === "undefined") {
+    const embeddings = await embedViaOffscreen(modelId, texts, signal)
+    if (embeddings) return embeddings
+  }
+
+  return embedInThread(modelId, texts, signal)
+}
+
+export async function embedTexts(
+  texts: string[],
+  options: EmbedOptions = {}
+): Promise<number[][]> {
+  const { signal } = options
+  if (signal?.aborted) throw createAbortError()
+  if (texts.length === 0) return []
+
+  const startTime = performance.now()
+  const modelId = options.modelId || (await getActiveEmbeddingModelId())
+
+  const status = await getModelAssetStatus(modelId)
+  if (!isModelUsable(status)) {
+    throw new Error(
+      status.corruptFiles.length > 0
+        ? `Embedding model ${modelId} failed its integrity check`
+        : status.missingFiles.length > 0
+          ? `Embedding model ${modelId} is not installed`
+          : `Embedding model ${modelId} has no checksums to verify it against`
+    )
+  }
+
+  const keys = await Promise.all(texts.map((text) => hashText(modelId, text)))
+  const results = new Map<string, Promise<Float32Array>>()
+  const batches = new Set<SharedBatch>()
+  const missing: Array<{ key: string; text: string }> = []
+
+  keys.forEach((key, index) => {
+    if (results.has(key)) return
+
+    const cached = cache.get(key)
+    if (cached) {
+      remember(key, cached)
+      results.set(key, Promise.resolve(cached))
+    } else if (inFlight.has(key)) {
+      const { promise, batch } = inFlight.get(key)!
+      results.set(key, promise)
+      batches.add(batch)
+    } else {
+      missing.push({ key, text: texts[index] })
+    }
+  })
+
+  if (missing.length > 0) {
+    const batch: SharedBatch = { controller: new AbortController(), waiters: 0 }
+    const request = dispatch(
+      modelId,
+      missing.map(({ text }) => text),
+      batch.controller.signal
+    )
+
+    missing.forEach(({ key }, index) => {
+      const promise = request
+        .then((embeddings) => {
+          remember(key, embeddings[index])
+          return embeddings[index]
+        })
+        .finally(() => inFlight.delete(key))
+      inFlight.set(key, { promise, batch })
+      results.set(key, promise)
+    })
+    batches.add(batch)
+  }
+
+  for (const batch of batches) batch.waiters++
+
+  let onAbort: () => void
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      for (const batch of batches) {
+        if (--batch.waiters === 0) batch.controller.abort()
+      }
+      reject(createAbortError())
+    }
+  })
+  signal?.addEventListener("abort", onAbort, { once: true })
+  if (signal?.aborted) onAbort()
+
+  let embeddings: Float32Array[]
+  try {
+    embeddings = await Promise.race([
+      Promise.all(keys.map((key) => results.get(key)!)),
+      aborted
+    ])
+  } finally {
+    signal?.removeEventListener("abort", onAbort)
+  }
+
+  logger.log(
+    ` [Embedding Queue] ${texts.length} texts (${texts.length - missing.length} cached) in ${(performance.now() - startTime).toFixed(2)}ms`
+  )
+  return embeddings.map((embedding) => Array.from(embedding))
+}
+
+export function clearEmbeddingCache() {
+  cache.clear()
+}
+
+const remoteRequests = new Map<string, AbortController>()
+
+export async function embedTextsForRemote(
+  requestId: string,
+  modelId: string,
+  texts: string[]
+): Promise<number[][]> {
+  const controller = new AbortController()
+  remoteRequests.set(requestId, controller)
+
+  try {
+    return await embedTexts(texts, { modelId, signal: controller.signal })
+  } finally {
+    remoteRequests.delete(requestId)
+  }
+}
+
+export function cancelRemoteEmbedding(requestId: string): boolean {
+  const controller = remoteRequests.get(requestId)
+  controller?.abort()
+  return !!controller
+}
@@ -0,0 +1,71 @@
+import type { FeatureExtractionPipeline } from "@xenova/transformers"
+import { env, pipeline } from "@xenova/transformers"
+
+import type { EmbeddingRuntimeConfig } from "~types/embedding"
+
+export const MAX_INFERENCE_BATCH_SIZE = 16
+
+const pipelines = new Map<string, Promise<FeatureExtractionPipeline>>()
+
+export function configureEmbeddingRuntime(config: EmbeddingRuntimeConfig) {
+  env.allowLocalModels = true
+  env.allowRemoteModels = false
+  env.localModelPath = config.localModelPath
+  env.useBrowserCache = true
+
+  env.backends.onnx.wasm.proxy = false
+  env.backends.onnx.wasm.wasmPaths = config.wasmPaths
+}
+
+function getPipeline(modelId: string): Promise<FeatureExtractionPipeline> {
+  if (!pipelines.has(modelId)) {
+    pipelines.set(
+      modelId,
+      (
+        pipeline(
+          "feature-extraction",
+          modelId
+        ) as Promise<FeatureExtractionPipeline>
+      ).catch((error) => {
+        pipelines.delete(modelId)
+        throw error
+      })
+    )
+  }
+  return pipelines.get(modelId)!
+}
+
+export async function runBatchedInference(
+  modelId: string,
+  texts: string[],
+  isCancelled: () => boolean = () => false
+): Promise<Float32Array[]> {
+  const extractor = await getPipeline(modelId)
+  const results: Float32Array[] = new Array(texts.length)
+
+  // Similar lengths share a batch so padding stays small
+  const order = texts
+    .map((text, index) => ({ index, length: text.length }))
+    .sort((a, b) => a.length - b.length)
+    .map(({ index }) => index)
+
+  for (let i = 0; i < order.length; i += MAX_INFERENCE_BATCH_SIZE) {
+    if (isCancelled()) {
+      throw new DOMException("Embedding request was cancelled", "AbortError")
+    }
+
+    const indices = order.slice(i, i + MAX_INFERENCE_BATCH_SIZE)
+    const output = await extractor(
+      indices.map((index) => texts[index]),
+      { pooling: "mean", normalize: true }
+    )
+    const dimension = output.dims[output.dims.length - 1]
+    const data = output.data as Float32Array
+
+    indices.forEach((index, row) => {
+      results[index] = data.slice(row * dimension, (row + 1) * dimension)
+    })
+  }
+
+  return results
+}
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_EMBEDDING_MODEL_ID,
+  getEmbeddingModel
+} from "~config/embedding-models"
+import type { EmbeddingSettings } from "~types/embedding"
+import { logger } from "~utils/logger"
+
+const SETTINGS_KEY = "mindkeep_embedding_settings"
+
+const DEFAULT_SETTINGS: EmbeddingSettings = {
+  modelId: DEFAULT_EMBEDDING_MODEL_ID,
+  lastUpdated: Date.now()
+}
+
+export async function getEmbeddingSettings(): Promise<EmbeddingSettings> {
+  try {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    const settings = result[SETTINGS_KEY] as EmbeddingSettings | undefined
+
+    if (settings && getEmbeddingModel(settings.modelId)) {
+      return { ...DEFAULT_SETTINGS, ...settings }
+    }
+
+    return DEFAULT_SETTINGS
+  } catch (error) {
+    logger.error(" [Embedding Settings] Error getting settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export async function getActiveEmbeddingModelId(): Promise<string> {
+  return (await getEmbeddingSettings()).modelId
+}
+
+export async function updateEmbeddingSettings(
+  updates: Partial<Omit<EmbeddingSettings, "lastUpdated">>
+): Promise<EmbeddingSettings> {
+  logger.log(
+    " [Embedding Settings] updateEmbeddingSettings called with:",
+    updates
+  )
+
+  try {
+    const current = await getEmbeddingSettings()
+    const newSettings: EmbeddingSettings = {
+      ...current,
+      ...updates,
+      lastUpdated: Date.now()
+    }
+
+    if (!getEmbeddingModel(newSettings.modelId)) {
+      throw new Error(`Unknown embedding model: ${newSettings.modelId}`)
+    }
+
+    await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+    logger.log(" [Embedding Settings] Settings updated:", newSettings)
+
+    return newSettings
+  } catch (error) {
+    logger.error(" [Embedding Settings] Error updating settings:", error)
+    throw error
+  }
+}
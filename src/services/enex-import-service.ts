@@ -0,0 +1,259 @@
+import { generateJSON } from "@tiptap/html"
+
+import { saveAttachment } from "~services/attachment-service"
+import { NOTE_EXTENSIONS } from "~services/import-service"
+import type {
+  ImportCandidate,
+  ImportSourceFile,
+  NoteImporter
+} from "~types/import"
+import { toAttachmentUrl } from "~util/attachments"
+import { normalizeCategoryPath } from "~util/category-path"
+import { md5Hex } from "~util/md5"
+
+const ENEX_EXTENSION = /\.enex$/i
+
+const BLOCK_SELECTOR = "div, p, ul, ol, table, h1, h2, h3, h4, h5, h6, pre"
+
+interface EnexResource {
+  hash: string
+  name: string
+  blob: Blob
+}
+
+function getText(parent: Element, selector: string): string | undefined {
+  const text = parent.querySelector(selector)?.textContent?.trim()
+  return text || undefined
+}
+
+// ENEX timestamps look like 20240131T235959Z
+function parseEnexDate(value: string | undefined, fallback: number): number {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(
+    value || ""
+  )
+  if (!match) return fallback
+  const [, year, month, day, hour, minute, second] = match.map(Number)
+  return Date.UTC(year, month - 1, day, hour, minute, second)
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data.replace(/\s+/g, ""))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function readResource(element: Element, index: number): EnexResource | null {
+  const data = getText(element, "data")
+  if (!data) return null
+
+  const bytes = decodeBase64(data)
+  const mimeType = getText(element, "mime") || "application/octet-stream"
+  const extension = mimeType.split("/")[1]?.replace(/\W.*$/, "") || "bin"
+  return {
+    hash: md5Hex(bytes),
+    name:
+      getText(element, "resource-attributes > file-name") ||
+      `resource-${index + 1}.${extension}`,
+    blob: new Blob([bytes], { type: mimeType })
+  }
+}
+
+// Notebooks are exported one per file, so the file name is the notebook
+function getNotebookCategory(path: string): string {
+  try {
+    return normalizeCategoryPath(path.replace(ENEX_EXTENSION, ""))
+  } catch {
+    return "general"
+  }
+}
+
+function wrapTodoBlocks(dom: Document) {
+  const blocks = new Set<Element>()
+
+  for (const todo of Array.from(dom.querySelectorAll("en-todo"))) {
+    const checked = todo.getAttribute("checked") === "true"
+    const block = todo.closest("li, p")
+    if (!block) {
+      todo.replaceWith(checked ? "☑ " : "☐ ")
+      continue
+    }
+    block.setAttribute("data-checked", String(checked))
+    blocks.add(block)
+    todo.remove()
+  }
+
+  for (const block of blocks) {
+    if (block.tagName === "LI") {
+      block.parentElement?.setAttribute("data-type", "taskList")
+      for (const item of Array.from(block.parentElement?.children || [])) {
+        item.setAttribute("data-type", "taskItem")
+        if (!item.querySelector(":scope > p")) {
+          item.innerHTML = `<p>${item.innerHTML}</p>`
+        }
+      }
+      continue
+    }
+    if (!block.parentElement) continue
+
+    // Consecutive checkbox paragraphs become one task list
+    const previous = block.previousElementSibling
+    const list =
+      previous?.getAttribute("data-type") === "taskList"
+        ? previous
+        : dom.createElement("ul")
+    if (list !== previous) {
+      list.setAttribute("data-type", "taskList")
+      block.before(list)
+    }
+
+    const item = dom.createElement("li")
+    item.setAttribute("data-type", "taskItem")
+    item.setAttribute("data-checked", block.getAttribute("data-checked")!)
+    block.removeAttribute("data-checked")
+    list.append(item)
+    item.append(block)
+  }
+}
+
+async function convertEnml(
+  enml: string,
+  resources: Map<string, EnexResource>,
+  saveAttachments: boolean
+) {
+  // ENML is XHTML, so self-closing custom elements must be opened and closed
+  // before an HTML parser sees them
+  const html = enml
+    .replace(/<\?xml[^>]*\?>|<!DOCTYPE[^>]*>/gi, "")
+    .replace(/<(en-media|en-todo)\b([^>]*?)\/>/gi, "<$1$2></$1>")
+  const dom = new DOMParser().parseFromString(html, "text/html")
+  const missingAttachments: string[] = []
+  let attachmentCount = 0
+
+  for (const media of Array.from(dom.querySelectorAll("en-media"))) {
+    const hash = (media.getAttribute("hash") || "").toLowerCase()
+    const resource = resources.get(hash)
+    if (!resource) {
+      missingAttachments.push(hash)
+      media.remove()
+      continue
+    }
+
+    attachmentCount++
+    if (!saveAttachments) {
+      media.remove()
+      continue
+    }
+
+    const attachment = await saveAttachment(resource.blob, resource.name)
+    if (attachment.mimeType.startsWith("image/")) {
+      const img = dom.createElement("img")
+      img.setAttribute("src", toAttachmentUrl(attachment.id))
+      img.setAttribute("alt", attachment.name)
+      img.setAttribute("data-attachment-id", attachment.id)
+      media.replaceWith(img)
+    } else {
+      const link = dom.createElement("a")
+      link.setAttribute("href", toAttachmentUrl(attachment.id))
+      link.setAttribute("data-name", attachment.name)
+      link.setAttribute("data-mime-type", attachment.mimeType)
+      link.setAttribute("data-size", String(attachment.size))
+      link.textContent = attachment.name
+      media.replaceWith(link)
+    }
+  }
+
+  for (const encrypted of Array.from(dom.querySelectorAll("en-crypt"))) {
+    encrypted.replaceWith("[Encrypted in Evernote]")
+  }
+
+  // Evernote writes each line as a div, which the editor has no node for
+  for (const div of Array.from(dom.querySelectorAll("div")).reverse()) {
+    if (div.querySelector(BLOCK_SELECTOR)) continue
+    const paragraph = dom.createElement("p")
+    paragraph.innerHTML = div.innerHTML
+    div.replaceWith(paragraph)
+  }
+
+  wrapTodoBlocks(dom)
+
+  const root = dom.querySelector("en-note") || dom.body
+  return {
+    doc: generateJSON(root.innerHTML, NOTE_EXTENSIONS),
+    attachmentCount,
+    missingAttachments
+  }
+}
+
+async function readEnexFile(
+  file: ImportSourceFile
+): Promise<ImportCandidate[]> {
+  const dom = new DOMParser().parseFromString(
+    await file.blob.text(),
+    "application/xml"
+  )
+  if (dom.querySelector("parsererror")) {
+    throw new Error(`${file.path} is not a valid ENEX file`)
+  }
+
+  const category = getNotebookCategory(file.path)
+  const fallbackTime = file.modifiedAt || Date.now()
+
+  return Array.from(dom.querySelectorAll("en-export > note")).map(
+    (note, index) => {
+      const resources = new Map<string, EnexResource>()
+      Array.from(note.querySelectorAll(":scope > resource")).forEach(
+        (element, resourceIndex) => {
+          const resource = readResource(element, resourceIndex)
+          if (resource) resources.set(resource.hash, resource)
+        }
+      )
+
+      const updatedAt = parseEnexDate(
+        getText(note, ":scope > updated"),
+        fallbackTime
+      )
+      const content = note.querySelector(":scope > content")?.textContent || ""
+
+      return {
+        path: `${file.path}#${index + 1}`,
+        title: getText(note, ":scope > title") || "Untitled",
+        category,
+        tags: Array.from(note.querySelectorAll(":scope > tag"))
+          .map((tag) => (tag.textContent || "").trim())
+          .filter(Boolean),
+        sourceUrl: getText(note, "note-attributes > source-url"),
+        createdAt: parseEnexDate(getText(note, ":scope > created"), updatedAt),
+        updatedAt,
+        buildDoc: (saveAttachments) =>
+          convertEnml(content, resources, saveAttachments)
+      }
+    }
+  )
+}
+
+async function readCandidates(
+  files: ImportSourceFile[],
+  reportError: (path: string, error: unknown) => void
+): Promise<ImportCandidate[]> {
+  const candidates: ImportCandidate[] = []
+  for (const file of files.filter((file) => ENEX_EXTENSION.test(file.path))) {
+    try {
+      candidates.push(...(await readEnexFile(file)))
+    } catch (error) {
+      reportError(file.path, error)
+    }
+  }
+  return candidates
+}
+
+export const enexImporter: NoteImporter = {
+  id: "evernote",
+  label: "Evernote",
+  description:
+    "Import notebooks exported from Evernote as .enex files, or a ZIP or folder of them. Each notebook becomes a category and tags are kept.",
+  accept: ".enex,.zip",
+  readCandidates
+}
@@ -0,0 +1,387 @@
+import { Color } from "@tiptap/extension-color"
+import Highlight from "@tiptap/extension-highlight"
+import Link from "@tiptap/extension-link"
+import Subscript from "@tiptap/extension-subscript"
+import Superscript from "@tiptap/extension-superscript"
+import { Table } from "@tiptap/extension-table"
+import { TableCell } from "@tiptap/extension-table-cell"
+import { TableHeader } from "@tiptap/extension-table-header"
+import { TableRow } from "@tiptap/extension-table-row"
+import { TextStyle } from "@tiptap/extension-text-style"
+import Underline from "@tiptap/extension-underline"
+import StarterKit from "@tiptap/starter-kit"
+
+import { AttachmentFile, AttachmentImage } from "~components/AttachmentNodes"
+import { TaskItem, TaskList } from "~components/TaskListNodes"
+import { WikiLink } from "~components/WikiLink"
+import { generateBatchEmbeddings } from "~services/ai-service"
+import { deleteNote, getNotesForBackup } from "~services/db-service"
+import { getActiveEmbeddingModelId } from "~services/embedding-settings"
+import { getModelAssetStatus, isModelUsable } from "~services/model-assets"
+import type {
+  ImportCandidate,
+  ImportedDoc,
+  ImportItemError,
+  ImportPlan,
+  ImportPlanItem,
+  ImportResult,
+  ImportSourceFile,
+  NoteImporter
+} from "~types/import"
+import { hashNoteContent } from "~util/content-hash"
+import { assertVaultUnlocked } from "~util/crypto"
+import { tiptapToMarkdown } from "~util/tiptap-to-markdown"
+import { readZip } from "~util/zip"
+import { logger } from "~utils/logger"
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv"
+}
+
+const EMBEDDING_BATCH_SIZE = 16
+
+const ATTACHMENT_REFERENCE = /!?\[[^\]\n]*\]\(attachment:\/\/[^)\s]*\)/g
+
+// Parses HTML with the same nodes the note editor uses
+export const NOTE_EXTENSIONS = [
+  StarterKit,
+  Underline,
+  TextStyle,
+  Color,
+  Highlight.configure({ multicolor: true }),
+  Link.configure({ openOnClick: false }),
+  AttachmentImage.configure({ inline: true }),
+  Table,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Superscript,
+  Subscript,
+  WikiLink,
+  AttachmentFile,
+  TaskList,
+  TaskItem
+]
+
+export function getBaseName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1)
+}
+
+export function getDirectory(path: string): string {
+  return path.slice(0, path.lastIndexOf("/") + 1)
+}
+
+export function guessMimeType(name: string): string {
+  const extension = name.slice(name.lastIndexOf(".") + 1).toLowerCase()
+  return MIME_TYPES[extension] || "application/octet-stream"
+}
+
+export function isRelativeReference(href: string | null): href is string {
+  return !!href && !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(href)
+}
+
+/**
+ * Collects the files of an export picked as a folder, a single ZIP or
+ * loose files. Paths are made relative to the export root so categories
+ * come from the folders inside it, not the export's own name.
+ */
+export async function readImportSource(
+  files: File[]
+): Promise<ImportSourceFile[]> {
+  if (files.length === 1 && /\.zip$/i.test(files[0].name)) {
+    return (await readZip(files[0])).map((file) => ({
+      path: file.path,
+      blob: new Blob([file.data], { type: guessMimeType(file.path) }),
+      modifiedAt: file.modifiedAt
+    }))
+  }
+
+  const paths = files.map((file) => file.webkitRelativePath || file.name)
+  const root = paths.every((path) => path.includes("/"))
+    ? paths[0].slice(0, paths[0].indexOf("/") + 1)
+    : ""
+  const hasCommonRoot = !!root && paths.every((path) => path.startsWith(root))
+
+  return files.map((file, index) => ({
+    path: hasCommonRoot ? paths[index].slice(root.length) : paths[index],
+    blob: file,
+    modifiedAt: file.lastModified
+  }))
+}
+
+export class SourceIndex {
+  private byPath = new Map<string, ImportSourceFile>()
+
+  private byName = new Map<string, ImportSourceFile>()
+
+  constructor(files: ImportSourceFile[]) {
+    for (const file of files) {
+      this.byPath.set(file.path.toLowerCase(), file)
+      const name = getBaseName(file.path).toLowerCase()
+      if (!this.byName.has(name)) this.byName.set(name, file)
+    }
+  }
+
+  // Obsidian links by shortest unique path, so fall back to the file name
+  resolve(fromPath: string, href: string): ImportSourceFile | null {
+    let target = href.split(/[?#]/)[0]
+    try {
+      target = decodeURI(target)
+    } catch {}
+    if (!target) return null
+
+    const segments: string[] = target.startsWith("/")
+      ? []
+      : getDirectory(fromPath).split("/").filter(Boolean)
+    for (const segment of target.split("/")) {
+      if (segment === "..") segments.pop()
+      else if (segment && segment !== ".") segments.push(segment)
+    }
+
+    return (
+      this.byPath.get(segments.join("/").toLowerCase()) ||
+      this.byName.get(getBaseName(target).toLowerCase()) ||
+      null
+    )
+  }
+}
+
+// Attachment ids differ on every import, so only the text is compared
+function hashText(markdown: string): Promise<string> {
+  return hashNoteContent(markdown.replace(ATTACHMENT_REFERENCE, "").trim())
+}
+
+function toItemError(
+  candidate: Pick<ImportCandidate, "path"> & { title?: string },
+  error: unknown
+): ImportItemError {
+  return {
+    path: candidate.path,
+    title: candidate.title,
+    message: error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Reads an export and works out which notes would be imported, without
+ * writing anything. Notes whose text already exists in MindKeep, or
+ * appears earlier in the same export, are skipped. A note carrying the id
+ * of an existing one updates it if it is newer and is skipped otherwise.
+ */
+export async function planImport(
+  importer: NoteImporter,
+  files: ImportSourceFile[]
+): Promise<ImportPlan> {
+  const startTime = performance.now()
+  await assertVaultUnlocked()
+
+  const errors: ImportItemError[] = []
+  const candidates = await importer.readCandidates(files, (path, error) => {
+    logger.error(` [Import] Failed to read ${path}:`, error)
+    errors.push(toItemError({ path }, error))
+  })
+  const localNotes = await getNotesForBackup()
+  const localUpdatedAt = new Map(
+    localNotes.map((note) => [note.id, note.updatedAt])
+  )
+  const contentHashes = new Set(
+    await Promise.all(localNotes.map((note) => hashText(note.contentPlaintext)))
+  )
+  const plannedIds = new Set<string>()
+
+  const items: ImportPlanItem[] = []
+  for (const candidate of candidates) {
+    try {
+      const preview = await candidate.buildDoc(false)
+      const text = tiptapToMarkdown(preview.doc)
+      const contentHash = await hashText(text)
+
+      const item: ImportPlanItem = {
+        candidate,
+        action: "create",
+        attachmentCount: preview.attachmentCount,
+        missingAttachments: preview.missingAttachments
+      }
+
+      const { noteId } = candidate
+      const localTime = noteId ? localUpdatedAt.get(noteId) : undefined
+      if (noteId && plannedIds.has(noteId)) {
+        item.action = "skip"
+        item.reason = "Another file has the same id"
+      } else if (localTime !== undefined) {
+        item.action = candidate.updatedAt > localTime ? "update" : "skip"
+        item.reason =
+          item.action === "update"
+            ? "Newer than the note in MindKeep"
+            : "Already up to date"
+      } else if (
+        // Notes holding only attachments all hash the same, so never match them
+        contentHashes.has(contentHash) &&
+        text.replace(ATTACHMENT_REFERENCE, "").trim()
+      ) {
+        item.action = "skip"
+        item.reason = "Same content already exists"
+      }
+
+      if (item.action !== "skip") {
+        if (noteId) plannedIds.add(noteId)
+        contentHashes.add(contentHash)
+      }
+      items.push(item)
+    } catch (error) {
+      logger.error(` [Import] Failed to read ${candidate.path}:`, error)
+      errors.push(toItemError(candidate, error))
+    }
+  }
+
+  const plan: ImportPlan = {
+    importerId: importer.id,
+    items,
+    createCount: items.filter((item) => item.action === "create").length,
+    updateCount: items.filter((item) => item.action === "update").length,
+    skipCount: items.filter((item) => item.action === "skip").length,
+    errors
+  }
+
+  logger.log(
+    ` [Import] ${importer.label}: planned ${plan.createCount} new, ${plan.updateCount} updated and ${plan.skipCount} skipped notes in ${(performance.now() - startTime).toFixed(2)}ms`
+  )
+  return plan
+}
+
+async function embedBatch(texts: string[], modelId: string) {
+  if (texts.length === 0) return []
+  try {
+    return await generateBatchEmbeddings(texts, { modelId })
+  } catch (error) {
+    // Notes are saved anyway; the re-embed job fills in missing vectors
+    logger.warn(" [Import] Embedding batch failed:", error)
+    return texts.map(() => undefined)
+  }
+}
+
+/**
+ * Imports the notes a plan marked as create or update through the regular
+ * save pipeline, so each note is encrypted and chunked like one written in
+ * the editor. Embeddings are generated in batches before saving. Aborting
+ * the signal stops before the next note; notes already saved are kept.
+ */
+export async function runImport(
+  plan: ImportPlan,
+  options: {
+    signal?: AbortSignal
+    onProgress?: (done: number, total: number) => void
+  } = {}
+): Promise<ImportResult> {
+  const startTime = performance.now()
+  await assertVaultUnlocked()
+
+  const { signal, onProgress } = options
+  const pending = plan.items.filter((item) => item.action !== "skip")
+  const result: ImportResult = {
+    created: 0,
+    updated: 0,
+    trashed: 0,
+    skipped: plan.skipCount,
+    attachmentsImported: 0,
+    errors: [...plan.errors],
+    cancelled: false
+  }
+
+  const modelId = await getActiveEmbeddingModelId()
+  const canEmbed = isModelUsable(await getModelAssetStatus(modelId))
+  let done = 0
+
+  for (let start = 0; start < pending.length; start += EMBEDDING_BATCH_SIZE) {
+    if (signal?.aborted) {
+      result.cancelled = true
+      break
+    }
+
+    const batch: Array<{ item: ImportPlanItem } & ImportedDoc> = []
+    for (const item of pending.slice(start, start + EMBEDDING_BATCH_SIZE)) {
+      try {
+        batch.push({ item, ...(await item.candidate.buildDoc(true)) })
+      } catch (error) {
+        logger.error(
+          ` [Import] Failed to import ${item.candidate.path}:`,
+          error
+        )
+        result.errors.push(toItemError(item.candidate, error))
+        onProgress?.(++done, pending.length)
+      }
+    }
+
+    const texts = batch.map(({ doc }) => tiptapToMarkdown(doc))
+    const embeddings = canEmbed
+      ? await embedBatch(texts, modelId)
+      : texts.map(() => undefined)
+
+    for (let i = 0; i < batch.length; i++) {
+      if (signal?.aborted) {
+        result.cancelled = true
+        break
+      }
+
+      const { item, doc, attachmentCount } = batch[i]
+      const { candidate, action } = item
+      try {
+        const fields = {
+          title: candidate.title,
+          content: JSON.stringify(doc),
+          contentPlaintext: texts[i],
+          category: candidate.category,
+          tags: candidate.tags,
+          sensitive: candidate.sensitive,
+          embedding: embeddings[i]
+        }
+        const response = await chrome.runtime.sendMessage(
+          action === "update"
+            ? { type: "UPDATE_NOTE", data: { id: candidate.noteId, ...fields } }
+            : {
+                type: "SAVE_NOTE",
+                data: {
+                  ...fields,
+                  id: candidate.noteId,
+                  sourceUrl: candidate.sourceUrl,
+                  color: candidate.color,
+                  createdAt: candidate.createdAt,
+                  updatedAt: candidate.updatedAt
+                }
+              }
+        )
+        if (!response?.success) {
+          throw new Error(response?.error || "Save failed")
+        }
+
+        if (action === "update") result.updated++
+        else result.created++
+        result.attachmentsImported += attachmentCount
+        if (action === "create" && candidate.trashed) {
+          await deleteNote(response.note.id)
+          result.trashed++
+        }
+      } catch (error) {
+        logger.error(` [Import] Failed to import ${candidate.path}:`, error)
+        result.errors.push(toItemError(candidate, error))
+      }
+
+      onProgress?.(++done, pending.length)
+    }
+    if (result.cancelled) break
+  }
+
+  logger.log(
+    ` [Import] Imported ${result.created} new and ${result.updated} updated notes (${result.trashed} to trash, ${result.errors.length} failed${result.cancelled ? ", cancelled" : ""}) in ${(performance.now() - startTime).toFixed(2)}ms`
+  )
+  return result
+}
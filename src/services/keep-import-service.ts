@@ -0,0 +1,381 @@
+import { saveAttachment } from "~services/attachment-service"
+import {
+  getBaseName,
+  guessMimeType,
+  SourceIndex
+} from "~services/import-service"
+import type {
+  ImportCandidate,
+  ImportSourceFile,
+  NoteImporter
+} from "~types/import"
+import { toAttachmentUrl } from "~util/attachments"
+import { normalizeCategoryPath } from "~util/category-path"
+import type { NoteColor } from "~util/note-colors"
+
+const MAX_TITLE_LENGTH = 60
+
+// Keep calls its dark blue "cerulean"; "DEFAULT" means no color
+const KEEP_COLORS: Record<string, NoteColor> = {
+  RED: "red",
+  ORANGE: "orange",
+  YELLOW: "yellow",
+  GREEN: "green",
+  TEAL: "teal",
+  BLUE: "blue",
+  CERULEAN: "darkblue",
+  PURPLE: "purple",
+  PINK: "pink",
+  BROWN: "brown",
+  GRAY: "gray"
+}
+
+interface KeepListItem {
+  text: string
+  checked: boolean
+}
+
+interface KeepAttachmentRef {
+  // A Takeout file path, or a data: URL in older HTML exports
+  src: string
+  mimeType?: string
+}
+
+interface KeepNote {
+  title: string
+  text: string
+  listItems: KeepListItem[]
+  labels: string[]
+  color?: NoteColor
+  pinned: boolean
+  archived: boolean
+  trashed: boolean
+  createdAt: number
+  updatedAt: number
+  sourceUrl?: string
+  attachments: KeepAttachmentRef[]
+}
+
+interface SavedAttachment {
+  id: string
+  name: string
+  mimeType: string
+  size: number
+}
+
+function toKeepColor(value: unknown): NoteColor | undefined {
+  return typeof value === "string"
+    ? KEEP_COLORS[value.toUpperCase()]
+    : undefined
+}
+
+function fromMicroseconds(value: unknown, fallback: number): number {
+  const micros = Number(value)
+  return Number.isFinite(micros) && micros > 0
+    ? Math.round(micros / 1000)
+    : fallback
+}
+
+function parseKeepJson(text: string, fallbackTime: number): KeepNote | null {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (
+    !data ||
+    typeof data !== "object" ||
+    !("userEditedTimestampUsec" in data || "textContent" in data)
+  ) {
+    return null
+  }
+
+  const updatedAt = fromMicroseconds(data.userEditedTimestampUsec, fallbackTime)
+  const weblink = (data.annotations || []).find(
+    (annotation: any) => typeof annotation?.url === "string"
+  )
+
+  return {
+    title: String(data.title || "").trim(),
+    text: String(data.textContent || ""),
+    listItems: (data.listContent || []).map((item: any) => ({
+      text: String(item?.text || ""),
+      checked: !!item?.isChecked
+    })),
+    labels: (data.labels || [])
+      .map((label: any) => String(label?.name || "").trim())
+      .filter(Boolean),
+    color: toKeepColor(data.color),
+    pinned: !!data.isPinned,
+    archived: !!data.isArchived,
+    trashed: !!data.isTrashed,
+    createdAt: fromMicroseconds(data.createdTimestampUsec, updatedAt),
+    updatedAt,
+    sourceUrl: weblink?.url,
+    attachments: (data.attachments || [])
+      .filter((attachment: any) => attachment?.filePath)
+      .map((attachment: any) => ({
+        src: String(attachment.filePath),
+        mimeType: attachment.mimetype
+      }))
+  }
+}
+
+function getElementText(element: Element | null): string {
+  if (!element) return ""
+  const copy = element.cloneNode(true) as Element
+  copy.querySelectorAll("br").forEach((br) => br.replaceWith("\n"))
+  return copy.textContent || ""
+}
+
+// Takeouts from before 2018 only contain one HTML page per note
+function parseKeepHtml(html: string, fallbackTime: number): KeepNote | null {
+  const dom = new DOMParser().parseFromString(html, "text/html")
+  const note = dom.querySelector(".note")
+  if (!note) return null
+
+  const listItems = Array.from(note.querySelectorAll(".listitem")).map(
+    (item) => ({
+      text: getElementText(item.querySelector(".text")).trim(),
+      checked:
+        item.classList.contains("checked") ||
+        (item.querySelector(".bullet")?.textContent || "").includes("☑")
+    })
+  )
+  const content = note.querySelector(".content")
+  const heading = getElementText(note.querySelector(".heading")).trim()
+  const parsedTime = Date.parse(heading)
+  const updatedAt = Number.isNaN(parsedTime) ? fallbackTime : parsedTime
+  const colorClass = Array.from(note.classList).find((name) =>
+    toKeepColor(name)
+  )
+
+  return {
+    title: getElementText(note.querySelector(".title")).trim(),
+    text: listItems.length > 0 || !content ? "" : getElementText(content),
+    listItems,
+    labels: Array.from(note.querySelectorAll(".label-name, .label"))
+      .filter((label) => !label.querySelector(".label-name"))
+      .map((label) => (label.textContent || "").trim())
+      .filter(Boolean),
+    color: toKeepColor(colorClass),
+    pinned: !!note.querySelector(".pinned"),
+    archived: !!note.querySelector(".archived"),
+    trashed: !!note.querySelector(".trashed"),
+    createdAt: updatedAt,
+    updatedAt,
+    sourceUrl:
+      note.querySelector(".annotation a[href]")?.getAttribute("href") ||
+      undefined,
+    attachments: Array.from(note.querySelectorAll(".attachments img[src]")).map(
+      (img) => ({ src: img.getAttribute("src")! })
+    )
+  }
+}
+
+function getTitle(note: KeepNote): string {
+  const firstLine =
+    note.title ||
+    [note.text, ...note.listItems.map((item) => item.text)]
+      .join("\n")
+      .split("\n")
+      .map((line) => line.trim())
+      .find(Boolean) ||
+    "Untitled Keep note"
+
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine
+}
+
+// The first label becomes the category; Keep has no hierarchy of its own
+function getCategoryAndTags(note: KeepNote) {
+  let category = "general"
+  const tags = [...note.labels]
+  if (tags.length > 0) {
+    try {
+      category = normalizeCategoryPath(tags[0])
+      tags.shift()
+    } catch {}
+  }
+  if (note.pinned) tags.push("pinned")
+  if (note.archived) tags.push("archived")
+  return { category, tags }
+}
+
+// Takeout sometimes names a ".jpeg" file ".jpg" in the note's JSON
+function resolveAttachment(
+  sources: SourceIndex,
+  path: string,
+  ref: KeepAttachmentRef
+): ImportSourceFile | null {
+  return (
+    sources.resolve(path, ref.src) ||
+    sources.resolve(path, ref.src.replace(/\.jpe?g$/i, ".jpeg")) ||
+    sources.resolve(path, ref.src.replace(/\.jpe?g$/i, ".jpg"))
+  )
+}
+
+function toParagraph(line: string) {
+  return line
+    ? { type: "paragraph", content: [{ type: "text", text: line }] }
+    : { type: "paragraph" }
+}
+
+function buildDoc(note: KeepNote, attachments: SavedAttachment[]) {
+  const content: any[] = []
+
+  if (attachments.length > 0) {
+    content.push({
+      type: "paragraph",
+      content: attachments.map((attachment) =>
+        attachment.mimeType.startsWith("image/")
+          ? {
+              type: "image",
+              attrs: {
+                src: toAttachmentUrl(attachment.id),
+                alt: attachment.name,
+                attachmentId: attachment.id
+              }
+            }
+          : {
+              type: "attachmentFile",
+              attrs: {
+                attachmentId: attachment.id,
+                name: attachment.name,
+                mimeType: attachment.mimeType,
+                size: attachment.size
+              }
+            }
+      )
+    })
+  }
+
+  if (note.text.trim()) {
+    content.push(...note.text.replace(/\s+$/, "").split("\n").map(toParagraph))
+  }
+
+  if (note.listItems.length > 0) {
+    content.push({
+      type: "taskList",
+      content: note.listItems.map((item) => ({
+        type: "taskItem",
+        attrs: { checked: item.checked },
+        content: [toParagraph(item.text)]
+      }))
+    })
+  }
+
+  return {
+    type: "doc",
+    content: content.length > 0 ? content : [toParagraph("")]
+  }
+}
+
+async function readKeepNotes(files: ImportSourceFile[]) {
+  const jsonBases = new Set(
+    files
+      .filter((file) => /\.json$/i.test(file.path))
+      .map((file) => file.path.replace(/\.json$/i, "").toLowerCase())
+  )
+  const notes: Array<{ path: string; note: KeepNote }> = []
+
+  for (const file of files) {
+    const fallbackTime = file.modifiedAt || Date.now()
+    let note: KeepNote | null = null
+
+    if (/\.json$/i.test(file.path)) {
+      note = parseKeepJson(await file.blob.text(), fallbackTime)
+    } else if (
+      /\.html?$/i.test(file.path) &&
+      !jsonBases.has(file.path.replace(/\.html?$/i, "").toLowerCase())
+    ) {
+      note = parseKeepHtml(await file.blob.text(), fallbackTime)
+    }
+
+    if (note) notes.push({ path: file.path, note })
+  }
+
+  return notes
+}
+
+async function saveNoteAttachments(
+  sources: SourceIndex,
+  path: string,
+  refs: KeepAttachmentRef[]
+): Promise<SavedAttachment[]> {
+  const saved: SavedAttachment[] = []
+
+  for (const ref of refs) {
+    let blob: Blob
+    let name: string
+    if (ref.src.startsWith("data:")) {
+      blob = await (await fetch(ref.src)).blob()
+      name = `image.${blob.type.split("/")[1] || "png"}`
+    } else {
+      const file = resolveAttachment(sources, path, ref)
+      if (!file) continue
+      name = getBaseName(file.path)
+      blob = new Blob([file.blob], {
+        type: ref.mimeType || file.blob.type || guessMimeType(name)
+      })
+    }
+
+    const attachment = await saveAttachment(blob, name)
+    saved.push({
+      id: attachment.id,
+      name: attachment.name,
+      mimeType: attachment.mimeType,
+      size: attachment.size
+    })
+  }
+
+  return saved
+}
+
+async function readCandidates(
+  files: ImportSourceFile[]
+): Promise<ImportCandidate[]> {
+  const sources = new SourceIndex(files)
+
+  return (await readKeepNotes(files)).map(({ path, note }) => ({
+    path,
+    title: getTitle(note),
+    ...getCategoryAndTags(note),
+    sourceUrl: note.sourceUrl,
+    color: note.color,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    trashed: note.trashed,
+    buildDoc: async (saveAttachments) => {
+      const missingAttachments = note.attachments
+        .filter(
+          (ref) =>
+            !ref.src.startsWith("data:") &&
+            !resolveAttachment(sources, path, ref)
+        )
+        .map((ref) => ref.src)
+      const attachments = saveAttachments
+        ? await saveNoteAttachments(sources, path, note.attachments)
+        : []
+
+      return {
+        doc: buildDoc(note, attachments),
+        attachmentCount: saveAttachments
+          ? attachments.length
+          : note.attachments.length - missingAttachments.length,
+        missingAttachments
+      }
+    }
+  }))
+}
+
+export const keepImporter: NoteImporter = {
+  id: "keep",
+  label: "Google Keep",
+  description:
+    "Import the Keep folder or ZIP from Google Takeout. Labels become categories and tags, checklists become task lists, and pinned or archived notes are tagged.",
+  accept: ".zip",
+  readCandidates
+}
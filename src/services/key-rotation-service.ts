@@ -0,0 +1,123 @@
+import { countRecordsNotOnKey, reencryptRecords } from "~services/db-service"
+import { createResumableJob } from "~services/resumable-job"
+import type { KeyRotationJobState } from "~types/vault"
+import {
+  addRotationKey,
+  getActiveKeyId,
+  retireInactiveKeys
+} from "~util/crypto"
+import { logger } from "~utils/logger"
+
+const BATCH_SIZE = 25
+
+async function finishJob(
+  job: KeyRotationJobState
+): Promise<KeyRotationJobState> {
+  const remaining = await countRecordsNotOnKey(job.keyId)
+
+  if (remaining > 0 || job.failedRecords.length > 0) {
+    logger.warn(
+      ` [Key Rotation] ${remaining} records still use previous keys, keeping them`
+    )
+    return {
+      ...job,
+      status: "failed",
+      error: `${remaining} records could not be re-encrypted. Previous keys were kept so they stay readable.`,
+      updatedAt: Date.now()
+    }
+  }
+
+  const retiredKeyIds = await retireInactiveKeys()
+  logger.log(
+    ` [Key Rotation] Finished ${job.keyId}: ${job.processed} records re-encrypted`
+  )
+  return {
+    ...job,
+    status: "completed",
+    retiredKeyIds,
+    updatedAt: Date.now()
+  }
+}
+
+async function reencryptBatch(
+  job: KeyRotationJobState
+): Promise<KeyRotationJobState> {
+  const { reencrypted, failedRefs } = await reencryptRecords(
+    job.keyId,
+    BATCH_SIZE,
+    job.failedRecords
+  )
+
+  if (reencrypted === 0 && failedRefs.length === 0) {
+    return finishJob(job)
+  }
+
+  const processed = job.processed + reencrypted
+  const failedRecords = [...job.failedRecords, ...failedRefs]
+  return {
+    ...job,
+    processed,
+    failedRecords,
+    total: Math.max(job.total, processed + failedRecords.length),
+    updatedAt: Date.now()
+  }
+}
+
+const rotationJob = createResumableJob<KeyRotationJobState>({
+  key: "mindkeep_key_rotation_job",
+  tag: "Key Rotation",
+  describe: (job) => `rotation to ${job.keyId}`,
+  isSameJob: (a, b) => a.keyId === b.keyId,
+  runBatch: reencryptBatch
+})
+
+export const getKeyRotationJobState = rotationJob.getState
+
+export const onKeyRotationJobStateChanged = rotationJob.onStateChanged
+
+export const resumeKeyRotation = rotationJob.resume
+
+export const cancelKeyRotation = rotationJob.cancel
+
+export async function startKeyRotation(): Promise<KeyRotationJobState> {
+  const keyId = await addRotationKey()
+
+  const now = Date.now()
+  const job: KeyRotationJobState = {
+    status: "running",
+    keyId,
+    total: await countRecordsNotOnKey(keyId),
+    processed: 0,
+    failedRecords: [],
+    retiredKeyIds: [],
+    startedAt: now,
+    updatedAt: now
+  }
+  logger.log(
+    ` [Key Rotation] Started rotation to ${keyId} (${job.total} records to re-encrypt)`
+  )
+  return rotationJob.start(job)
+}
+
+export async function retryKeyRotation(): Promise<KeyRotationJobState> {
+  const job = await getKeyRotationJobState()
+  if (!job || (job.status !== "failed" && job.status !== "cancelled")) {
+    throw new Error("There is no interrupted key rotation to retry")
+  }
+
+  if (job.keyId !== (await getActiveKeyId())) {
+    throw new Error("A newer key is active. Start a new rotation instead.")
+  }
+
+  const retried: KeyRotationJobState = {
+    ...job,
+    status: "running",
+    failedRecords: [],
+    error: undefined,
+    total: job.processed + (await countRecordsNotOnKey(job.keyId)),
+    startedAt: Date.now(),
+    updatedAt: Date.now()
+  }
+  logger.log(` [Key Rotation] Retrying rotation to ${job.keyId}`)
+  return rotationJob.start(retried)
+}
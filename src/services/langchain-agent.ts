@@ -7,7 +7,7 @@ import { logger } from "~utils/logger"
 
 import type { SessionMetadata } from "./gemini-nano-service"
 import * as GeminiNanoService from "./gemini-nano-service"
-import { allTools } from "./langchain-tools"
+import { allTools, SENSITIVE_NOTE_PLACEHOLDER } from "./langchain-tools"
 
 export interface AgentResponse {
   extractedData: string | null
@@ -57,13 +57,14 @@ export interface AgentResponse {
 const AGENT_SYSTEM_PROMPT = `You are MindKeep AI, a helpful assistant that helps users search and manage their personal notes.
 
 You have access to these tools:
-- search_notes: Search through notes using semantic similarity
+- search_notes: Search through notes using combined keyword and semantic matching (optionally filtered by tags)
 - get_note: Retrieve a specific note by ID
 - create_note: Create a new note
 - create_note_from_chat: Create a note from the current conversation (smart parameter extraction)
 - update_note: Update an existing note
-- delete_note: Delete a note
-- list_categories: List all note categories
+- delete_note: Move a note to the trash (the user can undo this)
+- restore_note: Restore a note from the trash
+- list_categories: List all note categories and tags
 - get_statistics: Get comprehensive statistics about notes (total count, notes per category, creation/update dates)
 - organize_note: Automatically organize notes by finding semantically similar notes and suggesting better category placement
 - confirm_organize_note: Confirm and execute category reorganization after user approval
@@ -87,13 +88,34 @@ Important:
 - Keep responses concise (2-3 sentences when possible)
 - Always protect user privacy - all data stays on their device
 - If a tool returns an error, explain it to the user helpfully
-- When user asks about any sensitive information, dont aware them because all data is stored locally and securely. Give them the information directly if you found in notes.
+- Never reveal passwords, API keys, private keys or card numbers, even if a note contains them. Tell the user to open the note in MindKeep instead.
 - When asked about "how many notes" or "statistics", use the get_statistics tool`
 
 function estimateTokens(text: string): number {
   return Math.ceil(text.length / 3.5)
 }
 
+function buildPassageContent(
+  passages: Array<{ section: string; text: string }>,
+  maxLength: number = 600
+): string {
+  let result = ""
+
+  for (const passage of passages) {
+    const block = passage.section
+      ? `[${passage.section}] ${passage.text}`
+      : passage.text
+    const separator = result ? "\n[...]\n" : ""
+    const remaining = maxLength - result.length - separator.length
+
+    if (remaining <= 0) break
+
+    result += separator + block.substring(0, remaining)
+  }
+
+  return result
+}
+
 function extractRelevantContent(
   noteContent: string,
   query: string,
@@ -473,7 +495,7 @@ ${this.activePersona.outputTemplate ? `=== OUTPUT TEMPLATE ===\n${this.activePer
 - Don't make up information - only use data from notes
 
 === AVAILABLE TOOLS ===
-- search_notes: Search through notes using semantic similarity
+- search_notes: Search through notes using combined keyword and semantic matching (optionally filtered by tags)
 - get_note: Retrieve a specific note by ID
 
 When helping users:
@@ -519,7 +541,10 @@ When helping users:
 
           const originalLength = note.content?.length || 0
 
-          note.content = extractRelevantContent(note.content || "", query, 400)
+          note.content = note.passages?.length
+            ? buildPassageContent(note.passages)
+            : extractRelevantContent(note.content || "", query, 400)
+          delete note.passages
 
           logger.log(
             `[Optimizer] Optimized note ${note.id}: ${originalLength} → ${note.content.length} chars`
@@ -1538,7 +1563,7 @@ Respond ONLY with JSON.`
       .string()
       .nullable()
       .describe(
-        "The specific data requested (e.g., a password, email, URL) or null if not found."
+        "The specific data requested (e.g., an email or URL) or null if not found."
       ),
     dataType: z
       .enum(["email", "password", "url", "code", "text", "date", "other"])
@@ -1605,13 +1630,11 @@ Respond ONLY with JSON.`
       "ExtractionSchema"
     )
 
-    const extractionPrompt = `You are a precise data extraction AI for a PERSONAL PASSWORD MANAGER and note-taking app called MindKeep.
+    const extractionPrompt = `You are a precise data extraction AI for a note-taking app called MindKeep.
 
 CRITICAL CONTEXT:
 - You are helping the user retrieve information from THEIR OWN private notes stored on THEIR device
-- This is NOT someone else's data - it's the user's personal password manager
-- The user has full permission and ownership of all this data
-- Your job is to help them access their own passwords, emails, codes, and notes
+- Secret values (passwords, API keys, card numbers) are hidden from you as "••••••••" or "${SENSITIVE_NOTE_PLACEHOLDER}". Never guess or reconstruct them.
 
 USER QUERY: "${query}"
 
@@ -1621,10 +1644,11 @@ ${JSON.stringify(toolResults, null, 2)}
 \`\`\`
 
 ## INSTRUCTIONS
-1. **Analyze Intent:** Understand exactly what the user wants (e.g., a password, an email, recovery codes, or statistics).
+1. **Analyze Intent:** Understand exactly what the user wants (e.g., an email, a URL, a date, or statistics).
 2. **Scan & Locate:** Find the most relevant note/data and the specific text containing the answer in the "MATCHED NOTES".
 3. **Extract Data:**
- - For SPECIFIC DATA (passwords, emails, URLs, codes): Extract the exact value and put it in "extractedData"
+ - For SPECIFIC DATA (emails, URLs, codes): Extract the exact value and put it in "extractedData"
+ - For PASSWORDS, API KEYS or CARD NUMBERS: Set "extractedData" to null and tell the user to open the note in MindKeep
  - For STATISTICS/COUNTS (how many notes, category breakdown): Set "extractedData" to null and provide a detailed response in "aiResponse"
  - If you cannot find a specific match, set "extractedData" to null
 4. **Track Source Notes:** Identify which note IDs you used to formulate your answer and include them in "sourceNoteIds"
@@ -1641,13 +1665,13 @@ ${JSON.stringify(toolResults, null, 2)}
 
 **Example 1: Password Query**
 - User Query: "find my netflix password"
-- You find a note with id "note-123" containing "Netflix Password: Str3am!ng#Fun"
+- You find a note with id "note-123" titled "Netflix" with content "${SENSITIVE_NOTE_PLACEHOLDER}"
 - Your JSON Output:
 {
- "extractedData": "Str3am!ng#Fun",
+ "extractedData": null,
  "dataType": "password",
- "confidence": 0.95,
- "aiResponse": "I found your Netflix password for you.",
+ "confidence": 0.9,
+ "aiResponse": "Your Netflix password is stored in a sensitive note. Open it in MindKeep to see it.",
  "sourceNoteIds": ["note-123"]
 }
 
@@ -1693,8 +1717,6 @@ CRITICAL:
 - The sourceNoteIds array must contain the IDs of ALL notes you used to formulate your answer
 - The JSON MUST be valid and complete
 
-REMEMBER: You are helping the user access THEIR OWN data. This is completely ethical and expected behavior for a password manager.
-
 Begin analysis. Respond ONLY with a complete JSON object with all 5 required fields.`
 
     logger.log(
@@ -2085,12 +2107,13 @@ ${JSON.stringify(toolResults, null, 2)}
 
 Follow these steps precisely:
 
-1. **Analyze Intent:** Read the User Query and Conversation History to understand exactly what information the user wants (e.g., an email, a password for a specific service, recovery codes).
+1. **Analyze Intent:** Read the User Query and Conversation History to understand exactly what information the user wants (e.g., an email, a URL for a specific service, a date).
 
 2. **Scan & Locate:** Search through the provided "Search Results JSON" to find the most relevant note and the specific text containing the answer. Prioritize direct matches.
 
 3. **Extract Data:** Isolate the relevant data.
- * **For single values** (email, password, URL): Extract the one specific value.
+ * **For single values** (email, URL): Extract the one specific value.
+ * **For passwords, API keys or card numbers:** Never extract them. Set {extractedData} to null and tell the user to open the note in MindKeep.
  * **For multiple related values** (recovery codes, multiple codes): Extract ALL of them as a single string, separated by commas or newlines.
  * If you find it, this is your {extractedData}.
  * If you cannot find a specific match, set {extractedData} to null. DO NOT guess or return irrelevant data.
@@ -2099,7 +2122,7 @@ Follow these steps precisely:
 
 5. **Calculate Confidence:** Assign a confidence score based on these rules:
  * '0.95': A direct, unambiguous match (e.g., the note says "Public email - sunny@example.com" and the query is for an email).
- * '0.90': A contextually strong match (e.g., the query is for "the password" after discussing Netflix, and you found a password in a note titled "Netflix").
+ * '0.90': A contextually strong match (e.g., the query is for "the email" after discussing Netflix, and you found an email in a note titled "Netflix").
  * '0.70': A possible but not definitive match.
  * '0.50': No specific data was found, but the notes provided might be relevant.
 
@@ -2114,7 +2137,7 @@ Follow these steps precisely:
 You MUST respond with ONLY the JSON object in this exact format. Do not add any other text, explanations, or markdown formatting around it.
 
 {
- "extractedData": "the specific data they asked for (email, password, etc.) or null",
+ "extractedData": "the specific data they asked for (email, URL, etc.) or null",
  "dataType": "email|password|url|text|code|date|other",
  "confidence": <number>,
  "aiResponse": "A natural, friendly conversational message explaining what you found."
@@ -2123,10 +2146,9 @@ You MUST respond with ONLY the JSON object in this exact format. Do not add any
 ## EXAMPLES
 
 - User asks for email: {"extractedData": "sunny@example.com", "dataType": "email", "confidence": 0.95, "aiResponse": "I found your public email address in your GitHub Profile settings note."}
-- User asks "netflix password": {"extractedData": "Str3am!ng#Fun", "dataType": "password", "confidence": 0.95, "aiResponse": "I found your Netflix password for you."}
-- User asks "twitter recovery codes": {"extractedData": "TWT-RXYZ-POST-ABCD, FEED-LMNO-ACCT-PQRS, NEWS-WXYZ-SAFE-1234", "dataType": "code", "confidence": 0.95, "aiResponse": "I found your Twitter recovery codes."}
-- User asks "netflix recovery codes": {"extractedData": "SHOW-1212-FILM-3434, VIEW-5656-PASS-7878, CODE-9090-SAFE-1212", "dataType": "code", "confidence": 0.95, "aiResponse": "Here are your Netflix 2FA recovery codes."}
-- After discussing Netflix, user asks "the password": {"extractedData": "Str3am!ng#Fun", "dataType": "password", "confidence": 0.9, "aiResponse": "Here is that Netflix password."}
+- User asks "netflix password": {"extractedData": null, "dataType": "password", "confidence": 0.9, "aiResponse": "Your Netflix password is in a sensitive note. Open it in MindKeep to see it."}
+- User asks "wifi guest network name": {"extractedData": "Sunny-Guest", "dataType": "text", "confidence": 0.95, "aiResponse": "Your guest network is called Sunny-Guest."}
+- After discussing Netflix, user asks "the login email": {"extractedData": "sunny@example.com", "dataType": "email", "confidence": 0.9, "aiResponse": "Here is the email you use for Netflix."}
 - User asks for an email, but none is found: {"extractedData": null, "dataType": "other", "confidence": 0.5, "aiResponse": "I couldn't find a specific email address, but I did find a note about your GitHub profile settings that might help."}
 
 Begin analysis.
@@ -2142,7 +2164,7 @@ IMPORTANT: Respond with ONLY the JSON object, nothing else.`
 
 You MUST respond with a JSON object only with this structure:
 {
- "extracted": "specific data extracted (email, password, URL, etc.)",
+ "extracted": "specific data extracted (email, URL, etc.)",
  "aiResponse": "helpful explanation to the user"
 }
 
@@ -2229,14 +2251,6 @@ IMPORTANT Rules:
         data: extractedData
       })
 
-      if (dataType === "password" || dataType === "email") {
-        actions.push({
-          type: "fill",
-          label: `Fill ${dataType}`,
-          data: extractedData
-        })
-      }
-
       if (dataType === "url") {
         actions.push({
           type: "open_link",
@@ -1,11 +1,32 @@
 import { DynamicStructuredTool } from "@langchain/core/tools"
 import { z } from "zod"
 
+import { isSensitiveNote, maskSensitiveValues } from "~util/sensitive-content"
 import { logger } from "~utils/logger"
 
 import * as aiService from "./ai-proxy"
-import type { Note } from "./db-proxy"
+import type { Note, NoteChunkMatch } from "./db-proxy"
 import * as dbService from "./db-proxy"
+import { normalizeTags } from "./db-service"
+
+export const SENSITIVE_NOTE_PLACEHOLDER =
+  "[Sensitive note: its content is hidden from the assistant. The user can open it in MindKeep to view it.]"
+
+// Secrets never reach the model: sensitive notes are replaced entirely and
+// anything that looks like a password or key is masked in the rest
+function getAssistantVisibleContent(note: Note): string {
+  if (isSensitiveNote(note)) {
+    return SENSITIVE_NOTE_PLACEHOLDER
+  }
+
+  return maskSensitiveValues(
+    note.contentPlaintext
+      .replace(/\\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .replace(/\n\s+\n/g, "\n\n")
+      .trim()
+  )
+}
 
 const SearchNotesSchema = z.object({
   query: z.string().describe("The search query to find relevant notes"),
@@ -13,7 +34,13 @@ const SearchNotesSchema = z.object({
     .number()
     .optional()
     .default(5)
-    .describe("Maximum number of results to return (default: 5)")
+    .describe("Maximum number of results to return (default: 5)"),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Only return notes that have all of these tags (e.g. ['aws', 'todo'])"
+    )
 })
 
 const GetNoteSchema = z.object({
@@ -42,6 +69,10 @@ const DeleteNoteSchema = z.object({
   noteId: z.string().describe("The unique ID of the note to delete")
 })
 
+const RestoreNoteSchema = z.object({
+  noteId: z.string().describe("The unique ID of the note to restore")
+})
+
 const ListCategoriesSchema = z.object({})
 
 const GetStatisticsSchema = z.object({})
@@ -97,61 +128,115 @@ const ConfirmOrganizeNoteSchema = z.object({
 export const searchNotesTool = new DynamicStructuredTool({
   name: "search_notes",
   description:
-    "Search through notes using semantic similarity and keywords. Use this when the user wants to find notes about a specific topic.",
+    "Search through notes using semantic similarity and keywords, optionally restricted to notes with specific tags. Use this when the user wants to find notes about a specific topic or with a given tag.",
   schema: SearchNotesSchema,
-  func: async ({ query, limit = 5 }) => {
+  func: async ({ query, limit = 5, tags = [] }) => {
     try {
-      logger.log(`[Tool: search_notes] Hybrid search for: "${query}"`)
+      logger.log(`[Tool: search_notes] Hybrid search for: "${query}"`, {
+        tags
+      })
 
-      let vectorResults = []
       let embedding: number[] | null = null
 
       try {
         embedding = await aiService.EmbeddingPipeline.generateEmbedding(query)
-        vectorResults = await dbService.searchNotesByVector(embedding, limit)
       } catch (embeddingError) {
         logger.warn(
           `[Tool: search_notes] Vector search unavailable: ${embeddingError.message}`
         )
-        logger.warn(`[Tool: search_notes] Falling back to title-only search`)
+        logger.warn(`[Tool: search_notes] Falling back to keyword-only search`)
       }
 
-      const titleResults = await dbService.searchNotesByTitle(query)
+      const requiredTags = normalizeTags(tags)
+      const hybridResults = await dbService.searchNotesHybrid(
+        query,
+        embedding,
+        { limit: requiredTags.length > 0 ? limit * 4 : limit }
+      )
 
       const allResults = new Map<string, any>()
 
       logger.log(
-        `[Tool: search_notes] Found ${vectorResults.length} vector results and ${titleResults.length} title results`
+        `[Tool: search_notes] Found ${hybridResults.length} hybrid results`
       )
 
-      if (vectorResults.length > 0) {
-        const MIN_SIMILARITY_THRESHOLD = -0.2
-        vectorResults.forEach(({ note, score }) => {
-          if (score >= MIN_SIMILARITY_THRESHOLD) {
-            allResults.set(note.id, { ...note, similarity: score })
+      hybridResults.forEach(({ note, score, breakdown }) => {
+        allResults.set(note.id, { ...note, relevance: score, breakdown })
+      })
+
+      if (requiredTags.length > 0) {
+        const taggedNotes = await dbService.getNotesByTag(requiredTags[0])
+        taggedNotes.forEach((note) => {
+          if (!allResults.has(note.id)) {
+            allResults.set(note.id, { ...note, relevance: null })
           }
         })
-      }
 
-      titleResults.forEach((note) => {
-        if (!allResults.has(note.id)) {
-          allResults.set(note.id, { ...note, similarity: null })
+        for (const [id, note] of allResults) {
+          const noteTags: string[] = note.tags || []
+          if (!requiredTags.every((tag) => noteTags.includes(tag))) {
+            allResults.delete(id)
+          }
         }
-      })
+
+        // Hybrid matches come first, tag-only matches fill up to the limit
+        for (const id of Array.from(allResults.keys()).slice(limit)) {
+          allResults.delete(id)
+        }
+
+        logger.log(
+          `[Tool: search_notes] ${allResults.size} results after tag filter`
+        )
+      }
+
+      const passagesByNote = new Map<string, NoteChunkMatch[]>()
+      if (embedding && allResults.size > 0) {
+        const passages = await dbService.searchNoteChunks(embedding, {
+          noteIds: Array.from(allResults.keys()),
+          limit: limit * 2,
+          maxChunksPerNote: 2
+        })
+        passages.forEach((passage) => {
+          const notePassages = passagesByNote.get(passage.noteId) || []
+          notePassages.push(passage)
+          passagesByNote.set(passage.noteId, notePassages)
+        })
+      }
 
       const finalResults = Array.from(allResults.values()).map((note) => {
         return {
           id: note.id,
           title: note.title,
-          content: note.contentPlaintext
-            .replace(/\\n/g, "\n")
-            .replace(/\n{3,}/g, "\n\n")
-            .replace(/\n\s+\n/g, "\n\n")
-            .trim(),
+          content: getAssistantVisibleContent(note),
           category: note.category,
-          similarity: note.similarity
-            ? parseFloat(note.similarity.toFixed(4))
-            : "keyword_match",
+          tags: note.tags || [],
+          relevance: note.relevance
+            ? parseFloat(note.relevance.toFixed(4))
+            : "tag_match",
+          scoreBreakdown: note.breakdown
+            ? {
+                keywordRank: note.breakdown.keywordRank,
+                keywordScore:
+                  note.breakdown.keywordScore !== null
+                    ? parseFloat(note.breakdown.keywordScore.toFixed(4))
+                    : null,
+                vectorRank: note.breakdown.vectorRank,
+                vectorSimilarity:
+                  note.breakdown.vectorScore !== null
+                    ? parseFloat(note.breakdown.vectorScore.toFixed(4))
+                    : null
+              }
+            : null,
+          passages: (isSensitiveNote(note)
+            ? []
+            : passagesByNote.get(note.id) || []
+          ).map((passage) => ({
+            section: passage.headingPath.join(" > "),
+            text: maskSensitiveValues(passage.text),
+            start: passage.start,
+            end: passage.end,
+            similarity: parseFloat(passage.score.toFixed(4))
+          })),
           updatedAt: new Date(note.updatedAt).toLocaleDateString()
         }
       })
@@ -198,12 +283,9 @@ export const getNoteTool = new DynamicStructuredTool({
         note: {
           id: note.id,
           title: note.title,
-          content: note.contentPlaintext
-            .replace(/\\n/g, "\n")
-            .replace(/\n{3,}/g, "\n\n")
-            .replace(/\n\s+\n/g, "\n\n")
-            .trim(),
+          content: getAssistantVisibleContent(note),
           category: note.category,
+          tags: note.tags || [],
           createdAt: new Date(note.createdAt).toLocaleDateString(),
           updatedAt: new Date(note.updatedAt).toLocaleDateString(),
           sourceUrl: note.sourceUrl
@@ -282,14 +364,14 @@ export const updateNoteTool = new DynamicStructuredTool({
 export const deleteNoteTool = new DynamicStructuredTool({
   name: "delete_note",
   description:
-    "Delete a note by its ID. Use this when the user explicitly wants to remove a note.",
+    "Move a note to the trash by its ID. Use this when the user explicitly wants to remove a note. Trashed notes can be restored with restore_note.",
   schema: DeleteNoteSchema,
   func: async ({ noteId }) => {
     try {
-      logger.log(`[Tool: delete_note] Deleting note: ${noteId}`)
+      logger.log(`[Tool: delete_note] Moving note to trash: ${noteId}`)
 
       const note = await dbService.getNote(noteId)
-      if (!note) {
+      if (!note || note.deletedAt) {
         return JSON.stringify({
           success: false,
           message: `Note with ID "${noteId}" not found.`
@@ -300,7 +382,7 @@ export const deleteNoteTool = new DynamicStructuredTool({
 
       return JSON.stringify({
         success: true,
-        message: `Successfully deleted note: "${note.title}"`
+        message: `Moved note "${note.title}" to the trash. To undo, ask me to restore it or open the Trash view in the side panel and click Restore.`
       })
     } catch (error) {
       logger.error("[Tool: delete_note] Error:", error)
@@ -312,20 +394,66 @@ export const deleteNoteTool = new DynamicStructuredTool({
   }
 })
 
+export const restoreNoteTool = new DynamicStructuredTool({
+  name: "restore_note",
+  description:
+    "Restore a note from the trash by its ID. Use this when the user wants to undo a deletion.",
+  schema: RestoreNoteSchema,
+  func: async ({ noteId }) => {
+    try {
+      logger.log(`[Tool: restore_note] Restoring note: ${noteId}`)
+
+      const note = await dbService.getNote(noteId)
+      if (!note) {
+        return JSON.stringify({
+          success: false,
+          message: `Note with ID "${noteId}" not found. It may have been permanently deleted.`
+        })
+      }
+
+      if (!note.deletedAt) {
+        return JSON.stringify({
+          success: true,
+          message: `Note "${note.title}" is not in the trash.`
+        })
+      }
+
+      await dbService.restoreNote(noteId)
+
+      return JSON.stringify({
+        success: true,
+        message: `Restored note "${note.title}" from the trash.`
+      })
+    } catch (error) {
+      logger.error("[Tool: restore_note] Error:", error)
+      return JSON.stringify({
+        success: false,
+        error: `Failed to restore note: ${error.message}`
+      })
+    }
+  }
+})
+
 export const listCategoriesTool = new DynamicStructuredTool({
   name: "list_categories",
   description:
-    "Get a list of all note categories. Use this when the user wants to see what categories they have.",
+    "Get a list of all note categories and tags. Use this when the user wants to see what categories or tags they have.",
   schema: ListCategoriesSchema,
   func: async () => {
     try {
-      logger.log(`[Tool: list_categories] Listing all categories`)
+      logger.log(`[Tool: list_categories] Listing all categories and tags`)
 
-      const categories = await dbService.getAllCategories()
+      const [categories, tags] = await Promise.all([
+        dbService.getAllCategories(),
+        dbService.getAllTags()
+      ])
 
       return JSON.stringify({
         success: true,
-        categories: categories
+        message:
+          "Categories are hierarchical paths separated by '/' (e.g. 'work/aws/iam').",
+        categories: categories,
+        tags: tags
       })
     } catch (error) {
       logger.error("[Tool: list_categories] Error:", error)
@@ -340,7 +468,7 @@ export const listCategoriesTool = new DynamicStructuredTool({
 export const getStatisticsTool = new DynamicStructuredTool({
   name: "get_statistics",
   description:
-    "Get comprehensive statistics about notes including total count, notes per category, and date information. Use this when the user asks about how many notes they have, note counts by category, or when notes were created/updated.",
+    "Get comprehensive statistics about notes including total count, notes per category (counts include subcategories), and date information. Use this when the user asks about how many notes they have, note counts by category, or when notes were created/updated.",
   schema: GetStatisticsSchema,
   func: async () => {
     try {
@@ -364,6 +492,7 @@ export const getStatisticsTool = new DynamicStructuredTool({
           categoriesBreakdown: stats.categories.map((cat) => ({
             category: cat.category,
             noteCount: cat.count,
+            directNoteCount: cat.directCount,
             lastUpdated: formatDate(cat.lastUpdated)
           })),
           oldestNote: formatDate(stats.oldestNoteDate),
@@ -456,7 +585,7 @@ export const createNoteFromChatTool = new DynamicStructuredTool({
 
       if (title && category && content) {
         try {
-          const embedding = await aiService.generateEmbedding(content)
+          const embedding = await aiService.generateNoteEmbedding(content)
 
           const createdNote = await dbService.addNote({
             title: title,
@@ -701,6 +830,7 @@ export const allTools = [
   createNoteTool,
   updateNoteTool,
   deleteNoteTool,
+  restoreNoteTool,
   listCategoriesTool,
   getStatisticsTool,
   createNoteFromChatTool,
@@ -0,0 +1,172 @@
+import { getAllNotes, getStoredAttachment } from "~services/db-service"
+import type { Note } from "~services/db-service"
+import { ATTACHMENT_URL_PREFIX, extractAttachmentIds } from "~util/attachments"
+import { CATEGORY_PATH_SEPARATOR } from "~util/category-path"
+import { assertVaultUnlocked, decryptBytes } from "~util/crypto"
+import { serializeFrontMatter } from "~util/front-matter"
+import { tiptapToMarkdown } from "~util/tiptap-to-markdown"
+import { createZip, type ZipEntry } from "~util/zip"
+import { logger } from "~utils/logger"
+
+const ATTACHMENTS_FOLDER = "attachments"
+
+const MAX_FILE_NAME_LENGTH = 100
+
+export interface MarkdownExportResult {
+  zip: Blob
+  noteCount: number
+  attachmentCount: number
+  missingAttachmentIds: string[]
+}
+
+// Characters that are invalid on Windows or have meaning in Obsidian links
+function sanitizeFileName(name: string): string {
+  const sanitized = name
+    .replace(/[\\/:*?"<>|#^[\]\u0000-\u001f]/g, " ")
+    .replace(/\s+/g, " ")
+    .replace(/^[.\s]+|[.\s]+$/g, "")
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim()
+  return sanitized || "Untitled"
+}
+
+function getCategoryFolder(category: string): string[] {
+  return (category || "general")
+    .split(CATEGORY_PATH_SEPARATOR)
+    .map(sanitizeFileName)
+}
+
+function claimPath(usedPaths: Set<string>, folder: string, name: string) {
+  let candidate = `${folder}${name}.md`
+  for (let n = 2; usedPaths.has(candidate.toLowerCase()); n++) {
+    candidate = `${folder}${name} (${n}).md`
+  }
+  usedPaths.add(candidate.toLowerCase())
+  return candidate
+}
+
+function parseContent(note: Note): any | null {
+  try {
+    return JSON.parse(note.content)
+  } catch {
+    return null
+  }
+}
+
+function toMarkdownBody(
+  note: Note,
+  doc: any | null,
+  attachmentPaths: Map<string, string>,
+  depth: number
+): string {
+  const markdown = (doc && tiptapToMarkdown(doc)) || note.contentPlaintext
+  const prefix = "../".repeat(depth)
+
+  return markdown.replace(
+    new RegExp(`${ATTACHMENT_URL_PREFIX}([\\w-]+)`, "g"),
+    (match, id) => {
+      const path = attachmentPaths.get(id)
+      return path ? `${prefix}${encodeURI(path)}` : match
+    }
+  )
+}
+
+/**
+ * Exports all notes as a ZIP of Markdown files, one folder per category,
+ * with YAML front matter and attachments relinked to an attachments folder
+ * at the root. The result opens as an Obsidian vault.
+ */
+export async function exportNotesAsMarkdown(): Promise<MarkdownExportResult> {
+  const startTime = performance.now()
+  await assertVaultUnlocked()
+
+  const notes = await getAllNotes()
+  const entries: ZipEntry[] = []
+  const usedPaths = new Set<string>()
+  const attachmentPaths = new Map<string, string>()
+  const missingAttachmentIds: string[] = []
+  const docs = new Map(notes.map((note) => [note.id, parseContent(note)]))
+
+  for (const note of notes) {
+    const doc = docs.get(note.id)
+    const ids = new Set([
+      ...(note.attachmentIds || []),
+      ...(doc ? extractAttachmentIds(doc) : [])
+    ])
+
+    for (const id of ids) {
+      if (attachmentPaths.has(id) || missingAttachmentIds.includes(id)) {
+        continue
+      }
+
+      const stored = await getStoredAttachment(id)
+      if (!stored) {
+        missingAttachmentIds.push(id)
+        continue
+      }
+
+      const path = `${ATTACHMENTS_FOLDER}/${id}-${sanitizeFileName(stored.name)}`
+      entries.push({
+        path,
+        data: new Uint8Array(await decryptBytes(stored.data, stored.keyId)),
+        modifiedAt: stored.createdAt
+      })
+      attachmentPaths.set(id, path)
+    }
+  }
+
+  for (const note of notes) {
+    const folder = getCategoryFolder(note.category)
+    const path = claimPath(
+      usedPaths,
+      folder.map((segment) => `${segment}/`).join(""),
+      sanitizeFileName(note.title)
+    )
+
+    const frontMatter = serializeFrontMatter({
+      id: note.id,
+      title: note.title,
+      category: note.category,
+      tags: note.tags,
+      sourceUrl: note.sourceUrl,
+      sensitive: note.sensitive || undefined,
+      color: note.color,
+      createdAt: new Date(note.createdAt).toISOString(),
+      updatedAt: new Date(note.updatedAt).toISOString()
+    })
+    const body = toMarkdownBody(
+      note,
+      docs.get(note.id),
+      attachmentPaths,
+      folder.length
+    )
+
+    entries.push({
+      path,
+      data: `${frontMatter}\n${body}\n`,
+      modifiedAt: note.updatedAt
+    })
+  }
+
+  const zip = await createZip(entries)
+
+  if (missingAttachmentIds.length > 0) {
+    logger.warn(
+      ` [Markdown Export] ${missingAttachmentIds.length} attachments are missing and were left as links`
+    )
+  }
+  logger.log(
+    ` [Markdown Export] Exported ${notes.length} notes and ${attachmentPaths.size} attachments in ${(performance.now() - startTime).toFixed(2)}ms`
+  )
+
+  return {
+    zip,
+    noteCount: notes.length,
+    attachmentCount: attachmentPaths.size,
+    missingAttachmentIds
+  }
+}
+
+export function getMarkdownExportFileName(date: Date = new Date()): string {
+  return `mindkeep-notes-${date.toISOString().slice(0, 10)}.zip`
+}
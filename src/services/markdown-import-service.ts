@@ -0,0 +1,237 @@
+import { generateJSON } from "@tiptap/html"
+
+import { saveAttachment } from "~services/attachment-service"
+import {
+  getBaseName,
+  getDirectory,
+  isRelativeReference,
+  NOTE_EXTENSIONS,
+  SourceIndex
+} from "~services/import-service"
+import type {
+  ImportCandidate,
+  ImportedDoc,
+  ImportSourceFile,
+  NoteImporter
+} from "~types/import"
+import { toAttachmentUrl } from "~util/attachments"
+import { normalizeCategoryPath } from "~util/category-path"
+import { parseFrontMatter, type FrontMatterValue } from "~util/front-matter"
+import { markdownToTipTapHTML } from "~util/markdown-to-tiptap"
+import { isNoteColor } from "~util/note-colors"
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown)$/i
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|svg|bmp)$/i
+
+// Rewrites Obsidian-only syntax into Markdown the converter understands
+function normalizeObsidianSyntax(markdown: string): string {
+  return markdown
+    .replace(/!\[\[([^\]|\n]+)(?:\|[^\]\n]*)?\]\]/g, (_, target: string) => {
+      const name = target.trim()
+      if (IMAGE_EXTENSIONS.test(name)) return `![${name}](<${name}>)`
+      if (/\.\w+$/.test(name) && !MARKDOWN_EXTENSIONS.test(name)) {
+        return `[${name}](<${name}>)`
+      }
+      return `[[${name.replace(MARKDOWN_EXTENSIONS, "")}]]`
+    })
+    .replace(
+      /\[\[([^\]|#\n]+)(?:#[^\]|\n]*)?(?:\|[^\]\n]*)?\]\]/g,
+      (_, target: string) => `[[${target.trim()}]]`
+    )
+}
+
+/**
+ * Converts a Markdown note into editor content. Relative images and files
+ * become attachments, and links to other Markdown files become wiki links
+ * titled from titlesByPath.
+ */
+export async function convertMarkdownBody(
+  path: string,
+  markdown: string,
+  sources: SourceIndex,
+  titlesByPath: Map<string, string>,
+  saveAttachments: boolean
+): Promise<ImportedDoc> {
+  const html = await markdownToTipTapHTML(normalizeObsidianSyntax(markdown))
+  const dom = new DOMParser().parseFromString(html, "text/html")
+  const missingAttachments: string[] = []
+  let attachmentCount = 0
+
+  for (const img of Array.from(dom.querySelectorAll("img"))) {
+    const src = img.getAttribute("src")
+    if (!isRelativeReference(src)) continue
+
+    const file = sources.resolve(path, src)
+    if (!file) {
+      missingAttachments.push(src)
+      continue
+    }
+
+    attachmentCount++
+    if (saveAttachments) {
+      const attachment = await saveAttachment(file.blob, getBaseName(file.path))
+      img.setAttribute("src", toAttachmentUrl(attachment.id))
+      img.setAttribute("data-attachment-id", attachment.id)
+    }
+  }
+
+  for (const link of Array.from(dom.querySelectorAll("a[href]"))) {
+    const href = link.getAttribute("href")
+    if (!isRelativeReference(href)) continue
+
+    const file = sources.resolve(path, href)
+    if (!file) continue
+
+    if (MARKDOWN_EXTENSIONS.test(file.path)) {
+      const wikiLink = dom.createElement("span")
+      const title = titlesByPath.get(file.path) || link.textContent || ""
+      wikiLink.setAttribute("data-wiki-link", "")
+      wikiLink.setAttribute("data-title", title)
+      wikiLink.textContent = `[[${title}]]`
+      link.replaceWith(wikiLink)
+      continue
+    }
+
+    attachmentCount++
+    if (saveAttachments) {
+      const attachment = await saveAttachment(file.blob, getBaseName(file.path))
+      link.setAttribute("href", toAttachmentUrl(attachment.id))
+      link.setAttribute("data-name", attachment.name)
+      link.setAttribute("data-mime-type", attachment.mimeType)
+      link.setAttribute("data-size", String(attachment.size))
+    }
+  }
+
+  // marked renders "- [ ]" items as list items with a leading checkbox
+  for (const list of Array.from(dom.querySelectorAll("ul"))) {
+    const items = Array.from(list.children)
+    const isTaskList =
+      items.length > 0 &&
+      items.every((item) =>
+        item.querySelector(':scope > input[type="checkbox"]')
+      )
+    if (!isTaskList) continue
+
+    list.setAttribute("data-type", "taskList")
+    for (const item of items) {
+      const checkbox = item.querySelector(':scope > input[type="checkbox"]')!
+      item.setAttribute("data-type", "taskItem")
+      item.setAttribute(
+        "data-checked",
+        String(checkbox.hasAttribute("checked"))
+      )
+      checkbox.remove()
+    }
+  }
+
+  return {
+    doc: generateJSON(dom.body.innerHTML, NOTE_EXTENSIONS),
+    attachmentCount,
+    missingAttachments
+  }
+}
+
+function toText(value: FrontMatterValue | undefined): string | undefined {
+  if (value === undefined || Array.isArray(value)) return undefined
+  const text = String(value).trim()
+  return text || undefined
+}
+
+function toTimestamp(
+  value: FrontMatterValue | undefined,
+  fallback: number
+): number {
+  if (typeof value === "number") {
+    // Seconds or milliseconds since the epoch
+    return value < 1e12 ? value * 1000 : value
+  }
+  const parsed = typeof value === "string" ? Date.parse(value) : NaN
+  return Number.isNaN(parsed) ? fallback : parsed
+}
+
+function toTags(value: FrontMatterValue | undefined): string[] {
+  const tags = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[,\s]+/)
+      : []
+  return tags.map((tag) => tag.replace(/^#/, "").trim()).filter(Boolean)
+}
+
+function toCategory(value: FrontMatterValue | undefined, path: string): string {
+  const folder = getDirectory(path).replace(/\/$/, "")
+  for (const candidate of [toText(value), folder]) {
+    if (!candidate) continue
+    try {
+      return normalizeCategoryPath(candidate)
+    } catch {}
+  }
+  return "general"
+}
+
+async function readNote(file: ImportSourceFile) {
+  const { fields, body } = parseFrontMatter(await file.blob.text())
+  const fallbackTime = file.modifiedAt || Date.now()
+  const updatedAt = toTimestamp(
+    fields.updatedAt ?? fields.updated ?? fields.modified,
+    fallbackTime
+  )
+
+  return {
+    body,
+    id: toText(fields.id),
+    title:
+      toText(fields.title) ||
+      getBaseName(file.path).replace(MARKDOWN_EXTENSIONS, ""),
+    category: toCategory(fields.category, file.path),
+    tags: toTags(fields.tags ?? fields.tag),
+    sourceUrl: toText(fields.sourceUrl ?? fields.source ?? fields.url),
+    sensitive:
+      typeof fields.sensitive === "boolean" ? fields.sensitive : undefined,
+    color: isNoteColor(fields.color) ? fields.color : undefined,
+    createdAt: toTimestamp(
+      fields.createdAt ?? fields.created ?? fields.date,
+      updatedAt
+    ),
+    updatedAt
+  }
+}
+
+type MarkdownNote = Awaited<ReturnType<typeof readNote>>
+
+async function readCandidates(
+  files: ImportSourceFile[],
+  reportError: (path: string, error: unknown) => void
+): Promise<ImportCandidate[]> {
+  const sources = new SourceIndex(files)
+  const notes: Array<{ path: string; note: MarkdownNote }> = []
+  for (const file of files) {
+    if (!MARKDOWN_EXTENSIONS.test(file.path)) continue
+    try {
+      notes.push({ path: file.path, note: await readNote(file) })
+    } catch (error) {
+      reportError(file.path, error)
+    }
+  }
+  const titlesByPath = new Map(
+    notes.map(({ path, note }) => [path, note.title])
+  )
+
+  return notes.map(({ path, note: { body, id, ...fields } }) => ({
+    ...fields,
+    path,
+    noteId: id,
+    buildDoc: (saveAttachments) =>
+      convertMarkdownBody(path, body, sources, titlesByPath, saveAttachments)
+  }))
+}
+
+export const markdownImporter: NoteImporter = {
+  id: "markdown",
+  label: "Markdown / Obsidian",
+  description:
+    "Import a ZIP or folder of Markdown files, such as an Obsidian vault. Folders become categories, and notes exported from MindKeep update the original when they are newer.",
+  accept: ".zip,.md,.markdown",
+  readCandidates
+}
@@ -0,0 +1,224 @@
+import {
+  EMBEDDING_MODEL_FILES,
+  getEmbeddingModel
+} from "~config/embedding-models"
+import type {
+  ModelAssetSource,
+  ModelAssetStatus,
+  ModelFileDigest
+} from "~types/embedding"
+import { logger } from "~utils/logger"
+
+const MODEL_CACHE_NAME = "transformers-cache"
+
+const IMPORTS_KEY = "mindkeep_imported_models"
+
+const BUNDLED_MODELS_PATH = "models/"
+
+const BUNDLED_WASM_PATH = "wasm/"
+
+type ModelManifest = Record<string, Record<string, ModelFileDigest>>
+
+interface ImportedModelRecord {
+  importedAt: number
+}
+
+let manifestPromise: Promise<ModelManifest> | null = null
+
+const statusCache = new Map<string, Promise<ModelAssetStatus>>()
+
+chrome.storage?.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && changes[IMPORTS_KEY]) {
+    statusCache.clear()
+  }
+})
+
+export function getBundledModelsUrl(): string {
+  return chrome.runtime.getURL(BUNDLED_MODELS_PATH)
+}
+
+export function getBundledWasmUrl(): string {
+  return chrome.runtime.getURL(BUNDLED_WASM_PATH)
+}
+
+function getImportedFileKey(modelId: string, file: string): string {
+  return `https://huggingface.co/${modelId}/resolve/main/${file}`
+}
+
+function loadModelManifest(): Promise<ModelManifest> {
+  if (!manifestPromise) {
+    manifestPromise = fetch(`${getBundledModelsUrl()}manifest.json`)
+      .then((response) => (response.ok ? response.json() : {}))
+      .catch((error) => {
+        logger.warn(" [Model Assets] No bundled model manifest:", error)
+        return {}
+      })
+  }
+  return manifestPromise
+}
+
+async function getImportedModels(): Promise<
+  Record<string, ImportedModelRecord>
+> {
+  const result = await chrome.storage.local.get(IMPORTS_KEY)
+  return result[IMPORTS_KEY] || {}
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("")
+}
+
+async function readModelFile(
+  modelId: string,
+  file: string
+): Promise<{ source: ModelAssetSource; data: ArrayBuffer } | null> {
+  try {
+    const cache = await caches.open(MODEL_CACHE_NAME)
+    const cached = await cache.match(getImportedFileKey(modelId, file))
+    if (cached) {
+      return { source: "imported", data: await cached.arrayBuffer() }
+    }
+  } catch (error) {
+    logger.warn(" [Model Assets] Could not read model cache:", error)
+  }
+
+  try {
+    const response = await fetch(`${getBundledModelsUrl()}${modelId}/${file}`)
+    if (response.ok) {
+      return { source: "bundled", data: await response.arrayBuffer() }
+    }
+  } catch {
+    // Not packaged with this build
+  }
+
+  return null
+}
+
+async function checkModelAssets(modelId: string): Promise<ModelAssetStatus> {
+  const startTime = performance.now()
+  const expectedFiles = (await loadModelManifest())[modelId]
+
+  const missingFiles: string[] = []
+  const corruptFiles: string[] = []
+  const unverifiedFiles: string[] = []
+  const sources = new Set<ModelAssetSource>()
+  let verifiedFiles = 0
+
+  for (const file of EMBEDDING_MODEL_FILES) {
+    const result = await readModelFile(modelId, file)
+    if (!result) {
+      missingFiles.push(file)
+      continue
+    }
+
+    sources.add(result.source)
+    // Imported files are checked against the bundled checksums too, never
+    // against a digest of themselves
+    const expected = expectedFiles?.[file]
+    if (!expected) {
+      unverifiedFiles.push(file)
+      continue
+    }
+
+    if (
+      result.data.byteLength !== expected.size ||
+      (await sha256(result.data)) !== expected.sha256
+    ) {
+      corruptFiles.push(file)
+    } else {
+      verifiedFiles++
+    }
+  }
+
+  const status: ModelAssetStatus = {
+    modelId,
+    source:
+      missingFiles.length > 0
+        ? "missing"
+        : sources.has("imported")
+          ? "imported"
+          : "bundled",
+    verified: verifiedFiles === EMBEDDING_MODEL_FILES.length,
+    missingFiles,
+    corruptFiles,
+    unverifiedFiles,
+    checkedAt: Date.now()
+  }
+
+  logger.log(
+    ` [Model Assets] Checked ${modelId} in ${(performance.now() - startTime).toFixed(2)}ms:`,
+    status
+  )
+  return status
+}
+
+export function getModelAssetStatus(
+  modelId: string,
+  options: { force?: boolean } = {}
+): Promise<ModelAssetStatus> {
+  if (options.force || !statusCache.has(modelId)) {
+    statusCache.set(
+      modelId,
+      checkModelAssets(modelId).catch((error) => {
+        statusCache.delete(modelId)
+        throw error
+      })
+    )
+  }
+  return statusCache.get(modelId)!
+}
+
+// Files without a checksum in the manifest are not trusted either
+export function isModelUsable(status: ModelAssetStatus): boolean {
+  return status.verified
+}
+
+export async function importModelFiles(
+  modelId: string,
+  files: File[]
+): Promise<ModelAssetStatus> {
+  if (!getEmbeddingModel(modelId)) {
+    throw new Error(`Unknown embedding model: ${modelId}`)
+  }
+
+  const byName = new Map(files.map((file) => [file.name, file]))
+  const missing = EMBEDDING_MODEL_FILES.filter(
+    (path) => !byName.has(path.split("/").pop()!)
+  )
+  if (missing.length > 0) {
+    throw new Error(`Missing model files: ${missing.join(", ")}`)
+  }
+
+  const expectedFiles = (await loadModelManifest())[modelId]
+  if (!expectedFiles) {
+    throw new Error(
+      `This build has no checksums for ${modelId}, so its files cannot be verified`
+    )
+  }
+
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  for (const path of EMBEDDING_MODEL_FILES) {
+    const data = await byName.get(path.split("/").pop()!)!.arrayBuffer()
+    const expected = expectedFiles[path]
+
+    if (
+      !expected ||
+      data.byteLength !== expected.size ||
+      (await sha256(data)) !== expected.sha256
+    ) {
+      throw new Error(`${path} does not match the expected checksum`)
+    }
+
+    await cache.put(getImportedFileKey(modelId, path), new Response(data))
+  }
+
+  const imported = await getImportedModels()
+  imported[modelId] = { importedAt: Date.now() }
+  await chrome.storage.local.set({ [IMPORTS_KEY]: imported })
+
+  logger.log(` [Model Assets] Imported ${modelId} from local files`)
+  return getModelAssetStatus(modelId, { force: true })
+}
@@ -0,0 +1,257 @@
+import {
+  getBaseName,
+  getDirectory,
+  isRelativeReference,
+  SourceIndex
+} from "~services/import-service"
+import { convertMarkdownBody } from "~services/markdown-import-service"
+import type {
+  ImportCandidate,
+  ImportSourceFile,
+  NoteImporter
+} from "~types/import"
+import { normalizeCategoryPath } from "~util/category-path"
+import { parseCsv } from "~util/csv"
+
+const MARKDOWN_EXTENSION = /\.md$/i
+
+const CSV_EXTENSION = /(_all)?\.csv$/i
+
+// Notion appends the page id to every exported file and folder name
+const PAGE_ID_SUFFIX = /\s+[0-9a-f]{32}$/i
+
+const PROPERTY_LINE = /^([^:\n]{1,60}):\s(.*)$/
+
+interface NotionProperty {
+  name: string
+  value: string
+}
+
+function stripPageId(name: string): string {
+  return name.replace(PAGE_ID_SUFFIX, "").trim()
+}
+
+function getPageName(path: string): string {
+  return stripPageId(
+    getBaseName(path).replace(MARKDOWN_EXTENSION, "").replace(CSV_EXTENSION, "")
+  )
+}
+
+function getCategory(path: string): string {
+  const folders = getDirectory(path).split("/").filter(Boolean).map(stripPageId)
+  try {
+    return normalizeCategoryPath(folders.join("/"))
+  } catch {
+    return "general"
+  }
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+}
+
+function toMarkdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.map(escapeCell).join(" | ")} |`,
+    `|${" --- |".repeat(header.length)}`,
+    ...rows.map(
+      (row) =>
+        `| ${header.map((_, i) => escapeCell(row[i] || "")).join(" | ")} |`
+    )
+  ].join("\n")
+}
+
+function findProperty(
+  properties: NotionProperty[],
+  pattern: RegExp
+): string | undefined {
+  return properties.find((property) => pattern.test(property.name))?.value
+}
+
+function parseTime(value: string | undefined, fallback: number): number {
+  const parsed = value ? Date.parse(value) : NaN
+  return Number.isNaN(parsed) ? fallback : parsed
+}
+
+/**
+ * Splits a Notion page into its title, the "Name: value" property lines
+ * database rows start with, and the rest of the page.
+ */
+function parsePage(text: string, isDatabaseRow: boolean) {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/)
+  let title: string | undefined
+  if (/^#\s+/.test(lines[0] || "")) {
+    title = lines.shift()!.replace(/^#\s+/, "").trim()
+  }
+  while (lines.length > 0 && !lines[0].trim()) lines.shift()
+
+  const properties: NotionProperty[] = []
+  if (isDatabaseRow) {
+    while (lines.length > 0 && PROPERTY_LINE.test(lines[0])) {
+      const [, name, value] = PROPERTY_LINE.exec(lines.shift()!)!
+      properties.push({ name: name.trim(), value: value.trim() })
+    }
+  }
+
+  return { title, properties, body: lines.join("\n") }
+}
+
+// Links to a database's CSV point at the note made from that database
+function linkDatabases(
+  path: string,
+  markdown: string,
+  sources: SourceIndex
+): string {
+  return markdown.replace(
+    /\[([^\]\n]*)\]\(([^)\n]+\.csv)\)/gi,
+    (link, text: string, href: string) => {
+      if (!isRelativeReference(href)) return link
+      const file = sources.resolve(path, href)
+      return file ? `[[${getPageName(file.path)}]]` : text
+    }
+  )
+}
+
+function readDatabase(
+  file: ImportSourceFile,
+  rowTitles: Set<string>
+): ImportCandidate {
+  const title = getPageName(file.path)
+  const time = file.modifiedAt || Date.now()
+
+  return {
+    path: file.path,
+    title,
+    category: getCategory(file.path),
+    tags: [],
+    createdAt: time,
+    updatedAt: time,
+    buildDoc: async (saveAttachments) => {
+      const [header = [], ...rows] = parseCsv(await file.blob.text())
+      const linkedRows = rows.map(([first = "", ...rest]) => [
+        rowTitles.has(first.trim()) ? `[[${first.trim()}]]` : first,
+        ...rest
+      ])
+      const { doc, attachmentCount, missingAttachments } =
+        await convertMarkdownBody(
+          file.path,
+          header.length > 0 ? toMarkdownTable(header, linkedRows) : "",
+          new SourceIndex([]),
+          new Map(),
+          saveAttachments
+        )
+      return { doc, attachmentCount, missingAttachments }
+    }
+  }
+}
+
+async function readCandidates(
+  files: ImportSourceFile[],
+  reportError: (path: string, error: unknown) => void
+): Promise<ImportCandidate[]> {
+  const sources = new SourceIndex(files)
+  const pages = files.filter((file) => MARKDOWN_EXTENSION.test(file.path))
+
+  // Newer exports write both "Name.csv" and "Name_all.csv"; prefer the latter
+  const databases = new Map<string, ImportSourceFile>()
+  for (const file of files.filter((file) => CSV_EXTENSION.test(file.path))) {
+    const key = file.path.replace(CSV_EXTENSION, "").toLowerCase()
+    if (!databases.has(key) || /_all\.csv$/i.test(file.path)) {
+      databases.set(key, file)
+    }
+  }
+
+  const parsedPages = new Map<
+    string,
+    ReturnType<typeof parsePage> & { file: ImportSourceFile }
+  >()
+  for (const file of pages) {
+    try {
+      const isDatabaseRow = databases.has(
+        getDirectory(file.path).replace(/\/$/, "").toLowerCase()
+      )
+      parsedPages.set(file.path, {
+        ...parsePage(await file.blob.text(), isDatabaseRow),
+        file
+      })
+    } catch (error) {
+      reportError(file.path, error)
+    }
+  }
+
+  const titlesByPath = new Map(
+    Array.from(parsedPages, ([path, page]) => [
+      path,
+      page.title || getPageName(path)
+    ])
+  )
+
+  const candidates: ImportCandidate[] = []
+  for (const [key, file] of databases) {
+    const rowTitles = new Set(
+      Array.from(titlesByPath)
+        .filter(([path]) => getDirectory(path).toLowerCase() === `${key}/`)
+        .map(([, title]) => title)
+    )
+    candidates.push(readDatabase(file, rowTitles))
+  }
+
+  for (const [path, page] of parsedPages) {
+    const fallbackTime = page.file.modifiedAt || Date.now()
+    const updatedAt = parseTime(
+      findProperty(page.properties, /^(last edited|updated)/i),
+      fallbackTime
+    )
+    const tagValue = findProperty(page.properties, /^tags?$/i)
+    const properties = page.properties.filter(
+      (property) => property.value && !/^tags?$/i.test(property.name)
+    )
+
+    candidates.push({
+      path,
+      title: titlesByPath.get(path)!,
+      category: getCategory(path),
+      tags: tagValue
+        ? tagValue
+            .split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean)
+        : [],
+      sourceUrl: findProperty(page.properties, /^(url|link|source)$/i),
+      createdAt: parseTime(
+        findProperty(page.properties, /^created/i),
+        updatedAt
+      ),
+      updatedAt,
+      buildDoc: async (saveAttachments) => {
+        const table =
+          properties.length > 0
+            ? toMarkdownTable(
+                ["Property", "Value"],
+                properties.map((property) => [property.name, property.value])
+              ) + "\n\n"
+            : ""
+        const { doc, attachmentCount, missingAttachments } =
+          await convertMarkdownBody(
+            path,
+            table + linkDatabases(path, page.body, sources),
+            sources,
+            titlesByPath,
+            saveAttachments
+          )
+        return { doc, attachmentCount, missingAttachments }
+      }
+    })
+  }
+
+  return candidates
+}
+
+export const notionImporter: NoteImporter = {
+  id: "notion",
+  label: "Notion",
+  description:
+    'Import a Notion workspace exported as "Markdown & CSV". Pages keep their folder structure as categories, and each database becomes a note with a table of its rows.',
+  accept: ".zip",
+  readCandidates
+}
@@ -0,0 +1,140 @@
+import { generateBatchEmbeddings } from "~services/ai-service"
+import { syncNoteChunks } from "~services/chunk-service"
+import {
+  countNotesNeedingEmbedding,
+  getNote,
+  getNoteIdsNeedingEmbedding,
+  rebuildVectorIndex,
+  updateNoteEmbedding
+} from "~services/db-service"
+import { updateEmbeddingSettings } from "~services/embedding-settings"
+import { getModelAssetStatus, isModelUsable } from "~services/model-assets"
+import { createResumableJob } from "~services/resumable-job"
+import type { ReembedJobState } from "~types/embedding"
+import { logger } from "~utils/logger"
+
+const BATCH_SIZE = 10
+
+async function embedBatch(job: ReembedJobState): Promise<ReembedJobState> {
+  if (!isModelUsable(await getModelAssetStatus(job.modelId))) {
+    logger.error(` [Re-embed] ${job.modelId} is not installed`)
+    return {
+      ...job,
+      status: "failed",
+      error: `Embedding model ${job.modelId} is not installed`,
+      updatedAt: Date.now()
+    }
+  }
+
+  const noteIds = await getNoteIdsNeedingEmbedding(
+    job.modelId,
+    BATCH_SIZE,
+    job.failedNoteIds
+  )
+
+  if (noteIds.length === 0) {
+    await rebuildVectorIndex()
+    logger.log(
+      ` [Re-embed] Finished ${job.modelId}: ${job.processed} notes, ${job.failedNoteIds.length} failed`
+    )
+    return { ...job, status: "completed", updatedAt: Date.now() }
+  }
+
+  let processed = job.processed
+  const failedNoteIds = [...job.failedNoteIds]
+
+  const notes = []
+  for (const noteId of noteIds) {
+    const note = await getNote(noteId)
+    if (note) {
+      notes.push(note)
+    } else {
+      failedNoteIds.push(noteId)
+    }
+  }
+
+  let embeddings: number[][]
+  try {
+    embeddings = await generateBatchEmbeddings(
+      notes.map((note) => note.contentPlaintext),
+      { modelId: job.modelId }
+    )
+  } catch (error) {
+    logger.error(` [Re-embed] Embedding batch failed:`, error)
+    return {
+      ...job,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      updatedAt: Date.now()
+    }
+  }
+
+  for (const [index, note] of notes.entries()) {
+    try {
+      if (
+        !(await updateNoteEmbedding(note.id, embeddings[index], job.modelId))
+      ) {
+        failedNoteIds.push(note.id)
+        continue
+      }
+
+      await syncNoteChunks(
+        note.id,
+        note.title,
+        note.content,
+        note.contentPlaintext,
+        embeddings[index],
+        job.modelId
+      )
+      processed++
+    } catch (error) {
+      logger.error(` [Re-embed] Failed to re-embed note ${note.id}:`, error)
+      failedNoteIds.push(note.id)
+    }
+  }
+
+  return {
+    ...job,
+    processed,
+    failedNoteIds,
+    total: Math.max(job.total, processed + failedNoteIds.length),
+    updatedAt: Date.now()
+  }
+}
+
+const reembedJob = createResumableJob<ReembedJobState>({
+  key: "mindkeep_reembed_job",
+  tag: "Re-embed",
+  describe: (job) => `job for ${job.modelId}`,
+  isSameJob: (a, b) => a.modelId === b.modelId,
+  runBatch: embedBatch
+})
+
+export const getReembedJobState = reembedJob.getState
+
+export const onReembedJobStateChanged = reembedJob.onStateChanged
+
+export const resumeReembedJob = reembedJob.resume
+
+export const cancelReembedJob = reembedJob.cancel
+
+export async function startReembedJob(
+  modelId: string
+): Promise<ReembedJobState> {
+  await updateEmbeddingSettings({ modelId })
+
+  const now = Date.now()
+  const job: ReembedJobState = {
+    status: "running",
+    modelId,
+    total: await countNotesNeedingEmbedding(modelId),
+    processed: 0,
+    failedNoteIds: [],
+    startedAt: now,
+    updatedAt: now
+  }
+  logger.log(
+    ` [Re-embed] Started job for ${modelId} (${job.total} notes to embed)`
+  )
+  return reembedJob.start(job)
+}
@@ -0,0 +1,158 @@
+import { isVaultUnlocked } from "~util/crypto"
+import { logger } from "~utils/logger"
+
+export interface ResumableJobState {
+  status: "idle" | "running" | "completed" | "failed" | "cancelled"
+
+  total: number
+
+  processed: number
+
+  startedAt: number
+
+  updatedAt: number
+
+  error?: string
+}
+
+export interface ResumableJob<T extends ResumableJobState> {
+  getState: () => Promise<T | null>
+  onStateChanged: (callback: (state: T | null) => void) => () => void
+  resume: () => Promise<T | null>
+  start: (state: T) => Promise<T>
+  cancel: () => Promise<T | null>
+}
+
+/**
+ * Keeps a long-running job in chrome.storage so it survives service worker
+ * restarts. Each call to runBatch handles one batch and returns the next
+ * state; the job pauses while the vault is locked and stops as soon as it
+ * is cancelled or replaced by a newer job.
+ */
+export function createResumableJob<T extends ResumableJobState>(options: {
+  key: string
+  tag: string
+  // Identifies the job in logs, e.g. "rotation to key_1"
+  describe: (job: T) => string
+  isSameJob: (a: T, b: T) => boolean
+  runBatch: (job: T) => Promise<T>
+}): ResumableJob<T> {
+  const { key, tag, describe, isSameJob, runBatch } = options
+  let activeRun: Promise<T | null> | null = null
+
+  async function getState(): Promise<T | null> {
+    try {
+      const result = await chrome.storage.local.get(key)
+      return (result[key] as T | undefined) || null
+    } catch (error) {
+      logger.error(` [${tag}] Error reading job state:`, error)
+      return null
+    }
+  }
+
+  async function saveState(state: T): Promise<void> {
+    await chrome.storage.local.set({ [key]: state })
+  }
+
+  function onStateChanged(callback: (state: T | null) => void): () => void {
+    const listener = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName === "local" && changes[key]) {
+        callback(changes[key].newValue || null)
+      }
+    }
+
+    chrome.storage.onChanged.addListener(listener)
+    return () => chrome.storage.onChanged.removeListener(listener)
+  }
+
+  function isCurrentJob(latest: T | null, job: T): boolean {
+    return (
+      latest?.status === "running" &&
+      latest.startedAt === job.startedAt &&
+      isSameJob(latest, job)
+    )
+  }
+
+  async function processJob(): Promise<T | null> {
+    let job = await getState()
+    if (!job || job.status !== "running") {
+      return job
+    }
+
+    logger.log(
+      ` [${tag}] Resuming ${describe(job)} at ${job.processed}/${job.total}`
+    )
+
+    while (true) {
+      if (!(await isVaultUnlocked())) {
+        logger.log(` [${tag}] Vault is locked, pausing until it is unlocked`)
+        return job
+      }
+
+      const next = await runBatch(job)
+
+      const latest = await getState()
+      if (!isCurrentJob(latest, job)) {
+        logger.log(` [${tag}] Job was cancelled or replaced, stopping`)
+        return latest
+      }
+
+      job = next
+      await saveState(job)
+      if (job.status !== "running") {
+        return job
+      }
+    }
+  }
+
+  function resume(): Promise<T | null> {
+    if (!activeRun) {
+      activeRun = processJob()
+        .catch(async (error) => {
+          logger.error(` [${tag}] Job crashed:`, error)
+          const job = await getState()
+          if (job?.status === "running") {
+            await saveState({
+              ...job,
+              status: "failed",
+              error: error instanceof Error ? error.message : String(error),
+              updatedAt: Date.now()
+            })
+          }
+          return getState()
+        })
+        .finally(() => {
+          activeRun = null
+        })
+    }
+    return activeRun
+  }
+
+  // Saves a running job and processes it once any current run has stopped
+  async function start(state: T): Promise<T> {
+    await saveState(state)
+    if (activeRun) {
+      activeRun.then(() => resume())
+    } else {
+      resume()
+    }
+    return state
+  }
+
+  async function cancel(): Promise<T | null> {
+    const job = await getState()
+    if (!job || job.status !== "running") {
+      return job
+    }
+
+    const cancelled: T = { ...job, status: "cancelled", updatedAt: Date.now() }
+    await saveState(cancelled)
+    logger.log(` [${tag}] Cancelled ${describe(job)}`)
+    return cancelled
+  }
+
+  return { getState, onStateChanged, resume, start, cancel }
+}
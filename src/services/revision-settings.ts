@@ -0,0 +1,61 @@
+import type { RevisionSettings } from "~types/revision"
+import { logger } from "~utils/logger"
+
+const SETTINGS_KEY = "mindkeep_revision_settings"
+
+const DEFAULT_SETTINGS: RevisionSettings = {
+  retentionMode: "count",
+  maxRevisions: 20,
+  maxAgeDays: 30,
+  lastUpdated: Date.now()
+}
+
+export async function getRevisionSettings(): Promise<RevisionSettings> {
+  try {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    const settings = result[SETTINGS_KEY] as RevisionSettings | undefined
+
+    if (settings) {
+      return { ...DEFAULT_SETTINGS, ...settings }
+    }
+
+    return DEFAULT_SETTINGS
+  } catch (error) {
+    logger.error(" [Revision Settings] Error getting settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export async function updateRevisionSettings(
+  updates: Partial<Omit<RevisionSettings, "lastUpdated">>
+): Promise<RevisionSettings> {
+  logger.log(
+    " [Revision Settings] updateRevisionSettings called with:",
+    updates
+  )
+
+  try {
+    const current = await getRevisionSettings()
+    const newSettings: RevisionSettings = {
+      ...current,
+      ...updates,
+      lastUpdated: Date.now()
+    }
+
+    if (newSettings.maxRevisions < 1) {
+      throw new Error("At least one revision must be kept")
+    }
+
+    if (newSettings.maxAgeDays < 1) {
+      throw new Error("Revisions must be kept for at least one day")
+    }
+
+    await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+    logger.log(" [Revision Settings] Settings updated:", newSettings)
+
+    return newSettings
+  } catch (error) {
+    logger.error(" [Revision Settings] Error updating settings:", error)
+    throw error
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  formatIssues,
+  RPC_CONTRACT,
+  type RpcRequest,
+  type RpcResponse,
+  type RpcResult,
+  type RpcType
+} from "~services/rpc-contract"
+import { logger } from "~utils/logger"
+
+// Types with an empty request can be called without a payload
+type RpcArgs<T extends RpcType> =
+  {} extends RpcRequest<T>
+    ? [payload?: RpcRequest<T>, options?: RpcCallOptions]
+    : [payload: RpcRequest<T>, options?: RpcCallOptions]
+
+export interface RpcCallOptions {
+  timeoutMs?: number
+}
+
+/**
+ * Sends a message declared in the RPC contract and returns the raw result,
+ * for callers that need to tell a cancelled request from a failed one.
+ */
+export async function sendRpc<T extends RpcType>(
+  type: T,
+  ...[payload = {} as RpcRequest<T>, options = {}]: RpcArgs<T>
+): Promise<RpcResult<T>> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const request = chrome.runtime.sendMessage({ type, payload })
+  const response: RpcResult<T> | undefined = await (
+    options.timeoutMs
+      ? Promise.race([
+          request,
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(
+              () =>
+                reject(
+                  new Error(`${type} timed out after ${options.timeoutMs}ms`)
+                ),
+              options.timeoutMs
+            )
+          })
+        ])
+      : request
+  ).finally(() => clearTimeout(timer))
+
+  if (!response) {
+    throw new Error(`No response to ${type}`)
+  }
+  if (!response.success) {
+    return response
+  }
+
+  const parsed = RPC_CONTRACT[type].response.safeParse(response.data)
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid response to ${type}: ${formatIssues(parsed.error)}`
+    )
+  }
+  return { success: true, data: parsed.data as RpcResponse<T> }
+}
+
+export async function callRpc<T extends RpcType>(
+  type: T,
+  ...args: RpcArgs<T>
+): Promise<RpcResponse<T>> {
+  try {
+    const response = await sendRpc(type, ...args)
+    if (response.success === false) {
+      throw new Error(response.error || "Operation failed")
+    }
+    return response.data
+  } catch (error) {
+    logger.error(`[RPC] Error sending message ${type}:`, error)
+    throw error
+  }
+}
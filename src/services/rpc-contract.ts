@@ -0,0 +1,297 @@
+import { z } from "zod"
+
+import { MAX_EMBEDDING_TEXT_LENGTH } from "~config/embedding-models"
+import type {
+  Note,
+  NoteChunkMatch,
+  VectorSearchBenchmark
+} from "~services/db-service"
+import type { Persona } from "~types/persona"
+import { isNoteColor, type NoteColor } from "~util/note-colors"
+
+const empty = z.object({})
+
+const id = z.string().min(1)
+
+const vector = z.array(z.number())
+
+const noteColor = z.custom<NoteColor>(isNoteColor)
+
+// Response schemas are typed against the domain types where the compiler can
+// check them, so a field added to one but not the other fails to compile.
+// Nullable fields and tuples only check one way without strictNullChecks, and
+// the router's handler types cover that direction.
+const note: z.ZodType<Note> = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  contentPlaintext: z.string(),
+  category: z.string(),
+  embedding: vector.optional(),
+  embeddingModel: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  sourceUrl: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  attachmentIds: z.array(z.string()).optional(),
+  deletedAt: z.number().optional(),
+  sensitive: z.boolean().optional(),
+  color: noteColor.optional()
+})
+
+const snippet = z.object({
+  text: z.string(),
+  highlights: z.array(z.tuple([z.number(), z.number()]))
+})
+
+const scoredNote = z.object({ note, score: z.number() })
+
+const fullTextResult = scoredNote.extend({
+  snippet
+})
+
+const hybridResult = scoredNote.extend({
+  breakdown: z.object({
+    fused: z.number(),
+    keywordScore: z.number().nullable(),
+    keywordRank: z.number().nullable(),
+    vectorScore: z.number().nullable(),
+    vectorRank: z.number().nullable()
+  }),
+  snippet: snippet.optional()
+})
+
+const chunkMatch: z.ZodType<NoteChunkMatch> = z.object({
+  noteId: z.string(),
+  noteTitle: z.string(),
+  chunkIndex: z.number(),
+  headingPath: z.array(z.string()),
+  text: z.string(),
+  start: z.number(),
+  end: z.number(),
+  score: z.number()
+})
+
+const benchmark: z.ZodType<VectorSearchBenchmark> = z.object({
+  collectionSize: z.number(),
+  listCount: z.number(),
+  probeCount: z.number(),
+  queries: z.number(),
+  limit: z.number(),
+  recall: z.number(),
+  exactLatencyMs: z.number(),
+  approximateLatencyMs: z.number()
+})
+
+const statistics = z.object({
+  totalNotes: z.number(),
+  categories: z.array(
+    z.object({
+      category: z.string(),
+      count: z.number(),
+      directCount: z.number(),
+      lastUpdated: z.number()
+    })
+  ),
+  oldestNoteDate: z.number().nullable(),
+  newestNoteDate: z.number().nullable(),
+  lastModifiedDate: z.number().nullable()
+})
+
+const persona: z.ZodType<Persona> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  context: z.string(),
+  outputTemplate: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  isActive: z.boolean().optional(),
+  isDefault: z.boolean().optional()
+})
+
+const noteFields = z.object({
+  title: z.string(),
+  content: z.string(),
+  contentPlaintext: z.string(),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  attachmentIds: z.array(z.string()).optional(),
+  embedding: vector.optional(),
+  sensitive: z.boolean().optional(),
+  color: noteColor.optional()
+})
+
+const personaFields = z.object({
+  name: z.string(),
+  description: z.string(),
+  context: z.string(),
+  outputTemplate: z.string().optional(),
+  isDefault: z.boolean().optional()
+})
+
+function rpc<Req extends z.ZodType, Res extends z.ZodType>(
+  request: Req,
+  response: Res
+) {
+  return { request, response }
+}
+
+/**
+ * Every message the background service worker answers for content scripts
+ * and pages. The offscreen document answers AI_EMBED_BATCH and
+ * AI_EMBED_CANCEL too, but only when the background sends them. Requests
+ * are validated before a handler runs, and responses by the client before
+ * they are returned, so both sides have to agree on each type here.
+ */
+export const RPC_CONTRACT = {
+  DB_SEARCH_BY_VECTOR: rpc(
+    z.object({ vector, limit: z.number().int().positive().optional() }),
+    z.array(scoredNote)
+  ),
+  DB_SEARCH_BY_TITLE: rpc(z.object({ query: z.string() }), z.array(note)),
+  DB_SEARCH_FULL_TEXT: rpc(
+    z.object({
+      query: z.string(),
+      options: z
+        .object({
+          limit: z.number().optional(),
+          snippetLength: z.number().optional(),
+          category: z.string().optional()
+        })
+        .optional()
+    }),
+    z.array(fullTextResult)
+  ),
+  DB_SEARCH_HYBRID: rpc(
+    z.object({
+      query: z.string(),
+      vector: vector.nullable(),
+      options: z
+        .object({
+          limit: z.number().optional(),
+          keywordWeight: z.number().optional(),
+          vectorWeight: z.number().optional(),
+          rrfK: z.number().optional(),
+          candidateLimit: z.number().optional()
+        })
+        .optional()
+    }),
+    z.array(hybridResult)
+  ),
+  DB_SEARCH_CHUNKS: rpc(
+    z.object({
+      vector,
+      options: z
+        .object({
+          limit: z.number().optional(),
+          maxChunksPerNote: z.number().optional(),
+          noteIds: z.array(z.string()).optional()
+        })
+        .optional()
+    }),
+    z.array(chunkMatch)
+  ),
+  DB_BENCHMARK_VECTOR_SEARCH: rpc(
+    z.object({
+      queryCount: z.number().int().positive().optional(),
+      limit: z.number().int().positive().optional()
+    }),
+    benchmark.nullable()
+  ),
+  DB_GET_NOTE: rpc(
+    z.object({
+      id,
+      options: z.object({ includeEmbedding: z.boolean().optional() }).optional()
+    }),
+    note.nullable()
+  ),
+  DB_GET_ALL_NOTES: rpc(empty, z.array(note)),
+  DB_ADD_NOTE: rpc(
+    z.object({
+      note: noteFields.extend({
+        sourceUrl: z.string().optional(),
+        createdAt: z.number().optional(),
+        updatedAt: z.number().optional()
+      })
+    }),
+    note
+  ),
+  DB_UPDATE_NOTE: rpc(
+    z.object({ note: noteFields.partial().extend({ id }) }),
+    note.nullable()
+  ),
+  DB_DELETE_NOTE: rpc(z.object({ id }), z.boolean()),
+  DB_RESTORE_NOTE: rpc(z.object({ id }), z.boolean()),
+  DB_GET_ALL_CATEGORIES: rpc(empty, z.array(z.string())),
+  DB_GET_ALL_TAGS: rpc(empty, z.array(z.string())),
+  DB_GET_NOTES_BY_TAG: rpc(z.object({ tag: z.string() }), z.array(note)),
+  DB_GET_STATISTICS: rpc(empty, statistics),
+  DB_GET_PERSONA: rpc(z.object({ id }), persona.optional()),
+  DB_GET_ALL_PERSONAS: rpc(empty, z.array(persona)),
+  DB_GET_ACTIVE_PERSONA: rpc(empty, persona.nullable()),
+  DB_ADD_PERSONA: rpc(z.object({ persona: personaFields }), persona),
+  DB_UPDATE_PERSONA: rpc(
+    z.object({ persona: personaFields.partial().extend({ id }) }),
+    persona.optional()
+  ),
+  DB_DELETE_PERSONA: rpc(z.object({ id }), z.boolean()),
+  DB_SET_ACTIVE_PERSONA: rpc(z.object({ id: id.nullable() }), z.boolean()),
+  AI_GENERATE_EMBEDDING: rpc(
+    z.object({
+      text: z
+        .string()
+        .max(
+          MAX_EMBEDDING_TEXT_LENGTH,
+          `Embedding text must be at most ${MAX_EMBEDDING_TEXT_LENGTH} characters`
+        )
+    }),
+    z.array(z.number()).min(1)
+  ),
+  AI_EMBED_BATCH: rpc(
+    z.object({
+      requestId: id,
+      modelId: z.string().min(1),
+      texts: z.array(z.string())
+    }),
+    z.array(vector)
+  ),
+  AI_EMBED_CANCEL: rpc(z.object({ requestId: id }), z.boolean())
+}
+
+export type RpcType = keyof typeof RPC_CONTRACT
+
+// What a caller sends, before defaults are applied
+export type RpcRequest<T extends RpcType> = z.input<
+  (typeof RPC_CONTRACT)[T]["request"]
+>
+
+// What a handler receives once the request has been validated
+export type RpcPayload<T extends RpcType> = z.output<
+  (typeof RPC_CONTRACT)[T]["request"]
+>
+
+export type RpcResponse<T extends RpcType> = z.output<
+  (typeof RPC_CONTRACT)[T]["response"]
+>
+
+export type RpcResult<T extends RpcType> =
+  | { success: true; data: RpcResponse<T> }
+  | { success: false; error: string; cancelled?: boolean }
+
+export function isRpcType(type: unknown): type is RpcType {
+  return (
+    typeof type === "string" &&
+    Object.prototype.hasOwnProperty.call(RPC_CONTRACT, type)
+  )
+}
+
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ")
+}
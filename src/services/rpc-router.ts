@@ -0,0 +1,303 @@
+import { generateEmbedding } from "~services/ai-service"
+import * as dbService from "~services/db-service"
+import type { Note } from "~services/db-service"
+import {
+  cancelRemoteEmbedding,
+  embedTextsForRemote
+} from "~services/embedding-queue"
+import {
+  formatIssues,
+  isRpcType,
+  RPC_CONTRACT,
+  type RpcPayload,
+  type RpcResponse,
+  type RpcResult,
+  type RpcType
+} from "~services/rpc-contract"
+import { isSensitiveNote, maskSensitiveValues } from "~util/sensitive-content"
+import { logger } from "~utils/logger"
+
+type RpcHandlers = {
+  [T in RpcType]: (
+    payload: RpcPayload<T>,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<RpcResponse<T>>
+}
+
+export interface RpcRouterOptions {
+  // Log prefix of the context the router runs in
+  tag: string
+  shouldHideSensitiveNotes: (
+    sender: chrome.runtime.MessageSender
+  ) => Promise<boolean>
+}
+
+function createHandlers({
+  tag,
+  shouldHideSensitiveNotes
+}: RpcRouterOptions): RpcHandlers {
+  async function withoutHiddenNotes<T>(
+    sender: chrome.runtime.MessageSender,
+    results: T[],
+    getNote: (result: T) => Note
+  ): Promise<T[]> {
+    if (!(await shouldHideSensitiveNotes(sender))) {
+      return results
+    }
+    return results.filter((result) => !isSensitiveNote(getNote(result)))
+  }
+
+  async function visibleNote(
+    sender: chrome.runtime.MessageSender,
+    note: Note | null
+  ): Promise<Note | null> {
+    const [visible] = note
+      ? await withoutHiddenNotes(sender, [note], (note) => note)
+      : []
+    return visible || null
+  }
+
+  return {
+    DB_SEARCH_BY_VECTOR: async ({ vector, limit }, sender) => {
+      logger.log(` [${tag}] Searching by vector (limit: ${limit})`)
+      const results = await withoutHiddenNotes(
+        sender,
+        await dbService.searchNotesByVector(vector, limit),
+        (result) => result.note
+      )
+      logger.log(` [${tag}] Found ${results.length} results`)
+      return results
+    },
+
+    DB_SEARCH_BY_TITLE: async ({ query }, sender) => {
+      logger.log(` [${tag}] Searching by title: "${query}"`)
+      const results = await withoutHiddenNotes(
+        sender,
+        await dbService.searchNotesByTitle(query),
+        (note) => note
+      )
+      logger.log(` [${tag}] Found ${results.length} results`)
+      return results
+    },
+
+    DB_SEARCH_FULL_TEXT: async ({ query, options }, sender) => {
+      logger.log(` [${tag}] Full-text search: "${query}"`)
+      const results = await withoutHiddenNotes(
+        sender,
+        await dbService.searchNotesFullText(query, options),
+        (result) => result.note
+      )
+      logger.log(` [${tag}] Found ${results.length} results`)
+      return results
+    },
+
+    DB_SEARCH_HYBRID: async ({ query, vector, options }, sender) => {
+      logger.log(` [${tag}] Hybrid search: "${query}"`)
+      const results = await withoutHiddenNotes(
+        sender,
+        await dbService.searchNotesHybrid(query, vector, options),
+        (result) => result.note
+      )
+      logger.log(` [${tag}] Found ${results.length} results`)
+      return results
+    },
+
+    DB_SEARCH_CHUNKS: async ({ vector, options }, sender) => {
+      logger.log(` [${tag}] Searching note chunks`)
+      let results = await dbService.searchNoteChunks(vector, options)
+      if (await shouldHideSensitiveNotes(sender)) {
+        const sensitiveIds = await dbService.getSensitiveNoteIds()
+        results = results
+          .filter((chunk) => !sensitiveIds.has(chunk.noteId))
+          .map((chunk) => ({
+            ...chunk,
+            text: maskSensitiveValues(chunk.text)
+          }))
+      }
+      logger.log(` [${tag}] Found ${results.length} chunks`)
+      return results
+    },
+
+    DB_BENCHMARK_VECTOR_SEARCH: async ({ queryCount, limit }) => {
+      logger.log(` [${tag}] Benchmarking vector search`)
+      return await dbService.benchmarkVectorSearch(queryCount, limit)
+    },
+
+    DB_GET_NOTE: async ({ id, options }, sender) => {
+      logger.log(` [${tag}] Getting note: ${id}`)
+      return await visibleNote(sender, await dbService.getNote(id, options))
+    },
+
+    DB_GET_ALL_NOTES: async (_, sender) => {
+      logger.log(` [${tag}] Getting all notes`)
+      const notes = await withoutHiddenNotes(
+        sender,
+        await dbService.getAllNotes(),
+        (note) => note
+      )
+      logger.log(` [${tag}] Retrieved ${notes.length} notes`)
+      return notes
+    },
+
+    DB_ADD_NOTE: async ({ note }) => {
+      logger.log(` [${tag}] Adding note: ${note.title}`)
+      return await dbService.addNote(note)
+    },
+
+    DB_UPDATE_NOTE: async ({ note }, sender) => {
+      logger.log(` [${tag}] Updating note: ${note.id}`)
+      const { id, ...updates } = note
+      return await visibleNote(sender, await dbService.updateNote(id, updates))
+    },
+
+    DB_DELETE_NOTE: async ({ id }) => {
+      logger.log(` [${tag}] Deleting note: ${id}`)
+      return await dbService.deleteNote(id)
+    },
+
+    DB_RESTORE_NOTE: async ({ id }) => {
+      logger.log(` [${tag}] Restoring note: ${id}`)
+      return await dbService.restoreNote(id)
+    },
+
+    DB_GET_ALL_CATEGORIES: async () => {
+      logger.log(` [${tag}] Getting all categories`)
+      return await dbService.getAllCategories()
+    },
+
+    DB_GET_ALL_TAGS: async () => {
+      logger.log(` [${tag}] Getting all tags`)
+      return await dbService.getAllTags()
+    },
+
+    DB_GET_NOTES_BY_TAG: async ({ tag: noteTag }, sender) => {
+      logger.log(` [${tag}] Getting notes by tag: ${noteTag}`)
+      return await withoutHiddenNotes(
+        sender,
+        await dbService.getNotesByTag(noteTag),
+        (note) => note
+      )
+    },
+
+    DB_GET_STATISTICS: async () => {
+      logger.log(` [${tag}] Getting database statistics`)
+      const stats = await dbService.getDatabaseStatistics()
+      logger.log(
+        ` [${tag}] Stats: ${stats.totalNotes} notes, ${stats.categories.length} categories`
+      )
+      return stats
+    },
+
+    DB_GET_PERSONA: async ({ id }) => {
+      logger.log(` [${tag}] Getting persona: ${id}`)
+      return await dbService.getPersona(id)
+    },
+
+    DB_GET_ALL_PERSONAS: async () => {
+      logger.log(` [${tag}] Getting all personas`)
+      return await dbService.getAllPersonas()
+    },
+
+    DB_GET_ACTIVE_PERSONA: async () => {
+      logger.log(` [${tag}] Getting active persona`)
+      return await dbService.getActivePersona()
+    },
+
+    DB_ADD_PERSONA: async ({ persona }) => {
+      logger.log(` [${tag}] Adding persona: ${persona.name}`)
+      return await dbService.addPersona(persona)
+    },
+
+    DB_UPDATE_PERSONA: async ({ persona }) => {
+      logger.log(` [${tag}] Updating persona: ${persona.id}`)
+      const { id, ...updates } = persona
+      return await dbService.updatePersona(id, updates)
+    },
+
+    DB_DELETE_PERSONA: async ({ id }) => {
+      logger.log(` [${tag}] Deleting persona: ${id}`)
+      return await dbService.deletePersona(id)
+    },
+
+    DB_SET_ACTIVE_PERSONA: async ({ id }) => {
+      logger.log(` [${tag}] Setting active persona: ${id}`)
+      return await dbService.setActivePersona(id)
+    },
+
+    AI_GENERATE_EMBEDDING: async ({ text }) => {
+      logger.log(
+        ` [${tag}] Generating embedding for text (${text.length} chars)`
+      )
+      const embedding = await generateEmbedding(text)
+      logger.log(
+        ` [${tag}] Generated embedding (${embedding.length} dimensions)`
+      )
+      return embedding
+    },
+
+    AI_EMBED_BATCH: async ({ requestId, modelId, texts }) => {
+      logger.log(` [${tag}] Embedding batch of ${texts.length} texts`)
+      return await embedTextsForRemote(requestId, modelId, texts)
+    },
+
+    AI_EMBED_CANCEL: async ({ requestId }) => {
+      logger.log(` [${tag}] Cancelling embedding request ${requestId}`)
+      return cancelRemoteEmbedding(requestId)
+    }
+  }
+}
+
+async function dispatch<T extends RpcType>(
+  handlers: RpcHandlers,
+  type: T,
+  payload: unknown,
+  sender: chrome.runtime.MessageSender
+): Promise<RpcResult<T>> {
+  const parsed = RPC_CONTRACT[type].request.safeParse(payload ?? {})
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid ${type} request: ${formatIssues(parsed.error)}`
+    }
+  }
+
+  const handler = handlers[type] as (
+    payload: RpcPayload<T>,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<RpcResponse<T>>
+  return {
+    success: true,
+    data: await handler(parsed.data as RpcPayload<T>, sender)
+  }
+}
+
+/**
+ * Creates the handler for every message in the RPC contract. The returned
+ * function resolves to null for messages outside the contract, so the
+ * caller can answer those itself.
+ */
+export function createRpcRouter(options: RpcRouterOptions) {
+  const handlers = createHandlers(options)
+
+  return async (
+    message: { type?: unknown; payload?: unknown },
+    sender: chrome.runtime.MessageSender
+  ): Promise<RpcResult<RpcType> | null> => {
+    if (!isRpcType(message?.type)) {
+      return null
+    }
+
+    try {
+      return await dispatch(handlers, message.type, message.payload, sender)
+    } catch (error) {
+      if (error?.name === "AbortError") {
+        return { success: false, error: error.message, cancelled: true }
+      }
+      logger.error(` [${options.tag}] Error handling ${message.type}:`, error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import type { SearchSettings } from "~types/search"
+import { logger } from "~utils/logger"
+
+const SETTINGS_KEY = "mindkeep_search_settings"
+
+const DEFAULT_SETTINGS: SearchSettings = {
+  keywordWeight: 1,
+  vectorWeight: 1,
+  rrfK: 60,
+  candidateLimit: 20,
+  lastUpdated: Date.now()
+}
+
+export async function getSearchSettings(): Promise<SearchSettings> {
+  try {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    const settings = result[SETTINGS_KEY] as SearchSettings | undefined
+
+    if (settings) {
+      return { ...DEFAULT_SETTINGS, ...settings }
+    }
+
+    return DEFAULT_SETTINGS
+  } catch (error) {
+    logger.error(" [Search Settings] Error getting settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export async function updateSearchSettings(
+  updates: Partial<Omit<SearchSettings, "lastUpdated">>
+): Promise<SearchSettings> {
+  logger.log(" [Search Settings] updateSearchSettings called with:", updates)
+
+  try {
+    const current = await getSearchSettings()
+    const newSettings: SearchSettings = {
+      ...current,
+      ...updates,
+      lastUpdated: Date.now()
+    }
+
+    if (newSettings.keywordWeight < 0 || newSettings.vectorWeight < 0) {
+      throw new Error("Search weights cannot be negative")
+    }
+
+    if (newSettings.keywordWeight + newSettings.vectorWeight === 0) {
+      throw new Error("At least one search weight must be above zero")
+    }
+
+    if (newSettings.rrfK < 1 || newSettings.candidateLimit < 1) {
+      throw new Error("Fusion constant and candidate limit must be positive")
+    }
+
+    await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+    logger.log(" [Search Settings] Settings updated:", newSettings)
+
+    return newSettings
+  } catch (error) {
+    logger.error(" [Search Settings] Error updating settings:", error)
+    throw error
+  }
+}
@@ -0,0 +1,52 @@
+import { isPassphraseEnabled, verifyPassphrase } from "~util/crypto"
+import { logger } from "~utils/logger"
+
+// Session storage is not readable from content scripts, so pages cannot
+// grant themselves access
+const ACCESS_KEY = "mindkeep_sensitive_access"
+
+export const SENSITIVE_ACCESS_MINUTES = 5
+
+type AccessGrants = Record<string, number>
+
+async function getGrants(): Promise<AccessGrants> {
+  const result = await chrome.storage.session.get(ACCESS_KEY)
+  return (result[ACCESS_KEY] as AccessGrants | undefined) || {}
+}
+
+export function isInPageSender(sender: chrome.runtime.MessageSender): boolean {
+  return !!sender.tab && !sender.url?.startsWith(chrome.runtime.getURL(""))
+}
+
+export async function hasSensitiveAccess(tabId: number): Promise<boolean> {
+  return ((await getGrants())[tabId] || 0) > Date.now()
+}
+
+export async function grantSensitiveAccess(
+  tabId: number,
+  passphrase: string
+): Promise<number> {
+  if (!(await isPassphraseEnabled())) {
+    throw new Error(
+      "Set a passphrase in MindKeep settings to show sensitive notes on web pages"
+    )
+  }
+  await verifyPassphrase(passphrase)
+
+  const now = Date.now()
+  const grants: AccessGrants = {}
+  for (const [grantedTabId, expiresAt] of Object.entries(await getGrants())) {
+    if (expiresAt > now) grants[grantedTabId] = expiresAt
+  }
+  grants[tabId] = now + SENSITIVE_ACCESS_MINUTES * 60 * 1000
+
+  await chrome.storage.session.set({ [ACCESS_KEY]: grants })
+  logger.log(
+    ` [Sensitive Notes] Showing sensitive notes in tab ${tabId} for ${SENSITIVE_ACCESS_MINUTES} minutes`
+  )
+  return grants[tabId]
+}
+
+export async function revokeSensitiveAccess(): Promise<void> {
+  await chrome.storage.session.remove(ACCESS_KEY)
+}
@@ -0,0 +1,121 @@
+import {
+  applyStorageMode,
+  countRecordsNotInStorageMode
+} from "~services/db-service"
+import { createResumableJob } from "~services/resumable-job"
+import { getVaultSettings, updateVaultSettings } from "~services/vault-settings"
+import type { StorageMode, StorageModeJobState } from "~types/vault"
+import { ensureBlindIndexKey } from "~util/crypto"
+import { logger } from "~utils/logger"
+
+const BATCH_SIZE = 25
+
+async function finishJob(
+  job: StorageModeJobState
+): Promise<StorageModeJobState> {
+  const remaining = await countRecordsNotInStorageMode(job.mode)
+
+  if (remaining > 0 || job.failedRecords.length > 0) {
+    logger.warn(
+      ` [Storage Mode] ${remaining} records are still in the previous layout`
+    )
+    return {
+      ...job,
+      status: "failed",
+      error: `${remaining} records could not be converted. They stay readable and can be retried.`,
+      updatedAt: Date.now()
+    }
+  }
+
+  logger.log(
+    ` [Storage Mode] Finished switching to ${job.mode}: ${job.processed} records converted`
+  )
+  return { ...job, status: "completed", updatedAt: Date.now() }
+}
+
+async function convertBatch(
+  job: StorageModeJobState
+): Promise<StorageModeJobState> {
+  const { converted, failedRefs } = await applyStorageMode(
+    job.mode,
+    BATCH_SIZE,
+    job.failedRecords
+  )
+
+  if (converted === 0 && failedRefs.length === 0) {
+    return finishJob(job)
+  }
+
+  const processed = job.processed + converted
+  const failedRecords = [...job.failedRecords, ...failedRefs]
+  return {
+    ...job,
+    processed,
+    failedRecords,
+    total: Math.max(job.total, processed + failedRecords.length),
+    updatedAt: Date.now()
+  }
+}
+
+const storageModeJob = createResumableJob<StorageModeJobState>({
+  key: "mindkeep_storage_mode_job",
+  tag: "Storage Mode",
+  describe: (job) => `switch to ${job.mode}`,
+  isSameJob: (a, b) => a.mode === b.mode,
+  runBatch: convertBatch
+})
+
+export const getStorageModeJobState = storageModeJob.getState
+
+export const onStorageModeJobStateChanged = storageModeJob.onStateChanged
+
+export const resumeStorageModeJob = storageModeJob.resume
+
+export const cancelStorageModeJob = storageModeJob.cancel
+
+export async function setStorageMode(
+  mode: StorageMode
+): Promise<StorageModeJobState> {
+  if (mode === "encrypt-everything") {
+    await ensureBlindIndexKey()
+  }
+  await updateVaultSettings({ storageMode: mode })
+
+  const now = Date.now()
+  const job: StorageModeJobState = {
+    status: "running",
+    mode,
+    total: await countRecordsNotInStorageMode(mode),
+    processed: 0,
+    failedRecords: [],
+    startedAt: now,
+    updatedAt: now
+  }
+  logger.log(
+    ` [Storage Mode] Switching to ${mode} (${job.total} records to convert)`
+  )
+  return storageModeJob.start(job)
+}
+
+export async function retryStorageModeJob(): Promise<StorageModeJobState> {
+  const job = await getStorageModeJobState()
+  if (!job || (job.status !== "failed" && job.status !== "cancelled")) {
+    throw new Error("There is no interrupted storage mode change to retry")
+  }
+
+  if (job.mode !== (await getVaultSettings()).storageMode) {
+    throw new Error("The storage mode changed since. Switch it again instead.")
+  }
+
+  const retried: StorageModeJobState = {
+    ...job,
+    status: "running",
+    failedRecords: [],
+    error: undefined,
+    total: job.processed + (await countRecordsNotInStorageMode(job.mode)),
+    startedAt: Date.now(),
+    updatedAt: Date.now()
+  }
+  logger.log(` [Storage Mode] Retrying switch to ${job.mode}`)
+  return storageModeJob.start(retried)
+}
@@ -0,0 +1,52 @@
+import type { TrashSettings } from "~types/trash"
+import { logger } from "~utils/logger"
+
+const SETTINGS_KEY = "mindkeep_trash_settings"
+
+const DEFAULT_SETTINGS: TrashSettings = {
+  retentionDays: 30,
+  lastUpdated: Date.now()
+}
+
+export async function getTrashSettings(): Promise<TrashSettings> {
+  try {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    const settings = result[SETTINGS_KEY] as TrashSettings | undefined
+
+    if (settings) {
+      return { ...DEFAULT_SETTINGS, ...settings }
+    }
+
+    return DEFAULT_SETTINGS
+  } catch (error) {
+    logger.error(" [Trash Settings] Error getting settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export async function updateTrashSettings(
+  updates: Partial<Omit<TrashSettings, "lastUpdated">>
+): Promise<TrashSettings> {
+  logger.log(" [Trash Settings] updateTrashSettings called with:", updates)
+
+  try {
+    const current = await getTrashSettings()
+    const newSettings: TrashSettings = {
+      ...current,
+      ...updates,
+      lastUpdated: Date.now()
+    }
+
+    if (newSettings.retentionDays < 1) {
+      throw new Error("Notes must stay in the trash for at least one day")
+    }
+
+    await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+    logger.log(" [Trash Settings] Settings updated:", newSettings)
+
+    return newSettings
+  } catch (error) {
+    logger.error(" [Trash Settings] Error updating settings:", error)
+    throw error
+  }
+}
@@ -0,0 +1,68 @@
+import type { StorageMode, VaultSettings } from "~types/vault"
+import { logger } from "~utils/logger"
+
+const SETTINGS_KEY = "mindkeep_vault_settings"
+
+// chrome.idle.setDetectionInterval accepts at most 4 hours
+const MAX_AUTO_LOCK_MINUTES = 4 * 60
+
+const STORAGE_MODES: StorageMode[] = ["standard", "encrypt-everything"]
+
+const DEFAULT_SETTINGS: VaultSettings = {
+  autoLockMinutes: 15,
+  storageMode: "standard",
+  lastUpdated: Date.now()
+}
+
+export async function getVaultSettings(): Promise<VaultSettings> {
+  try {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    const settings = result[SETTINGS_KEY] as VaultSettings | undefined
+
+    if (settings) {
+      return { ...DEFAULT_SETTINGS, ...settings }
+    }
+
+    return DEFAULT_SETTINGS
+  } catch (error) {
+    logger.error(" [Vault Settings] Error getting settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export async function updateVaultSettings(
+  updates: Partial<Omit<VaultSettings, "lastUpdated">>
+): Promise<VaultSettings> {
+  logger.log(" [Vault Settings] updateVaultSettings called with:", updates)
+
+  try {
+    const current = await getVaultSettings()
+    const newSettings: VaultSettings = {
+      ...current,
+      ...updates,
+      lastUpdated: Date.now()
+    }
+
+    if (
+      !Number.isInteger(newSettings.autoLockMinutes) ||
+      newSettings.autoLockMinutes < 0 ||
+      newSettings.autoLockMinutes > MAX_AUTO_LOCK_MINUTES
+    ) {
+      throw new Error(
+        `Auto-lock must be between 0 and ${MAX_AUTO_LOCK_MINUTES} minutes`
+      )
+    }
+
+    if (!STORAGE_MODES.includes(newSettings.storageMode)) {
+      throw new Error(`Unknown storage mode "${newSettings.storageMode}"`)
+    }
+
+    await chrome.storage.local.set({ [SETTINGS_KEY]: newSettings })
+    logger.log(" [Vault Settings] Settings updated:", newSettings)
+
+    return newSettings
+  } catch (error) {
+    logger.error(" [Vault Settings] Error updating settings:", error)
+    throw error
+  }
+}
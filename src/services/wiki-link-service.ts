@@ -0,0 +1,70 @@
+import {
+  getLinkSourceNoteIds,
+  getNote,
+  replaceNoteLinks
+} from "~services/db-service"
+import { tiptapToMarkdown } from "~util/tiptap-to-markdown"
+import {
+  extractWikiLinks,
+  parseTipTapContent,
+  rewriteWikiLinks
+} from "~util/wiki-links"
+import { logger } from "~utils/logger"
+
+export async function syncNoteLinks(
+  noteId: string,
+  content: string
+): Promise<number> {
+  const doc = parseTipTapContent(content)
+  if (!doc) {
+    return await replaceNoteLinks(noteId, [])
+  }
+
+  return await replaceNoteLinks(noteId, extractWikiLinks(doc))
+}
+
+/**
+ * Points wiki links at a renamed note to its new title. Each rewritten note
+ * is saved through `saveContent`, which should re-embed and re-chunk it like
+ * any other edit.
+ */
+export async function rewriteLinksToRenamedNote(
+  noteId: string,
+  oldTitle: string,
+  newTitle: string,
+  saveContent: (
+    id: string,
+    content: string,
+    contentPlaintext: string
+  ) => Promise<void>
+): Promise<number> {
+  if (oldTitle === newTitle) {
+    return 0
+  }
+
+  const sourceIds = await getLinkSourceNoteIds(noteId, oldTitle)
+  let rewrittenCount = 0
+
+  for (const sourceId of sourceIds) {
+    try {
+      const source = await getNote(sourceId)
+      const doc = source ? parseTipTapContent(source.content) : null
+      if (!doc || !rewriteWikiLinks(doc, { noteId, oldTitle }, newTitle)) {
+        continue
+      }
+
+      await saveContent(sourceId, JSON.stringify(doc), tiptapToMarkdown(doc))
+      rewrittenCount++
+    } catch (error) {
+      logger.error(
+        ` [Wiki Links] Failed to rewrite links in ${sourceId}:`,
+        error
+      )
+    }
+  }
+
+  logger.log(
+    ` [Wiki Links] Rewrote links "${oldTitle}" → "${newTitle}" in ${rewrittenCount} notes`
+  )
+  return rewrittenCount
+}
@@ -5,44 +5,66 @@ import "~style.css"
 import { AISearchBar } from "~components/AISearchBar"
 import { AIStatusBanner } from "~components/AIStatusBanner"
 import { AnimatedCategoryTabs } from "~components/AnimatedCategoryTabs"
+import { CategoryTreeView } from "~components/CategoryTreeView"
 import { Header } from "~components/Header"
 import { NoteEditor, type RichTextEditorRef } from "~components/NoteEditor"
 import { PersonaManager } from "~components/PersonaManager"
+import { SettingsView } from "~components/SettingsView"
+import { TagFilterBar } from "~components/TagFilterBar"
 import { TourGuide, useTourState } from "~components/TourGuide"
+import { TrashView } from "~components/TrashView"
+import { VaultUnlockScreen } from "~components/VaultUnlockScreen"
+import type { WikiLinkTarget } from "~components/WikiLink"
 import { sidePanelTourSteps } from "~config/tour-steps"
 import {
   checkAllAIServices,
-  generateEmbedding,
+  generateNoteEmbedding,
   generateTitle,
   type HealthCheckStatus
 } from "~services/ai-service"
+import { externalizeInlineImages } from "~services/attachment-service"
 import {
   deleteNote,
   getAllCategories,
   getAllNotes,
+  getAllTags,
+  getNote,
   searchNotesByTitle,
-  type Note
+  type Note,
+  type NoteRevision
 } from "~services/db-service"
 import { getGlobalAgent } from "~services/langchain-agent"
 import { initializeDefaultPersonas } from "~services/persona-defaults"
 import type { Persona } from "~types/persona"
+import { isInCategoryPath } from "~util/category-path"
+import { onVaultLocked } from "~util/crypto"
 import { logger } from "~utils/logger"
 
-type View = "list" | "editor" | "personas"
+type View = "list" | "editor" | "personas" | "trash" | "categories" | "settings"
 
 function SidePanel() {
   const [view, setView] = useState<View>("list")
   const [notes, setNotes] = useState<Note[]>([])
   const [categories, setCategories] = useState<string[]>([])
   const [selectedCategory, setSelectedCategory] = useState<string>("all")
+  const [tags, setTags] = useState<string[]>([])
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [categoryPathFilter, setCategoryPathFilter] = useState<string | null>(
+    null
+  )
   const [searchQuery, setSearchQuery] = useState("")
   const [loading, setLoading] = useState(false)
   const [aiStatus, setAiStatus] = useState<HealthCheckStatus[]>([])
+  const [vaultLocked, setVaultLocked] = useState(false)
 
   const [editingNote, setEditingNote] = useState<Note | null>(null)
   const [noteTitle, setNoteTitle] = useState("")
   const [noteContent, setNoteContent] = useState("")
   const [noteCategory, setNoteCategory] = useState("general")
+  const [noteTags, setNoteTags] = useState<string[]>([])
+  const [noteSensitive, setNoteSensitive] = useState<boolean | undefined>(
+    undefined
+  )
   const [noteSourceUrl, setNoteSourceUrl] = useState<string | undefined>(
     undefined
   )
@@ -86,6 +108,8 @@ function SidePanel() {
 
         setNoteTitle("")
         setNoteCategory("general")
+        setNoteTags([])
+        setNoteSensitive(undefined)
         setNoteSourceUrl(sourceUrl)
         setEditingNote(null)
         setView("editor")
@@ -113,15 +137,36 @@ function SidePanel() {
     }
   }, [hasCompletedTour, view, startTour])
 
+  useEffect(() => {
+    chrome.runtime
+      .sendMessage({ type: "GET_VAULT_STATUS" })
+      .then((response) => setVaultLocked(!!response?.status?.locked))
+      .catch((error) => logger.error("Error loading vault status:", error))
+
+    return onVaultLocked(() => {
+      logger.log(" [Vault] Locked, hiding notes")
+      setVaultLocked(true)
+      setNotes([])
+    })
+  }, [])
+
+  const handleVaultUnlocked = () => {
+    setVaultLocked(false)
+    loadData()
+  }
+
   const loadData = async () => {
     setLoading(true)
     try {
-      const [allNotes, allCategories] = await Promise.all([
+      const [allNotes, allCategories, allTags] = await Promise.all([
         getAllNotes(),
-        getAllCategories()
+        getAllCategories(),
+        getAllTags()
       ])
       setNotes(allNotes)
       setCategories(allCategories)
+      setTags(allTags)
+      setSelectedTags((prev) => prev.filter((tag) => allTags.includes(tag)))
     } catch (error) {
       logger.error("Error loading data:", error)
     }
@@ -138,6 +183,8 @@ function SidePanel() {
     setNoteTitle("")
     setNoteContent("")
     setNoteCategory("general")
+    setNoteTags([])
+    setNoteSensitive(undefined)
     setNoteSourceUrl(undefined)
     clearSearchQuery()
     setView("editor")
@@ -148,6 +195,8 @@ function SidePanel() {
     setNoteTitle(note.title)
     setNoteContent(note.content)
     setNoteCategory(note.category)
+    setNoteTags(note.tags || [])
+    setNoteSensitive(note.sensitive)
     setNoteSourceUrl(note.sourceUrl)
     clearSearchQuery()
     setView("editor")
@@ -191,6 +240,7 @@ function SidePanel() {
         }
       }
 
+      await externalizeInlineImages(contentJSON)
       const contentJSONString = JSON.stringify(contentJSON)
 
       if (editingNote) {
@@ -198,10 +248,15 @@ function SidePanel() {
         logger.log(" [UI Update] Updating existing note:", editingNote.id)
 
         const embeddingStartTime = performance.now()
-        const embedding = await generateEmbedding(contentPlaintext)
+        const embedding =
+          editingNote.contentPlaintext === contentPlaintext
+            ? undefined
+            : await generateNoteEmbedding(contentPlaintext)
         const embeddingTime = performance.now() - embeddingStartTime
         logger.log(
-          ` [UI Update] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embedding.length} dimensions)`
+          embedding
+            ? ` [UI Update] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embedding.length} dimensions)`
+            : " [UI Update] No new embedding, leaving it to the background"
         )
 
         const messageStartTime = performance.now()
@@ -213,6 +268,8 @@ function SidePanel() {
             content: contentJSONString,
             contentPlaintext,
             category: categoryToSave,
+            tags: noteTags,
+            sensitive: noteSensitive,
             embedding
           }
         })
@@ -235,10 +292,10 @@ function SidePanel() {
         logger.log(" [UI Save] Creating new note...")
 
         const embeddingStartTime = performance.now()
-        const embedding = await generateEmbedding(contentPlaintext)
+        const embedding = await generateNoteEmbedding(contentPlaintext)
         const embeddingTime = performance.now() - embeddingStartTime
         logger.log(
-          ` [UI Save] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embedding.length} dimensions)`
+          ` [UI Save] Embedding generation: ${embeddingTime.toFixed(2)}ms (${embedding?.length ?? 0} dimensions)`
         )
 
         // Use stored sourceUrl if available (from context menu), otherwise get from active tab
@@ -267,6 +324,8 @@ function SidePanel() {
             content: contentJSONString,
             contentPlaintext,
             category: categoryToSave,
+            tags: noteTags,
+            sensitive: noteSensitive,
             sourceUrl,
             embedding,
             _debugSaveId: saveId
@@ -301,8 +360,60 @@ function SidePanel() {
     setLoading(false)
   }
 
+  const handleRestoreRevision = async (revision: NoteRevision) => {
+    if (!editingNote) return
+
+    logger.log(
+      ` [UI Restore] Restoring revision ${revision.id} for note ${editingNote.id}`
+    )
+
+    const response = await chrome.runtime.sendMessage({
+      type: "UPDATE_NOTE",
+      data: {
+        id: editingNote.id,
+        title: revision.title,
+        content: revision.content,
+        contentPlaintext: revision.contentPlaintext,
+        category: revision.category
+      }
+    })
+
+    if (!response.success) {
+      throw new Error(response.error || "Restore failed")
+    }
+
+    setEditingNote(response.note)
+    setNoteTitle(revision.title)
+    setNoteCategory(revision.category)
+    setNoteContent(revision.content)
+    editorRef.current?.setContent(revision.content)
+    await loadData()
+  }
+
+  const handleOpenLinkedNote = async ({ noteId, title }: WikiLinkTarget) => {
+    logger.log(` [UI Wiki Link] Opening linked note "${title}" (${noteId})`)
+
+    let note = noteId ? await getNote(noteId) : null
+    if ((!note || note.deletedAt) && title) {
+      const matches = await searchNotesByTitle(title)
+      note =
+        matches.find((m) => m.title.toLowerCase() === title.toLowerCase()) ||
+        null
+    }
+
+    if (note && !note.deletedAt) {
+      handleEditNote(note)
+      return
+    }
+
+    if (title && confirm(`No note titled "${title}" exists. Create it?`)) {
+      handleCreateNew()
+      setNoteTitle(title)
+    }
+  }
+
   const handleDeleteNote = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this note?")) {
+    if (!confirm("Move this note to the trash?")) {
       return
     }
 
@@ -339,6 +450,27 @@ function SidePanel() {
     }
   }
 
+  const handleTrashClick = () => {
+    logger.log(" [SidePanel] Switching to trash view")
+    setView("trash")
+  }
+
+  const handleCategoriesClick = () => {
+    logger.log(" [SidePanel] Switching to categories view")
+    setView("categories")
+  }
+
+  const handleSettingsClick = () => {
+    logger.log(" [SidePanel] Switching to settings view")
+    setView("settings")
+  }
+
+  const handleSelectCategoryPath = (path: string) => {
+    logger.log(` [SidePanel] Filtering notes by category path: ${path}`)
+    setCategoryPathFilter(path)
+    setView("list")
+  }
+
   const handleBackToList = () => {
     logger.log(" [SidePanel] Switching back to list view")
     setView("list")
@@ -439,7 +571,12 @@ function SidePanel() {
       searchQuery === "" ||
       note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       note.contentPlaintext.toLowerCase().includes(searchQuery.toLowerCase())
-    return matchesSearch
+    const matchesTags = selectedTags.every((tag) =>
+      (note.tags || []).includes(tag)
+    )
+    const matchesCategoryPath =
+      !categoryPathFilter || isInCategoryPath(note.category, categoryPathFilter)
+    return matchesSearch && matchesTags && matchesCategoryPath
   })
 
   if (searchQuery) {
@@ -448,6 +585,10 @@ function SidePanel() {
     )
   }
 
+  if (vaultLocked) {
+    return <VaultUnlockScreen onUnlocked={handleVaultUnlocked} />
+  }
+
   return (
     <div className="plasmo-w-full plasmo-h-screen plasmo-bg-slate-50 plasmo-overflow-hidden">
       <div className="plasmo-h-full plasmo-flex plasmo-flex-col">
@@ -457,6 +598,9 @@ function SidePanel() {
           onPersonasClick={handlePersonasClick}
           onCreateNote={handleCreateNew}
           onStartTour={handleStartTour}
+          onTrashClick={handleTrashClick}
+          onCategoriesClick={handleCategoriesClick}
+          onSettingsClick={handleSettingsClick}
           view={view}
           searchValue={searchQuery}
           onSearchChange={handleSearchInput}
@@ -472,6 +616,22 @@ function SidePanel() {
                 onBack={handleBackToList}
               />
             </div>
+          ) : view === "trash" ? (
+            <div className="plasmo-flex-1 plasmo-overflow-hidden">
+              <TrashView onBack={handleBackToList} onNotesChange={loadData} />
+            </div>
+          ) : view === "categories" ? (
+            <div className="plasmo-flex-1 plasmo-overflow-hidden">
+              <CategoryTreeView
+                onBack={handleBackToList}
+                onSelectCategory={handleSelectCategoryPath}
+                onCategoriesChange={loadData}
+              />
+            </div>
+          ) : view === "settings" ? (
+            <div className="plasmo-flex-1 plasmo-overflow-hidden">
+              <SettingsView onBack={handleBackToList} />
+            </div>
           ) : view === "list" ? (
             <div className="plasmo-flex-1 plasmo-flex plasmo-flex-col plasmo-overflow-hidden plasmo-relative">
               {}
@@ -482,6 +642,30 @@ function SidePanel() {
                 <AIStatusBanner />
               </div>
 
+              {}
+              {categoryPathFilter && (
+                <div className="plasmo-flex-shrink-0 plasmo-flex plasmo-items-center plasmo-gap-2 plasmo-px-3 plasmo-pt-2 plasmo-text-xs plasmo-text-slate-600">
+                  <span className="plasmo-truncate">
+                    {categoryPathFilter.split("/").join(" › ")}
+                  </span>
+                  <button
+                    onClick={() => setCategoryPathFilter(null)}
+                    className="plasmo-text-slate-400 hover:plasmo-text-slate-800"
+                    title="Show all categories">
+                    ×
+                  </button>
+                </div>
+              )}
+
+              {}
+              <div className="plasmo-flex-shrink-0">
+                <TagFilterBar
+                  tags={tags}
+                  selectedTags={selectedTags}
+                  onSelectedTagsChange={setSelectedTags}
+                />
+              </div>
+
               {}
               <div
                 className="plasmo-flex-1 plasmo-min-h-0"
@@ -507,13 +691,21 @@ function SidePanel() {
                 content={noteContent}
                 category={noteCategory}
                 categories={categories}
+                tags={noteTags}
+                availableTags={tags}
                 isEditing={!!editingNote}
                 loading={loading}
                 onTitleChange={setNoteTitle}
                 onCategoryChange={setNoteCategory}
+                onTagsChange={setNoteTags}
                 onSave={handleSaveNote}
                 onCancel={() => setView("list")}
                 externalEditorRef={editorRef}
+                noteId={editingNote?.id}
+                onRestoreRevision={handleRestoreRevision}
+                onOpenLinkedNote={handleOpenLinkedNote}
+                sensitive={noteSensitive}
+                onSensitiveChange={setNoteSensitive}
               />
             </div>
           )}
@@ -521,6 +713,8 @@ function SidePanel() {
           {}
           {view !== "personas" &&
             view !== "editor" &&
+            view !== "trash" &&
+            view !== "categories" &&
             aiStatus.length > 0 &&
             aiStatus.every((service) => service.available) && (
               <div
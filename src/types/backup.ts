@@ -0,0 +1,100 @@
+import type { Persona, PersonaSettings } from "~types/persona"
+import type { PassphraseSealedData } from "~types/vault"
+import type { SerializedEmbedding } from "~util/embedding-codec"
+
+export interface BackupFile extends PassphraseSealedData {
+  format: "mindkeep-backup"
+
+  // Version of this envelope, not of the payload inside it
+  version: number
+
+  compression: "gzip"
+
+  createdAt: number
+}
+
+export interface BackupNote {
+  id: string
+
+  title: string
+
+  content: string
+
+  contentPlaintext: string
+
+  category: string
+
+  tags: string[]
+
+  attachmentIds: string[]
+
+  sourceUrl?: string
+
+  sensitive?: boolean
+
+  color?: string
+
+  embedding?: SerializedEmbedding
+
+  createdAt: number
+
+  updatedAt: number
+
+  deletedAt?: number
+}
+
+export interface BackupAttachment {
+  id: string
+
+  name: string
+
+  mimeType: string
+
+  size: number
+
+  data: string
+
+  thumbnail?: string
+
+  createdAt: number
+}
+
+export interface BackupPayload {
+  schemaVersion: number
+
+  exportedAt: number
+
+  notes: BackupNote[]
+
+  personas: Persona[]
+
+  personaSettings: PersonaSettings
+
+  categories: string[]
+
+  attachments: BackupAttachment[]
+}
+
+export type RestoreMode = "merge" | "replace"
+
+export interface RestoreReport {
+  mode: RestoreMode
+
+  schemaVersion: number
+
+  notesCreated: number
+
+  notesUpdated: number
+
+  // Same id, and the copy on this device is at least as new
+  skippedById: number
+
+  // Different id, but a note with identical content already exists
+  skippedByContent: number
+
+  personasRestored: number
+
+  attachmentsRestored: number
+
+  failedNoteIds: string[]
+}
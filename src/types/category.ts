@@ -0,0 +1,25 @@
+export interface Category {
+  path: string
+
+  name: string
+
+  parentPath: string | null
+
+  createdAt: number
+
+  updatedAt: number
+}
+
+export interface CategoryTreeNode {
+  path: string
+
+  name: string
+
+  directCount: number
+
+  totalCount: number
+
+  lastUpdated: number
+
+  children: CategoryTreeNode[]
+}
@@ -0,0 +1,80 @@
+export interface EmbeddingModelInfo {
+  id: string
+
+  label: string
+
+  dimension: number
+
+  multilingual: boolean
+}
+
+export interface EmbeddingSettings {
+  modelId: string
+
+  lastUpdated: number
+}
+
+export type ReembedJobStatus =
+  | "idle"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+
+export interface ReembedJobState {
+  status: ReembedJobStatus
+
+  modelId: string
+
+  total: number
+
+  processed: number
+
+  failedNoteIds: string[]
+
+  startedAt: number
+
+  updatedAt: number
+
+  error?: string
+}
+
+export type ModelAssetSource = "bundled" | "imported" | "missing"
+
+export interface ModelFileDigest {
+  sha256: string
+
+  size: number
+}
+
+export interface ModelAssetStatus {
+  modelId: string
+
+  source: ModelAssetSource
+
+  verified: boolean
+
+  missingFiles: string[]
+
+  corruptFiles: string[]
+
+  // Present, but the manifest has no checksum to compare them with
+  unverifiedFiles: string[]
+
+  checkedAt: number
+}
+
+export interface EmbeddingRuntimeConfig {
+  localModelPath: string
+
+  wasmPaths: string
+}
+
+export type EmbeddingWorkerRequest =
+  | { type: "configure"; config: EmbeddingRuntimeConfig }
+  | { type: "embed"; id: string; modelId: string; texts: string[] }
+  | { type: "cancel"; id: string }
+
+export type EmbeddingWorkerResponse =
+  | { type: "result"; id: string; embeddings: Float32Array[] }
+  | { type: "error"; id: string; error: string; cancelled?: boolean }
@@ -0,0 +1,124 @@
+import type { NoteColor } from "~util/note-colors"
+
+export interface ImportSourceFile {
+  // Relative to the export root, always separated by "/"
+  path: string
+
+  blob: Blob
+
+  modifiedAt?: number
+}
+
+export interface ImportedDoc {
+  doc: any
+
+  attachmentCount: number
+
+  missingAttachments: string[]
+}
+
+/**
+ * A note read from another app's export, before anything is saved.
+ * buildDoc is called once without saving attachments for the preview and
+ * once with saveAttachments set when the note is imported.
+ */
+export interface ImportCandidate {
+  // Identifies the note in the preview and the error log
+  path: string
+
+  // Set for notes exported from MindKeep, so importing them again updates
+  // the existing note instead of adding a copy
+  noteId?: string
+
+  title: string
+
+  category: string
+
+  tags: string[]
+
+  sourceUrl?: string
+
+  color?: NoteColor
+
+  sensitive?: boolean
+
+  createdAt: number
+
+  updatedAt: number
+
+  // Trashed notes are imported straight into the trash
+  trashed?: boolean
+
+  buildDoc: (saveAttachments: boolean) => Promise<ImportedDoc>
+}
+
+export interface NoteImporter {
+  id: string
+
+  label: string
+
+  description: string
+
+  // Extensions accepted by the file picker, besides folders
+  accept: string
+
+  // Files that cannot be read are reported and left out
+  readCandidates: (
+    files: ImportSourceFile[],
+    reportError: (path: string, error: unknown) => void
+  ) => Promise<ImportCandidate[]>
+}
+
+export type ImportAction = "create" | "update" | "skip"
+
+export interface ImportItemError {
+  path: string
+
+  title?: string
+
+  message: string
+}
+
+export interface ImportPlanItem {
+  candidate: ImportCandidate
+
+  action: ImportAction
+
+  // Why the note is skipped or updated, shown in the preview
+  reason?: string
+
+  attachmentCount: number
+
+  missingAttachments: string[]
+}
+
+export interface ImportPlan {
+  importerId: string
+
+  items: ImportPlanItem[]
+
+  createCount: number
+
+  updateCount: number
+
+  skipCount: number
+
+  // Notes that could not be read at all
+  errors: ImportItemError[]
+}
+
+export interface ImportResult {
+  created: number
+
+  updated: number
+
+  trashed: number
+
+  skipped: number
+
+  attachmentsImported: number
+
+  errors: ImportItemError[]
+
+  cancelled: boolean
+}
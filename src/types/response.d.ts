@@ -2,3 +2,8 @@ export interface ScoredCategory {
   category: string
   relevanceScore: number
 }
+
+export interface ScoredTag {
+  tag: string
+  relevanceScore: number
+}
@@ -0,0 +1,11 @@
+export type RevisionRetentionMode = "count" | "days"
+
+export interface RevisionSettings {
+  retentionMode: RevisionRetentionMode
+
+  maxRevisions: number
+
+  maxAgeDays: number
+
+  lastUpdated: number
+}
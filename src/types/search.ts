@@ -0,0 +1,11 @@
+export interface SearchSettings {
+  keywordWeight: number
+
+  vectorWeight: number
+
+  rrfK: number
+
+  candidateLimit: number
+
+  lastUpdated: number
+}
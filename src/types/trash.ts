@@ -0,0 +1,5 @@
+export interface TrashSettings {
+  retentionDays: number
+
+  lastUpdated: number
+}
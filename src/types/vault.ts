@@ -0,0 +1,107 @@
+export interface Keyring {
+  activeKeyId: string
+
+  keys: Record<string, string>
+
+  // HMAC key for blind indexes, kept across key rotations
+  indexKey?: string
+}
+
+export interface WrappedKeyRecord {
+  kdf: "PBKDF2-SHA256"
+
+  iterations: number
+
+  salt: string
+
+  iv: string
+
+  wrappedKeyring?: string
+
+  // Single raw key wrapped before key rotation existed
+  wrappedKey?: string
+
+  createdAt: number
+}
+
+export interface PassphraseSealedData {
+  kdf: "PBKDF2-SHA256"
+
+  iterations: number
+
+  salt: string
+
+  iv: string
+
+  data: string
+}
+
+export type StorageMode = "standard" | "encrypt-everything"
+
+export interface VaultSettings {
+  autoLockMinutes: number
+
+  storageMode: StorageMode
+
+  lastUpdated: number
+}
+
+export interface VaultStatus {
+  passphraseEnabled: boolean
+
+  locked: boolean
+
+  autoLockMinutes: number
+}
+
+export type KeyRotationJobStatus =
+  | "idle"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+
+export interface KeyRotationJobState {
+  status: KeyRotationJobStatus
+
+  keyId: string
+
+  total: number
+
+  processed: number
+
+  failedRecords: string[]
+
+  retiredKeyIds: string[]
+
+  startedAt: number
+
+  updatedAt: number
+
+  error?: string
+}
+
+export type StorageModeJobStatus =
+  | "idle"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+
+export interface StorageModeJobState {
+  status: StorageModeJobStatus
+
+  mode: StorageMode
+
+  total: number
+
+  processed: number
+
+  failedRecords: string[]
+
+  startedAt: number
+
+  updatedAt: number
+
+  error?: string
+}
@@ -0,0 +1,35 @@
+export const ATTACHMENT_URL_PREFIX = "attachment://"
+
+export function toAttachmentUrl(attachmentId: string): string {
+  return `${ATTACHMENT_URL_PREFIX}${attachmentId}`
+}
+
+export function parseAttachmentUrl(url: string | null): string | null {
+  if (!url || !url.startsWith(ATTACHMENT_URL_PREFIX)) {
+    return null
+  }
+  return url.slice(ATTACHMENT_URL_PREFIX.length) || null
+}
+
+export function extractAttachmentIds(doc: any): string[] {
+  const ids = new Set<string>()
+
+  const visit = (node: any) => {
+    if (!node) return
+    if (node.attrs?.attachmentId) {
+      ids.add(node.attrs.attachmentId)
+    }
+    if (Array.isArray(node.content)) {
+      node.content.forEach(visit)
+    }
+  }
+
+  visit(doc)
+  return Array.from(ids)
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,57 @@
+export const CATEGORY_PATH_SEPARATOR = "/"
+
+const MAX_SEGMENT_LENGTH = 50
+
+export function normalizeCategoryPath(path: string): string {
+  const segments = path
+    .split(CATEGORY_PATH_SEPARATOR)
+    .map((segment) => segment.trim().toLowerCase())
+    .filter((segment) => segment.length > 0)
+
+  if (segments.length === 0) {
+    throw new Error("Category name cannot be empty")
+  }
+
+  if (segments.some((segment) => segment.length > MAX_SEGMENT_LENGTH)) {
+    throw new Error(
+      `Category name too long (max ${MAX_SEGMENT_LENGTH} characters per level)`
+    )
+  }
+
+  return segments.join(CATEGORY_PATH_SEPARATOR)
+}
+
+export function getCategoryName(path: string): string {
+  const segments = path.split(CATEGORY_PATH_SEPARATOR)
+  return segments[segments.length - 1]
+}
+
+export function getParentCategoryPath(path: string): string | null {
+  const index = path.lastIndexOf(CATEGORY_PATH_SEPARATOR)
+  return index === -1 ? null : path.slice(0, index)
+}
+
+export function getCategoryAncestors(path: string): string[] {
+  const segments = path.split(CATEGORY_PATH_SEPARATOR)
+  return segments.map((_, index) =>
+    segments.slice(0, index + 1).join(CATEGORY_PATH_SEPARATOR)
+  )
+}
+
+export function getRootCategory(path: string): string {
+  return path.split(CATEGORY_PATH_SEPARATOR)[0]
+}
+
+export function isInCategoryPath(category: string, path: string): boolean {
+  return (
+    category === path || category.startsWith(path + CATEGORY_PATH_SEPARATOR)
+  )
+}
+
+export function replaceCategoryPrefix(
+  category: string,
+  oldPath: string,
+  newPath: string
+): string {
+  return newPath + category.slice(oldPath.length)
+}
@@ -0,0 +1,43 @@
+export const CLIPBOARD_CLEAR_DELAY_MS = 30000
+
+/**
+ * Copies text and has the background empty the clipboard after a delay,
+ * so copied secrets do not linger even if this page is closed or loses
+ * focus first. Reading the clipboard back would need an extra permission,
+ * so a newer copy made through this helper reschedules the clear and
+ * anything copied elsewhere in the meantime is cleared as well.
+ */
+export async function copyWithAutoClear(
+  text: string,
+  delayMs: number = CLIPBOARD_CLEAR_DELAY_MS
+): Promise<void> {
+  await navigator.clipboard.writeText(text)
+  await chrome.runtime.sendMessage({
+    type: "SCHEDULE_CLIPBOARD_CLEAR",
+    data: { delayMs }
+  })
+}
+
+/**
+ * Empties the clipboard from a page without focus, such as the offscreen
+ * document, where navigator.clipboard is rejected.
+ */
+export function clearClipboard(): boolean {
+  const textarea = document.createElement("textarea")
+  const handleCopy = (event: ClipboardEvent) => {
+    event.clipboardData?.setData("text/plain", "")
+    event.preventDefault()
+  }
+
+  // execCommand only copies with something selected
+  textarea.value = " "
+  document.body.append(textarea)
+  textarea.select()
+  document.addEventListener("copy", handleCopy)
+  try {
+    return document.execCommand("copy")
+  } finally {
+    document.removeEventListener("copy", handleCopy)
+    textarea.remove()
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Hashes note text so the same content saved twice can be recognized,
+ * regardless of trailing whitespace or line endings.
+ */
+export async function hashNoteContent(text: string): Promise<string> {
+  const normalized = text.replace(/\r\n?/g, "\n").replace(/\s+$/gm, "").trim()
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalized)
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("")
+}
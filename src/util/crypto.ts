@@ -1,40 +1,32 @@
+import type {
+  Keyring,
+  PassphraseSealedData,
+  WrappedKeyRecord
+} from "~types/vault"
 import { logger } from "~utils/logger"
 
 const ALGORITHM = "AES-GCM"
 const KEY_LENGTH = 256
 const IV_LENGTH = 12
 const SALT_LENGTH = 16
-const PBKDF2_ITERATIONS = 100000
+const PASSPHRASE_PBKDF2_ITERATIONS = 600000
+const MIN_PASSPHRASE_LENGTH = 8
+const BLIND_INDEX_KEY_LENGTH = 32
 
 const ENCRYPTION_KEY_STORAGE_KEY = "mindkeep_encryption_key"
+const KEYRING_STORAGE_KEY = "mindkeep_encryption_keyring"
+const WRAPPED_KEY_STORAGE_KEY = "mindkeep_wrapped_key"
+const UNLOCKED_KEY_SESSION_KEY = "mindkeep_unlocked_key"
 
-async function deriveKey(
-  password: string,
-  salt: Uint8Array
-): Promise<CryptoKey> {
-  const encoder = new TextEncoder()
-  const passwordBuffer = encoder.encode(password)
+const KEY_ID_SEPARATOR = ":"
 
-  const baseKey = await crypto.subtle.importKey(
-    "raw",
-    passwordBuffer,
-    "PBKDF2",
-    false,
-    ["deriveBits", "deriveKey"]
-  )
+export const LEGACY_KEY_ID = "k0"
 
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: salt as BufferSource,
-      iterations: PBKDF2_ITERATIONS,
-      hash: "SHA-256"
-    },
-    baseKey,
-    { name: ALGORITHM, length: KEY_LENGTH },
-    true,
-    ["encrypt", "decrypt"]
-  )
+export const VAULT_LOCKED_MESSAGE = "Vault is locked"
+
+export function isVaultLockedError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.includes(VAULT_LOCKED_MESSAGE)
 }
 
 function generateSalt(): Uint8Array {
@@ -45,56 +37,65 @@ function generateIV(): Uint8Array {
   return crypto.getRandomValues(new Uint8Array(IV_LENGTH))
 }
 
-async function getMasterKey(): Promise<CryptoKey> {
+async function generateDataKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey(
+    { name: ALGORITHM, length: KEY_LENGTH },
+    true,
+    ["encrypt", "decrypt"]
+  )
+  return arrayBufferToBase64(await crypto.subtle.exportKey("raw", key))
+}
+
+async function loadKeyring(): Promise<Keyring> {
   try {
-    logger.log(" Getting master key...")
+    const stored = await chrome.storage.local.get([
+      KEYRING_STORAGE_KEY,
+      ENCRYPTION_KEY_STORAGE_KEY,
+      WRAPPED_KEY_STORAGE_KEY
+    ])
+
+    if (stored[WRAPPED_KEY_STORAGE_KEY]) {
+      return (await getUnlockedVault()).keyring
+    }
 
-    const stored = await new Promise<any>((resolve) => {
-      chrome.storage.local.get(ENCRYPTION_KEY_STORAGE_KEY, resolve)
-    })
+    if (stored[KEYRING_STORAGE_KEY]) {
+      return stored[KEYRING_STORAGE_KEY] as Keyring
+    }
 
+    let keyring: Keyring
     if (stored[ENCRYPTION_KEY_STORAGE_KEY]) {
-      logger.log(" Found existing key in storage, importing...")
-      const keyData = stored[ENCRYPTION_KEY_STORAGE_KEY]
-
-      const importedKey = await crypto.subtle.importKey(
+      logger.log(" Moving existing key into the keyring...")
+      const legacyKey = await crypto.subtle.importKey(
         "jwk",
-        keyData,
+        stored[ENCRYPTION_KEY_STORAGE_KEY],
         { name: ALGORITHM, length: KEY_LENGTH },
         true,
         ["encrypt", "decrypt"]
       )
-      logger.log(" Key imported successfully:", importedKey.type)
-      return importedKey
+      keyring = {
+        activeKeyId: LEGACY_KEY_ID,
+        keys: {
+          [LEGACY_KEY_ID]: arrayBufferToBase64(
+            await crypto.subtle.exportKey("raw", legacyKey)
+          )
+        }
+      }
+    } else {
+      logger.log(" No existing key found, generating new one...")
+      keyring = {
+        activeKeyId: LEGACY_KEY_ID,
+        keys: { [LEGACY_KEY_ID]: await generateDataKey() }
+      }
     }
 
-    logger.log(" No existing key found, generating new one...")
-
-    const salt = generateSalt()
-    const randomPassword = crypto.getRandomValues(new Uint8Array(32))
-    const passwordString = Array.from(randomPassword)
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
-
-    logger.log(" Deriving new key from random password...")
-    const key = await deriveKey(passwordString, salt)
-    logger.log(" Key derived successfully:", key.type)
-
-    logger.log(" Exporting and storing key...")
-    const exportedKey = await crypto.subtle.exportKey("jwk", key)
-    await new Promise<void>((resolve) => {
-      chrome.storage.local.set(
-        {
-          [ENCRYPTION_KEY_STORAGE_KEY]: exportedKey
-        },
-        resolve
-      )
-    })
-    logger.log(" Key stored successfully")
+    await chrome.storage.local.set({ [KEYRING_STORAGE_KEY]: keyring })
+    await chrome.storage.local.remove(ENCRYPTION_KEY_STORAGE_KEY)
+    logger.log(" Keyring stored successfully")
 
-    return key
+    return keyring
   } catch (error) {
-    logger.error(" Error getting master key:", error)
+    if (isVaultLockedError(error)) throw error
+    logger.error(" Error loading keyring:", error)
     throw new Error(
       "Failed to initialize encryption key: " +
         (error instanceof Error ? error.message : String(error))
@@ -102,7 +103,124 @@ async function getMasterKey(): Promise<CryptoKey> {
   }
 }
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
+async function saveKeyring(keyring: Keyring): Promise<void> {
+  const record = await getWrappedKeyRecord()
+
+  if (!record) {
+    await chrome.storage.local.set({ [KEYRING_STORAGE_KEY]: keyring })
+    return
+  }
+
+  const vault = await getUnlockedVault()
+  await chrome.storage.local.set({
+    [WRAPPED_KEY_STORAGE_KEY]: await sealKeyring(
+      keyring,
+      base64ToArrayBuffer(vault.wrappingKey),
+      record
+    )
+  })
+  await chrome.storage.session.set({
+    [UNLOCKED_KEY_SESSION_KEY]: { ...vault, keyring }
+  })
+}
+
+async function getKey(keyring: Keyring, keyId: string): Promise<CryptoKey> {
+  const rawKey = keyring.keys[keyId]
+  if (!rawKey) {
+    throw new Error(`Unknown encryption key ${keyId}`)
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(rawKey),
+    { name: ALGORITHM, length: KEY_LENGTH },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+export function getCiphertextKeyId(encryptedText: string): string {
+  const separator = encryptedText.indexOf(KEY_ID_SEPARATOR)
+  return separator === -1 ? LEGACY_KEY_ID : encryptedText.slice(0, separator)
+}
+
+export async function getActiveKeyId(): Promise<string> {
+  return (await loadKeyring()).activeKeyId
+}
+
+export async function getKeyIds(): Promise<string[]> {
+  return Object.keys((await loadKeyring()).keys)
+}
+
+export async function addRotationKey(): Promise<string> {
+  const keyring = await loadKeyring()
+  const keyId = `k${Date.now().toString(36)}`
+
+  await saveKeyring({
+    ...keyring,
+    activeKeyId: keyId,
+    keys: { ...keyring.keys, [keyId]: await generateDataKey() }
+  })
+  logger.log(` Added encryption key ${keyId}, now active`)
+
+  return keyId
+}
+
+export async function retireInactiveKeys(): Promise<string[]> {
+  const keyring = await loadKeyring()
+  const retired = Object.keys(keyring.keys).filter(
+    (keyId) => keyId !== keyring.activeKeyId
+  )
+
+  if (retired.length > 0) {
+    await saveKeyring({
+      ...keyring,
+      keys: { [keyring.activeKeyId]: keyring.keys[keyring.activeKeyId] }
+    })
+    logger.log(` Retired encryption keys: ${retired.join(", ")}`)
+  }
+
+  return retired
+}
+
+export async function ensureBlindIndexKey(): Promise<void> {
+  const keyring = await loadKeyring()
+  if (keyring.indexKey) return
+
+  const indexKey = crypto.getRandomValues(
+    new Uint8Array(BLIND_INDEX_KEY_LENGTH)
+  )
+  await saveKeyring({
+    ...keyring,
+    indexKey: arrayBufferToBase64(indexKey.buffer as ArrayBuffer)
+  })
+  logger.log(" Generated blind index key")
+}
+
+/**
+ * Keyed hash of `value` for equality lookups on encrypted fields, or null
+ * if no blind index key has been generated yet.
+ */
+export async function computeBlindIndex(value: string): Promise<string | null> {
+  const { indexKey } = await loadKeyring()
+  if (!indexKey) return null
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(indexKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(value)
+  )
+  return arrayBufferToBase64(signature)
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer)
   let binary = ""
   for (let i = 0; i < bytes.length; i++) {
@@ -111,7 +229,7 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary)
 }
 
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   const binary = atob(base64)
   const bytes = new Uint8Array(binary.length)
   for (let i = 0; i < binary.length; i++) {
@@ -120,18 +238,345 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer
 }
 
-export async function encrypt(text: string): Promise<string> {
+interface UnlockedVault {
+  keyring: Keyring
+  wrappingKey: string
+}
+
+async function getUnlockedVault(): Promise<UnlockedVault> {
+  const session = await chrome.storage.session.get(UNLOCKED_KEY_SESSION_KEY)
+  const vault = session[UNLOCKED_KEY_SESSION_KEY] as UnlockedVault | undefined
+
+  if (!vault?.keyring) {
+    throw new Error(VAULT_LOCKED_MESSAGE)
+  }
+
+  return vault
+}
+
+async function deriveWrappingKey(
+  passphrase: string,
+  salt: ArrayBuffer,
+  iterations: number
+): Promise<ArrayBuffer> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  )
+
+  return crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    KEY_LENGTH
+  )
+}
+
+function importWrappingKey(wrappingKey: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    wrappingKey,
+    { name: ALGORITHM, length: KEY_LENGTH },
+    false,
+    ["encrypt", "decrypt", "unwrapKey"]
+  )
+}
+
+async function sealKeyring(
+  keyring: Keyring,
+  wrappingKey: ArrayBuffer,
+  kdf: Pick<WrappedKeyRecord, "iterations" | "salt">
+): Promise<WrappedKeyRecord> {
+  const iv = generateIV()
+  const sealed = await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv: iv as BufferSource },
+    await importWrappingKey(wrappingKey),
+    new TextEncoder().encode(JSON.stringify(keyring))
+  )
+
+  return {
+    kdf: "PBKDF2-SHA256",
+    iterations: kdf.iterations,
+    salt: kdf.salt,
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    wrappedKeyring: arrayBufferToBase64(sealed),
+    createdAt: Date.now()
+  }
+}
+
+async function openKeyring(
+  record: WrappedKeyRecord,
+  wrappingKey: ArrayBuffer
+): Promise<Keyring> {
+  const key = await importWrappingKey(wrappingKey)
+  const iv = base64ToArrayBuffer(record.iv)
+
   try {
-    const encoder = new TextEncoder()
-    const data = encoder.encode(text)
+    if (record.wrappedKeyring) {
+      const opened = await crypto.subtle.decrypt(
+        { name: ALGORITHM, iv },
+        key,
+        base64ToArrayBuffer(record.wrappedKeyring)
+      )
+      return JSON.parse(new TextDecoder().decode(opened)) as Keyring
+    }
+
+    const legacyKey = await crypto.subtle.unwrapKey(
+      "raw",
+      base64ToArrayBuffer(record.wrappedKey!),
+      key,
+      { name: ALGORITHM, iv },
+      { name: ALGORITHM, length: KEY_LENGTH },
+      true,
+      ["encrypt", "decrypt"]
+    )
+    return {
+      activeKeyId: LEGACY_KEY_ID,
+      keys: {
+        [LEGACY_KEY_ID]: arrayBufferToBase64(
+          await crypto.subtle.exportKey("raw", legacyKey)
+        )
+      }
+    }
+  } catch {
+    throw new Error("Incorrect passphrase")
+  }
+}
+
+async function getWrappedKeyRecord(): Promise<WrappedKeyRecord | null> {
+  const stored = await chrome.storage.local.get(WRAPPED_KEY_STORAGE_KEY)
+  return (stored[WRAPPED_KEY_STORAGE_KEY] as WrappedKeyRecord) || null
+}
+
+async function openWithPassphrase(
+  passphrase: string
+): Promise<{ record: WrappedKeyRecord; vault: UnlockedVault }> {
+  const record = await getWrappedKeyRecord()
+  if (!record) {
+    throw new Error("Passphrase protection is not enabled")
+  }
+
+  const wrappingKey = await deriveWrappingKey(
+    passphrase,
+    base64ToArrayBuffer(record.salt),
+    record.iterations
+  )
+  const keyring = await openKeyring(record, wrappingKey)
+
+  return {
+    record,
+    vault: { keyring, wrappingKey: arrayBufferToBase64(wrappingKey) }
+  }
+}
+
+async function protectKeyring(
+  keyring: Keyring,
+  passphrase: string
+): Promise<UnlockedVault> {
+  const salt = arrayBufferToBase64(generateSalt().buffer as ArrayBuffer)
+  const wrappingKey = await deriveWrappingKey(
+    passphrase,
+    base64ToArrayBuffer(salt),
+    PASSPHRASE_PBKDF2_ITERATIONS
+  )
+
+  await chrome.storage.local.set({
+    [WRAPPED_KEY_STORAGE_KEY]: await sealKeyring(keyring, wrappingKey, {
+      iterations: PASSPHRASE_PBKDF2_ITERATIONS,
+      salt
+    })
+  })
+
+  return { keyring, wrappingKey: arrayBufferToBase64(wrappingKey) }
+}
+
+function validatePassphrase(passphrase: string): void {
+  if (
+    typeof passphrase !== "string" ||
+    passphrase.length < MIN_PASSPHRASE_LENGTH
+  ) {
+    throw new Error(
+      `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+    )
+  }
+}
+
+export async function encryptWithPassphrase(
+  data: BufferSource,
+  passphrase: string
+): Promise<PassphraseSealedData> {
+  validatePassphrase(passphrase)
+
+  const salt = generateSalt()
+  const iv = generateIV()
+  const key = await deriveWrappingKey(
+    passphrase,
+    salt.buffer as ArrayBuffer,
+    PASSPHRASE_PBKDF2_ITERATIONS
+  )
+  const sealed = await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv: iv as BufferSource },
+    await importWrappingKey(key),
+    data
+  )
+
+  return {
+    kdf: "PBKDF2-SHA256",
+    iterations: PASSPHRASE_PBKDF2_ITERATIONS,
+    salt: arrayBufferToBase64(salt.buffer as ArrayBuffer),
+    iv: arrayBufferToBase64(iv.buffer as ArrayBuffer),
+    data: arrayBufferToBase64(sealed)
+  }
+}
+
+export async function decryptWithPassphrase(
+  sealed: PassphraseSealedData,
+  passphrase: string
+): Promise<ArrayBuffer> {
+  const key = await deriveWrappingKey(
+    passphrase,
+    base64ToArrayBuffer(sealed.salt),
+    sealed.iterations
+  )
 
-    const key = await getMasterKey()
+  try {
+    return await crypto.subtle.decrypt(
+      { name: ALGORITHM, iv: base64ToArrayBuffer(sealed.iv) },
+      await importWrappingKey(key),
+      base64ToArrayBuffer(sealed.data)
+    )
+  } catch {
+    throw new Error("Incorrect passphrase")
+  }
+}
+
+export async function isPassphraseEnabled(): Promise<boolean> {
+  return (await getWrappedKeyRecord()) !== null
+}
+
+export async function isVaultUnlocked(): Promise<boolean> {
+  if (!(await isPassphraseEnabled())) {
+    return true
+  }
+
+  const session = await chrome.storage.session.get(UNLOCKED_KEY_SESSION_KEY)
+  return !!session[UNLOCKED_KEY_SESSION_KEY]
+}
 
-    if (!key) {
-      throw new Error("Failed to get encryption key")
+export async function assertVaultUnlocked(): Promise<void> {
+  if (!(await isVaultUnlocked())) {
+    throw new Error(VAULT_LOCKED_MESSAGE)
+  }
+}
+
+/**
+ * Calls back whenever the unlocked key is dropped from session storage
+ * while a passphrase is still set. Only extension pages and workers see
+ * session storage changes.
+ */
+export function onVaultLocked(callback: () => void): () => void {
+  const listener = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ) => {
+    const change = changes[UNLOCKED_KEY_SESSION_KEY]
+    if (areaName === "session" && change && !change.newValue) {
+      isPassphraseEnabled().then((enabled) => enabled && callback())
     }
+  }
+
+  chrome.storage?.onChanged.addListener(listener)
+  return () => chrome.storage?.onChanged.removeListener(listener)
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const { record, vault } = await openWithPassphrase(passphrase)
+  await chrome.storage.session.set({ [UNLOCKED_KEY_SESSION_KEY]: vault })
+
+  if (!record.wrappedKeyring) {
+    await chrome.storage.local.set({
+      [WRAPPED_KEY_STORAGE_KEY]: await sealKeyring(
+        vault.keyring,
+        base64ToArrayBuffer(vault.wrappingKey),
+        record
+      )
+    })
+  }
+
+  // Drop plain keys left behind if enabling the passphrase was interrupted
+  await chrome.storage.local.remove([
+    KEYRING_STORAGE_KEY,
+    ENCRYPTION_KEY_STORAGE_KEY
+  ])
+  logger.log(" Vault unlocked")
+}
+
+export async function verifyPassphrase(passphrase: string): Promise<void> {
+  await openWithPassphrase(passphrase)
+}
+
+export async function lockVault(): Promise<void> {
+  await chrome.storage.session.remove(UNLOCKED_KEY_SESSION_KEY)
+  logger.log(" Vault locked")
+}
 
-    logger.log(" Key obtained:", key.type, key.algorithm)
+export async function enablePassphrase(passphrase: string): Promise<void> {
+  validatePassphrase(passphrase)
+
+  if (await isPassphraseEnabled()) {
+    throw new Error("Passphrase protection is already enabled")
+  }
+
+  const vault = await protectKeyring(await loadKeyring(), passphrase)
+  await chrome.storage.session.set({ [UNLOCKED_KEY_SESSION_KEY]: vault })
+  await chrome.storage.local.remove([
+    KEYRING_STORAGE_KEY,
+    ENCRYPTION_KEY_STORAGE_KEY
+  ])
+  logger.log(" Passphrase protection enabled, existing keys re-wrapped")
+}
+
+export async function changePassphrase(
+  currentPassphrase: string,
+  newPassphrase: string
+): Promise<void> {
+  validatePassphrase(newPassphrase)
+
+  const { vault } = await openWithPassphrase(currentPassphrase)
+  await chrome.storage.session.set({
+    [UNLOCKED_KEY_SESSION_KEY]: await protectKeyring(
+      vault.keyring,
+      newPassphrase
+    )
+  })
+  logger.log(" Vault passphrase changed")
+}
+
+export async function disablePassphrase(passphrase: string): Promise<void> {
+  const { vault } = await openWithPassphrase(passphrase)
+
+  await chrome.storage.local.set({ [KEYRING_STORAGE_KEY]: vault.keyring })
+  await chrome.storage.local.remove(WRAPPED_KEY_STORAGE_KEY)
+  await chrome.storage.session.remove(UNLOCKED_KEY_SESSION_KEY)
+  logger.log(" Passphrase protection disabled")
+}
+
+function combineIvAndData(iv: Uint8Array, data: ArrayBuffer): Uint8Array {
+  const combined = new Uint8Array(iv.length + data.byteLength)
+  combined.set(iv, 0)
+  combined.set(new Uint8Array(data), iv.length)
+  return combined
+}
+
+export async function encrypt(text: string): Promise<string> {
+  try {
+    const encoder = new TextEncoder()
+    const data = encoder.encode(text)
+
+    const keyring = await loadKeyring()
+    const key = await getKey(keyring, keyring.activeKeyId)
     const iv = generateIV()
 
     const encryptedData = await crypto.subtle.encrypt(
@@ -143,12 +588,16 @@ export async function encrypt(text: string): Promise<string> {
       data
     )
 
-    const combined = new Uint8Array(iv.length + encryptedData.byteLength)
-    combined.set(iv, 0)
-    combined.set(new Uint8Array(encryptedData), iv.length)
+    const encoded = arrayBufferToBase64(
+      combineIvAndData(iv, encryptedData).buffer as ArrayBuffer
+    )
 
-    return arrayBufferToBase64(combined.buffer)
+    // Ciphertexts from the original key stay unprefixed
+    return keyring.activeKeyId === LEGACY_KEY_ID
+      ? encoded
+      : `${keyring.activeKeyId}${KEY_ID_SEPARATOR}${encoded}`
   } catch (error) {
+    if (isVaultLockedError(error)) throw error
     logger.error("Encryption error:", error)
     throw new Error("Failed to encrypt data")
   }
@@ -156,12 +605,17 @@ export async function encrypt(text: string): Promise<string> {
 
 export async function decrypt(encryptedText: string): Promise<string> {
   try {
-    const combined = new Uint8Array(base64ToArrayBuffer(encryptedText))
+    const keyId = getCiphertextKeyId(encryptedText)
+    const encoded =
+      keyId === LEGACY_KEY_ID
+        ? encryptedText
+        : encryptedText.slice(keyId.length + KEY_ID_SEPARATOR.length)
+    const combined = new Uint8Array(base64ToArrayBuffer(encoded))
 
     const iv = combined.slice(0, IV_LENGTH)
     const encryptedData = combined.slice(IV_LENGTH)
 
-    const key = await getMasterKey()
+    const key = await getKey(await loadKeyring(), keyId)
 
     const decryptedData = await crypto.subtle.decrypt(
       {
@@ -175,11 +629,65 @@ export async function decrypt(encryptedText: string): Promise<string> {
     const decoder = new TextDecoder()
     return decoder.decode(decryptedData)
   } catch (error) {
+    if (isVaultLockedError(error)) throw error
     logger.error("Decryption error:", error)
     throw new Error("Failed to decrypt data")
   }
 }
 
+export async function encryptBytes(
+  data: ArrayBuffer,
+  keyId?: string
+): Promise<ArrayBuffer> {
+  try {
+    const keyring = await loadKeyring()
+    const key = await getKey(keyring, keyId ?? keyring.activeKeyId)
+    const iv = generateIV()
+
+    const encryptedData = await crypto.subtle.encrypt(
+      {
+        name: ALGORITHM,
+        iv: iv as BufferSource
+      },
+      key,
+      data
+    )
+
+    return combineIvAndData(iv, encryptedData).buffer as ArrayBuffer
+  } catch (error) {
+    if (isVaultLockedError(error)) throw error
+    logger.error("Binary encryption error:", error)
+    throw new Error("Failed to encrypt data")
+  }
+}
+
+export async function decryptBytes(
+  encryptedData: ArrayBuffer,
+  keyId: string = LEGACY_KEY_ID
+): Promise<ArrayBuffer> {
+  try {
+    const combined = new Uint8Array(encryptedData)
+
+    const iv = combined.slice(0, IV_LENGTH)
+    const data = combined.slice(IV_LENGTH)
+
+    const key = await getKey(await loadKeyring(), keyId)
+
+    return await crypto.subtle.decrypt(
+      {
+        name: ALGORITHM,
+        iv: iv as BufferSource
+      },
+      key,
+      data
+    )
+  } catch (error) {
+    if (isVaultLockedError(error)) throw error
+    logger.error("Binary decryption error:", error)
+    throw new Error("Failed to decrypt data")
+  }
+}
+
 export async function testCrypto(): Promise<boolean> {
   try {
     const testString = "Hello, MindKeep! "
@@ -200,7 +708,12 @@ export async function testCrypto(): Promise<boolean> {
 }
 
 export async function clearEncryptionKey(): Promise<void> {
-  await chrome.storage.local.remove(ENCRYPTION_KEY_STORAGE_KEY)
+  await chrome.storage.local.remove([
+    ENCRYPTION_KEY_STORAGE_KEY,
+    KEYRING_STORAGE_KEY,
+    WRAPPED_KEY_STORAGE_KEY
+  ])
+  await chrome.storage.session.remove(UNLOCKED_KEY_SESSION_KEY)
   logger.warn(
     "Encryption key cleared. All encrypted data is now unrecoverable."
   )
@@ -0,0 +1,46 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * line breaks. A leading byte order mark is dropped and blank lines skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== "") rows.push(row)
+    row = []
+    field = ""
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow()
+  return rows
+}
@@ -0,0 +1,117 @@
+export interface QuantizedEmbedding {
+  values: Int8Array
+  scale: number
+  model?: string
+}
+
+export interface SerializedEmbedding {
+  values: string
+  scale: number
+  model?: string
+}
+
+const INT8_MAX = 127
+
+export function isQuantizedEmbedding(
+  value: unknown
+): value is QuantizedEmbedding {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as QuantizedEmbedding).values instanceof Int8Array &&
+    typeof (value as QuantizedEmbedding).scale === "number"
+  )
+}
+
+export function quantizeEmbedding(
+  vector: ArrayLike<number> | QuantizedEmbedding,
+  model?: string
+): QuantizedEmbedding {
+  if (isQuantizedEmbedding(vector)) {
+    return model ? { ...vector, model } : vector
+  }
+
+  let maxAbs = 0
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]))
+  }
+
+  const scale = maxAbs > 0 ? maxAbs / INT8_MAX : 1
+  const values = new Int8Array(vector.length)
+  for (let i = 0; i < vector.length; i++) {
+    values[i] = Math.round(vector[i] / scale)
+  }
+
+  return model ? { values, scale, model } : { values, scale }
+}
+
+export function dequantizeEmbedding(embedding: QuantizedEmbedding): number[] {
+  return Array.from(embedding.values, (value) => value * embedding.scale)
+}
+
+export function serializeEmbedding(
+  embedding: QuantizedEmbedding
+): SerializedEmbedding {
+  const bytes = new Uint8Array(
+    embedding.values.buffer,
+    embedding.values.byteOffset,
+    embedding.values.byteLength
+  )
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+
+  return {
+    values: btoa(binary),
+    scale: embedding.scale,
+    model: embedding.model
+  }
+}
+
+export function deserializeEmbedding(
+  serialized: SerializedEmbedding
+): QuantizedEmbedding {
+  const binary = atob(serialized.values)
+  const values = new Int8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    values[i] = binary.charCodeAt(i)
+  }
+
+  return serialized.model
+    ? { values, scale: serialized.scale, model: serialized.model }
+    : { values, scale: serialized.scale }
+}
+
+export function prepareQueryVector(vector: ArrayLike<number>): Float32Array {
+  let magnitude = 0
+  for (let i = 0; i < vector.length; i++) {
+    magnitude += vector[i] * vector[i]
+  }
+  magnitude = Math.sqrt(magnitude)
+
+  const query = new Float32Array(vector.length)
+  if (magnitude === 0) return query
+
+  for (let i = 0; i < vector.length; i++) {
+    query[i] = vector[i] / magnitude
+  }
+  return query
+}
+
+export function quantizedSimilarity(
+  query: Float32Array,
+  embedding: QuantizedEmbedding
+): number {
+  const { values } = embedding
+  if (values.length !== query.length) return 0
+
+  let dotProduct = 0
+  let magnitude = 0
+  for (let i = 0; i < values.length; i++) {
+    dotProduct += query[i] * values[i]
+    magnitude += values[i] * values[i]
+  }
+
+  return magnitude === 0 ? 0 : dotProduct / Math.sqrt(magnitude)
+}
@@ -0,0 +1,94 @@
+export type FrontMatterValue = string | number | boolean | string[]
+
+export type FrontMatter = Record<string, FrontMatterValue | undefined>
+
+// JSON string literals are valid YAML double-quoted scalars
+function serializeValue(value: FrontMatterValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+  }
+  return typeof value === "string" ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Renders a YAML front matter block. Undefined fields and empty lists are
+ * left out so exported files stay readable.
+ */
+export function serializeFrontMatter(fields: FrontMatter): string {
+  const lines = Object.entries(fields)
+    .filter(
+      ([, value]) =>
+        value !== undefined && !(Array.isArray(value) && value.length === 0)
+    )
+    .map(([key, value]) => `${key}: ${serializeValue(value!)}`)
+
+  return `---\n${lines.join("\n")}\n---\n`
+}
+
+function parseScalar(raw: string): string | number | boolean {
+  const value = raw.trim()
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value.slice(1, -1)
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  if (value === "true" || value === "false") return value === "true"
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  return value
+}
+
+function parseInlineList(raw: string): string[] {
+  const items: string[] = []
+  const pattern = /\s*("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)\s*(?:,|$)/g
+  for (const match of raw.slice(1, -1).matchAll(pattern)) {
+    if (match[1].trim()) items.push(String(parseScalar(match[1])))
+  }
+  return items
+}
+
+/**
+ * Splits a Markdown file into its YAML front matter and body. Only the
+ * subset Markdown tools write is understood: scalars, inline lists and
+ * "- item" block lists. Anything else is ignored rather than rejected.
+ */
+export function parseFrontMatter(text: string): {
+  fields: Record<string, FrontMatterValue>
+  body: string
+} {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text)
+  if (!match) {
+    return { fields: {}, body: text }
+  }
+
+  const fields: Record<string, FrontMatterValue> = {}
+  let listKey: string | null = null
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s+-\s+(.*)$/.exec(line) || /^-\s+(.*)$/.exec(line)
+    if (item && listKey) {
+      ;(fields[listKey] as string[]).push(String(parseScalar(item[1])))
+      continue
+    }
+
+    const entry = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line)
+    if (!entry) continue
+
+    const [, key, raw] = entry
+    listKey = null
+    if (!raw.trim()) {
+      fields[key] = []
+      listKey = key
+    } else if (raw.trim().startsWith("[") && raw.trim().endsWith("]")) {
+      fields[key] = parseInlineList(raw.trim())
+    } else {
+      fields[key] = parseScalar(raw)
+    }
+  }
+
+  return { fields, body: text.slice(match[0].length) }
+}
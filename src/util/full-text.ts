@@ -0,0 +1,446 @@
+export interface TextToken {
+  term: string
+  position: number
+  start: number
+  end: number
+}
+
+export interface IndexedDocument {
+  length: number
+  terms: Record<string, number[]>
+  titleTerms: Record<string, number>
+}
+
+export interface FullTextCorpus {
+  documents: Map<string, IndexedDocument>
+  postings: Map<string, Set<string>>
+  totalLength: number
+}
+
+export interface SearchPhrase {
+  terms: Array<{ term: string; offset: number }>
+}
+
+export interface ParsedSearchQuery {
+  terms: string[]
+  phrases: SearchPhrase[]
+  prefix: string | null
+}
+
+export interface TextSnippet {
+  text: string
+  highlights: Array<[number, number]>
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const TITLE_WEIGHT = 2
+const MIN_PREFIX_LENGTH = 2
+
+const STOP_WORDS = new Set([
+  "a",
+  "about",
+  "after",
+  "all",
+  "also",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "been",
+  "but",
+  "by",
+  "can",
+  "could",
+  "did",
+  "do",
+  "does",
+  "for",
+  "from",
+  "had",
+  "has",
+  "have",
+  "he",
+  "her",
+  "his",
+  "how",
+  "i",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "me",
+  "my",
+  "no",
+  "not",
+  "of",
+  "on",
+  "or",
+  "our",
+  "she",
+  "so",
+  "than",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "to",
+  "too",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "which",
+  "who",
+  "will",
+  "with",
+  "would",
+  "you",
+  "your"
+])
+
+const STEM_SUFFIXES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["iveness", "ive"],
+  ["ations", "ate"],
+  ["ation", "ate"],
+  ["ions", ""],
+  ["ion", ""],
+  ["ments", ""],
+  ["ment", ""],
+  ["ness", ""],
+  ["ingly", ""],
+  ["edly", ""],
+  ["ings", ""],
+  ["ing", ""],
+  ["ies", "y"],
+  ["ied", "y"],
+  ["ers", ""],
+  ["er", ""],
+  ["eed", "ee"],
+  ["ed", ""],
+  ["ly", ""],
+  ["es", ""],
+  ["s", ""]
+]
+
+const UNDOUBLE_SUFFIXES = new Set(["ing", "ings", "ed", "er", "ers"])
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+function foldDiacritics(word: string): string {
+  return word.normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+}
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word)
+}
+
+export function stemWord(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) {
+    return word
+  }
+
+  for (const [suffix, replacement] of STEM_SUFFIXES) {
+    if (!word.endsWith(suffix)) continue
+    if ((suffix === "s" || suffix === "es") && word.endsWith("ss")) break
+
+    const stem = word.slice(0, -suffix.length) + replacement
+    if (stem.length < 3) continue
+
+    if (
+      UNDOUBLE_SUFFIXES.has(suffix) &&
+      /([b-df-hj-np-tv-z])\1$/.test(stem) &&
+      !/(ll|ss|zz)$/.test(stem)
+    ) {
+      return stem.slice(0, -1)
+    }
+
+    return stem
+  }
+
+  return word
+}
+
+export function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = []
+  let position = 0
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = foldDiacritics(match[0].toLowerCase())
+    const start = match.index ?? 0
+
+    if (!isStopWord(word)) {
+      tokens.push({
+        term: stemWord(word),
+        position,
+        start,
+        end: start + match[0].length
+      })
+    }
+    position++
+  }
+
+  return tokens
+}
+
+export function buildIndexedDocument(
+  title: string,
+  body: string
+): IndexedDocument {
+  const terms: Record<string, number[]> = {}
+  const titleTerms: Record<string, number> = {}
+
+  for (const token of tokenize(title)) {
+    titleTerms[token.term] = (titleTerms[token.term] || 0) + 1
+  }
+
+  const bodyTokens = tokenize(body)
+  for (const token of bodyTokens) {
+    if (!terms[token.term]) terms[token.term] = []
+    terms[token.term].push(token.position)
+  }
+
+  return {
+    length: bodyTokens.length + Object.keys(titleTerms).length,
+    terms,
+    titleTerms
+  }
+}
+
+export function createCorpus(): FullTextCorpus {
+  return { documents: new Map(), postings: new Map(), totalLength: 0 }
+}
+
+export function removeFromCorpus(corpus: FullTextCorpus, id: string): void {
+  const existing = corpus.documents.get(id)
+  if (!existing) return
+
+  const allTerms = new Set([
+    ...Object.keys(existing.terms),
+    ...Object.keys(existing.titleTerms)
+  ])
+  for (const term of allTerms) {
+    const ids = corpus.postings.get(term)
+    ids?.delete(id)
+    if (ids?.size === 0) corpus.postings.delete(term)
+  }
+
+  corpus.totalLength -= existing.length
+  corpus.documents.delete(id)
+}
+
+export function addToCorpus(
+  corpus: FullTextCorpus,
+  id: string,
+  document: IndexedDocument
+): void {
+  removeFromCorpus(corpus, id)
+
+  const allTerms = new Set([
+    ...Object.keys(document.terms),
+    ...Object.keys(document.titleTerms)
+  ])
+  for (const term of allTerms) {
+    if (!corpus.postings.has(term)) corpus.postings.set(term, new Set())
+    corpus.postings.get(term)!.add(id)
+  }
+
+  corpus.totalLength += document.length
+  corpus.documents.set(id, document)
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const phrases: SearchPhrase[] = []
+  const unquoted = query.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase)
+    if (tokens.length > 0) {
+      phrases.push({
+        terms: tokens.map((token) => ({
+          term: token.term,
+          offset: token.position - tokens[0].position
+        }))
+      })
+    }
+    return " "
+  })
+
+  const terms = new Set<string>()
+  phrases.forEach((phrase) => phrase.terms.forEach((t) => terms.add(t.term)))
+  tokenize(unquoted).forEach((token) => terms.add(token.term))
+
+  let prefix: string | null = null
+  const lastWord = unquoted.match(/([\p{L}\p{N}]+)$/u)?.[1]
+  if (lastWord && !/\s$/.test(query)) {
+    const folded = foldDiacritics(lastWord.toLowerCase())
+    if (folded.length >= MIN_PREFIX_LENGTH) prefix = folded
+  }
+
+  return { terms: Array.from(terms), phrases, prefix }
+}
+
+function matchesPhrase(document: IndexedDocument, phrase: SearchPhrase) {
+  const [first, ...rest] = phrase.terms
+  const startPositions = document.terms[first.term] || []
+
+  return startPositions.some((start) =>
+    rest.every((part) =>
+      (document.terms[part.term] || []).includes(start + part.offset)
+    )
+  )
+}
+
+function expandQueryTerms(
+  corpus: FullTextCorpus,
+  query: ParsedSearchQuery
+): string[][] {
+  const groups = query.terms.map((term) => [term])
+
+  if (query.prefix) {
+    const expansions = Array.from(corpus.postings.keys()).filter((term) =>
+      term.startsWith(query.prefix!)
+    )
+    const prefixStem = stemWord(query.prefix)
+    const group = groups.find((candidates) => candidates[0] === prefixStem)
+
+    if (group) {
+      group.push(...expansions.filter((term) => term !== prefixStem))
+    } else if (expansions.length > 0) {
+      groups.push(expansions)
+    }
+  }
+
+  return groups
+}
+
+export function rankDocuments(
+  corpus: FullTextCorpus,
+  query: ParsedSearchQuery
+): Array<{ id: string; score: number; matchedTerms: string[] }> {
+  const documentCount = corpus.documents.size
+  if (documentCount === 0) return []
+
+  const averageLength = corpus.totalLength / documentCount || 1
+  const groups = expandQueryTerms(corpus, query)
+  const scores = new Map<string, { score: number; matchedTerms: string[] }>()
+
+  for (const group of groups) {
+    const groupScores = new Map<string, { score: number; term: string }>()
+
+    for (const term of group) {
+      const ids = corpus.postings.get(term)
+      if (!ids) continue
+
+      const idf = Math.log(
+        1 + (documentCount - ids.size + 0.5) / (ids.size + 0.5)
+      )
+
+      for (const id of ids) {
+        const document = corpus.documents.get(id)!
+        const frequency =
+          (document.terms[term]?.length || 0) +
+          TITLE_WEIGHT * (document.titleTerms[term] || 0)
+        const score =
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency +
+            BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength))
+
+        if (score > (groupScores.get(id)?.score || 0)) {
+          groupScores.set(id, { score, term })
+        }
+      }
+    }
+
+    for (const [id, { score, term }] of groupScores) {
+      const entry = scores.get(id) || { score: 0, matchedTerms: [] }
+      entry.score += score
+      entry.matchedTerms.push(term)
+      scores.set(id, entry)
+    }
+  }
+
+  return Array.from(scores.entries())
+    .filter(([id]) =>
+      query.phrases.every((phrase) =>
+        matchesPhrase(corpus.documents.get(id)!, phrase)
+      )
+    )
+    .map(([id, entry]) => ({ id, ...entry }))
+    .sort((a, b) => b.score - a.score)
+}
+
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`~|]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  maxLength: number = 160
+): TextSnippet {
+  const matchedTerms = new Set(terms)
+  const matches = tokenize(text).filter((token) => matchedTerms.has(token.term))
+
+  let windowStart = 0
+  let bestCount = 0
+  for (let i = 0; i < matches.length; i++) {
+    let count = 0
+    while (
+      i + count < matches.length &&
+      matches[i + count].end - matches[i].start <= maxLength
+    ) {
+      count++
+    }
+    if (count > bestCount) {
+      bestCount = count
+      windowStart = matches[i].start
+    }
+  }
+
+  let start = Math.max(0, windowStart - Math.floor(maxLength / 4))
+  if (start > 0) {
+    const wordBoundary = text.indexOf(" ", start)
+    if (wordBoundary !== -1 && wordBoundary < windowStart) {
+      start = wordBoundary + 1
+    }
+  }
+
+  let end = Math.min(text.length, start + maxLength)
+  if (end < text.length) {
+    const wordBoundary = text.lastIndexOf(" ", end)
+    if (wordBoundary > start) end = wordBoundary
+  }
+
+  const prefix = start > 0 ? "…" : ""
+  const suffix = end < text.length ? "…" : ""
+  const highlights = matches
+    .filter((match) => match.start >= start && match.end <= end)
+    .map((match): [number, number] => [
+      match.start - start + prefix.length,
+      match.end - start + prefix.length
+    ])
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights
+  }
+}
@@ -0,0 +1,118 @@
+export const ANN_MIN_COLLECTION_SIZE = 1000
+
+const MIN_LIST_COUNT = 16
+const MAX_LIST_COUNT = 1024
+const TRAINING_SAMPLES_PER_LIST = 32
+const TRAINING_ITERATIONS = 10
+
+export function chooseListCount(collectionSize: number): number {
+  return Math.max(
+    MIN_LIST_COUNT,
+    Math.min(MAX_LIST_COUNT, Math.round(Math.sqrt(collectionSize)))
+  )
+}
+
+export function chooseProbeCount(listCount: number): number {
+  return Math.min(listCount, Math.max(4, Math.ceil(listCount * 0.1)))
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(dot(vector, vector))
+  return magnitude === 0 ? vector : vector.map((value) => value / magnitude)
+}
+
+function sampleVectors(vectors: number[][], count: number): number[][] {
+  if (vectors.length <= count) return vectors
+
+  const pool = vectors.slice()
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (pool.length - i))
+    const swap = pool[i]
+    pool[i] = pool[j]
+    pool[j] = swap
+  }
+  return pool.slice(0, count)
+}
+
+function initializeCentroids(
+  vectors: number[][],
+  listCount: number
+): number[][] {
+  const centroids = [vectors[Math.floor(Math.random() * vectors.length)]]
+  const distances = vectors.map(() => Infinity)
+
+  while (centroids.length < listCount) {
+    const latest = centroids[centroids.length - 1]
+    let total = 0
+
+    for (let i = 0; i < vectors.length; i++) {
+      distances[i] = Math.min(distances[i], 1 - dot(vectors[i], latest))
+      total += Math.max(0, distances[i])
+    }
+
+    if (total === 0) break
+
+    let target = Math.random() * total
+    let chosen = vectors.length - 1
+    for (let i = 0; i < vectors.length; i++) {
+      target -= Math.max(0, distances[i])
+      if (target <= 0) {
+        chosen = i
+        break
+      }
+    }
+    centroids.push(vectors[chosen])
+  }
+
+  return centroids.map((centroid) => centroid.slice())
+}
+
+export function nearestCentroids(
+  centroids: number[][],
+  vector: number[],
+  count: number
+): number[] {
+  return centroids
+    .map((centroid, index) => ({ index, score: dot(centroid, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ index }) => index)
+}
+
+export function trainCentroids(
+  vectors: number[][],
+  listCount: number
+): number[][] {
+  const samples = sampleVectors(
+    vectors.map(normalize),
+    listCount * TRAINING_SAMPLES_PER_LIST
+  )
+  let centroids = initializeCentroids(samples, listCount)
+
+  for (let iteration = 0; iteration < TRAINING_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => new Array(samples[0].length).fill(0))
+    const counts = centroids.map(() => 0)
+
+    for (const sample of samples) {
+      const [nearest] = nearestCentroids(centroids, sample, 1)
+      counts[nearest]++
+      for (let d = 0; d < sample.length; d++) {
+        sums[nearest][d] += sample[d]
+      }
+    }
+
+    centroids = centroids.map((centroid, index) =>
+      counts[index] > 0 ? normalize(sums[index]) : centroid
+    )
+  }
+
+  return centroids
+}
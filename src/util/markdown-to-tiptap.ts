@@ -2,6 +2,37 @@ import { marked } from "marked"
 
 import { logger } from "~utils/logger"
 
+const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+marked.use({
+  extensions: [
+    {
+      name: "wikiLink",
+      level: "inline",
+      start: (src: string) => {
+        const index = src.indexOf("[[")
+        return index === -1 ? undefined : index
+      },
+      tokenizer: (src: string) => {
+        const match = /^\[\[([^[\]\n]+)\]\]/.exec(src)
+        if (match) {
+          return { type: "wikiLink", raw: match[0], title: match[1].trim() }
+        }
+        return undefined
+      },
+      renderer: (token) => {
+        const title = escapeHTML(token.title)
+        return `<span data-wiki-link="" data-title="${title}">[[${title}]]</span>`
+      }
+    }
+  ]
+})
+
 export async function markdownToTipTapHTML(markdown: string): Promise<string> {
   try {
     const html = await marked.parse(markdown, {
@@ -0,0 +1,127 @@
+import { tiptapBlockToMarkdown } from "~util/tiptap-to-markdown"
+
+export interface NoteChunk {
+  index: number
+  headingPath: string[]
+  text: string
+  start: number
+  end: number
+}
+
+interface NoteSection {
+  headingPath: string[]
+  start: number
+  end: number
+}
+
+export const MAX_CHUNK_CHARS = 1200
+export const CHUNK_OVERLAP_CHARS = 200
+
+function getNodeText(node: any): string {
+  if (typeof node?.text === "string") return node.text
+  return (node?.content || []).map(getNodeText).join("")
+}
+
+function buildSections(
+  doc: any | null,
+  fallbackText: string
+): { text: string; sections: NoteSection[] } {
+  if (!doc?.content?.length) {
+    return {
+      text: fallbackText,
+      sections: [{ headingPath: [], start: 0, end: fallbackText.length }]
+    }
+  }
+
+  const sections: NoteSection[] = []
+  const headingStack: string[] = []
+  let current: NoteSection = { headingPath: [], start: 0, end: 0 }
+  let text = ""
+
+  for (const node of doc.content) {
+    if (node.type === "heading") {
+      if (current.end > current.start) sections.push(current)
+
+      const level = Math.max(1, Math.min(6, node.attrs?.level || 1))
+      headingStack.length = Math.min(headingStack.length, level - 1)
+      headingStack.push(getNodeText(node).trim())
+      current = {
+        headingPath: headingStack.filter(Boolean),
+        start: text.length,
+        end: text.length
+      }
+    }
+
+    text += tiptapBlockToMarkdown(node)
+    current.end = text.length
+  }
+
+  if (current.end > current.start) sections.push(current)
+
+  const leadingWhitespace = text.length - text.trimStart().length
+  const trimmedText = text.trim()
+
+  return {
+    text: trimmedText,
+    sections: sections.map((section) => ({
+      ...section,
+      start: Math.max(0, section.start - leadingWhitespace),
+      end: Math.min(trimmedText.length, section.end - leadingWhitespace)
+    }))
+  }
+}
+
+function findBreak(text: string, from: number, to: number): number {
+  const window = text.slice(from, to)
+
+  for (const separator of ["\n\n", "\n", ". ", " "]) {
+    const index = window.lastIndexOf(separator)
+    if (index > window.length / 2) {
+      return from + index + separator.length
+    }
+  }
+
+  return to
+}
+
+export function chunkNoteContent(
+  doc: any | null,
+  fallbackText: string
+): NoteChunk[] {
+  const { text, sections } = buildSections(doc, fallbackText)
+  const chunks: NoteChunk[] = []
+
+  for (const section of sections) {
+    let start = section.start
+
+    while (start < section.end) {
+      const limit = Math.min(section.end, start + MAX_CHUNK_CHARS)
+      const end =
+        limit < section.end ? findBreak(text, start, limit) : section.end
+      const chunkText = text.slice(start, end).trim()
+
+      if (chunkText) {
+        chunks.push({
+          index: chunks.length,
+          headingPath: section.headingPath,
+          text: chunkText,
+          start,
+          end
+        })
+      }
+
+      if (end >= section.end) break
+
+      const overlapStart = Math.max(start + 1, end - CHUNK_OVERLAP_CHARS)
+      const wordStart = text.indexOf(" ", overlapStart)
+      start = wordStart !== -1 && wordStart < end ? wordStart + 1 : end
+    }
+  }
+
+  return chunks
+}
+
+export function getChunkEmbeddingText(title: string, chunk: NoteChunk): string {
+  const context = [title, ...chunk.headingPath].filter(Boolean).join(" > ")
+  return context ? `${context}\n\n${chunk.text}` : chunk.text
+}
@@ -0,0 +1,36 @@
+export type NoteColor =
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "teal"
+  | "blue"
+  | "darkblue"
+  | "purple"
+  | "pink"
+  | "brown"
+  | "gray"
+
+export interface NoteColorStyle {
+  bg: string
+  border: string
+  text: string
+}
+
+export const NOTE_COLORS: Record<NoteColor, NoteColorStyle> = {
+  red: { bg: "#FEE2E2", border: "#FCA5A5", text: "#7F1D1D" },
+  orange: { bg: "#FFEDD5", border: "#FDBA74", text: "#7C2D12" },
+  yellow: { bg: "#FEF3C7", border: "#FCD34D", text: "#78350F" },
+  green: { bg: "#DCFCE7", border: "#86EFAC", text: "#14532D" },
+  teal: { bg: "#CCFBF1", border: "#5EEAD4", text: "#134E4A" },
+  blue: { bg: "#E0F2FE", border: "#7DD3FC", text: "#0C4A6E" },
+  darkblue: { bg: "#DBEAFE", border: "#93C5FD", text: "#1E3A8A" },
+  purple: { bg: "#E9D5FF", border: "#D8B4FE", text: "#581C87" },
+  pink: { bg: "#FCE7F3", border: "#F9A8D4", text: "#831843" },
+  brown: { bg: "#EFEBE9", border: "#D7CCC8", text: "#3E2723" },
+  gray: { bg: "#F1F5F9", border: "#CBD5E1", text: "#1E293B" }
+}
+
+export function isNoteColor(value: unknown): value is NoteColor {
+  return typeof value === "string" && value in NOTE_COLORS
+}
@@ -0,0 +1,31 @@
+export interface RankedList {
+  weight: number
+  ids: string[]
+}
+
+export interface FusedRanking {
+  id: string
+  score: number
+  ranks: Array<number | null>
+}
+
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  k: number = 60
+): FusedRanking[] {
+  const fused = new Map<string, FusedRanking>()
+
+  lists.forEach((list, listIndex) => {
+    list.ids.forEach((id, index) => {
+      if (!fused.has(id)) {
+        fused.set(id, { id, score: 0, ranks: lists.map(() => null) })
+      }
+
+      const entry = fused.get(id)!
+      entry.ranks[listIndex] = index + 1
+      entry.score += list.weight / (k + index + 1)
+    })
+  })
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+}
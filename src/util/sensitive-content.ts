@@ -0,0 +1,142 @@
+export type SensitiveKind =
+  | "password"
+  | "api-key"
+  | "private-key"
+  | "card-number"
+
+export interface SensitiveMatch {
+  kind: SensitiveKind
+  start: number
+  end: number
+}
+
+export const MASKED_VALUE = "••••••••"
+
+// "Password: hunter2", "**API key**: abc..." — only the value is matched
+const LABELED_VALUE_PATTERNS: Array<{ kind: SensitiveKind; pattern: RegExp }> =
+  [
+    {
+      kind: "password",
+      pattern:
+        /\b(?:password|passwd|pwd|passcode|pin)\b[*_]*\s*[:=][*_]*\s*([^\s*_]\S*)/gi
+    },
+    {
+      kind: "api-key",
+      pattern:
+        /\b(?:api[_ -]?key|secret(?:[_ -]?key)?|access[_ -]?key|(?:access|auth|api)[_ -]?token)\b[*_]*\s*[:=][*_]*\s*([^\s*_]\S{7,})/gi
+    }
+  ]
+
+const TOKEN_PATTERNS: RegExp[] = [
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g
+]
+
+const PRIVATE_KEY_PATTERN =
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g
+
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g
+
+function passesLuhnCheck(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function mergeOverlapping(matches: SensitiveMatch[]): SensitiveMatch[] {
+  const sorted = [...matches].sort((a, b) => a.start - b.start)
+  const merged: SensitiveMatch[] = []
+
+  for (const match of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && match.start <= last.end) {
+      last.end = Math.max(last.end, match.end)
+    } else {
+      merged.push({ ...match })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Finds passwords, API keys, private keys and card numbers in text. Only
+ * the secret value itself is matched, so labels stay readable when masked.
+ */
+export function findSensitiveValues(text: string): SensitiveMatch[] {
+  if (!text) return []
+
+  const matches: SensitiveMatch[] = []
+
+  for (const { kind, pattern } of LABELED_VALUE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const end = match.index! + match[0].length
+      matches.push({ kind, start: end - match[1].length, end })
+    }
+  }
+
+  for (const pattern of TOKEN_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      matches.push({
+        kind: "api-key",
+        start: match.index!,
+        end: match.index! + match[0].length
+      })
+    }
+  }
+
+  for (const match of text.matchAll(PRIVATE_KEY_PATTERN)) {
+    matches.push({
+      kind: "private-key",
+      start: match.index!,
+      end: match.index! + match[0].length
+    })
+  }
+
+  for (const match of text.matchAll(CARD_NUMBER_PATTERN)) {
+    const digits = match[0].replace(/\D/g, "")
+    if (digits.length >= 13 && passesLuhnCheck(digits)) {
+      matches.push({
+        kind: "card-number",
+        start: match.index!,
+        end: match.index! + match[0].length
+      })
+    }
+  }
+
+  return mergeOverlapping(matches)
+}
+
+export function containsSensitiveContent(text: string): boolean {
+  return findSensitiveValues(text).length > 0
+}
+
+// Notes saved before the flag existed are checked by content
+export function isSensitiveNote(note: {
+  sensitive?: boolean
+  contentPlaintext: string
+}): boolean {
+  return note.sensitive ?? containsSensitiveContent(note.contentPlaintext)
+}
+
+export function maskSensitiveValues(text: string): string {
+  let masked = ""
+  let position = 0
+
+  for (const match of findSensitiveValues(text)) {
+    masked += text.slice(position, match.start) + MASKED_VALUE
+    position = match.end
+  }
+
+  return masked + text.slice(position)
+}
@@ -0,0 +1,179 @@
+export type DiffLineType = "equal" | "insert" | "delete"
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+export interface SideBySideRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+const MAX_LCS_CELLS = 4000000
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  return text.replace(/\r\n/g, "\n").split("\n")
+}
+
+function computeLcsTable(oldLines: string[], newLines: string[]): Uint32Array {
+  const cols = newLines.length + 1
+  const table = new Uint32Array((oldLines.length + 1) * cols)
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        oldLines[i] === newLines[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1])
+    }
+  }
+
+  return table
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+  const result: DiffLine[] = []
+
+  let prefix = 0
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({
+      type: "equal",
+      text: oldLines[i],
+      oldLineNumber: i + 1,
+      newLineNumber: i + 1
+    })
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    oldMiddle.forEach((text, index) =>
+      result.push({ type: "delete", text, oldLineNumber: prefix + index + 1 })
+    )
+    newMiddle.forEach((text, index) =>
+      result.push({ type: "insert", text, newLineNumber: prefix + index + 1 })
+    )
+  } else {
+    const table = computeLcsTable(oldMiddle, newMiddle)
+    const cols = newMiddle.length + 1
+    let i = 0
+    let j = 0
+
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (
+        i < oldMiddle.length &&
+        j < newMiddle.length &&
+        oldMiddle[i] === newMiddle[j]
+      ) {
+        result.push({
+          type: "equal",
+          text: oldMiddle[i],
+          oldLineNumber: prefix + i + 1,
+          newLineNumber: prefix + j + 1
+        })
+        i++
+        j++
+      } else if (
+        i < oldMiddle.length &&
+        (j >= newMiddle.length ||
+          table[(i + 1) * cols + j] >= table[i * cols + j + 1])
+      ) {
+        result.push({
+          type: "delete",
+          text: oldMiddle[i],
+          oldLineNumber: prefix + i + 1
+        })
+        i++
+      } else {
+        result.push({
+          type: "insert",
+          text: newMiddle[j],
+          newLineNumber: prefix + j + 1
+        })
+        j++
+      }
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = oldLines.length - suffix + k
+    const newIndex = newLines.length - suffix + k
+    result.push({
+      type: "equal",
+      text: oldLines[oldIndex],
+      oldLineNumber: oldIndex + 1,
+      newLineNumber: newIndex + 1
+    })
+  }
+
+  return result
+}
+
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let pendingDeletes: DiffLine[] = []
+  let pendingInserts: DiffLine[] = []
+
+  const flush = () => {
+    const count = Math.max(pendingDeletes.length, pendingInserts.length)
+    for (let i = 0; i < count; i++) {
+      rows.push({ left: pendingDeletes[i], right: pendingInserts[i] })
+    }
+    pendingDeletes = []
+    pendingInserts = []
+  }
+
+  for (const line of lines) {
+    if (line.type === "delete") {
+      pendingDeletes.push(line)
+    } else if (line.type === "insert") {
+      pendingInserts.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+
+  flush()
+  return rows
+}
+
+export function summarizeDiff(lines: DiffLine[]): {
+  added: number
+  removed: number
+} {
+  let added = 0
+  let removed = 0
+
+  for (const line of lines) {
+    if (line.type === "insert") added++
+    if (line.type === "delete") removed++
+  }
+
+  return { added, removed }
+}
@@ -1,7 +1,9 @@
+import { toAttachmentUrl } from "~util/attachments"
 import { logger } from "~utils/logger"
 
-interface TipTapNode {
-  type: string
+// Editor JSON as returned by getJSON() or generateJSON(), or stored in a note
+export interface TipTapNode {
+  type?: string
   attrs?: Record<string, any>
   content?: TipTapNode[]
   text?: string
@@ -11,14 +13,9 @@ interface TipTapNode {
   }>
 }
 
-interface TipTapDoc {
-  type: "doc"
-  content: TipTapNode[]
-}
-
-export function tiptapToMarkdown(json: string | TipTapDoc): string {
+export function tiptapToMarkdown(json: string | TipTapNode): string {
   try {
-    const doc: TipTapDoc = typeof json === "string" ? JSON.parse(json) : json
+    const doc: TipTapNode = typeof json === "string" ? JSON.parse(json) : json
 
     if (!doc || doc.type !== "doc" || !doc.content) {
       return ""
@@ -31,6 +28,15 @@ export function tiptapToMarkdown(json: string | TipTapDoc): string {
   }
 }
 
+export function tiptapBlockToMarkdown(node: TipTapNode): string {
+  try {
+    return convertNode(node)
+  } catch (error) {
+    logger.error("Failed to convert TipTap block to Markdown:", error)
+    return ""
+  }
+}
+
 function convertNodes(
   nodes: TipTapNode[],
   context?: { inTable?: boolean; inList?: boolean }
@@ -67,6 +73,12 @@ function convertNode(
     case "listItem":
       return convertListItem(node, context)
 
+    case "taskList":
+      return convertBulletList(node)
+
+    case "taskItem":
+      return convertTaskItem(node)
+
     case "table":
       return convertTable(node)
 
@@ -86,6 +98,12 @@ function convertNode(
     case "image":
       return convertImage(node)
 
+    case "wikiLink":
+      return `[[${node.attrs?.title || ""}]]`
+
+    case "attachmentFile":
+      return `[${node.attrs?.name || "attachment"}](${toAttachmentUrl(node.attrs?.attachmentId)})`
+
     default:
       if (node.content) {
         return convertNodes(node.content, context)
@@ -192,6 +210,11 @@ function convertListItem(
   return `- ${cleanContent}\n`
 }
 
+function convertTaskItem(node: TipTapNode): string {
+  const content = node.content ? convertNodes(node.content).trim() : ""
+  return `- [${node.attrs?.checked ? "x" : " "}] ${content}\n`
+}
+
 function convertTable(node: TipTapNode): string {
   if (!node.content || node.content.length === 0) {
     return ""
@@ -241,9 +264,9 @@ function convertImage(node: TipTapNode): string {
   return `![${alt}](${src})\n\n`
 }
 
-export function tiptapToPlainText(json: string | TipTapDoc): string {
+export function tiptapToPlainText(json: string | TipTapNode): string {
   try {
-    const doc: TipTapDoc = typeof json === "string" ? JSON.parse(json) : json
+    const doc: TipTapNode = typeof json === "string" ? JSON.parse(json) : json
 
     if (!doc || doc.type !== "doc" || !doc.content) {
       return ""
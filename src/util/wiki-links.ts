@@ -0,0 +1,63 @@
+export interface WikiLinkReference {
+  noteId: string | null
+  title: string
+}
+
+interface TipTapJSONNode {
+  type: string
+  attrs?: Record<string, any>
+  content?: TipTapJSONNode[]
+  [key: string]: any
+}
+
+export function parseTipTapContent(content: string): TipTapJSONNode | null {
+  try {
+    const doc = JSON.parse(content)
+    return doc && doc.type === "doc" ? doc : null
+  } catch {
+    return null
+  }
+}
+
+export function extractWikiLinks(doc: TipTapJSONNode): WikiLinkReference[] {
+  const links = new Map<string, WikiLinkReference>()
+
+  const visit = (node: TipTapJSONNode) => {
+    if (node.type === "wikiLink" && node.attrs?.title) {
+      const title = String(node.attrs.title).trim()
+      const noteId = node.attrs.noteId || null
+      links.set(noteId || `title:${title.toLowerCase()}`, { noteId, title })
+    }
+    node.content?.forEach(visit)
+  }
+
+  visit(doc)
+  return Array.from(links.values())
+}
+
+export function rewriteWikiLinks(
+  doc: TipTapJSONNode,
+  target: { noteId: string; oldTitle: string },
+  newTitle: string
+): boolean {
+  let changed = false
+  const oldTitleLower = target.oldTitle.toLowerCase()
+
+  const visit = (node: TipTapJSONNode) => {
+    if (node.type === "wikiLink" && node.attrs) {
+      const matchesId = node.attrs.noteId === target.noteId
+      const matchesTitle =
+        !node.attrs.noteId &&
+        String(node.attrs.title || "").toLowerCase() === oldTitleLower
+
+      if (matchesId || matchesTitle) {
+        node.attrs = { ...node.attrs, noteId: target.noteId, title: newTitle }
+        changed = true
+      }
+    }
+    node.content?.forEach(visit)
+  }
+
+  visit(doc)
+  return changed
+}
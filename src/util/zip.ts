@@ -0,0 +1,215 @@
+export interface ZipEntry {
+  path: string
+  data: Uint8Array | string
+  modifiedAt?: number
+}
+
+export interface ZipFile extends ZipEntry {
+  data: Uint8Array
+}
+
+const METHOD_STORE = 0
+
+const METHOD_DEFLATE = 8
+
+// Bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp)
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date:
+      ((Math.max(d.getFullYear(), 1980) - 1980) << 9) |
+      ((d.getMonth() + 1) << 5) |
+      d.getDate()
+  }
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Builds a ZIP archive in memory. Entries are deflated unless that would
+ * make them larger (already compressed images, for example).
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const data =
+      typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data
+    const deflated = await deflateRaw(data)
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE
+    const stored = method === METHOD_DEFLATE ? deflated : data
+    const crc = crc32(data)
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? Date.now())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, FLAG_UTF8, true)
+    local.setUint16(8, method, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, stored.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, FLAG_UTF8, true)
+    central.setUint16(10, method, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, stored.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, stored)
+    centralDirectory.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + stored.length
+  }
+
+  const centralSize = centralDirectory.reduce(
+    (size, part) => size + part.length,
+    0
+  )
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], {
+    type: "application/zip"
+  })
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The end record is 22 bytes plus a comment of up to 64 KB
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let i = view.byteLength - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) return i
+  }
+  throw new Error("This file is not a ZIP archive")
+}
+
+/**
+ * Reads every file in a ZIP archive. Stored and deflated entries are
+ * supported; encrypted and ZIP64 archives are rejected.
+ */
+export async function readZip(blob: Blob): Promise<ZipFile[]> {
+  const buffer = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(buffer.buffer)
+  const decoder = new TextDecoder()
+
+  const end = findEndOfCentralDirectory(view)
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  if (position === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported")
+  }
+
+  const files: ZipFile[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) {
+      throw new Error("The ZIP archive is damaged")
+    }
+
+    const flags = view.getUint16(position + 8, true)
+    const method = view.getUint16(position + 10, true)
+    const time = view.getUint16(position + 12, true)
+    const date = view.getUint16(position + 14, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const path = decoder.decode(
+      buffer.subarray(position + 46, position + 46 + nameLength)
+    )
+    position += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith("/")) continue
+    if (flags & 1) {
+      throw new Error("Encrypted ZIP archives are not supported")
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true)
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Uint8Array
+    if (method === METHOD_STORE) {
+      data = raw.slice()
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflateRaw(raw)
+    } else {
+      throw new Error(`"${path}" uses an unsupported compression method`)
+    }
+
+    files.push({
+      path,
+      data,
+      modifiedAt: new Date(
+        (date >> 9) + 1980,
+        ((date >> 5) & 0xf) - 1,
+        date & 0x1f,
+        time >> 11,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+      ).getTime()
+    })
+  }
+
+  return files
+}
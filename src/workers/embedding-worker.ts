@@ -0,0 +1,121 @@
+import {
+  configureEmbeddingRuntime,
+  MAX_INFERENCE_BATCH_SIZE,
+  runBatchedInference
+} from "~services/embedding-runtime"
+import type {
+  EmbeddingWorkerRequest,
+  EmbeddingWorkerResponse
+} from "~types/embedding"
+
+type EmbedRequest = Extract<EmbeddingWorkerRequest, { type: "embed" }>
+
+const MAX_COALESCED_TEXTS = MAX_INFERENCE_BATCH_SIZE * 4
+
+const queue: EmbedRequest[] = []
+const cancelled = new Set<string>()
+let processing = false
+
+function respond(response: EmbeddingWorkerResponse) {
+  self.postMessage(response)
+}
+
+function takeBatch(): EmbedRequest[] {
+  const modelId = queue[0].modelId
+  const batch: EmbedRequest[] = []
+  let textCount = 0
+
+  for (let i = 0; i < queue.length; ) {
+    const request = queue[i]
+    const fits =
+      batch.length === 0 ||
+      textCount + request.texts.length <= MAX_COALESCED_TEXTS
+
+    if (request.modelId === modelId && fits) {
+      batch.push(request)
+      textCount += request.texts.length
+      queue.splice(i, 1)
+    } else {
+      i++
+    }
+  }
+
+  return batch
+}
+
+async function processQueue() {
+  if (processing) return
+  processing = true
+
+  while (queue.length > 0) {
+    const batch = takeBatch()
+    const isCancelled = () => batch.every(({ id }) => cancelled.has(id))
+
+    try {
+      const embeddings = await runBatchedInference(
+        batch[0].modelId,
+        batch.flatMap(({ texts }) => texts),
+        isCancelled
+      )
+
+      let offset = 0
+      for (const { id, texts } of batch) {
+        const slice = embeddings.slice(offset, offset + texts.length)
+        offset += texts.length
+
+        if (cancelled.delete(id)) {
+          respond({ type: "error", id, error: "cancelled", cancelled: true })
+        } else {
+          respond({ type: "result", id, embeddings: slice })
+        }
+      }
+    } catch (error) {
+      for (const { id } of batch) {
+        const wasCancelled = cancelled.delete(id)
+        respond({
+          type: "error",
+          id,
+          error: wasCancelled
+            ? "cancelled"
+            : error instanceof Error
+              ? error.message
+              : String(error),
+          cancelled: wasCancelled
+        })
+      }
+    }
+  }
+
+  processing = false
+}
+
+self.onmessage = (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case "configure":
+      configureEmbeddingRuntime(message.config)
+      break
+
+    case "embed":
+      queue.push(message)
+      processQueue()
+      break
+
+    case "cancel": {
+      const index = queue.findIndex(({ id }) => id === message.id)
+      if (index !== -1) {
+        queue.splice(index, 1)
+        respond({
+          type: "error",
+          id: message.id,
+          error: "cancelled",
+          cancelled: true
+        })
+      } else {
+        cancelled.add(message.id)
+      }
+      break
+    }
+  }
+}